@@ -10,7 +10,9 @@ import Dashboard from "@/pages/Dashboard";
 import Settings from "@/pages/Settings";
 import SkuUpload from "@/pages/SkuUpload";
 import Orders from "@/pages/Orders";
+import Returns from "@/pages/Returns";
 import Inventory from "@/pages/Inventory";
+import Restock from "@/pages/Restock";
 import InboundOrders from "@/pages/InboundOrders";
 
 function Router() {
@@ -19,7 +21,9 @@ function Router() {
       <Route path="/" component={Dashboard} />
       <Route path="/sku-upload" component={SkuUpload} />
       <Route path="/orders" component={Orders} />
+      <Route path="/returns" component={Returns} />
       <Route path="/inventory" component={Inventory} />
+      <Route path="/restock" component={Restock} />
       <Route path="/inbound-orders" component={InboundOrders} />
       <Route path="/settings" component={Settings} />
       <Route component={NotFound} />
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { BarChart3, Bell, Package, Settings, ShoppingCart, Truck, Upload } from "lucide-react";
+import { BarChart3, Bell, Package, PackagePlus, Settings, ShoppingCart, Truck, Undo2, Upload } from "lucide-react";
 import {
   Sidebar,
   SidebarContent,
@@ -27,11 +27,21 @@ const navItems = [
     url: "/orders",
     icon: ShoppingCart,
   },
+  {
+    title: "Returns",
+    url: "/returns",
+    icon: Undo2,
+  },
   {
     title: "Inventory",
     url: "/inventory",
     icon: Package,
   },
+  {
+    title: "Restock",
+    url: "/restock",
+    icon: PackagePlus,
+  },
   {
     title: "Inbound Orders",
     url: "/inbound-orders",
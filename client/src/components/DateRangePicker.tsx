@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import type { DateRange as DayPickerRange } from "react-day-picker";
+import { CalendarRange } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+// Calendar dates as YYYY-MM-DD, interpreted by the server in the marketplace's timezone
+export interface CustomDateRange {
+  startDate: string;
+  endDate: string;
+}
+
+interface DateRangePickerProps {
+  value: CustomDateRange | null;
+  onApply: (range: CustomDateRange) => void;
+  active?: boolean;
+  disabled?: boolean;
+}
+
+// Parse YYYY-MM-DD as a local calendar date (not UTC midnight)
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function formatLabel(range: CustomDateRange): string {
+  const start = parseDate(range.startDate);
+  const end = parseDate(range.endDate);
+  if (range.startDate === range.endDate) {
+    return format(start, "MMM d, yyyy");
+  }
+  return start.getFullYear() === end.getFullYear()
+    ? `${format(start, "MMM d")} – ${format(end, "MMM d, yyyy")}`
+    : `${format(start, "MMM d, yyyy")} – ${format(end, "MMM d, yyyy")}`;
+}
+
+export default function DateRangePicker({ value, onApply, active, disabled }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [selection, setSelection] = useState<DayPickerRange | undefined>(
+    value ? { from: parseDate(value.startDate), to: parseDate(value.endDate) } : undefined
+  );
+
+  const handleApply = () => {
+    if (!selection?.from) return;
+    onApply({
+      startDate: format(selection.from, "yyyy-MM-dd"),
+      endDate: format(selection.to ?? selection.from, "yyyy-MM-dd"),
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant={active ? "default" : "outline"}
+          size="sm"
+          disabled={disabled}
+          data-testid="button-custom-range"
+        >
+          <CalendarRange className="mr-2 h-4 w-4" />
+          {active && value ? formatLabel(value) : "Custom"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          selected={selection}
+          onSelect={setSelection}
+          defaultMonth={selection?.from}
+          disabled={{ after: new Date() }}
+          initialFocus
+        />
+        <div className="flex items-center justify-between gap-2 border-t p-3">
+          <span className="text-sm text-muted-foreground">
+            {selection?.from
+              ? formatLabel({
+                  startDate: format(selection.from, "yyyy-MM-dd"),
+                  endDate: format(selection.to ?? selection.from, "yyyy-MM-dd"),
+                })
+              : "Select a start and end date"}
+          </span>
+          <Button size="sm" onClick={handleApply} disabled={!selection?.from} data-testid="button-apply-range">
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
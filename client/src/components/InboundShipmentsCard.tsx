@@ -0,0 +1,484 @@
+import { Fragment, useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Warehouse,
+  RefreshCw,
+  Search,
+  AlertCircle,
+  AlertTriangle,
+  Truck,
+  ClipboardList,
+  ChevronDown,
+  ChevronRight,
+} from "lucide-react";
+import MarketplaceSelect from "@/components/MarketplaceSelect";
+import { useMarketplaces } from "@/hooks/use-marketplaces";
+
+interface SupplierSource {
+  orderId: string;
+  supplier: string | null;
+  orderDate: string | null;
+  deliveredAt: string | null;
+}
+
+interface ShipmentLine {
+  sellerSku: string;
+  fnSku: string | null;
+  asin: string | null;
+  productName: string | null;
+  quantityShipped: number;
+  quantityReceived: number;
+  quantityInCase: number;
+  discrepancy: number | null;
+  supplierOrder: SupplierSource | null;
+}
+
+interface InboundShipment {
+  shipmentId: string;
+  shipmentName: string | null;
+  status: string;
+  inboundPlanId: string | null;
+  planName: string | null;
+  destinationFulfillmentCenterId: string | null;
+  shipFromName: string | null;
+  unitsShipped: number;
+  unitsReceived: number;
+  discrepancy: number | null;
+  skuCount: number;
+  updatedAt: string;
+  items: ShipmentLine[];
+}
+
+interface InboundPlan {
+  inboundPlanId: string;
+  name: string | null;
+  status: string;
+  sourceName: string | null;
+  createdTime: string | null;
+  shipmentIds: string[];
+}
+
+interface InboundShipmentsResponse {
+  success: boolean;
+  data?: {
+    totals: {
+      openShipments: number;
+      unitsInTransit: number;
+      unitsShort: number;
+    };
+    shipments: InboundShipment[];
+    plans: InboundPlan[];
+    syncedAt: string | null;
+    syncStatus: string | null;
+    syncError: string | null;
+    isSyncing: boolean;
+  };
+  error?: string;
+}
+
+// How often to check on a running sync
+const SYNC_POLL_MS = 2000;
+
+const SHIPMENT_STATUSES = [
+  "WORKING",
+  "SHIPPED",
+  "IN_TRANSIT",
+  "DELIVERED",
+  "CHECKED_IN",
+  "RECEIVING",
+  "CLOSED",
+  "CANCELLED",
+];
+
+function formatStatus(status: string): string {
+  return status.charAt(0) + status.slice(1).toLowerCase().replace(/_/g, " ");
+}
+
+function formatDate(dateString: string | null): string {
+  return dateString ? new Date(dateString).toLocaleDateString() : "—";
+}
+
+function getStatusBadge(status: string) {
+  switch (status) {
+    case "CLOSED":
+      return <Badge variant="default" className="bg-green-600">Closed</Badge>;
+    case "RECEIVING":
+    case "CHECKED_IN":
+    case "DELIVERED":
+      return <Badge variant="secondary" className="bg-blue-600 text-white">{formatStatus(status)}</Badge>;
+    case "SHIPPED":
+    case "IN_TRANSIT":
+      return <Badge variant="secondary">{formatStatus(status)}</Badge>;
+    case "CANCELLED":
+    case "DELETED":
+    case "ERROR":
+      return <Badge variant="destructive">{formatStatus(status)}</Badge>;
+    default:
+      return <Badge variant="outline">{formatStatus(status)}</Badge>;
+  }
+}
+
+function renderDiscrepancy(discrepancy: number | null) {
+  if (discrepancy === null) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  if (discrepancy === 0) {
+    return <span className="text-green-600">0</span>;
+  }
+  return (
+    <span className={discrepancy < 0 ? "text-red-600 dark:text-red-400 font-medium" : "text-amber-600 font-medium"}>
+      {discrepancy > 0 ? "+" : ""}{discrepancy.toLocaleString()}
+    </span>
+  );
+}
+
+export default function InboundShipmentsCard() {
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<InboundShipmentsResponse | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { marketplaces, defaultMarketplaceId } = useMarketplaces();
+  const [marketplaceId, setMarketplaceId] = useState<string | null>(null);
+
+  const fetchShipments = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const params = new URLSearchParams();
+      if (marketplaceId) {
+        params.set("marketplaceId", marketplaceId);
+      }
+      if (statusFilter !== "all") {
+        params.set("status", statusFilter);
+      }
+
+      const response = await fetch(`/api/inbound/shipments?${params.toString()}`);
+      const data = await response.json();
+      setResult(data);
+    } catch (error) {
+      setResult({
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch inbound shipments",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [marketplaceId, statusFilter]);
+
+  useEffect(() => {
+    fetchShipments();
+  }, [fetchShipments]);
+
+  // Pull changed shipments and plans from Amazon, then reload
+  const syncShipments = async () => {
+    setSyncing(true);
+    setSyncError(null);
+
+    try {
+      const response = await fetch("/api/inbound/sync", { method: "POST" });
+      const data = await response.json();
+      // 409 means a scheduled sync is already running; wait for that one instead
+      if (!data.success && response.status !== 409) {
+        throw new Error(data.error || "Failed to start inbound shipment sync");
+      }
+
+      const poll = setInterval(async () => {
+        try {
+          const statusResponse = await fetch("/api/inbound/sync-status");
+          const status = await statusResponse.json();
+          if (!status.data?.progress?.isRunning) {
+            clearInterval(poll);
+            setSyncing(false);
+            setSyncError(status.data?.progress?.lastError || null);
+            fetchShipments();
+          }
+        } catch (error) {
+          clearInterval(poll);
+          setSyncing(false);
+          setSyncError(error instanceof Error ? error.message : "Failed to check sync status");
+        }
+      }, SYNC_POLL_MS);
+    } catch (error) {
+      setSyncing(false);
+      setSyncError(error instanceof Error ? error.message : "Failed to start inbound shipment sync");
+    }
+  };
+
+  const data = result?.data;
+  const shipments = data?.shipments || [];
+  const filteredShipments = shipments.filter((shipment) => {
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return (
+      shipment.shipmentId.toLowerCase().includes(query) ||
+      shipment.shipmentName?.toLowerCase().includes(query) ||
+      shipment.planName?.toLowerCase().includes(query) ||
+      shipment.destinationFulfillmentCenterId?.toLowerCase().includes(query) ||
+      shipment.items.some(
+        (item) =>
+          item.sellerSku.toLowerCase().includes(query) ||
+          item.productName?.toLowerCase().includes(query) ||
+          item.supplierOrder?.supplier?.toLowerCase().includes(query)
+      )
+    );
+  });
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Warehouse className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">FBA Inbound Shipments</CardTitle>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={syncShipments}
+              disabled={syncing || loading}
+              data-testid="button-sync-inbound-shipments"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? "animate-spin" : ""}`} />
+              {syncing ? "Syncing..." : "Sync"}
+            </Button>
+            <p className="text-xs text-muted-foreground" data-testid="text-inbound-synced-at">
+              {data?.syncedAt ? `Last synced ${new Date(data.syncedAt).toLocaleString()}` : "Not synced yet"}
+            </p>
+          </div>
+        </div>
+        <CardDescription>
+          Shipments sent to Amazon fulfillment centers, with units received per SKU and the supplier order they came from
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search shipment, plan, SKU or supplier..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+              data-testid="input-search-inbound-shipments"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-full sm:w-44" data-testid="select-inbound-shipment-status">
+              <SelectValue placeholder="All statuses" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {SHIPMENT_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>{formatStatus(status)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <MarketplaceSelect
+            marketplaces={marketplaces}
+            value={marketplaceId ?? defaultMarketplaceId}
+            onChange={setMarketplaceId}
+          />
+        </div>
+
+        {result && !result.success && (
+          <div className="flex items-start gap-2 rounded-md bg-red-50 dark:bg-red-950/30 p-3 text-sm text-red-600 dark:text-red-400">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <p className="font-mono">{result.error}</p>
+          </div>
+        )}
+
+        {(syncError || data?.syncStatus === "failed") && (
+          <div className="rounded-lg bg-amber-50 dark:bg-amber-950/30 p-4 flex items-start gap-3">
+            <AlertCircle className="h-5 w-5 text-amber-600 mt-0.5" />
+            <div>
+              <p className="font-medium text-amber-600">Inbound shipment sync failed, showing the last synced data</p>
+              <p className="text-sm text-amber-600/80 font-mono mt-1">{syncError || data?.syncError}</p>
+            </div>
+          </div>
+        )}
+
+        {loading && !data && (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {result?.success && data && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Warehouse className="h-4 w-4" />
+                  <span className="text-sm font-medium">Open Shipments</span>
+                </div>
+                <p className="text-2xl font-bold" data-testid="text-inbound-open-shipments">{data.totals.openShipments}</p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Truck className="h-4 w-4" />
+                  <span className="text-sm font-medium">Units In Transit</span>
+                </div>
+                <p className="text-2xl font-bold text-blue-600" data-testid="text-inbound-units-in-transit">
+                  {data.totals.unitsInTransit.toLocaleString()}
+                </p>
+                <p className="text-xs text-muted-foreground">sent and not yet received</p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <AlertTriangle className="h-4 w-4" />
+                  <span className="text-sm font-medium">Units Short</span>
+                </div>
+                <p
+                  className={`text-2xl font-bold ${data.totals.unitsShort > 0 ? "text-red-600 dark:text-red-400" : ""}`}
+                  data-testid="text-inbound-units-short"
+                >
+                  {data.totals.unitsShort.toLocaleString()}
+                </p>
+                <p className="text-xs text-muted-foreground">never received on closed shipments</p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <ClipboardList className="h-4 w-4" />
+                  <span className="text-sm font-medium">Inbound Plans</span>
+                </div>
+                <p className="text-2xl font-bold" data-testid="text-inbound-plans">{data.plans.length}</p>
+                <p className="text-xs text-muted-foreground">
+                  {data.plans.filter((plan) => plan.status === "ACTIVE").length} active
+                </p>
+              </div>
+            </div>
+
+            {filteredShipments.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <Warehouse className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No inbound shipments found</p>
+                {searchQuery && (
+                  <p className="text-sm mt-1">Try adjusting your search or filters</p>
+                )}
+              </div>
+            ) : (
+              <div className="border rounded-lg overflow-hidden">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-8" />
+                        <TableHead>Shipment</TableHead>
+                        <TableHead>Plan</TableHead>
+                        <TableHead className="text-center">Status</TableHead>
+                        <TableHead>Destination</TableHead>
+                        <TableHead className="text-right">SKUs</TableHead>
+                        <TableHead className="text-right">Shipped</TableHead>
+                        <TableHead className="text-right">Received</TableHead>
+                        <TableHead className="text-right">Discrepancy</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredShipments.map((shipment) => {
+                        const expanded = expandedId === shipment.shipmentId;
+                        return (
+                          <Fragment key={shipment.shipmentId}>
+                            <TableRow
+                              className="cursor-pointer hover:bg-muted/50"
+                              onClick={() => setExpandedId(expanded ? null : shipment.shipmentId)}
+                              data-testid={`row-inbound-shipment-${shipment.shipmentId}`}
+                            >
+                              <TableCell>
+                                {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              </TableCell>
+                              <TableCell>
+                                <div className="font-mono text-sm">{shipment.shipmentId}</div>
+                                {shipment.shipmentName && (
+                                  <div className="text-xs text-muted-foreground truncate max-w-xs">{shipment.shipmentName}</div>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-sm">{shipment.planName || "—"}</TableCell>
+                              <TableCell className="text-center">{getStatusBadge(shipment.status)}</TableCell>
+                              <TableCell className="font-mono text-sm">{shipment.destinationFulfillmentCenterId || "—"}</TableCell>
+                              <TableCell className="text-right">{shipment.skuCount}</TableCell>
+                              <TableCell className="text-right">{shipment.unitsShipped.toLocaleString()}</TableCell>
+                              <TableCell className="text-right">{shipment.unitsReceived.toLocaleString()}</TableCell>
+                              <TableCell className="text-right">{renderDiscrepancy(shipment.discrepancy)}</TableCell>
+                            </TableRow>
+                            {expanded && (
+                              <TableRow className="bg-muted/30 hover:bg-muted/30">
+                                <TableCell />
+                                <TableCell colSpan={8}>
+                                  {shipment.items.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground py-2">Items haven't been fetched yet</p>
+                                  ) : (
+                                    <Table data-testid={`table-inbound-items-${shipment.shipmentId}`}>
+                                      <TableHeader>
+                                        <TableRow>
+                                          <TableHead>SKU</TableHead>
+                                          <TableHead>Supplier Order</TableHead>
+                                          <TableHead className="text-right">Shipped</TableHead>
+                                          <TableHead className="text-right">Received</TableHead>
+                                          <TableHead className="text-right">Discrepancy</TableHead>
+                                        </TableRow>
+                                      </TableHeader>
+                                      <TableBody>
+                                        {shipment.items.map((item) => (
+                                          <TableRow key={item.sellerSku}>
+                                            <TableCell>
+                                              <div className="font-mono text-sm">{item.sellerSku}</div>
+                                              {item.productName && (
+                                                <div className="text-xs text-muted-foreground truncate max-w-xs">{item.productName}</div>
+                                              )}
+                                            </TableCell>
+                                            <TableCell className="text-sm">
+                                              {item.supplierOrder ? (
+                                                <>
+                                                  <div>{item.supplierOrder.supplier || "Unknown supplier"}</div>
+                                                  <div className="text-xs text-muted-foreground">
+                                                    Ordered {formatDate(item.supplierOrder.orderDate)} · Delivered{" "}
+                                                    {formatDate(item.supplierOrder.deliveredAt)}
+                                                  </div>
+                                                </>
+                                              ) : (
+                                                <span className="text-muted-foreground">No matching supplier order</span>
+                                              )}
+                                            </TableCell>
+                                            <TableCell className="text-right">{item.quantityShipped.toLocaleString()}</TableCell>
+                                            <TableCell className="text-right">{item.quantityReceived.toLocaleString()}</TableCell>
+                                            <TableCell className="text-right">{renderDiscrepancy(item.discrepancy)}</TableCell>
+                                          </TableRow>
+                                        ))}
+                                      </TableBody>
+                                    </Table>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BellRing, Plus, Trash2, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type AlertRuleType = "unfulfillable" | "researching" | "aged" | "no_sales";
+
+interface AlertRule {
+  id: string;
+  type: AlertRuleType;
+  threshold: number;
+  isActive: boolean;
+}
+
+const RULE_TYPES: Record<AlertRuleType, { label: string; description: (threshold: number) => string; unit: string; defaultThreshold: number }> = {
+  unfulfillable: {
+    label: "Unfulfillable stock",
+    description: (n) => `A SKU has ${n} or more unfulfillable units`,
+    unit: "units",
+    defaultThreshold: 1,
+  },
+  researching: {
+    label: "Units under research",
+    description: (n) => `Amazon is researching ${n} or more of a SKU's units`,
+    unit: "units",
+    defaultThreshold: 1,
+  },
+  aged: {
+    label: "Aged stock",
+    description: (n) => `Units have been in stock for over ${n} days`,
+    unit: "days",
+    defaultThreshold: 180,
+  },
+  no_sales: {
+    label: "No sales",
+    description: (n) => `A SKU holding stock hasn't sold in ${n} days`,
+    unit: "days",
+    defaultThreshold: 30,
+  },
+};
+
+export default function InventoryAlertRulesCard() {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Thresholds being edited, keyed by rule ID, saved when the field loses focus
+  const [thresholds, setThresholds] = useState<Record<string, string>>({});
+  const [newType, setNewType] = useState<AlertRuleType>("aged");
+  const [newThreshold, setNewThreshold] = useState(String(RULE_TYPES.aged.defaultThreshold));
+  const [adding, setAdding] = useState(false);
+  const { toast } = useToast();
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/inventory/alert-rules");
+      const data = await response.json();
+      if (data.success) {
+        setRules(data.data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch alert rules:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const updateRule = async (rule: AlertRule, updates: Partial<Pick<AlertRule, "threshold" | "isActive">>) => {
+    try {
+      const response = await fetch(`/api/inventory/alert-rules/${rule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error);
+      }
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? data.data : r)));
+    } catch (error) {
+      toast({
+        title: "Failed to update rule",
+        description: error instanceof Error ? error.message : "Could not update alert rule",
+        variant: "destructive",
+      });
+    } finally {
+      setThresholds((prev) => {
+        const next = { ...prev };
+        delete next[rule.id];
+        return next;
+      });
+    }
+  };
+
+  const saveThreshold = (rule: AlertRule) => {
+    const value = thresholds[rule.id];
+    if (value === undefined || Number(value) === rule.threshold) return;
+    updateRule(rule, { threshold: Number(value) });
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    try {
+      const response = await fetch(`/api/inventory/alert-rules/${rule.id}`, { method: "DELETE" });
+      if (response.ok) {
+        setRules((prev) => prev.filter((r) => r.id !== rule.id));
+        toast({ title: "Rule removed", description: `${RULE_TYPES[rule.type].label} rule and its alerts were removed.` });
+      }
+    } catch (error) {
+      toast({
+        title: "Failed to delete",
+        description: "Could not remove alert rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAdd = async () => {
+    setAdding(true);
+    try {
+      const response = await fetch("/api/inventory/alert-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: newType, threshold: Number(newThreshold) }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error);
+      }
+      setRules((prev) => [...prev, data.data]);
+      toast({ title: "Rule added", description: "It will be checked after the next inventory refresh." });
+    } catch (error) {
+      toast({
+        title: "Failed to add rule",
+        description: error instanceof Error ? error.message : "Could not add alert rule",
+        variant: "destructive",
+      });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleNewType = (type: AlertRuleType) => {
+    setNewType(type);
+    setNewThreshold(String(RULE_TYPES[type].defaultThreshold));
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">Inventory Alert Rules</CardTitle>
+        </div>
+        <CardDescription>
+          Checked against every SKU after each inventory refresh. Matches are listed on the Sales Overview.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {rules.map((rule) => {
+                const ruleType = RULE_TYPES[rule.type];
+                const value = thresholds[rule.id] ?? String(rule.threshold);
+                return (
+                  <div key={rule.id} className="flex items-center gap-3" data-testid={`alert-rule-${rule.id}`}>
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm font-medium ${rule.isActive ? "" : "text-muted-foreground"}`}>
+                        {ruleType?.label ?? rule.type}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{ruleType?.description(Number(value) || rule.threshold)}</p>
+                    </div>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={3650}
+                      className="w-20"
+                      value={value}
+                      onChange={(e) => setThresholds((prev) => ({ ...prev, [rule.id]: e.target.value }))}
+                      onBlur={() => saveThreshold(rule)}
+                      onKeyDown={(e) => e.key === "Enter" && saveThreshold(rule)}
+                      data-testid={`input-alert-threshold-${rule.id}`}
+                    />
+                    <span className="text-xs text-muted-foreground w-8">{ruleType?.unit}</span>
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={(checked) => updateRule(rule, { isActive: checked })}
+                      data-testid={`switch-alert-rule-${rule.id}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(rule)}
+                      data-testid={`button-delete-alert-rule-${rule.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 border-t pt-4">
+              <Select value={newType} onValueChange={(value) => handleNewType(value as AlertRuleType)}>
+                <SelectTrigger className="w-full sm:w-56" data-testid="select-new-alert-rule-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RULE_TYPES) as AlertRuleType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{RULE_TYPES[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  max={3650}
+                  className="w-24"
+                  value={newThreshold}
+                  onChange={(e) => setNewThreshold(e.target.value)}
+                  data-testid="input-new-alert-rule-threshold"
+                />
+                <span className="text-xs text-muted-foreground">{RULE_TYPES[newType].unit}</span>
+              </div>
+              <Button onClick={handleAdd} disabled={adding} size="sm" data-testid="button-add-alert-rule">
+                {adding ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+                Add Rule
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
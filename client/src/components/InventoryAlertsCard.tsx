@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { BellRing, Loader2, AlertCircle, PackageX, Search, Clock, TrendingDown, X } from "lucide-react";
+import MarketplaceSelect from "@/components/MarketplaceSelect";
+import { useMarketplaces } from "@/hooks/use-marketplaces";
+
+type AlertType = "unfulfillable" | "researching" | "aged" | "no_sales";
+type AlertAction = "removal" | "investigate" | "price_drop" | "relist";
+
+interface InventoryAlert {
+  id: string;
+  sellerSku: string;
+  asin: string | null;
+  productName: string | null;
+  type: AlertType;
+  affectedUnits: number;
+  suggestedAction: AlertAction;
+  message: string;
+  firstDetectedAt: string;
+}
+
+const ALERT_ICONS: Record<AlertType, typeof PackageX> = {
+  unfulfillable: PackageX,
+  researching: Search,
+  aged: Clock,
+  no_sales: TrendingDown,
+};
+
+const ACTION_LABELS: Record<AlertAction, string> = {
+  removal: "Create removal",
+  investigate: "Open a case",
+  price_drop: "Lower price",
+  relist: "Check listing",
+};
+
+export default function InventoryAlertsCard() {
+  const [alerts, setAlerts] = useState<InventoryAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { marketplaces, defaultMarketplaceId } = useMarketplaces();
+  const [marketplaceId, setMarketplaceId] = useState<string | null>(null);
+
+  const fetchAlerts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      if (marketplaceId) {
+        params.set("marketplaceId", marketplaceId);
+      }
+
+      const response = await fetch(`/api/inventory/alerts?${params.toString()}`);
+      const data = await response.json();
+      if (data.success) {
+        setAlerts(data.data);
+      } else {
+        setError(data.error || "Failed to load inventory alerts");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [marketplaceId]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  const handleDismiss = async (alert: InventoryAlert) => {
+    try {
+      const response = await fetch(`/api/inventory/alerts/${alert.id}/dismiss`, { method: "POST" });
+      if (response.ok) {
+        setAlerts((prev) => prev.filter((a) => a.id !== alert.id));
+      }
+    } catch (err) {
+      console.error("Failed to dismiss alert:", err);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <BellRing className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Inventory Alerts</CardTitle>
+            {alerts.length > 0 && (
+              <Badge variant="secondary" data-testid="badge-inventory-alert-count">{alerts.length}</Badge>
+            )}
+          </div>
+          <MarketplaceSelect
+            marketplaces={marketplaces}
+            value={marketplaceId ?? defaultMarketplaceId}
+            onChange={setMarketplaceId}
+          />
+        </div>
+        <CardDescription>
+          Stranded, aged and unfulfillable stock found at the last inventory refresh.{" "}
+          <Link href="/settings" className="underline">Edit alert rules</Link>
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading && alerts.length === 0 && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 rounded-md bg-red-50 dark:bg-red-950/30 p-3 text-sm text-red-600 dark:text-red-400">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <p className="font-mono">{error}</p>
+          </div>
+        )}
+
+        {!loading && !error && alerts.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">No inventory needs attention</p>
+        )}
+
+        {alerts.length > 0 && (
+          <ul className="divide-y" data-testid="list-inventory-alerts">
+            {alerts.map((alert) => {
+              const Icon = ALERT_ICONS[alert.type] ?? AlertCircle;
+              return (
+                <li key={alert.id} className="flex items-start gap-3 py-3" data-testid={`inventory-alert-${alert.id}`}>
+                  <Icon className="h-5 w-5 mt-0.5 shrink-0 text-amber-600" />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium truncate max-w-xs">{alert.productName || alert.sellerSku}</span>
+                      <span className="text-xs text-muted-foreground font-mono">{alert.sellerSku}</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{alert.message}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Since {new Date(alert.firstDetectedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className="whitespace-nowrap">
+                    {ACTION_LABELS[alert.suggestedAction] ?? alert.suggestedAction}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Dismiss until it happens again"
+                    onClick={() => handleDismiss(alert)}
+                    data-testid={`button-dismiss-alert-${alert.id}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -19,6 +19,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import MarketplaceSelect from "@/components/MarketplaceSelect";
+import InventoryHistoryDialog, { type InventoryHistoryTarget } from "@/components/InventoryHistoryDialog";
+import { useMarketplaces } from "@/hooks/use-marketplaces";
 
 interface InventoryItem {
   asin: string;
@@ -45,29 +48,46 @@ interface InventorySummary {
   totalInbound: number;
   totalUnfulfillable: number;
   totalReserved: number;
-  hasMore: boolean;
 }
 
 interface InventoryResponse {
   success: boolean;
   data?: {
     summary: InventorySummary;
+    status: "ready" | "syncing" | "failed"; // syncing while the first pull is running
+    refreshedAt: string | null;
+    refreshStatus: string | null;
+    refreshError: string | null;
+    isRefreshing: boolean;
     inventory: InventoryItem[];
   };
   error?: string;
 }
 
+// How often to check on a running refresh
+const REFRESH_POLL_MS = 2000;
+
 export default function InventoryCard() {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<InventoryResponse | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
+  const { marketplaces, defaultMarketplaceId } = useMarketplaces();
+  const [marketplaceId, setMarketplaceId] = useState<string | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<InventoryHistoryTarget | null>(null);
 
-  const fetchInventory = useCallback(async () => {
-    setLoading(true);
+  const fetchInventory = useCallback(async (showLoading = true) => {
+    setLoading(showLoading);
 
     try {
-      const response = await fetch("/api/inventory");
+      const params = new URLSearchParams();
+      if (marketplaceId) {
+        params.set("marketplaceId", marketplaceId);
+      }
+
+      const response = await fetch(`/api/inventory?${params.toString()}`);
       const data = await response.json();
       setResult(data);
     } catch (error) {
@@ -78,12 +98,68 @@ export default function InventoryCard() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [marketplaceId]);
 
   useEffect(() => {
     fetchInventory();
   }, [fetchInventory]);
 
+  // Poll while the first pull for this marketplace is still running
+  const isSyncing = result?.data?.status === "syncing";
+  useEffect(() => {
+    if (!isSyncing) return;
+    const timeout = setTimeout(() => fetchInventory(false), REFRESH_POLL_MS);
+    return () => clearTimeout(timeout);
+  }, [isSyncing, result, fetchInventory]);
+
+  // Re-pull the marketplace's full catalog from Amazon, then reload from the cache
+  const refreshInventory = async () => {
+    setRefreshing(true);
+    setRefreshError(null);
+
+    try {
+      const response = await fetch("/api/inventory/refresh", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ marketplaceId: marketplaceId ?? defaultMarketplaceId }),
+      });
+      const data = await response.json();
+      // 409 means a scheduled refresh is already running; wait for that one instead
+      if (!data.success && response.status !== 409) {
+        throw new Error(data.error || "Failed to start inventory refresh");
+      }
+
+      const poll = setInterval(async () => {
+        try {
+          const statusResponse = await fetch("/api/inventory/sync-status");
+          const status = await statusResponse.json();
+          if (!status.data?.isRunning) {
+            clearInterval(poll);
+            setRefreshing(false);
+            setRefreshError(status.data?.lastError || null);
+            fetchInventory();
+          }
+        } catch (error) {
+          clearInterval(poll);
+          setRefreshing(false);
+          setRefreshError(error instanceof Error ? error.message : "Failed to check refresh status");
+        }
+      }, REFRESH_POLL_MS);
+    } catch (error) {
+      setRefreshing(false);
+      setRefreshError(error instanceof Error ? error.message : "Failed to start inventory refresh");
+    }
+  };
+
+  const formatRefreshedAt = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
   // Filter inventory based on search query and status
   const inventory = result?.data?.inventory || [];
   const filteredInventory = inventory.filter((item) => {
@@ -130,39 +206,39 @@ export default function InventoryCard() {
               <CardDescription>Your current inventory levels across Amazon fulfillment centers</CardDescription>
             </div>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={fetchInventory}
-            disabled={loading}
-          >
-            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
-            Refresh
-          </Button>
+          <div className="flex flex-col items-end gap-1">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={refreshInventory}
+              disabled={refreshing || loading || isSyncing}
+              data-testid="button-refresh-inventory"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${refreshing || isSyncing ? "animate-spin" : ""}`} />
+              {refreshing || isSyncing ? "Refreshing..." : "Refresh"}
+            </Button>
+            <p className="text-xs text-muted-foreground" data-testid="text-inventory-refreshed-at">
+              {result?.data?.refreshedAt
+                ? `Last refreshed ${formatRefreshedAt(result.data.refreshedAt)}`
+                : "Not refreshed yet"}
+            </p>
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Summary Stats */}
-        {result?.success && result.data && (
+        {result?.success && result.data && !isSyncing && (
           <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
             <div className="bg-muted/50 rounded-lg p-3 text-center">
-              <p className="text-2xl font-bold">
-                {result.data.summary.totalItems}{result.data.summary.hasMore && "+"}
-              </p>
-              <p className="text-xs text-muted-foreground">
-                {result.data.summary.hasMore ? "SKUs (partial)" : "Total SKUs"}
-              </p>
+              <p className="text-2xl font-bold">{result.data.summary.totalItems}</p>
+              <p className="text-xs text-muted-foreground">Total SKUs</p>
             </div>
             <div className="bg-green-50 dark:bg-green-950/30 rounded-lg p-3 text-center">
-              <p className="text-2xl font-bold text-green-600">
-                {result.data.summary.activeItems}{result.data.summary.hasMore && "+"}
-              </p>
+              <p className="text-2xl font-bold text-green-600">{result.data.summary.activeItems}</p>
               <p className="text-xs text-muted-foreground">Active</p>
             </div>
             <div className="bg-muted/50 rounded-lg p-3 text-center">
-              <p className="text-2xl font-bold">
-                {result.data.summary.inactiveItems}{result.data.summary.hasMore && "+"}
-              </p>
+              <p className="text-2xl font-bold">{result.data.summary.inactiveItems}</p>
               <p className="text-xs text-muted-foreground">Inactive</p>
             </div>
             <div className="bg-blue-50 dark:bg-blue-950/30 rounded-lg p-3 text-center">
@@ -206,6 +282,12 @@ export default function InventoryCard() {
               <SelectItem value="inactive">Inactive Only</SelectItem>
             </SelectContent>
           </Select>
+          <MarketplaceSelect
+            marketplaces={marketplaces}
+            value={marketplaceId ?? defaultMarketplaceId}
+            onChange={setMarketplaceId}
+            disabled={loading}
+          />
         </div>
 
         {/* Error State */}
@@ -219,6 +301,20 @@ export default function InventoryCard() {
           </div>
         )}
 
+        {(refreshError || result?.data?.refreshStatus === "failed") && (
+          <div className="rounded-lg bg-amber-50 dark:bg-amber-950/30 p-4 flex items-start gap-3">
+            <AlertCircle className="h-5 w-5 text-amber-600 mt-0.5" />
+            <div>
+              <p className="font-medium text-amber-600">
+                {result?.data?.refreshedAt
+                  ? "Inventory refresh failed, showing the last refreshed data"
+                  : "Inventory refresh failed"}
+              </p>
+              <p className="text-sm text-amber-600/80 font-mono mt-1">{refreshError || result?.data?.refreshError}</p>
+            </div>
+          </div>
+        )}
+
         {/* Loading State */}
         {loading && (
           <div className="flex items-center justify-center py-12">
@@ -226,8 +322,17 @@ export default function InventoryCard() {
           </div>
         )}
 
+        {/* First pull for this marketplace */}
+        {isSyncing && !loading && (
+          <div className="text-center py-12 text-muted-foreground" data-testid="status-inventory-syncing">
+            <RefreshCw className="h-8 w-8 mx-auto mb-4 animate-spin" />
+            <p>Pulling your inventory from Amazon for the first time</p>
+            <p className="text-sm mt-1">Large catalogs can take a few minutes. This page updates when it's done.</p>
+          </div>
+        )}
+
         {/* Inventory Table */}
-        {result?.success && !loading && (
+        {result?.success && !loading && !isSyncing && (
           <>
             {filteredInventory.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
@@ -255,7 +360,12 @@ export default function InventoryCard() {
                     </TableHeader>
                     <TableBody>
                       {filteredInventory.map((item, index) => (
-                        <TableRow key={`${item.sellerSku}-${index}`}>
+                        <TableRow
+                          key={`${item.sellerSku}-${index}`}
+                          className="cursor-pointer"
+                          onClick={() => setHistoryTarget(item)}
+                          data-testid={`row-inventory-${item.sellerSku}`}
+                        >
                           <TableCell className="font-mono text-sm">
                             <div>
                               <p className="font-medium">{item.sellerSku}</p>
@@ -297,10 +407,16 @@ export default function InventoryCard() {
               </div>
             )}
             <p className="text-xs text-muted-foreground text-right">
-              Showing {filteredInventory.length} of {inventory.length} items
+              Showing {filteredInventory.length} of {inventory.length} items · Click a row for stock history
             </p>
           </>
         )}
+
+        <InventoryHistoryDialog
+          target={historyTarget}
+          marketplaceId={marketplaceId}
+          onClose={() => setHistoryTarget(null)}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,255 @@
+import { useState, useEffect } from "react";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+export interface InventoryHistoryTarget {
+  sellerSku: string;
+  asin: string;
+  productName: string | null;
+}
+
+interface InventoryHistoryDialogProps {
+  target: InventoryHistoryTarget | null;
+  marketplaceId: string | null;
+  onClose: () => void;
+}
+
+interface HistoryPoint {
+  date: string;
+  fulfillable: number;
+  inboundWorking: number;
+  inboundShipped: number;
+  inboundReceiving: number;
+  reserved: number;
+  unfulfillable: number;
+  researching: number;
+}
+
+interface StockoutPeriod {
+  startDate: string;
+  endDate: string | null;
+  days: number;
+}
+
+interface InboundPeriod {
+  startDate: string;
+  availableDate: string | null;
+  days: number;
+  peakUnits: number;
+}
+
+interface InventoryHistory {
+  startDate: string;
+  endDate: string;
+  points: HistoryPoint[];
+  stockouts: StockoutPeriod[];
+  inboundPeriods: InboundPeriod[];
+}
+
+type HistoryRange = "30days" | "60days" | "ytd" | "2years";
+
+const chartConfig = {
+  fulfillable: { label: "Fulfillable", color: "hsl(var(--chart-2))" },
+  inbound: { label: "Inbound", color: "hsl(var(--chart-1))" },
+  reserved: { label: "Reserved", color: "hsl(var(--chart-4))" },
+  unfulfillable: { label: "Unfulfillable", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+function formatDay(date: string): string {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString("en-US", { timeZone: "UTC", month: "short", day: "numeric" });
+}
+
+function formatDays(days: number): string {
+  return days === 1 ? "1 day" : `${days} days`;
+}
+
+export default function InventoryHistoryDialog({ target, marketplaceId, onClose }: InventoryHistoryDialogProps) {
+  const [range, setRange] = useState<HistoryRange>("60days");
+  const [history, setHistory] = useState<InventoryHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!target) {
+      setHistory(null);
+      return;
+    }
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({ sku: target.sellerSku, range });
+        if (marketplaceId) {
+          params.set("marketplaceId", marketplaceId);
+        }
+
+        const response = await fetch(`/api/inventory/history?${params.toString()}`);
+        const data = await response.json();
+
+        if (data.success) {
+          setHistory(data.data);
+        } else {
+          setError(data.error || "Failed to load inventory history");
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Network error occurred");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [target, range, marketplaceId]);
+
+  // Working, shipped and receiving are charted as a single inbound series
+  const chartData = (history?.points || []).map((point) => ({
+    date: point.date,
+    fulfillable: point.fulfillable,
+    inbound: point.inboundWorking + point.inboundShipped + point.inboundReceiving,
+    reserved: point.reserved,
+    unfulfillable: point.unfulfillable,
+  }));
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{target?.productName || target?.sellerSku}</DialogTitle>
+          <DialogDescription>
+            SKU {target?.sellerSku} · ASIN {target?.asin}
+            {history && ` · ${history.startDate} to ${history.endDate}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={range} onValueChange={(value) => setRange(value as HistoryRange)}>
+          <SelectTrigger className="w-44" data-testid="select-inventory-history-range">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="30days">Past 30 Days</SelectItem>
+            <SelectItem value="60days">Past 60 Days</SelectItem>
+            <SelectItem value="ytd">Year to Date</SelectItem>
+            <SelectItem value="2years">Past 2 Years</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="rounded-md bg-red-50 dark:bg-red-950/30 p-4">
+            <p className="text-sm text-red-600 dark:text-red-400 font-mono">{error}</p>
+          </div>
+        )}
+
+        {!loading && !error && history && chartData.length === 0 && (
+          <div className="rounded-md bg-muted p-4 text-center">
+            <p className="text-sm text-muted-foreground">
+              No snapshots in this range. A snapshot is recorded each day the inventory refreshes.
+            </p>
+          </div>
+        )}
+
+        {!loading && !error && history && chartData.length > 0 && (
+          <>
+            <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+              <AreaChart data={chartData} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                  minTickGap={24}
+                  tickFormatter={formatDay}
+                />
+                <YAxis tickLine={false} axisLine={false} width={48} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+                {(Object.keys(chartConfig) as (keyof typeof chartConfig)[]).map((key) => (
+                  <Area
+                    key={key}
+                    dataKey={key}
+                    type="stepAfter"
+                    fill={`var(--color-${key})`}
+                    fillOpacity={key === "fulfillable" ? 0.2 : 0.05}
+                    stroke={`var(--color-${key})`}
+                    strokeWidth={2}
+                  />
+                ))}
+              </AreaChart>
+            </ChartContainer>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Out of Stock</p>
+                {history.stockouts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">In stock on every snapshot</p>
+                ) : (
+                  <ul className="space-y-1 text-sm" data-testid="list-inventory-stockouts">
+                    {history.stockouts.map((period) => (
+                      <li key={period.startDate} className="flex justify-between">
+                        <span>
+                          {formatDay(period.startDate)} – {period.endDate ? formatDay(period.endDate) : "now"}
+                        </span>
+                        <span className={period.endDate ? "text-muted-foreground" : "text-red-600 font-medium"}>
+                          {formatDays(period.days)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Inbound to Available</p>
+                {history.inboundPeriods.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No inbound stock in this range</p>
+                ) : (
+                  <ul className="space-y-1 text-sm" data-testid="list-inventory-inbound">
+                    {history.inboundPeriods.map((period) => (
+                      <li key={period.startDate} className="flex justify-between">
+                        <span>
+                          {period.peakUnits.toLocaleString()} units from {formatDay(period.startDate)}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {period.availableDate ? formatDays(period.days) : `${formatDays(period.days)}, still inbound`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,39 @@
+import { Globe } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Marketplace } from "@/hooks/use-marketplaces";
+
+interface MarketplaceSelectProps {
+  marketplaces: Marketplace[];
+  value: string | null;
+  onChange: (marketplaceId: string) => void;
+  disabled?: boolean;
+}
+
+export default function MarketplaceSelect({ marketplaces, value, onChange, disabled }: MarketplaceSelectProps) {
+  // Nothing to choose between for single-marketplace sellers
+  if (marketplaces.length < 2) {
+    return null;
+  }
+
+  return (
+    <Select value={value ?? undefined} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="w-full sm:w-48" data-testid="select-marketplace">
+        <Globe className="h-4 w-4 mr-2" />
+        <SelectValue placeholder="Marketplace" />
+      </SelectTrigger>
+      <SelectContent>
+        {marketplaces.map((marketplace) => (
+          <SelectItem key={marketplace.id} value={marketplace.id}>
+            {marketplace.name} ({marketplace.currency})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState, useEffect } from "react";
+import { Download, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ExportColumn {
+  key: string;
+  header: string;
+  item: boolean;
+  isDefault: boolean;
+}
+
+interface OrderExportDialogProps {
+  open: boolean;
+  // The orders list's current filters, without paging
+  filterParams: URLSearchParams;
+  totalOrders: number;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ExportFormat = "csv" | "xlsx";
+
+export default function OrderExportDialog({ open, filterParams, totalOrders, onOpenChange }: OrderExportDialogProps) {
+  const [columns, setColumns] = useState<ExportColumn[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || columns.length > 0) return;
+
+    const fetchColumns = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch("/api/amazon-orders/export/columns");
+        const data = await response.json();
+        if (!data.success) {
+          throw new Error(data.error || "Failed to load export columns");
+        }
+        setColumns(data.data);
+        setSelected(new Set(data.data.filter((c: ExportColumn) => c.isDefault).map((c: ExportColumn) => c.key)));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load export columns");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchColumns();
+  }, [open, columns.length]);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    const params = new URLSearchParams(filterParams);
+    params.set("format", format);
+    // Keep the export's column order fixed regardless of click order
+    params.set("columns", columns.filter((c) => selected.has(c.key)).map((c) => c.key).join(","));
+    window.location.href = `/api/amazon-orders/export?${params.toString()}`;
+    onOpenChange(false);
+  };
+
+  const perItem = columns.some((c) => c.item && selected.has(c.key));
+
+  const renderGroup = (title: string, group: ExportColumn[]) => (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{title}</p>
+      <div className="grid grid-cols-2 gap-2">
+        {group.map((column) => (
+          <div key={column.key} className="flex items-center gap-2">
+            <Checkbox
+              id={`export-column-${column.key}`}
+              checked={selected.has(column.key)}
+              onCheckedChange={(checked) => toggleColumn(column.key, !!checked)}
+              data-testid={`checkbox-export-${column.key}`}
+            />
+            <Label htmlFor={`export-column-${column.key}`} className="text-sm font-normal">
+              {column.header}
+            </Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Orders</DialogTitle>
+          <DialogDescription>
+            Exports all {totalOrders} orders matching the current filters and date range
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 font-mono">{error}</p>
+        )}
+
+        {columns.length > 0 && (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            <div className="flex items-center gap-2">
+              <Label className="text-sm">Format</Label>
+              <Select value={format} onValueChange={(v) => setFormat(v as ExportFormat)}>
+                <SelectTrigger className="w-32" data-testid="select-export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {renderGroup("Order", columns.filter((c) => !c.item))}
+            {renderGroup("Line Items", columns.filter((c) => c.item))}
+
+            {perItem && (
+              <p className="text-xs text-muted-foreground">
+                Line item columns are selected, so each order is exported as one row per item.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={selected.size === 0 || columns.length === 0}
+            data-testid="button-export-orders-download"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
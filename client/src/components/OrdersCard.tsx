@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { ShoppingCart, RefreshCw, Search, Calendar, AlertCircle } from "lucide-react";
+import { ShoppingCart, RefreshCw, Search, Calendar, AlertCircle, Loader2, ArrowUpDown, ArrowUp, ArrowDown, Download } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -19,6 +19,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import MarketplaceSelect from "@/components/MarketplaceSelect";
+import OrderExportDialog from "@/components/OrderExportDialog";
+import { useMarketplaces } from "@/hooks/use-marketplaces";
 
 interface OrderItem {
   asin: string;
@@ -28,6 +31,17 @@ interface OrderItem {
   itemPrice: number | null;
 }
 
+interface OrderProfit {
+  revenue: number;
+  totalFees: number;
+  cogs: number;
+  netProfit: number;
+  margin: number | null;
+  roi: number | null;
+  feesPending: boolean;
+  missingCost: boolean;
+}
+
 interface Order {
   orderId: string;
   purchaseDate: string;
@@ -47,6 +61,7 @@ interface Order {
   shipState: string;
   shipPostalCode: string;
   items: OrderItem[];
+  profit: OrderProfit | null;
 }
 
 interface OrdersSummary {
@@ -57,26 +72,55 @@ interface OrdersSummary {
   canceledOrders: number;
   totalRevenue: number;
   currency: string;
-  hasMore: boolean;
+}
+
+interface OrderSyncState {
+  lastSyncAt: string | null;
+  status: string;
+  errorMessage: string | null;
 }
 
 interface OrdersResponse {
   success: boolean;
   data?: {
     summary: OrdersSummary;
+    total: number;
+    syncState: OrderSyncState | null;
     orders: Order[];
   };
   error?: string;
 }
 
 type DateRange = "today" | "yesterday" | "7days" | "30days" | "60days" | "90days";
+type SortField = "purchaseDate" | "orderStatus" | "orderTotal";
+type SortDirection = "asc" | "desc";
+
+// Orders per page from the local store
+const PAGE_SIZE = 50;
+
+// How often to check on a running sync
+const SYNC_POLL_MS = 2000;
 
 export default function OrdersCard() {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<OrdersResponse | null>(null);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [sortField, setSortField] = useState<SortField>("purchaseDate");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [dateRange, setDateRange] = useState<DateRange>("yesterday");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
+  const { marketplaces, defaultMarketplaceId } = useMarketplaces();
+  const [marketplaceId, setMarketplaceId] = useState<string | null>(null);
+  const selectedMarketplace = marketplaces.find((m) => m.id === (marketplaceId ?? defaultMarketplaceId));
+  const sellerCentralUrl = selectedMarketplace?.sellerCentralUrl ?? "https://sellercentral.amazon.com";
+  const amazonDomain = selectedMarketplace?.domain ?? "amazon.com";
 
   const getDateRangeParams = (range: DateRange) => {
     const now = new Date();
@@ -114,23 +158,47 @@ export default function OrdersCard() {
     return { startDate: startDate.toISOString(), endDate: endDate.toISOString() };
   };
 
+  // Search runs against the local store, so wait for typing to pause
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const buildParams = useCallback((offset: number) => {
+    const { startDate, endDate } = getDateRangeParams(dateRange);
+    const params = new URLSearchParams({
+      startDate,
+      endDate,
+      sortBy: sortField,
+      sortDirection,
+      limit: String(PAGE_SIZE),
+      offset: String(offset),
+    });
+
+    if (statusFilter !== "all") {
+      params.set("status", statusFilter);
+    }
+
+    if (marketplaceId) {
+      params.set("marketplaceId", marketplaceId);
+    }
+
+    if (debouncedSearch) {
+      params.set("search", debouncedSearch);
+    }
+
+    return params;
+  }, [dateRange, statusFilter, marketplaceId, sortField, sortDirection, debouncedSearch]);
+
   const fetchOrders = useCallback(async () => {
     setLoading(true);
 
     try {
-      const { startDate, endDate } = getDateRangeParams(dateRange);
-      const params = new URLSearchParams({
-        startDate,
-        endDate,
-      });
-
-      if (statusFilter !== "all") {
-        params.set("status", statusFilter);
-      }
-
-      const response = await fetch(`/api/orders?${params.toString()}`);
-      const data = await response.json();
+      const response = await fetch(`/api/amazon-orders?${buildParams(0).toString()}`);
+      const data: OrdersResponse = await response.json();
       setResult(data);
+      setOrders(data.data?.orders || []);
+      setLoadMoreError(null);
     } catch (error) {
       setResult({
         success: false,
@@ -139,23 +207,97 @@ export default function OrdersCard() {
     } finally {
       setLoading(false);
     }
-  }, [dateRange, statusFilter]);
+  }, [buildParams]);
 
   useEffect(() => {
     fetchOrders();
   }, [fetchOrders]);
 
-  // Filter orders based on search query
-  const orders = result?.data?.orders || [];
-  const filteredOrders = orders.filter((order) => {
-    if (!searchQuery) return true;
-    const query = searchQuery.toLowerCase();
-    return (
-      order.orderId.toLowerCase().includes(query) ||
-      order.shipCity?.toLowerCase().includes(query) ||
-      order.shipState?.toLowerCase().includes(query)
-    );
-  });
+  const loadMoreOrders = async () => {
+    setLoadingMore(true);
+    setLoadMoreError(null);
+
+    try {
+      const response = await fetch(`/api/amazon-orders?${buildParams(orders.length).toString()}`);
+      const data: OrdersResponse = await response.json();
+
+      if (data.success && data.data) {
+        setOrders((prev) => [...prev, ...data.data!.orders]);
+      } else {
+        setLoadMoreError(data.error || "Failed to load more orders");
+      }
+    } catch (error) {
+      setLoadMoreError(error instanceof Error ? error.message : "Failed to load more orders");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Pull changed orders from Amazon, then reload from the local store
+  const syncOrders = async () => {
+    setSyncing(true);
+    setSyncError(null);
+
+    try {
+      const response = await fetch("/api/amazon-orders/sync", { method: "POST" });
+      const data = await response.json();
+      // 409 means a scheduled sync is already running; wait for that one instead
+      if (!data.success && response.status !== 409) {
+        throw new Error(data.error || "Failed to start order sync");
+      }
+
+      const poll = setInterval(async () => {
+        try {
+          const statusResponse = await fetch("/api/amazon-orders/sync-status");
+          const status = await statusResponse.json();
+          if (!status.data?.progress.isRunning) {
+            clearInterval(poll);
+            setSyncing(false);
+            setSyncError(status.data?.progress.lastError || null);
+            fetchOrders();
+          }
+        } catch (error) {
+          clearInterval(poll);
+          setSyncing(false);
+          setSyncError(error instanceof Error ? error.message : "Failed to check sync status");
+        }
+      }, SYNC_POLL_MS);
+    } catch (error) {
+      setSyncing(false);
+      setSyncError(error instanceof Error ? error.message : "Failed to start order sync");
+    }
+  };
+
+  const handleSort = (field: SortField) => {
+    if (field === sortField) {
+      setSortDirection(prev => prev === "asc" ? "desc" : "asc");
+    } else {
+      setSortField(field);
+      setSortDirection("desc");
+    }
+  };
+
+  const SortIcon = ({ field }: { field: SortField }) => {
+    if (field !== sortField) {
+      return <ArrowUpDown className="h-4 w-4 ml-1 opacity-50" />;
+    }
+    return sortDirection === "asc"
+      ? <ArrowUp className="h-4 w-4 ml-1" />
+      : <ArrowDown className="h-4 w-4 ml-1" />;
+  };
+
+  // Same filters as the list, minus paging, so the export covers every matching order
+  const getExportParams = () => {
+    const params = buildParams(0);
+    params.delete("limit");
+    params.delete("offset");
+    return params;
+  };
+
+  const summary = result?.data?.summary;
+  const totalMatching = result?.data?.total ?? 0;
+  const syncState = result?.data?.syncState;
+  const hasMore = orders.length < totalMatching;
 
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -191,6 +333,16 @@ export default function OrdersCard() {
     }).format(amount);
   };
 
+  const formatPercent = (value: number | null) => {
+    return value === null ? "-" : `${value.toFixed(1)}%`;
+  };
+
+  const getProfitDetails = (profit: OrderProfit, currency: string) => {
+    const format = (amount: number) =>
+      new Intl.NumberFormat("en-US", { style: "currency", currency: currency || "USD" }).format(amount);
+    return `Revenue ${format(profit.revenue)} · Fees ${format(profit.totalFees)} · COGS ${format(profit.cogs)}`;
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -202,15 +354,35 @@ export default function OrdersCard() {
               <CardDescription>View and track your Amazon orders</CardDescription>
             </div>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={fetchOrders}
-            disabled={loading}
-          >
-            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
-            Refresh
-          </Button>
+          <div className="flex flex-col items-end gap-1">
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setExportOpen(true)}
+                disabled={!result?.success || totalMatching === 0}
+                data-testid="button-export-orders"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={syncOrders}
+                disabled={syncing}
+                data-testid="button-sync-orders"
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? "animate-spin" : ""}`} />
+                {syncing ? "Syncing..." : "Sync"}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {syncState?.lastSyncAt
+                ? `Last synced ${formatDate(syncState.lastSyncAt)}`
+                : "Not synced yet"}
+            </p>
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -244,36 +416,40 @@ export default function OrdersCard() {
               <SelectItem value="Canceled">Canceled</SelectItem>
             </SelectContent>
           </Select>
+          <MarketplaceSelect
+            marketplaces={marketplaces}
+            value={marketplaceId ?? defaultMarketplaceId}
+            onChange={setMarketplaceId}
+            disabled={loading}
+          />
         </div>
 
         {/* Summary Stats */}
-        {result?.success && result.data && (
+        {result?.success && summary && (
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
             <div className="bg-muted/50 rounded-lg p-3 text-center">
-              <p className="text-2xl font-bold">
-                {result.data.summary.totalOrders}{result.data.summary.hasMore && "+"}
-              </p>
+              <p className="text-2xl font-bold">{summary.totalOrders}</p>
               <p className="text-xs text-muted-foreground">Total Orders</p>
             </div>
             <div className="bg-amber-50 dark:bg-amber-950/30 rounded-lg p-3 text-center">
-              <p className="text-2xl font-bold text-amber-600">{result.data.summary.pendingOrders}</p>
+              <p className="text-2xl font-bold text-amber-600">{summary.pendingOrders}</p>
               <p className="text-xs text-muted-foreground">Pending</p>
             </div>
             <div className="bg-blue-50 dark:bg-blue-950/30 rounded-lg p-3 text-center">
-              <p className="text-2xl font-bold text-blue-600">{result.data.summary.unshippedOrders}</p>
+              <p className="text-2xl font-bold text-blue-600">{summary.unshippedOrders}</p>
               <p className="text-xs text-muted-foreground">Unshipped</p>
             </div>
             <div className="bg-green-50 dark:bg-green-950/30 rounded-lg p-3 text-center">
-              <p className="text-2xl font-bold text-green-600">{result.data.summary.shippedOrders}</p>
+              <p className="text-2xl font-bold text-green-600">{summary.shippedOrders}</p>
               <p className="text-xs text-muted-foreground">Shipped</p>
             </div>
             <div className="bg-red-50 dark:bg-red-950/30 rounded-lg p-3 text-center">
-              <p className="text-2xl font-bold text-red-600">{result.data.summary.canceledOrders}</p>
+              <p className="text-2xl font-bold text-red-600">{summary.canceledOrders}</p>
               <p className="text-xs text-muted-foreground">Canceled</p>
             </div>
             <div className="bg-purple-50 dark:bg-purple-950/30 rounded-lg p-3 text-center">
               <p className="text-2xl font-bold text-purple-600">
-                {formatCurrency(result.data.summary.totalRevenue, result.data.summary.currency)}
+                {formatCurrency(summary.totalRevenue, summary.currency)}
               </p>
               <p className="text-xs text-muted-foreground">Revenue</p>
             </div>
@@ -284,7 +460,7 @@ export default function OrdersCard() {
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Search by order ID, city, or state..."
+            placeholder="Search by order ID, city, state, SKU or ASIN..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-10"
@@ -302,6 +478,16 @@ export default function OrdersCard() {
           </div>
         )}
 
+        {syncError && (
+          <div className="rounded-lg bg-amber-50 dark:bg-amber-950/30 p-4 flex items-start gap-3">
+            <AlertCircle className="h-5 w-5 text-amber-600 mt-0.5" />
+            <div>
+              <p className="font-medium text-amber-600">Order sync failed, showing previously synced orders</p>
+              <p className="text-sm text-amber-600/80 font-mono mt-1">{syncError}</p>
+            </div>
+          </div>
+        )}
+
         {/* Loading State */}
         {loading && (
           <div className="flex items-center justify-center py-12">
@@ -312,10 +498,10 @@ export default function OrdersCard() {
         {/* Orders Table */}
         {result?.success && !loading && (
           <>
-            {filteredOrders.length === 0 ? (
+            {orders.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
                 <ShoppingCart className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                <p>No orders found</p>
+                <p>{syncState ? "No orders found" : "No orders synced yet. Click Sync to pull orders from Amazon."}</p>
                 {searchQuery && (
                   <p className="text-sm mt-1">Try adjusting your search or filters</p>
                 )}
@@ -327,21 +513,48 @@ export default function OrdersCard() {
                     <TableHeader>
                       <TableRow>
                         <TableHead>Order ID</TableHead>
-                        <TableHead>Date</TableHead>
+                        <TableHead>
+                          <button
+                            onClick={() => handleSort("purchaseDate")}
+                            className="flex items-center hover:text-foreground transition-colors"
+                          >
+                            Date
+                            <SortIcon field="purchaseDate" />
+                          </button>
+                        </TableHead>
                         <TableHead>ASIN</TableHead>
                         <TableHead>SKU</TableHead>
-                        <TableHead className="text-center">Status</TableHead>
+                        <TableHead className="text-center">
+                          <button
+                            onClick={() => handleSort("orderStatus")}
+                            className="flex items-center mx-auto hover:text-foreground transition-colors"
+                          >
+                            Status
+                            <SortIcon field="orderStatus" />
+                          </button>
+                        </TableHead>
                         <TableHead className="text-center">Qty</TableHead>
-                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">
+                          <button
+                            onClick={() => handleSort("orderTotal")}
+                            className="flex items-center ml-auto hover:text-foreground transition-colors"
+                          >
+                            Total
+                            <SortIcon field="orderTotal" />
+                          </button>
+                        </TableHead>
+                        <TableHead className="text-right">Net Profit</TableHead>
+                        <TableHead className="text-right">Margin</TableHead>
+                        <TableHead className="text-right">ROI</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {filteredOrders.map((order) => (
+                      {orders.map((order) => (
                         <TableRow key={order.orderId}>
                           <TableCell className="font-mono text-sm">
                             <div>
                               <a
-                                href={`https://sellercentral.amazon.com/orders-v3/order/${order.orderId}`}
+                                href={`${sellerCentralUrl}/orders-v3/order/${order.orderId}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="font-medium text-blue-600 hover:text-blue-800 hover:underline"
@@ -362,7 +575,7 @@ export default function OrdersCard() {
                                 {order.items.map((item, idx) => (
                                   <a
                                     key={idx}
-                                    href={`https://www.amazon.com/dp/${item.asin}`}
+                                    href={`https://www.${amazonDomain}/dp/${item.asin}`}
                                     target="_blank"
                                     rel="noopener noreferrer"
                                     className="block text-blue-600 hover:text-blue-800 hover:underline"
@@ -379,7 +592,7 @@ export default function OrdersCard() {
                                 {order.items.map((item, idx) => (
                                   <a
                                     key={idx}
-                                    href={`https://sellercentral.amazon.com/skucentral?mSku=${encodeURIComponent(item.sku)}`}
+                                    href={`${sellerCentralUrl}/skucentral?mSku=${encodeURIComponent(item.sku)}`}
                                     target="_blank"
                                     rel="noopener noreferrer"
                                     className="block text-blue-600 hover:text-blue-800 hover:underline"
@@ -399,6 +612,34 @@ export default function OrdersCard() {
                           <TableCell className="text-right font-medium">
                             {formatCurrency(order.orderTotal, order.currency)}
                           </TableCell>
+                          <TableCell className="text-right" data-testid={`text-order-profit-${order.orderId}`}>
+                            {order.profit ? (
+                              <div title={getProfitDetails(order.profit, order.currency)}>
+                                <span
+                                  className={`font-medium ${
+                                    order.profit.netProfit < 0 ? "text-red-600" : "text-green-600"
+                                  }`}
+                                >
+                                  {new Intl.NumberFormat("en-US", {
+                                    style: "currency",
+                                    currency: order.currency || "USD",
+                                  }).format(order.profit.netProfit)}
+                                </span>
+                                {order.profit.feesPending && (
+                                  <p className="text-xs text-muted-foreground">Fees pending</p>
+                                )}
+                                {order.profit.missingCost && (
+                                  <p className="text-xs text-amber-600">No unit cost</p>
+                                )}
+                              </div>
+                            ) : "-"}
+                          </TableCell>
+                          <TableCell className="text-right text-sm">
+                            {formatPercent(order.profit?.margin ?? null)}
+                          </TableCell>
+                          <TableCell className="text-right text-sm">
+                            {formatPercent(order.profit?.roi ?? null)}
+                          </TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -406,13 +647,37 @@ export default function OrdersCard() {
                 </div>
               </div>
             )}
-            <p className="text-xs text-muted-foreground text-right">
-              Showing {filteredOrders.length} of {orders.length} orders
-              {result.data?.summary.hasMore && " (more available)"}
-            </p>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                {hasMore && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={loadMoreOrders}
+                    disabled={loadingMore}
+                    data-testid="button-load-more-orders"
+                  >
+                    {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load More
+                  </Button>
+                )}
+                {loadMoreError && (
+                  <p className="text-xs text-red-600 font-mono mt-1">{loadMoreError}</p>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground text-right">
+                Showing {orders.length} of {totalMatching} orders
+              </p>
+            </div>
           </>
         )}
       </CardContent>
+      <OrderExportDialog
+        open={exportOpen}
+        filterParams={getExportParams()}
+        totalOrders={totalMatching}
+        onOpenChange={setExportOpen}
+      />
     </Card>
   );
 }
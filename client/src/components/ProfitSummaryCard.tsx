@@ -0,0 +1,388 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  PiggyBank,
+  RefreshCw,
+  Loader2,
+  AlertCircle,
+  DollarSign,
+  Receipt,
+  Package,
+  TrendingUp,
+  ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
+} from "lucide-react";
+import MarketplaceSelect from "@/components/MarketplaceSelect";
+import DateRangePicker, { type CustomDateRange } from "@/components/DateRangePicker";
+import { useMarketplaces } from "@/hooks/use-marketplaces";
+
+type DateRange = "7days" | "30days" | "60days" | "ytd" | "lastyear" | "custom";
+type SortField = "revenue" | "totalFees" | "cogs" | "netProfit" | "margin" | "roi";
+type SortDirection = "asc" | "desc";
+
+interface ProfitBreakdown {
+  revenue: number;
+  referralFees: number;
+  fbaFees: number;
+  otherFees: number;
+  totalFees: number;
+  cogs: number;
+  netProfit: number;
+  margin: number | null;
+  roi: number | null;
+}
+
+interface SkuProfit extends ProfitBreakdown {
+  sku: string | null;
+  asin: string | null;
+  title: string | null;
+  unitsSold: number;
+  orderCount: number;
+  missingCost: boolean;
+}
+
+interface ProfitSummary extends ProfitBreakdown {
+  orderCount: number;
+  ordersMissingCost: number;
+  ordersFeesPending: number;
+  skus: SkuProfit[];
+  startDate: string;
+  endDate: string;
+  currency: string;
+}
+
+interface ProfitResult {
+  success: boolean;
+  data?: ProfitSummary;
+  error?: string;
+}
+
+const DATE_RANGES: { value: Exclude<DateRange, "custom">; label: string }[] = [
+  { value: "7days", label: "Past 7 Days" },
+  { value: "30days", label: "Past 30 Days" },
+  { value: "60days", label: "Past 60 Days" },
+  { value: "ytd", label: "Year to Date" },
+  { value: "lastyear", label: "Last Year" },
+];
+
+function formatCurrency(amount: number, currency: string = "USD"): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${value.toFixed(1)}%`;
+}
+
+function profitColor(value: number): string {
+  return value < 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400";
+}
+
+export default function ProfitSummaryCard() {
+  const [range, setRange] = useState<DateRange>("30days");
+  const [customRange, setCustomRange] = useState<CustomDateRange | null>(null);
+  const [sortField, setSortField] = useState<SortField>("netProfit");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<ProfitResult | null>(null);
+  const { marketplaces, defaultMarketplaceId } = useMarketplaces();
+  const [marketplaceId, setMarketplaceId] = useState<string | null>(null);
+
+  const fetchProfit = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const params = new URLSearchParams({ range });
+      if (marketplaceId) {
+        params.set("marketplaceId", marketplaceId);
+      }
+      if (range === "custom" && customRange) {
+        params.set("startDate", customRange.startDate);
+        params.set("endDate", customRange.endDate);
+      }
+
+      const response = await fetch(`/api/profit/summary?${params.toString()}`);
+      const data = await response.json();
+      setResult(data);
+    } catch (err) {
+      setResult({
+        success: false,
+        error: err instanceof Error ? err.message : "Network error occurred",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [range, marketplaceId, customRange]);
+
+  useEffect(() => {
+    fetchProfit();
+  }, [fetchProfit]);
+
+  const handleCustomRange = (value: CustomDateRange) => {
+    setCustomRange(value);
+    setRange("custom");
+  };
+
+  const handleSort = (field: SortField) => {
+    if (field === sortField) {
+      setSortDirection(prev => prev === "asc" ? "desc" : "asc");
+    } else {
+      setSortField(field);
+      setSortDirection("desc");
+    }
+  };
+
+  const SortIcon = ({ field }: { field: SortField }) => {
+    if (field !== sortField) {
+      return <ArrowUpDown className="h-4 w-4 ml-1 opacity-50" />;
+    }
+    return sortDirection === "asc"
+      ? <ArrowUp className="h-4 w-4 ml-1" />
+      : <ArrowDown className="h-4 w-4 ml-1" />;
+  };
+
+  const renderSortableHead = (field: SortField, label: string) => (
+    <TableHead className="text-right">
+      <button
+        onClick={() => handleSort(field)}
+        className="flex items-center ml-auto hover:text-foreground transition-colors"
+        data-testid={`sort-profit-${field}`}
+      >
+        {label}
+        <SortIcon field={field} />
+      </button>
+    </TableHead>
+  );
+
+  const summary = result?.data;
+  const currency = summary?.currency || "USD";
+
+  const skus = [...(summary?.skus || [])].sort((a, b) => {
+    // Unknown margin/ROI (no revenue or cost) sorts below any known value
+    const aVal = a[sortField] ?? Number.NEGATIVE_INFINITY;
+    const bVal = b[sortField] ?? Number.NEGATIVE_INFINITY;
+    if (aVal < bVal) return sortDirection === "asc" ? -1 : 1;
+    if (aVal > bVal) return sortDirection === "asc" ? 1 : -1;
+    return (a.sku || a.asin || "").localeCompare(b.sku || b.asin || "");
+  });
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <PiggyBank className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Profitability</CardTitle>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={fetchProfit}
+            disabled={loading}
+            data-testid="button-refresh-profit"
+          >
+            {loading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+        <CardDescription>
+          Net profit after Amazon fees and cost of goods from supplier orders, for synced orders
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row flex-wrap gap-2">
+          <Select value={range} onValueChange={(value) => setRange(value as DateRange)}>
+            <SelectTrigger className="w-full sm:w-44" data-testid="select-profit-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_RANGES.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+              {customRange && <SelectItem value="custom">Custom Range</SelectItem>}
+            </SelectContent>
+          </Select>
+          <DateRangePicker
+            value={customRange}
+            onApply={handleCustomRange}
+            active={range === "custom"}
+          />
+          <MarketplaceSelect
+            marketplaces={marketplaces}
+            value={marketplaceId ?? defaultMarketplaceId}
+            onChange={setMarketplaceId}
+          />
+        </div>
+
+        {loading && !summary && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {result?.success && summary && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <DollarSign className="h-4 w-4" />
+                  <span className="text-sm font-medium">Revenue</span>
+                </div>
+                <p className="text-2xl font-bold" data-testid="text-profit-revenue">
+                  {formatCurrency(summary.revenue, currency)}
+                </p>
+                <p className="text-xs text-muted-foreground">{summary.orderCount} orders</p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Receipt className="h-4 w-4" />
+                  <span className="text-sm font-medium">Amazon Fees</span>
+                </div>
+                <p className="text-2xl font-bold" data-testid="text-profit-fees">
+                  {formatCurrency(summary.totalFees, currency)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Referral {formatCurrency(summary.referralFees, currency)} · FBA {formatCurrency(summary.fbaFees, currency)}
+                </p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Package className="h-4 w-4" />
+                  <span className="text-sm font-medium">Cost of Goods</span>
+                </div>
+                <p className="text-2xl font-bold" data-testid="text-profit-cogs">
+                  {formatCurrency(summary.cogs, currency)}
+                </p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <TrendingUp className="h-4 w-4" />
+                  <span className="text-sm font-medium">Net Profit</span>
+                </div>
+                <p className={`text-2xl font-bold ${profitColor(summary.netProfit)}`} data-testid="text-profit-net">
+                  {formatCurrency(summary.netProfit, currency)}
+                </p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="text-muted-foreground">
+                  <span className="text-sm font-medium">Margin</span>
+                </div>
+                <p className="text-xl font-semibold" data-testid="text-profit-margin">
+                  {formatPercent(summary.margin)}
+                </p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="text-muted-foreground">
+                  <span className="text-sm font-medium">ROI</span>
+                </div>
+                <p className="text-xl font-semibold" data-testid="text-profit-roi">
+                  {formatPercent(summary.roi)}
+                </p>
+              </div>
+            </div>
+
+            {(summary.ordersMissingCost > 0 || summary.ordersFeesPending > 0) && (
+              <div className="flex items-start gap-2 rounded-md bg-amber-50 dark:bg-amber-950/30 p-3 text-sm text-amber-700 dark:text-amber-400">
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                <div>
+                  {summary.ordersMissingCost > 0 && (
+                    <p>
+                      {summary.ordersMissingCost} orders include products with no unit cost in supplier orders; their cost is counted as zero.
+                    </p>
+                  )}
+                  {summary.ordersFeesPending > 0 && (
+                    <p>
+                      {summary.ordersFeesPending} orders don't have fees from Amazon yet; profit will drop once they post.
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {skus.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Units</TableHead>
+                      {renderSortableHead("revenue", "Revenue")}
+                      {renderSortableHead("totalFees", "Fees")}
+                      {renderSortableHead("cogs", "COGS")}
+                      {renderSortableHead("netProfit", "Net Profit")}
+                      {renderSortableHead("margin", "Margin")}
+                      {renderSortableHead("roi", "ROI")}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {skus.map((row) => {
+                      const key = row.sku || row.asin || "unknown";
+                      return (
+                        <TableRow key={key} data-testid={`row-profit-${key}`}>
+                          <TableCell>
+                            <div className="font-medium truncate max-w-xs">{row.title || key}</div>
+                            <div className="text-xs text-muted-foreground font-mono">
+                              {row.sku && row.asin ? `${row.sku} · ${row.asin}` : key}
+                            </div>
+                            {row.missingCost && (
+                              <div className="text-xs text-amber-600 dark:text-amber-400">No unit cost</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{row.unitsSold}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.revenue, currency)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.totalFees, currency)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.cogs, currency)}</TableCell>
+                          <TableCell className={`text-right font-medium ${profitColor(row.netProfit)}`}>
+                            {formatCurrency(row.netProfit, currency)}
+                          </TableCell>
+                          <TableCell className="text-right">{formatPercent(row.margin)}</TableCell>
+                          <TableCell className="text-right">{formatPercent(row.roi)}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="rounded-md bg-muted p-4 text-center">
+                <p className="text-sm text-muted-foreground">
+                  No shipped or unshipped orders in this range. Orders come from the local order sync.
+                </p>
+              </div>
+            )}
+          </>
+        )}
+
+        {result?.success === false && (
+          <div className="rounded-md bg-red-50 dark:bg-red-950/30 p-4 space-y-2">
+            <p className="text-sm text-red-600 dark:text-red-400 font-medium">
+              Failed to load profitability
+            </p>
+            <p className="text-sm text-red-600 dark:text-red-400 font-mono">{result.error}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,421 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PackagePlus, RefreshCw, Loader2, AlertCircle, AlertTriangle, PackageX, Search, Truck } from "lucide-react";
+import MarketplaceSelect from "@/components/MarketplaceSelect";
+import { useMarketplaces } from "@/hooks/use-marketplaces";
+
+type RestockStatus = "out_of_stock" | "reorder" | "ok" | "no_sales";
+
+interface RestockSettings {
+  velocityDays: number;
+  safetyDays: number;
+  targetDays: number;
+  defaultLeadTimeDays: number;
+}
+
+interface SupplierLeadTime {
+  supplier: string;
+  averageDays: number;
+  deliveredOrders: number;
+}
+
+interface RestockRecommendation {
+  sellerSku: string;
+  asin: string | null;
+  productName: string | null;
+  fulfillable: number;
+  inbound: number;
+  available: number;
+  unitsSold: number;
+  stockoutDays: number;
+  dailyVelocity: number;
+  daysOfCover: number | null;
+  supplier: string | null;
+  leadTimeDays: number;
+  leadTimeSource: "supplier" | "default";
+  reorderPoint: number;
+  suggestedQuantity: number;
+  daysUntilReorder: number | null;
+  status: RestockStatus;
+}
+
+interface RestockReport {
+  settings: RestockSettings;
+  inventoryRefreshedAt: string | null;
+  suppliers: SupplierLeadTime[];
+  recommendations: RestockRecommendation[];
+}
+
+interface RestockResult {
+  success: boolean;
+  data?: RestockReport;
+  error?: string;
+}
+
+// Editable day counts, kept as text until the field loses focus
+interface DayInputs {
+  leadTimeDays: string;
+  safetyDays: string;
+  targetDays: string;
+}
+
+const VELOCITY_WINDOWS = [7, 14, 30, 60, 90];
+
+const STATUS_FILTERS: { value: RestockStatus | "due"; label: string }[] = [
+  { value: "due", label: "Needs Reorder" },
+  { value: "out_of_stock", label: "Out of Stock" },
+  { value: "ok", label: "Healthy" },
+  { value: "no_sales", label: "No Recent Sales" },
+];
+
+const DEFAULT_DAY_INPUTS: DayInputs = {
+  leadTimeDays: "14",
+  safetyDays: "7",
+  targetDays: "30",
+};
+
+function formatDays(value: number | null): string {
+  if (value === null) return "—";
+  return value >= 365 ? "365+" : value.toFixed(value < 10 ? 1 : 0);
+}
+
+function getStatusBadge(status: RestockStatus) {
+  switch (status) {
+    case "out_of_stock":
+      return <Badge variant="destructive">Out of Stock</Badge>;
+    case "reorder":
+      return <Badge className="bg-amber-500 hover:bg-amber-500">Reorder</Badge>;
+    case "ok":
+      return <Badge variant="default" className="bg-green-600">Healthy</Badge>;
+    default:
+      return <Badge variant="outline">No Sales</Badge>;
+  }
+}
+
+export default function RestockCard() {
+  const [velocityDays, setVelocityDays] = useState(30);
+  const [dayInputs, setDayInputs] = useState<DayInputs>(DEFAULT_DAY_INPUTS);
+  const [appliedInputs, setAppliedInputs] = useState<DayInputs>(DEFAULT_DAY_INPUTS);
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<RestockResult | null>(null);
+  const { marketplaces, defaultMarketplaceId } = useMarketplaces();
+  const [marketplaceId, setMarketplaceId] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const params = new URLSearchParams({
+        velocityDays: String(velocityDays),
+        leadTimeDays: appliedInputs.leadTimeDays,
+        safetyDays: appliedInputs.safetyDays,
+        targetDays: appliedInputs.targetDays,
+      });
+      if (marketplaceId) {
+        params.set("marketplaceId", marketplaceId);
+      }
+
+      const response = await fetch(`/api/restock?${params.toString()}`);
+      const data = await response.json();
+      setResult(data);
+    } catch (err) {
+      setResult({
+        success: false,
+        error: err instanceof Error ? err.message : "Network error occurred",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [velocityDays, appliedInputs, marketplaceId]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const applyDayInputs = () => {
+    if (
+      dayInputs.leadTimeDays !== appliedInputs.leadTimeDays ||
+      dayInputs.safetyDays !== appliedInputs.safetyDays ||
+      dayInputs.targetDays !== appliedInputs.targetDays
+    ) {
+      setAppliedInputs(dayInputs);
+    }
+  };
+
+  const renderDayInput = (key: keyof DayInputs, label: string) => (
+    <div className="flex items-center gap-2">
+      <Label htmlFor={`restock-${key}`} className="text-sm whitespace-nowrap">{label}</Label>
+      <Input
+        id={`restock-${key}`}
+        type="number"
+        min={key === "safetyDays" ? 0 : 1}
+        max={365}
+        className="w-20"
+        value={dayInputs[key]}
+        onChange={(e) => setDayInputs((prev) => ({ ...prev, [key]: e.target.value }))}
+        onBlur={applyDayInputs}
+        onKeyDown={(e) => e.key === "Enter" && applyDayInputs()}
+        data-testid={`input-restock-${key}`}
+      />
+    </div>
+  );
+
+  const data = result?.data;
+  const recommendations = data?.recommendations || [];
+  const dueCount = recommendations.filter((r) => r.status === "reorder" || r.status === "out_of_stock").length;
+  const outOfStockCount = recommendations.filter((r) => r.status === "out_of_stock").length;
+  const unitsToOrder = recommendations.reduce((sum, r) => sum + r.suggestedQuantity, 0);
+
+  const filtered = recommendations.filter((r) => {
+    if (statusFilter === "due" && r.status !== "reorder" && r.status !== "out_of_stock") return false;
+    if (statusFilter !== "all" && statusFilter !== "due" && r.status !== statusFilter) return false;
+
+    if (searchQuery) {
+      const query = searchQuery.toLowerCase();
+      return (
+        r.sellerSku.toLowerCase().includes(query) ||
+        r.asin?.toLowerCase().includes(query) ||
+        r.productName?.toLowerCase().includes(query) ||
+        r.supplier?.toLowerCase().includes(query)
+      );
+    }
+    return true;
+  });
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <PackagePlus className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Restock Recommendations</CardTitle>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={fetchReport}
+            disabled={loading}
+            data-testid="button-refresh-restock"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+        <CardDescription>
+          Sales velocity from synced orders against fulfillable and inbound FBA stock, with lead times observed on supplier orders
+          {data?.inventoryRefreshedAt && (
+            <> · Inventory as of {new Date(data.inventoryRefreshedAt).toLocaleString()}</>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row flex-wrap items-start sm:items-center gap-3">
+          <Select value={String(velocityDays)} onValueChange={(value) => setVelocityDays(Number(value))}>
+            <SelectTrigger className="w-full sm:w-48" data-testid="select-restock-velocity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VELOCITY_WINDOWS.map((days) => (
+                <SelectItem key={days} value={String(days)}>Velocity: past {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <MarketplaceSelect
+            marketplaces={marketplaces}
+            value={marketplaceId ?? defaultMarketplaceId}
+            onChange={setMarketplaceId}
+          />
+          {renderDayInput("leadTimeDays", "Default lead time")}
+          {renderDayInput("safetyDays", "Safety days")}
+          {renderDayInput("targetDays", "Order covers")}
+        </div>
+
+        {result && !result.success && (
+          <div className="flex items-start gap-2 rounded-md bg-red-50 dark:bg-red-950/30 p-3 text-sm text-red-600 dark:text-red-400">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <p className="font-mono">{result.error}</p>
+          </div>
+        )}
+
+        {loading && !data && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {result?.success && data && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <AlertTriangle className="h-4 w-4" />
+                  <span className="text-sm font-medium">Needs Reorder</span>
+                </div>
+                <p className="text-2xl font-bold text-amber-600" data-testid="text-restock-due">{dueCount}</p>
+                <p className="text-xs text-muted-foreground">of {recommendations.length} SKUs</p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <PackageX className="h-4 w-4" />
+                  <span className="text-sm font-medium">Out of Stock</span>
+                </div>
+                <p className="text-2xl font-bold text-red-600 dark:text-red-400" data-testid="text-restock-out-of-stock">
+                  {outOfStockCount}
+                </p>
+                <p className="text-xs text-muted-foreground">selling, with nothing on hand or inbound</p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <PackagePlus className="h-4 w-4" />
+                  <span className="text-sm font-medium">Units to Order</span>
+                </div>
+                <p className="text-2xl font-bold" data-testid="text-restock-units">{unitsToOrder.toLocaleString()}</p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Truck className="h-4 w-4" />
+                  <span className="text-sm font-medium">Supplier Lead Times</span>
+                </div>
+                {data.suppliers.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    No delivered supplier orders yet; using {data.settings.defaultLeadTimeDays} days
+                  </p>
+                ) : (
+                  <ul className="space-y-1 text-sm" data-testid="list-restock-suppliers">
+                    {data.suppliers.map((supplier) => (
+                      <li key={supplier.supplier} className="flex justify-between gap-2">
+                        <span className="truncate">{supplier.supplier}</span>
+                        <span className="text-muted-foreground whitespace-nowrap">
+                          {supplier.averageDays}d · {supplier.deliveredOrders} orders
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by SKU, ASIN, product or supplier..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-9"
+                  data-testid="input-search-restock"
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-full sm:w-44" data-testid="select-restock-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All SKUs</SelectItem>
+                  {STATUS_FILTERS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {filtered.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-center">Status</TableHead>
+                      <TableHead className="text-right">Available</TableHead>
+                      <TableHead className="text-right">Per Day</TableHead>
+                      <TableHead className="text-right">Days of Cover</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead className="text-right">Lead Time</TableHead>
+                      <TableHead className="text-right">Reorder Point</TableHead>
+                      <TableHead className="text-right">Order Qty</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filtered.map((row) => (
+                      <TableRow key={row.sellerSku} data-testid={`row-restock-${row.sellerSku}`}>
+                        <TableCell>
+                          <div className="font-medium truncate max-w-xs">{row.productName || row.sellerSku}</div>
+                          <div className="text-xs text-muted-foreground font-mono">
+                            {row.asin ? `${row.sellerSku} · ${row.asin}` : row.sellerSku}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-center">{getStatusBadge(row.status)}</TableCell>
+                        <TableCell className="text-right">
+                          <div>{row.available.toLocaleString()}</div>
+                          {row.inbound > 0 && (
+                            <div className="text-xs text-blue-600">{row.inbound.toLocaleString()} inbound</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div>{row.dailyVelocity}</div>
+                          <div className="text-xs text-muted-foreground">{row.unitsSold} sold</div>
+                          {row.stockoutDays > 0 && (
+                            <div className="text-xs text-muted-foreground">{row.stockoutDays}d out of stock</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          <div>{formatDays(row.daysOfCover)}</div>
+                          {row.daysUntilReorder !== null && row.status === "ok" && (
+                            <div className="text-xs text-muted-foreground font-normal">
+                              reorder in {formatDays(row.daysUntilReorder)}d
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{row.supplier || "—"}</TableCell>
+                        <TableCell className="text-right">
+                          <span className={row.leadTimeSource === "default" ? "text-muted-foreground" : undefined}>
+                            {row.leadTimeDays}d
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">{row.reorderPoint.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-bold">
+                          {row.suggestedQuantity > 0 ? row.suggestedQuantity.toLocaleString() : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <PackagePlus className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>
+                  {recommendations.length === 0
+                    ? "No cached inventory yet. Open the Inventory page to pull it from Amazon."
+                    : "No SKUs match the current filters"}
+                </p>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Lead times in grey are the default, used when a SKU's supplier has no delivered orders with both dates recorded.
+              Order quantities bring stock up to the reorder point plus {data.settings.targetDays} days of sales.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,330 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ListOrdered, Search, Loader2, AlertCircle } from "lucide-react";
+import MarketplaceSelect from "@/components/MarketplaceSelect";
+import { useMarketplaces } from "@/hooks/use-marketplaces";
+
+type DateRange = "7days" | "30days" | "60days" | "ytd" | "lastyear";
+type TypeFilter = "all" | "return" | "refund";
+
+interface ReturnEvent {
+  id: string;
+  type: "return" | "refund";
+  orderId: string;
+  sku: string | null;
+  asin: string | null;
+  productName: string | null;
+  quantity: number;
+  eventDate: string;
+  reason: string | null;
+  disposition: string | null;
+  status: string | null;
+  customerComments: string | null;
+  refundAmount: number | null;
+  currency: string;
+}
+
+interface ReturnsResponse {
+  success: boolean;
+  data?: {
+    total: number;
+    returns: ReturnEvent[];
+  };
+  error?: string;
+}
+
+// Returns and refunds per page
+const PAGE_SIZE = 50;
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency || "USD",
+  }).format(amount);
+}
+
+function formatCode(code: string): string {
+  const words = code.toLowerCase().replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export default function ReturnsListCard() {
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<ReturnsResponse | null>(null);
+  const [events, setEvents] = useState<ReturnEvent[]>([]);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const [range, setRange] = useState<DateRange>("30days");
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const { marketplaces, defaultMarketplaceId } = useMarketplaces();
+  const [marketplaceId, setMarketplaceId] = useState<string | null>(null);
+  const selectedMarketplace = marketplaces.find((m) => m.id === (marketplaceId ?? defaultMarketplaceId));
+  const sellerCentralUrl = selectedMarketplace?.sellerCentralUrl ?? "https://sellercentral.amazon.com";
+
+  // Search runs against the local store, so wait for typing to pause
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const buildParams = useCallback((offset: number) => {
+    const params = new URLSearchParams({
+      range,
+      limit: String(PAGE_SIZE),
+      offset: String(offset),
+    });
+
+    if (typeFilter !== "all") {
+      params.set("type", typeFilter);
+    }
+
+    if (marketplaceId) {
+      params.set("marketplaceId", marketplaceId);
+    }
+
+    if (debouncedSearch) {
+      params.set("search", debouncedSearch);
+    }
+
+    return params;
+  }, [range, typeFilter, marketplaceId, debouncedSearch]);
+
+  const fetchReturns = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/returns?${buildParams(0).toString()}`);
+      const data: ReturnsResponse = await response.json();
+      setResult(data);
+      setEvents(data.data?.returns || []);
+      setLoadMoreError(null);
+    } catch (error) {
+      setResult({
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch returns",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [buildParams]);
+
+  useEffect(() => {
+    fetchReturns();
+  }, [fetchReturns]);
+
+  const loadMoreReturns = async () => {
+    setLoadingMore(true);
+    setLoadMoreError(null);
+
+    try {
+      const response = await fetch(`/api/returns?${buildParams(events.length).toString()}`);
+      const data: ReturnsResponse = await response.json();
+
+      if (data.success && data.data) {
+        setEvents((prev) => [...prev, ...data.data!.returns]);
+      } else {
+        setLoadMoreError(data.error || "Failed to load more returns");
+      }
+    } catch (error) {
+      setLoadMoreError(error instanceof Error ? error.message : "Failed to load more returns");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const total = result?.data?.total ?? 0;
+  const hasMore = events.length < total;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ListOrdered className="h-5 w-5" />
+          <div>
+            <CardTitle>Return Activity</CardTitle>
+            <CardDescription>Individual customer returns and refunds, newest first</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <Select value={range} onValueChange={(v) => setRange(v as DateRange)}>
+            <SelectTrigger className="w-40" data-testid="select-return-activity-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7days">Past 7 Days</SelectItem>
+              <SelectItem value="30days">Past 30 Days</SelectItem>
+              <SelectItem value="60days">Past 60 Days</SelectItem>
+              <SelectItem value="ytd">Year to Date</SelectItem>
+              <SelectItem value="lastyear">Last Year</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={typeFilter} onValueChange={(v) => setTypeFilter(v as TypeFilter)}>
+            <SelectTrigger className="w-40" data-testid="select-return-activity-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Returns & Refunds</SelectItem>
+              <SelectItem value="return">Returns</SelectItem>
+              <SelectItem value="refund">Refunds</SelectItem>
+            </SelectContent>
+          </Select>
+          <MarketplaceSelect
+            marketplaces={marketplaces}
+            value={marketplaceId ?? defaultMarketplaceId}
+            onChange={setMarketplaceId}
+            disabled={loading}
+          />
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by order ID, SKU, ASIN or product..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+            data-testid="input-search-returns"
+          />
+        </div>
+
+        {result?.success === false && (
+          <div className="rounded-lg bg-red-50 dark:bg-red-950/30 p-4 flex items-start gap-3">
+            <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
+            <div>
+              <p className="font-medium text-red-600">Failed to load returns</p>
+              <p className="text-sm text-red-600/80 font-mono mt-1">{result.error}</p>
+            </div>
+          </div>
+        )}
+
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {result?.success && !loading && (
+          <>
+            {events.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <p>No returns or refunds found</p>
+                {searchQuery && (
+                  <p className="text-sm mt-1">Try adjusting your search or filters</p>
+                )}
+              </div>
+            ) : (
+              <div className="border rounded-lg overflow-hidden">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Order ID</TableHead>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-center">Qty</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead className="text-right">Refunded</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {events.map((event) => (
+                        <TableRow key={event.id} data-testid={`row-return-${event.id}`}>
+                          <TableCell className="whitespace-nowrap text-sm">{formatDate(event.eventDate)}</TableCell>
+                          <TableCell>
+                            {event.type === "return" ? (
+                              <Badge variant="outline">Return</Badge>
+                            ) : (
+                              <Badge variant="secondary">Refund</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <a
+                              href={`${sellerCentralUrl}/orders-v3/order/${event.orderId}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-sm text-primary hover:underline"
+                            >
+                              {event.orderId}
+                            </a>
+                          </TableCell>
+                          <TableCell>
+                            <div className="truncate max-w-xs text-sm">{event.productName || event.sku || "-"}</div>
+                            {event.productName && event.sku && (
+                              <div className="text-xs text-muted-foreground font-mono">{event.sku}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-center">{event.quantity}</TableCell>
+                          <TableCell className="text-sm">
+                            {event.reason ? formatCode(event.reason) : "-"}
+                            {event.disposition && (
+                              <div className="text-xs text-muted-foreground">{formatCode(event.disposition)}</div>
+                            )}
+                            {event.customerComments && (
+                              <div className="text-xs text-muted-foreground italic truncate max-w-xs">
+                                "{event.customerComments}"
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {event.refundAmount !== null ? formatCurrency(event.refundAmount, event.currency) : "-"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            {events.length > 0 && (
+              <div className="flex flex-col items-center gap-2">
+                <p className="text-sm text-muted-foreground">
+                  Showing {events.length} of {total}
+                </p>
+                {hasMore && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={loadMoreReturns}
+                    disabled={loadingMore}
+                    data-testid="button-load-more-returns"
+                  >
+                    {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load More
+                  </Button>
+                )}
+                {loadMoreError && (
+                  <p className="text-sm text-red-600 font-mono">{loadMoreError}</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
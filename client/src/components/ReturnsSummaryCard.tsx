@@ -0,0 +1,441 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Undo2,
+  RefreshCw,
+  Loader2,
+  AlertCircle,
+  DollarSign,
+  Package,
+  Percent,
+  ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
+} from "lucide-react";
+import MarketplaceSelect from "@/components/MarketplaceSelect";
+import DateRangePicker, { type CustomDateRange } from "@/components/DateRangePicker";
+import { useMarketplaces } from "@/hooks/use-marketplaces";
+
+type DateRange = "7days" | "30days" | "60days" | "ytd" | "lastyear" | "custom";
+type SortField = "returnRate" | "unitsReturned" | "refundedAmount";
+type SortDirection = "asc" | "desc";
+
+interface ReturnsSyncProgress {
+  isRunning: boolean;
+  currentMarketplaceId: string | null;
+  returnsSynced: number;
+  refundsSynced: number;
+  lastRunAt: string | null;
+  lastError: string | null;
+}
+
+interface ReasonStats {
+  reason: string;
+  returnCount: number;
+  unitsReturned: number;
+}
+
+interface SkuReturns {
+  sku: string;
+  asin: string | null;
+  productName: string | null;
+  unitsSold: number;
+  unitsReturned: number;
+  returnCount: number;
+  refundCount: number;
+  refundedAmount: number;
+  topReason: string | null;
+  returnRate: number | null;
+}
+
+interface ReturnsSummary {
+  startDate: string;
+  endDate: string;
+  currency: string;
+  summary: {
+    unitsSold: number;
+    unitsReturned: number;
+    returnCount: number;
+    refundCount: number;
+    refundedAmount: number;
+    returnRate: number | null;
+  };
+  reasons: ReasonStats[];
+  skus: SkuReturns[];
+  syncProgress: ReturnsSyncProgress;
+}
+
+interface ReturnsSummaryResult {
+  success: boolean;
+  data?: ReturnsSummary;
+  error?: string;
+}
+
+const DATE_RANGES: { value: Exclude<DateRange, "custom">; label: string }[] = [
+  { value: "7days", label: "Past 7 Days" },
+  { value: "30days", label: "Past 30 Days" },
+  { value: "60days", label: "Past 60 Days" },
+  { value: "ytd", label: "Year to Date" },
+  { value: "lastyear", label: "Last Year" },
+];
+
+// SKUs returned at or above this rate are highlighted
+const HIGH_RETURN_RATE = 10;
+
+// How often to check on a running sync
+const SYNC_POLL_MS = 2000;
+
+function formatCurrency(amount: number, currency: string = "USD"): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${value.toFixed(1)}%`;
+}
+
+// Report reasons come through as codes, e.g. "DEFECTIVE" or "NOT_AS_DESCRIBED"
+function formatReason(reason: string): string {
+  const words = reason.toLowerCase().replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export default function ReturnsSummaryCard() {
+  const [range, setRange] = useState<DateRange>("30days");
+  const [customRange, setCustomRange] = useState<CustomDateRange | null>(null);
+  const [sortField, setSortField] = useState<SortField>("returnRate");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<ReturnsSummaryResult | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const { marketplaces, defaultMarketplaceId } = useMarketplaces();
+  const [marketplaceId, setMarketplaceId] = useState<string | null>(null);
+
+  const fetchSummary = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const params = new URLSearchParams({ range });
+      if (marketplaceId) {
+        params.set("marketplaceId", marketplaceId);
+      }
+      if (range === "custom" && customRange) {
+        params.set("startDate", customRange.startDate);
+        params.set("endDate", customRange.endDate);
+      }
+
+      const response = await fetch(`/api/returns/summary?${params.toString()}`);
+      const data = await response.json();
+      setResult(data);
+    } catch (err) {
+      setResult({
+        success: false,
+        error: err instanceof Error ? err.message : "Network error occurred",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [range, marketplaceId, customRange]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  // Pull returns and refunds from Amazon, then reload the summary
+  const syncReturns = async () => {
+    setSyncing(true);
+    setSyncError(null);
+
+    try {
+      const response = await fetch("/api/returns/sync", { method: "POST" });
+      const data = await response.json();
+      // 409 means a scheduled sync is already running; wait for that one instead
+      if (!data.success && response.status !== 409) {
+        throw new Error(data.error || "Failed to start returns sync");
+      }
+
+      const poll = setInterval(async () => {
+        try {
+          const statusResponse = await fetch("/api/returns/sync-status");
+          const status = await statusResponse.json();
+          if (!status.data?.isRunning) {
+            clearInterval(poll);
+            setSyncing(false);
+            setSyncError(status.data?.lastError || null);
+            fetchSummary();
+          }
+        } catch (error) {
+          clearInterval(poll);
+          setSyncing(false);
+          setSyncError(error instanceof Error ? error.message : "Failed to check sync status");
+        }
+      }, SYNC_POLL_MS);
+    } catch (error) {
+      setSyncing(false);
+      setSyncError(error instanceof Error ? error.message : "Failed to start returns sync");
+    }
+  };
+
+  const handleCustomRange = (value: CustomDateRange) => {
+    setCustomRange(value);
+    setRange("custom");
+  };
+
+  const handleSort = (field: SortField) => {
+    if (field === sortField) {
+      setSortDirection(prev => prev === "asc" ? "desc" : "asc");
+    } else {
+      setSortField(field);
+      setSortDirection("desc");
+    }
+  };
+
+  const SortIcon = ({ field }: { field: SortField }) => {
+    if (field !== sortField) {
+      return <ArrowUpDown className="h-4 w-4 ml-1 opacity-50" />;
+    }
+    return sortDirection === "asc"
+      ? <ArrowUp className="h-4 w-4 ml-1" />
+      : <ArrowDown className="h-4 w-4 ml-1" />;
+  };
+
+  const renderSortableHead = (field: SortField, label: string) => (
+    <TableHead className="text-right">
+      <button
+        onClick={() => handleSort(field)}
+        className="flex items-center ml-auto hover:text-foreground transition-colors"
+        data-testid={`sort-returns-${field}`}
+      >
+        {label}
+        <SortIcon field={field} />
+      </button>
+    </TableHead>
+  );
+
+  const data = result?.data;
+  const currency = data?.currency || "USD";
+  const maxReasonCount = Math.max(1, ...(data?.reasons || []).map((r) => r.unitsReturned));
+
+  const skus = [...(data?.skus || [])].sort((a, b) => {
+    // SKUs with no sales in the range have no rate and sort below any known value
+    const aVal = a[sortField] ?? Number.NEGATIVE_INFINITY;
+    const bVal = b[sortField] ?? Number.NEGATIVE_INFINITY;
+    if (aVal < bVal) return sortDirection === "asc" ? -1 : 1;
+    if (aVal > bVal) return sortDirection === "asc" ? 1 : -1;
+    return a.sku.localeCompare(b.sku);
+  });
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Returns & Refunds</CardTitle>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={syncReturns}
+            disabled={syncing}
+            data-testid="button-sync-returns"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? "animate-spin" : ""}`} />
+            {syncing ? "Syncing..." : "Sync"}
+          </Button>
+        </div>
+        <CardDescription>
+          FBA customer returns and refunds, with return rates against units sold in synced orders
+          {data?.syncProgress.lastRunAt && (
+            <> · Last synced {new Date(data.syncProgress.lastRunAt).toLocaleString()}</>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row flex-wrap gap-2">
+          <Select value={range} onValueChange={(value) => setRange(value as DateRange)}>
+            <SelectTrigger className="w-full sm:w-44" data-testid="select-returns-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_RANGES.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+              {customRange && <SelectItem value="custom">Custom Range</SelectItem>}
+            </SelectContent>
+          </Select>
+          <DateRangePicker
+            value={customRange}
+            onApply={handleCustomRange}
+            active={range === "custom"}
+          />
+          <MarketplaceSelect
+            marketplaces={marketplaces}
+            value={marketplaceId ?? defaultMarketplaceId}
+            onChange={setMarketplaceId}
+          />
+        </div>
+
+        {syncError && (
+          <div className="flex items-start gap-2 rounded-md bg-red-50 dark:bg-red-950/30 p-3 text-sm text-red-600 dark:text-red-400">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <p className="font-mono">{syncError}</p>
+          </div>
+        )}
+
+        {loading && !data && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {result?.success && data && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Percent className="h-4 w-4" />
+                  <span className="text-sm font-medium">Return Rate</span>
+                </div>
+                <p className="text-2xl font-bold" data-testid="text-returns-rate">
+                  {formatPercent(data.summary.returnRate)}
+                </p>
+                <p className="text-xs text-muted-foreground">{data.summary.unitsSold} units sold</p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Package className="h-4 w-4" />
+                  <span className="text-sm font-medium">Units Returned</span>
+                </div>
+                <p className="text-2xl font-bold" data-testid="text-returns-units">
+                  {data.summary.unitsReturned}
+                </p>
+                <p className="text-xs text-muted-foreground">{data.summary.returnCount} returns</p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Undo2 className="h-4 w-4" />
+                  <span className="text-sm font-medium">Refunds</span>
+                </div>
+                <p className="text-2xl font-bold" data-testid="text-returns-refunds">
+                  {data.summary.refundCount}
+                </p>
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <DollarSign className="h-4 w-4" />
+                  <span className="text-sm font-medium">Refunded</span>
+                </div>
+                <p className="text-2xl font-bold text-red-600 dark:text-red-400" data-testid="text-returns-refunded">
+                  {formatCurrency(data.summary.refundedAmount, currency)}
+                </p>
+              </div>
+            </div>
+
+            {data.reasons.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Return Reasons</h3>
+                {data.reasons.map((reason) => (
+                  <div key={reason.reason} className="space-y-1" data-testid={`reason-${reason.reason}`}>
+                    <div className="flex items-center justify-between text-sm">
+                      <span>{formatReason(reason.reason)}</span>
+                      <span className="text-muted-foreground">
+                        {reason.unitsReturned} units · {reason.returnCount} returns
+                      </span>
+                    </div>
+                    <div className="h-2 rounded-full bg-muted">
+                      <div
+                        className="h-2 rounded-full bg-primary"
+                        style={{ width: `${(reason.unitsReturned / maxReasonCount) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {skus.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Sold</TableHead>
+                      {renderSortableHead("unitsReturned", "Returned")}
+                      {renderSortableHead("returnRate", "Rate")}
+                      <TableHead className="text-right">Refunds</TableHead>
+                      {renderSortableHead("refundedAmount", "Refunded")}
+                      <TableHead>Top Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {skus.map((row) => {
+                      const highReturns = row.returnRate !== null && row.returnRate >= HIGH_RETURN_RATE;
+                      return (
+                        <TableRow
+                          key={row.sku}
+                          className={highReturns ? "bg-red-50 dark:bg-red-950/20" : undefined}
+                          data-testid={`row-returns-${row.sku}`}
+                        >
+                          <TableCell>
+                            <div className="font-medium truncate max-w-xs">{row.productName || row.sku}</div>
+                            <div className="text-xs text-muted-foreground font-mono">
+                              {row.asin ? `${row.sku} · ${row.asin}` : row.sku}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{row.unitsSold}</TableCell>
+                          <TableCell className="text-right">{row.unitsReturned}</TableCell>
+                          <TableCell
+                            className={`text-right font-medium ${highReturns ? "text-red-600 dark:text-red-400" : ""}`}
+                          >
+                            {formatPercent(row.returnRate)}
+                          </TableCell>
+                          <TableCell className="text-right">{row.refundCount}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.refundedAmount, currency)}</TableCell>
+                          <TableCell className="text-sm">
+                            {row.topReason ? formatReason(row.topReason) : "—"}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="rounded-md bg-muted p-4 text-center">
+                <p className="text-sm text-muted-foreground">
+                  No returns or refunds in this range.
+                </p>
+              </div>
+            )}
+          </>
+        )}
+
+        {result?.success === false && (
+          <div className="rounded-md bg-red-50 dark:bg-red-950/30 p-4 space-y-2">
+            <p className="text-sm text-red-600 dark:text-red-400 font-medium">
+              Failed to load returns
+            </p>
+            <p className="text-sm text-red-600 dark:text-red-400 font-mono">{result.error}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
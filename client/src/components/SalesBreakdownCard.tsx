@@ -0,0 +1,390 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BarChart3,
+  RefreshCw,
+  Loader2,
+  ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpRight,
+  ArrowDownRight,
+} from "lucide-react";
+import MarketplaceSelect from "@/components/MarketplaceSelect";
+import DateRangePicker, { type CustomDateRange } from "@/components/DateRangePicker";
+import SalesTrendDialog, { type SalesTrendTarget } from "@/components/SalesTrendDialog";
+import { useMarketplaces } from "@/hooks/use-marketplaces";
+
+type DateRange = "7days" | "30days" | "60days" | "ytd" | "lastyear" | "custom";
+type Dimension = "sku" | "asin";
+type SortField = "totalSales" | "unitCount" | "orderCount" | "salesGrowth";
+type SortDirection = "asc" | "desc";
+type View = "top" | "bottom" | "all";
+
+interface BreakdownRow {
+  key: string;
+  sku: string | null;
+  asin: string;
+  title: string | null;
+  totalSales: number;
+  unitCount: number;
+  orderCount: number;
+  previousSales: number;
+  previousUnits: number;
+  salesGrowth: number | null;
+  unitGrowth: number | null;
+  error: string | null;
+}
+
+interface Breakdown {
+  status: "running" | "ready" | "failed";
+  dimension: Dimension;
+  marketplaceId: string;
+  currency: string;
+  startDate: string;
+  endDate: string;
+  progress: { completed: number; total: number };
+  estimatedSecondsRemaining: number | null;
+  rows: BreakdownRow[];
+  error: string | null;
+}
+
+interface BreakdownResult {
+  success: boolean;
+  data?: Breakdown;
+  error?: string;
+}
+
+const DATE_RANGES: { value: Exclude<DateRange, "custom">; label: string }[] = [
+  { value: "7days", label: "Past 7 Days" },
+  { value: "30days", label: "Past 30 Days" },
+  { value: "60days", label: "Past 60 Days" },
+  { value: "ytd", label: "Year to Date" },
+  { value: "lastyear", label: "Last Year" },
+];
+
+// Rows shown in the top/bottom performer views
+const PERFORMER_LIMIT = 10;
+
+// How often to check on a breakdown that is still being computed
+const POLL_INTERVAL_MS = 2000;
+
+function formatCurrency(amount: number, currency: string = "USD"): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+// Rough duration to the minute, e.g. "1 hr 10 min"
+function formatDuration(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} hr ${rest} min` : `${hours} hr`;
+}
+
+function GrowthBadge({ value }: { value: number | null }) {
+  if (value === null) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  const Icon = value >= 0 ? ArrowUpRight : ArrowDownRight;
+  const color = value > 0
+    ? "text-green-600 dark:text-green-400"
+    : value < 0
+      ? "text-red-600 dark:text-red-400"
+      : "text-muted-foreground";
+
+  return (
+    <span className={`inline-flex items-center font-medium ${color}`}>
+      <Icon className="h-3 w-3" />
+      {Math.abs(value).toFixed(1)}%
+    </span>
+  );
+}
+
+export default function SalesBreakdownCard() {
+  const [range, setRange] = useState<DateRange>("30days");
+  const [customRange, setCustomRange] = useState<CustomDateRange | null>(null);
+  const [dimension, setDimension] = useState<Dimension>("sku");
+  const [view, setView] = useState<View>("top");
+  const [sortField, setSortField] = useState<SortField>("totalSales");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<BreakdownResult | null>(null);
+  const [trendTarget, setTrendTarget] = useState<SalesTrendTarget | null>(null);
+  const { marketplaces, defaultMarketplaceId } = useMarketplaces();
+  const [marketplaceId, setMarketplaceId] = useState<string | null>(null);
+
+  const fetchBreakdown = useCallback(async (refresh = false) => {
+    setLoading(true);
+
+    try {
+      const params = new URLSearchParams({ range, by: dimension });
+      if (marketplaceId) {
+        params.set("marketplaceId", marketplaceId);
+      }
+      if (range === "custom" && customRange) {
+        params.set("startDate", customRange.startDate);
+        params.set("endDate", customRange.endDate);
+      }
+      if (refresh) {
+        params.set("refresh", "true");
+      }
+
+      const response = await fetch(`/api/sales/breakdown?${params.toString()}`);
+      const data = await response.json();
+      setResult(data);
+    } catch (err) {
+      setResult({
+        success: false,
+        error: err instanceof Error ? err.message : "Network error occurred",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [range, dimension, marketplaceId, customRange]);
+
+  useEffect(() => {
+    fetchBreakdown();
+  }, [fetchBreakdown]);
+
+  // Poll while the server is still scoring products
+  const isRunning = result?.data?.status === "running";
+  useEffect(() => {
+    if (!isRunning) return;
+    const timeout = setTimeout(() => fetchBreakdown(), POLL_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [isRunning, result, fetchBreakdown]);
+
+  const handleCustomRange = (value: CustomDateRange) => {
+    setCustomRange(value);
+    setRange("custom");
+  };
+
+  const handleSort = (field: SortField) => {
+    if (field === sortField) {
+      setSortDirection(prev => prev === "asc" ? "desc" : "asc");
+    } else {
+      setSortField(field);
+      setSortDirection("desc");
+    }
+  };
+
+  const breakdown = result?.data;
+  const currency = breakdown?.currency || "USD";
+
+  // Top performers sort descending, bottom ascending; "all" follows the header toggle
+  const direction = view === "top" ? "desc" : view === "bottom" ? "asc" : sortDirection;
+  const SortIcon = ({ field }: { field: SortField }) => {
+    if (field !== sortField) {
+      return <ArrowUpDown className="h-4 w-4 ml-1 opacity-50" />;
+    }
+    return direction === "asc"
+      ? <ArrowUp className="h-4 w-4 ml-1" />
+      : <ArrowDown className="h-4 w-4 ml-1" />;
+  };
+
+  const sortedRows = [...(breakdown?.rows || [])].sort((a, b) => {
+    // Unknown growth (no prior sales) sorts below any known value
+    const aVal = a[sortField] ?? Number.NEGATIVE_INFINITY;
+    const bVal = b[sortField] ?? Number.NEGATIVE_INFINITY;
+    if (aVal < bVal) return direction === "asc" ? -1 : 1;
+    if (aVal > bVal) return direction === "asc" ? 1 : -1;
+    return a.key.localeCompare(b.key);
+  });
+  const rows = view === "all" ? sortedRows : sortedRows.slice(0, PERFORMER_LIMIT);
+
+  const progressPercent = breakdown && breakdown.progress.total > 0
+    ? Math.round((breakdown.progress.completed / breakdown.progress.total) * 100)
+    : 0;
+
+  const renderSortableHead = (field: SortField, label: string) => (
+    <TableHead className="text-right">
+      <button
+        onClick={() => handleSort(field)}
+        className="flex items-center ml-auto hover:text-foreground transition-colors"
+        data-testid={`sort-${field}`}
+      >
+        {label}
+        <SortIcon field={field} />
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Product Performance</CardTitle>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fetchBreakdown(true)}
+            disabled={loading || isRunning}
+            data-testid="button-refresh-breakdown"
+          >
+            {loading || isRunning ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+        <CardDescription>
+          Sales by {dimension === "sku" ? "SKU" : "ASIN"} compared with the prior period. Click a row to see its trend.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row flex-wrap gap-2">
+          <Select value={range} onValueChange={(value) => setRange(value as DateRange)}>
+            <SelectTrigger className="w-full sm:w-44" data-testid="select-breakdown-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_RANGES.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+              {customRange && <SelectItem value="custom">Custom Range</SelectItem>}
+            </SelectContent>
+          </Select>
+          <DateRangePicker
+            value={customRange}
+            onApply={handleCustomRange}
+            active={range === "custom"}
+          />
+          <Select value={dimension} onValueChange={(value) => setDimension(value as Dimension)}>
+            <SelectTrigger className="w-full sm:w-32" data-testid="select-breakdown-dimension">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sku">By SKU</SelectItem>
+              <SelectItem value="asin">By ASIN</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={view} onValueChange={(value) => setView(value as View)}>
+            <SelectTrigger className="w-full sm:w-40" data-testid="select-breakdown-view">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="top">Top {PERFORMER_LIMIT}</SelectItem>
+              <SelectItem value="bottom">Bottom {PERFORMER_LIMIT}</SelectItem>
+              <SelectItem value="all">All Products</SelectItem>
+            </SelectContent>
+          </Select>
+          <MarketplaceSelect
+            marketplaces={marketplaces}
+            value={marketplaceId ?? defaultMarketplaceId}
+            onChange={setMarketplaceId}
+          />
+        </div>
+
+        {isRunning && breakdown && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>Fetching sales per {dimension === "sku" ? "SKU" : "ASIN"} (rate limited by Amazon)...</span>
+              <span>{breakdown.progress.completed} / {breakdown.progress.total || "?"}</span>
+            </div>
+            <Progress value={progressPercent} />
+            {breakdown.estimatedSecondsRemaining !== null && (
+              <p className="text-xs text-muted-foreground" data-testid="text-breakdown-eta">
+                Each product takes two sales requests and Amazon allows about one every two seconds,
+                so roughly {formatDuration(breakdown.estimatedSecondsRemaining)} remaining. This keeps running
+                if you leave the page.
+              </p>
+            )}
+          </div>
+        )}
+
+        {breakdown?.status === "ready" && rows.length > 0 && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  {renderSortableHead("totalSales", "Revenue")}
+                  {renderSortableHead("unitCount", "Units")}
+                  {renderSortableHead("orderCount", "Orders")}
+                  {renderSortableHead("salesGrowth", "Growth")}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow
+                    key={row.key}
+                    className="cursor-pointer"
+                    onClick={() => setTrendTarget({ sku: row.sku, asin: row.asin, title: row.title })}
+                    data-testid={`row-breakdown-${row.key}`}
+                  >
+                    <TableCell>
+                      <div className="font-medium truncate max-w-xs">{row.title || row.key}</div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        {row.sku ? `${row.sku} · ${row.asin}` : row.asin}
+                      </div>
+                      {row.error && (
+                        <div className="text-xs text-red-600 dark:text-red-400">{row.error}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(row.totalSales, currency)}
+                    </TableCell>
+                    <TableCell className="text-right">{row.unitCount}</TableCell>
+                    <TableCell className="text-right">{row.orderCount}</TableCell>
+                    <TableCell className="text-right">
+                      <GrowthBadge value={row.salesGrowth} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {breakdown?.status === "ready" && rows.length === 0 && (
+          <div className="rounded-md bg-muted p-4 text-center">
+            <p className="text-sm text-muted-foreground">
+              No products found in synced inventory or orders for this marketplace
+            </p>
+          </div>
+        )}
+
+        {(result?.success === false || breakdown?.status === "failed") && (
+          <div className="rounded-md bg-red-50 dark:bg-red-950/30 p-4 space-y-2">
+            <p className="text-sm text-red-600 dark:text-red-400 font-medium">
+              Failed to load product performance
+            </p>
+            <p className="text-sm text-red-600 dark:text-red-400 font-mono">
+              {result?.error || breakdown?.error}
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      <SalesTrendDialog
+        target={trendTarget}
+        startDate={breakdown?.startDate || ""}
+        endDate={breakdown?.endDate || ""}
+        marketplaceId={marketplaceId}
+        onClose={() => setTrendTarget(null)}
+      />
+    </Card>
+  );
+}
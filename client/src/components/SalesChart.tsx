@@ -0,0 +1,301 @@
+import { useState, useEffect, useCallback } from "react";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { LineChart, RefreshCw, Loader2 } from "lucide-react";
+import MarketplaceSelect from "@/components/MarketplaceSelect";
+import DateRangePicker, { type CustomDateRange } from "@/components/DateRangePicker";
+import { useMarketplaces } from "@/hooks/use-marketplaces";
+
+type DateRange = "7days" | "30days" | "60days" | "ytd" | "lastyear" | "2years" | "custom";
+type Granularity = "Day" | "Week" | "Month";
+type Metric = "totalSales" | "unitCount" | "orderCount";
+
+interface SalesPoint {
+  date: string;
+  totalSales: number;
+  unitCount: number;
+  orderCount: number;
+}
+
+interface TimeSeriesResult {
+  success: boolean;
+  range: string;
+  granularity?: Granularity;
+  startDate?: string;
+  endDate?: string;
+  source?: "live" | "snapshot";
+  stale?: boolean;
+  fetchedAt?: string | null;
+  currency?: string;
+  data?: SalesPoint[];
+  error?: string;
+}
+
+const DATE_RANGES: { value: Exclude<DateRange, "custom">; label: string }[] = [
+  { value: "7days", label: "Past 7 Days" },
+  { value: "30days", label: "Past 30 Days" },
+  { value: "60days", label: "Past 60 Days" },
+  { value: "ytd", label: "Year to Date" },
+  { value: "lastyear", label: "Last Year" },
+  { value: "2years", label: "Last 2 Years" },
+];
+
+const GRANULARITIES: { value: Granularity; label: string }[] = [
+  { value: "Day", label: "Daily" },
+  { value: "Week", label: "Weekly" },
+  { value: "Month", label: "Monthly" },
+];
+
+const METRICS: { value: Metric; label: string }[] = [
+  { value: "totalSales", label: "Sales" },
+  { value: "unitCount", label: "Units" },
+  { value: "orderCount", label: "Orders" },
+];
+
+const chartConfig = {
+  totalSales: { label: "Sales", color: "hsl(var(--chart-1))" },
+  unitCount: { label: "Units", color: "hsl(var(--chart-2))" },
+  orderCount: { label: "Orders", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+function formatCurrency(amount: number, currency: string = "USD"): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+function formatBucketLabel(date: string, granularity: Granularity): string {
+  // Bucket dates are plain YYYY-MM-DD; parse as UTC so they don't shift a day
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (isNaN(parsed.getTime())) return date;
+
+  return parsed.toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    ...(granularity === "Month" ? { month: "short", year: "numeric" } : { month: "short", day: "numeric" }),
+  });
+}
+
+export default function SalesChart() {
+  const [range, setRange] = useState<DateRange>("30days");
+  const [granularity, setGranularity] = useState<Granularity>("Day");
+  const [metric, setMetric] = useState<Metric>("totalSales");
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<TimeSeriesResult | null>(null);
+  const { marketplaces, defaultMarketplaceId } = useMarketplaces();
+  const [marketplaceId, setMarketplaceId] = useState<string | null>(null);
+  const [customRange, setCustomRange] = useState<CustomDateRange | null>(null);
+
+  const fetchTimeSeries = useCallback(async (refresh = false) => {
+    setLoading(true);
+
+    try {
+      const params = new URLSearchParams({ range, granularity });
+      if (marketplaceId) {
+        params.set("marketplaceId", marketplaceId);
+      }
+      if (range === "custom" && customRange) {
+        params.set("startDate", customRange.startDate);
+        params.set("endDate", customRange.endDate);
+      }
+      // Skip stored snapshots and ask Amazon directly
+      if (refresh) {
+        params.set("refresh", "true");
+      }
+
+      const response = await fetch(`/api/sales/timeseries?${params.toString()}`);
+      const data = await response.json();
+      setResult(data);
+    } catch (err) {
+      setResult({
+        success: false,
+        range,
+        error: err instanceof Error ? err.message : "Network error occurred",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [range, granularity, marketplaceId, customRange]);
+
+  const handleCustomRange = (value: CustomDateRange) => {
+    setCustomRange(value);
+    setRange("custom");
+  };
+
+  useEffect(() => {
+    fetchTimeSeries();
+  }, [fetchTimeSeries]);
+
+  const currency = result?.currency || "USD";
+  const points = result?.data || [];
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <LineChart className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Sales Trend</CardTitle>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fetchTimeSeries(true)}
+            disabled={loading}
+            data-testid="button-refresh-sales-chart"
+          >
+            {loading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+        <CardDescription>
+          Sales, units and orders over time
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={range} onValueChange={(value) => setRange(value as DateRange)} disabled={loading}>
+            <SelectTrigger className="w-full sm:w-44" data-testid="select-chart-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_RANGES.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+              {customRange && <SelectItem value="custom">Custom Range</SelectItem>}
+            </SelectContent>
+          </Select>
+          <DateRangePicker
+            value={customRange}
+            onApply={handleCustomRange}
+            active={range === "custom"}
+            disabled={loading}
+          />
+          <Select value={granularity} onValueChange={(value) => setGranularity(value as Granularity)} disabled={loading}>
+            <SelectTrigger className="w-full sm:w-36" data-testid="select-chart-granularity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GRANULARITIES.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <MarketplaceSelect
+            marketplaces={marketplaces}
+            value={marketplaceId ?? defaultMarketplaceId}
+            onChange={setMarketplaceId}
+            disabled={loading}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {METRICS.map(({ value, label }) => (
+            <Button
+              key={value}
+              variant={metric === value ? "default" : "outline"}
+              size="sm"
+              onClick={() => setMetric(value)}
+              data-testid={`button-metric-${value}`}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        {result?.success && result.stale && result.fetchedAt && (
+          <p className="text-xs text-amber-600 dark:text-amber-400">
+            Amazon is unavailable. Showing saved data from {new Date(result.fetchedAt).toLocaleString()}.
+          </p>
+        )}
+
+        {result?.success && points.length > 0 && (
+          <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+            <AreaChart data={points} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                minTickGap={24}
+                tickFormatter={(value) => formatBucketLabel(value, granularity)}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={metric === "totalSales" ? 72 : 40}
+                tickFormatter={(value) => (metric === "totalSales" ? formatCurrency(value, currency) : String(value))}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(value) => formatBucketLabel(String(value), granularity)}
+                    formatter={(value) => (
+                      <span className="font-mono font-medium">
+                        {metric === "totalSales"
+                          ? formatCurrency(Number(value), currency)
+                          : Number(value).toLocaleString("en-US")}
+                      </span>
+                    )}
+                  />
+                }
+              />
+              <Area
+                dataKey={metric}
+                type="monotone"
+                fill={`var(--color-${metric})`}
+                fillOpacity={0.2}
+                stroke={`var(--color-${metric})`}
+                strokeWidth={2}
+              />
+            </AreaChart>
+          </ChartContainer>
+        )}
+
+        {result?.success && points.length === 0 && (
+          <div className="rounded-md bg-muted p-4 text-center">
+            <p className="text-sm text-muted-foreground">
+              No sales in this period
+            </p>
+          </div>
+        )}
+
+        {result?.success === false && (
+          <div className="rounded-md bg-red-50 dark:bg-red-950/30 p-4 space-y-2">
+            <p className="text-sm text-red-600 dark:text-red-400 font-medium">
+              Failed to fetch sales trend
+            </p>
+            <p className="text-sm text-red-600 dark:text-red-400 font-mono">
+              {result.error}
+            </p>
+          </div>
+        )}
+
+        {!result && loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect } from "react";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+export interface SalesTrendTarget {
+  sku: string | null;
+  asin: string;
+  title: string | null;
+}
+
+interface SalesTrendDialogProps {
+  target: SalesTrendTarget | null;
+  startDate: string;
+  endDate: string;
+  marketplaceId: string | null;
+  onClose: () => void;
+}
+
+interface SalesPoint {
+  date: string;
+  totalSales: number;
+  unitCount: number;
+  orderCount: number;
+}
+
+const chartConfig = {
+  totalSales: { label: "Sales", color: "hsl(var(--chart-1))" },
+  unitCount: { label: "Units", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+function formatCurrency(amount: number, currency: string = "USD"): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+function formatDay(date: string): string {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString("en-US", { timeZone: "UTC", month: "short", day: "numeric" });
+}
+
+export default function SalesTrendDialog({ target, startDate, endDate, marketplaceId, onClose }: SalesTrendDialogProps) {
+  const [points, setPoints] = useState<SalesPoint[]>([]);
+  const [currency, setCurrency] = useState("USD");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!target) {
+      setPoints([]);
+      return;
+    }
+
+    const fetchTrend = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        // Weekly buckets keep long ranges readable
+        const days = (Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000);
+        const params = new URLSearchParams({
+          range: "custom",
+          startDate,
+          endDate,
+          granularity: days > 92 ? "Week" : "Day",
+        });
+        if (target.sku) {
+          params.set("sku", target.sku);
+        } else {
+          params.set("asin", target.asin);
+        }
+        if (marketplaceId) {
+          params.set("marketplaceId", marketplaceId);
+        }
+
+        const response = await fetch(`/api/sales/timeseries?${params.toString()}`);
+        const data = await response.json();
+
+        if (data.success) {
+          setPoints(data.data || []);
+          setCurrency(data.currency || "USD");
+        } else {
+          setError(data.error || "Failed to load sales trend");
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Network error occurred");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTrend();
+  }, [target, startDate, endDate, marketplaceId]);
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{target?.title || target?.sku || target?.asin}</DialogTitle>
+          <DialogDescription>
+            {target?.sku ? `SKU ${target.sku} · ` : ""}ASIN {target?.asin} · {startDate} to {endDate}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="rounded-md bg-red-50 dark:bg-red-950/30 p-4">
+            <p className="text-sm text-red-600 dark:text-red-400 font-mono">{error}</p>
+          </div>
+        )}
+
+        {!loading && !error && points.length > 0 && (
+          <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+            <AreaChart data={points} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                minTickGap={24}
+                tickFormatter={formatDay}
+              />
+              <YAxis
+                yAxisId="sales"
+                tickLine={false}
+                axisLine={false}
+                width={72}
+                tickFormatter={(value) => formatCurrency(value, currency)}
+              />
+              <YAxis yAxisId="units" orientation="right" tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+              <Area
+                yAxisId="sales"
+                dataKey="totalSales"
+                type="monotone"
+                fill="var(--color-totalSales)"
+                fillOpacity={0.2}
+                stroke="var(--color-totalSales)"
+                strokeWidth={2}
+              />
+              <Area
+                yAxisId="units"
+                dataKey="unitCount"
+                type="monotone"
+                fill="var(--color-unitCount)"
+                fillOpacity={0.1}
+                stroke="var(--color-unitCount)"
+                strokeWidth={2}
+              />
+            </AreaChart>
+          </ChartContainer>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,12 @@
 import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { DollarSign, Package, ShoppingCart, RefreshCw, Loader2, TrendingUp } from "lucide-react";
+import { DollarSign, Package, ShoppingCart, RefreshCw, Loader2, TrendingUp, ArrowUpRight, ArrowDownRight, Minus } from "lucide-react";
+import MarketplaceSelect from "@/components/MarketplaceSelect";
+import DateRangePicker, { type CustomDateRange } from "@/components/DateRangePicker";
+import { useMarketplaces } from "@/hooks/use-marketplaces";
 
-type DateRange = "today" | "7days" | "30days" | "60days" | "ytd" | "lastyear" | "2years";
+type DateRange = "today" | "7days" | "30days" | "60days" | "ytd" | "lastyear" | "2years" | "custom";
 
 interface SalesData {
   totalSales: number;
@@ -14,16 +17,38 @@ interface SalesData {
   averageSellingPrice: number;
 }
 
+type ComparedMetric = "totalSales" | "unitCount" | "orderCount" | "averageUnitPrice" | "averageSellingPrice";
+
+interface MetricChange {
+  previous: number;
+  delta: number;
+  percentChange: number | null;
+}
+
+interface PeriodComparison {
+  startDate: string;
+  endDate: string;
+  data: SalesData;
+  changes: Record<ComparedMetric, MetricChange>;
+}
+
 interface SalesResult {
   success: boolean;
   range: string;
   startDate: string;
   endDate: string;
+  source?: "live" | "snapshot";
+  stale?: boolean;
+  fetchedAt?: string | null;
   data?: SalesData;
+  comparison?: {
+    previousPeriod: PeriodComparison | null;
+    lastYear: PeriodComparison | null;
+  } | null;
   error?: string;
 }
 
-const DATE_RANGES: { value: DateRange; label: string }[] = [
+const DATE_RANGES: { value: Exclude<DateRange, "custom">; label: string }[] = [
   { value: "today", label: "Today" },
   { value: "7days", label: "Past 7 Days" },
   { value: "30days", label: "Past 30 Days" },
@@ -45,17 +70,71 @@ function formatNumber(num: number): string {
   return new Intl.NumberFormat("en-US").format(num);
 }
 
+function ChangeIndicator({ change, label }: { change?: MetricChange; label: string }) {
+  if (!change) return null;
+
+  const { delta, percentChange } = change;
+  const Icon = delta > 0 ? ArrowUpRight : delta < 0 ? ArrowDownRight : Minus;
+  const color = delta > 0
+    ? "text-green-600 dark:text-green-400"
+    : delta < 0
+      ? "text-red-600 dark:text-red-400"
+      : "text-muted-foreground";
+
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <span className={`flex items-center font-medium ${color}`}>
+        <Icon className="h-3 w-3" />
+        {percentChange === null ? (delta === 0 ? "0%" : "new") : `${Math.abs(percentChange).toFixed(1)}%`}
+      </span>
+      <span className="text-muted-foreground">{label}</span>
+    </div>
+  );
+}
+
+function MetricChanges({ comparison, metric }: { comparison: SalesResult["comparison"]; metric: ComparedMetric }) {
+  if (!comparison) return null;
+
+  return (
+    <div className="space-y-0.5">
+      <ChangeIndicator change={comparison.previousPeriod?.changes[metric]} label="vs prior period" />
+      <ChangeIndicator change={comparison.lastYear?.changes[metric]} label="vs last year" />
+    </div>
+  );
+}
+
 export default function SalesWidget() {
   const [selectedRange, setSelectedRange] = useState<DateRange>("today");
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<SalesResult | null>(null);
+  const { marketplaces, defaultMarketplaceId } = useMarketplaces();
+  const [marketplaceId, setMarketplaceId] = useState<string | null>(null);
+  const [customRange, setCustomRange] = useState<CustomDateRange | null>(null);
 
-  const fetchSalesData = async (range: DateRange) => {
+  const fetchSalesData = async (
+    range: DateRange,
+    marketplace: string | null = marketplaceId,
+    custom: CustomDateRange | null = customRange,
+    refresh = false
+  ) => {
     setLoading(true);
     setSelectedRange(range);
 
     try {
-      const response = await fetch(`/api/sales?range=${range}`);
+      const params = new URLSearchParams({ range });
+      if (marketplace) {
+        params.set("marketplaceId", marketplace);
+      }
+      if (range === "custom" && custom) {
+        params.set("startDate", custom.startDate);
+        params.set("endDate", custom.endDate);
+      }
+      // Skip stored snapshots and ask Amazon directly
+      if (refresh) {
+        params.set("refresh", "true");
+      }
+
+      const response = await fetch(`/api/sales?${params.toString()}`);
       const data = await response.json();
       setResult(data);
     } catch (err) {
@@ -72,7 +151,19 @@ export default function SalesWidget() {
   };
 
   const handleRefresh = () => {
-    fetchSalesData(selectedRange);
+    fetchSalesData(selectedRange, marketplaceId, customRange, true);
+  };
+
+  const handleCustomRange = (range: CustomDateRange) => {
+    setCustomRange(range);
+    fetchSalesData("custom", marketplaceId, range);
+  };
+
+  const handleMarketplaceChange = (id: string) => {
+    setMarketplaceId(id);
+    if (result) {
+      fetchSalesData(selectedRange, id);
+    }
   };
 
   return (
@@ -103,6 +194,13 @@ export default function SalesWidget() {
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        <MarketplaceSelect
+          marketplaces={marketplaces}
+          value={marketplaceId ?? defaultMarketplaceId}
+          onChange={handleMarketplaceChange}
+          disabled={loading}
+        />
+
         <div className="flex flex-wrap gap-2">
           {DATE_RANGES.map(({ value, label }) => (
             <Button
@@ -118,6 +216,12 @@ export default function SalesWidget() {
               {label}
             </Button>
           ))}
+          <DateRangePicker
+            value={customRange}
+            onApply={handleCustomRange}
+            active={selectedRange === "custom" && !!result}
+            disabled={loading}
+          />
         </div>
 
         {result?.success && result.data && (
@@ -126,6 +230,12 @@ export default function SalesWidget() {
               {result.startDate === result.endDate
                 ? result.startDate
                 : `${result.startDate} to ${result.endDate}`}
+              {result.source === "snapshot" && result.fetchedAt && (
+                <span className={result.stale ? "text-amber-600 dark:text-amber-400" : undefined}>
+                  {result.stale ? " · Amazon unavailable, showing" : " ·"} saved data from{" "}
+                  {new Date(result.fetchedAt).toLocaleString()}
+                </span>
+              )}
             </div>
 
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
@@ -137,6 +247,7 @@ export default function SalesWidget() {
                 <p className="text-2xl font-bold text-green-600 dark:text-green-400">
                   {formatCurrency(result.data.totalSales, result.data.currency)}
                 </p>
+                <MetricChanges comparison={result.comparison} metric="totalSales" />
               </div>
 
               <div className="rounded-lg border p-4 space-y-2">
@@ -147,6 +258,7 @@ export default function SalesWidget() {
                 <p className="text-2xl font-bold">
                   {formatNumber(result.data.orderCount)}
                 </p>
+                <MetricChanges comparison={result.comparison} metric="orderCount" />
               </div>
 
               <div className="rounded-lg border p-4 space-y-2">
@@ -157,6 +269,7 @@ export default function SalesWidget() {
                 <p className="text-2xl font-bold">
                   {formatNumber(result.data.unitCount)}
                 </p>
+                <MetricChanges comparison={result.comparison} metric="unitCount" />
               </div>
 
               <div className="rounded-lg border p-4 space-y-2 col-span-2 md:col-span-1">
@@ -166,6 +279,7 @@ export default function SalesWidget() {
                 <p className="text-xl font-semibold">
                   {formatCurrency(result.data.averageSellingPrice, result.data.currency)}
                 </p>
+                <MetricChanges comparison={result.comparison} metric="averageSellingPrice" />
               </div>
 
               <div className="rounded-lg border p-4 space-y-2 col-span-2 md:col-span-2">
@@ -175,6 +289,7 @@ export default function SalesWidget() {
                 <p className="text-xl font-semibold">
                   {formatCurrency(result.data.averageUnitPrice, result.data.currency)}
                 </p>
+                <MetricChanges comparison={result.comparison} metric="averageUnitPrice" />
               </div>
             </div>
           </div>
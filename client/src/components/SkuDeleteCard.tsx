@@ -80,9 +80,9 @@ export default function SkuDeleteCard({ onDeleteComplete }: SkuDeleteCardProps)
   };
 
   const handleBulkFile = useCallback(async (selectedFile: File) => {
-    if (!selectedFile.name.endsWith(".csv") && !selectedFile.name.endsWith(".tsv")) {
+    if (!/\.(csv|tsv|txt|xlsx|xlsm)$/i.test(selectedFile.name)) {
       setBulkStatus("error");
-      setBulkError("Please select a CSV or TSV file");
+      setBulkError("Please select a CSV, TSV, tab-delimited TXT or Excel file");
       return;
     }
 
@@ -91,15 +91,13 @@ export default function SkuDeleteCard({ onDeleteComplete }: SkuDeleteCardProps)
     setBulkError("");
 
     try {
-      const content = await selectedFile.text();
+      const formData = new FormData();
+      formData.append("filename", selectedFile.name);
+      formData.append("file", selectedFile);
 
       const response = await fetch("/api/sku/delete-bulk", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          csvContent: content,
-          filename: selectedFile.name,
-        }),
+        body: formData,
       });
 
       const data = await response.json();
@@ -234,7 +232,7 @@ export default function SkuDeleteCard({ onDeleteComplete }: SkuDeleteCardProps)
                   <AlertCircle className="h-4 w-4" />
                   <AlertTitle>CSV Format</AlertTitle>
                   <AlertDescription>
-                    Upload a CSV or TSV file with a <code className="font-mono bg-muted px-1 rounded">sku</code> column containing the SKUs to delete.
+                    Upload a CSV, TSV or Excel file with a <code className="font-mono bg-muted px-1 rounded">sku</code> column containing the SKUs to delete.
                   </AlertDescription>
                 </Alert>
 
@@ -252,7 +250,7 @@ export default function SkuDeleteCard({ onDeleteComplete }: SkuDeleteCardProps)
                   <input
                     id="bulk-delete-input"
                     type="file"
-                    accept=".csv,.tsv"
+                    accept=".csv,.tsv,.txt,.xlsx,.xlsm"
                     className="hidden"
                     onChange={handleFileSelect}
                   />
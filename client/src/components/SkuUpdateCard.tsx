@@ -0,0 +1,377 @@
+import { useState, useCallback } from "react";
+import { Upload, FileText, CheckCircle2, XCircle, Loader2, AlertCircle, ArrowRight, Download } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+
+interface ColumnMapping {
+  column: string;
+  field: string | null;
+}
+
+interface ValidationResult {
+  format: "csv" | "tsv" | "xlsx";
+  sheetName: string | null;
+  templateType: string | null;
+  headerRow: number;
+  columns: ColumnMapping[];
+  totalRows: number;
+  validRows: number;
+  errorCount: number;
+  errors: Array<{ row: number; errors: string[] }>;
+  preview: Array<{
+    sku: string;
+    price?: string;
+    quantity?: number;
+    handling_time?: number;
+  }>;
+}
+
+interface SubmitResult {
+  uploadId: string;
+  feedId: string;
+  totalItems: number;
+  status: string;
+}
+
+// Fields an offer update changes; other mapped columns are not sent
+const FIELD_LABELS: Record<string, string> = {
+  sku: "SKU",
+  price: "Price",
+  quantity: "Quantity",
+  handling_time: "Handling Time",
+};
+
+type Status = "idle" | "validating" | "previewing" | "submitting" | "success" | "error";
+
+interface SkuUpdateCardProps {
+  onUpdateComplete?: () => void;
+}
+
+export default function SkuUpdateCard({ onUpdateComplete }: SkuUpdateCardProps) {
+  const [status, setStatus] = useState<Status>("idle");
+  const [file, setFile] = useState<File | null>(null);
+  const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
+  const [submitResult, setSubmitResult] = useState<SubmitResult | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string>("");
+  const [isDragging, setIsDragging] = useState(false);
+
+  const resetState = () => {
+    setStatus("idle");
+    setFile(null);
+    setValidationResult(null);
+    setSubmitResult(null);
+    setErrorMessage("");
+  };
+
+  const handleFile = useCallback(async (selectedFile: File) => {
+    if (!/\.(csv|tsv|txt|xlsx|xlsm)$/i.test(selectedFile.name)) {
+      setStatus("error");
+      setErrorMessage("Please select a CSV, TSV, tab-delimited TXT or Excel file");
+      return;
+    }
+
+    setFile(selectedFile);
+    setStatus("validating");
+
+    try {
+      // Validate with backend; the file is streamed rather than read into memory here
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+
+      const response = await fetch("/api/sku-update/validate", {
+        method: "POST",
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        setStatus("error");
+        setErrorMessage(data.error || "Validation failed");
+        return;
+      }
+
+      setValidationResult(data.data);
+      setStatus("previewing");
+    } catch (err) {
+      setStatus("error");
+      setErrorMessage(err instanceof Error ? err.message : "Failed to read file");
+    }
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    const droppedFile = e.dataTransfer.files[0];
+    if (droppedFile) {
+      handleFile(droppedFile);
+    }
+  }, [handleFile]);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+  }, []);
+
+  const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (selectedFile) {
+      handleFile(selectedFile);
+    }
+  }, [handleFile]);
+
+  const handleSubmit = async () => {
+    if (!file) return;
+
+    setStatus("submitting");
+
+    try {
+      const formData = new FormData();
+      formData.append("filename", file.name);
+      formData.append("file", file);
+
+      const response = await fetch("/api/sku-update/submit", {
+        method: "POST",
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        setStatus("error");
+        setErrorMessage(data.error || "Submission failed");
+        return;
+      }
+
+      setSubmitResult(data.data);
+      setStatus("success");
+      onUpdateComplete?.();
+    } catch (err) {
+      setStatus("error");
+      setErrorMessage(err instanceof Error ? err.message : "Submission failed");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Update Prices & Quantities</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              window.location.href = "/api/sku-update/template";
+            }}
+            title="Download update template"
+            data-testid="button-update-template"
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Upload a file of sku, price, quantity and handling_time to change existing offers without touching other listing details.
+          Quantity and handling time apply to merchant-fulfilled SKUs; FBA SKUs can only be repriced.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Idle / Drop Zone */}
+        {(status === "idle" || status === "error") && (
+          <>
+            <div
+              className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+                isDragging
+                  ? "border-primary bg-primary/5"
+                  : "border-muted-foreground/25 hover:border-primary/50"
+              }`}
+              onDrop={handleDrop}
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onClick={() => document.getElementById("update-file-input")?.click()}
+              data-testid="dropzone-sku-update"
+            >
+              <input
+                id="update-file-input"
+                type="file"
+                accept=".csv,.tsv,.txt,.xlsx,.xlsm"
+                className="hidden"
+                onChange={handleFileSelect}
+              />
+              <Upload className="h-10 w-10 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-lg font-medium">Drop your CSV, TSV or Excel file here</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                or click to browse
+              </p>
+            </div>
+
+            {status === "error" && (
+              <Alert variant="destructive">
+                <XCircle className="h-4 w-4" />
+                <AlertTitle>Error</AlertTitle>
+                <AlertDescription>{errorMessage}</AlertDescription>
+              </Alert>
+            )}
+          </>
+        )}
+
+        {/* Validating */}
+        {status === "validating" && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary mr-3" />
+            <span className="text-lg">Validating...</span>
+          </div>
+        )}
+
+        {/* Preview */}
+        {status === "previewing" && validationResult && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-4">
+              <FileText className="h-8 w-8 text-primary" />
+              <div>
+                <p className="font-medium">{file?.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {validationResult.validRows} valid rows of {validationResult.totalRows} total
+                </p>
+                <p className="text-xs text-muted-foreground" data-testid="text-update-source">
+                  {validationResult.templateType
+                    ? `Amazon inventory template (${validationResult.templateType})`
+                    : validationResult.format.toUpperCase()}
+                  {validationResult.sheetName && `, sheet "${validationResult.sheetName}"`}
+                  {`, header on row ${validationResult.headerRow}`}
+                </p>
+              </div>
+            </div>
+
+            {validationResult.errorCount > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>{validationResult.errorCount} validation errors</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc list-inside mt-2">
+                    {validationResult.errors.slice(0, 5).map((err, i) => (
+                      <li key={i}>
+                        Row {err.row}: {err.errors.join(", ")}
+                      </li>
+                    ))}
+                    {validationResult.errorCount > 5 && (
+                      <li>...and {validationResult.errorCount - 5} more errors</li>
+                    )}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div>
+              <p className="text-sm font-medium mb-2">Column mapping</p>
+              <div className="border rounded-md overflow-auto max-h-64">
+                <Table data-testid="table-update-column-mapping">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>File Column</TableHead>
+                      <TableHead>Maps To</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {validationResult.columns.map((mapping, i) => (
+                      <TableRow key={i}>
+                        <TableCell className="font-mono text-sm">{mapping.column}</TableCell>
+                        <TableCell>
+                          {mapping.field ? (
+                            <span className="flex items-center gap-1">
+                              <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                              {FIELD_LABELS[mapping.field] || mapping.field}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">Ignored</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            {validationResult.preview.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-2">Preview (first 5 rows)</p>
+                <div className="border rounded-md overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>SKU</TableHead>
+                        <TableHead>Price</TableHead>
+                        <TableHead>Qty</TableHead>
+                        <TableHead>Handling Time</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {validationResult.preview.map((row, i) => (
+                        <TableRow key={i}>
+                          <TableCell className="font-mono">{row.sku}</TableCell>
+                          <TableCell>{row.price ? `$${row.price}` : "-"}</TableCell>
+                          <TableCell>{row.quantity ?? "-"}</TableCell>
+                          <TableCell>{row.handling_time != null ? `${row.handling_time} days` : "-"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={resetState}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSubmit}
+                disabled={validationResult.validRows === 0}
+                data-testid="button-submit-update"
+              >
+                Update {validationResult.validRows} SKUs on Amazon
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Submitting */}
+        {status === "submitting" && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary mr-3" />
+            <span className="text-lg">Submitting to Amazon...</span>
+          </div>
+        )}
+
+        {/* Success */}
+        {status === "success" && submitResult && (
+          <div className="space-y-4">
+            <div className="rounded-md bg-green-50 dark:bg-green-950/30 p-4 flex items-start gap-3">
+              <CheckCircle2 className="h-5 w-5 text-green-600 dark:text-green-400 mt-0.5" />
+              <div>
+                <p className="font-medium text-green-800 dark:text-green-200">
+                  Submitted updates for {submitResult.totalItems} SKUs
+                </p>
+                <p className="text-sm text-green-700 dark:text-green-300 mt-1">
+                  Feed ID: {submitResult.feedId}
+                </p>
+                <p className="text-sm text-green-700 dark:text-green-300">
+                  Status: Processing
+                </p>
+              </div>
+            </div>
+            <Button onClick={resetState}>Upload Another File</Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,21 @@
 import { useState, useCallback } from "react";
-import { Upload, FileText, CheckCircle2, XCircle, Loader2, AlertCircle } from "lucide-react";
+import { Upload, FileText, CheckCircle2, XCircle, Loader2, AlertCircle, ArrowRight } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
+interface ColumnMapping {
+  column: string;
+  field: string | null;
+}
+
 interface ValidationResult {
+  format: "csv" | "tsv" | "xlsx";
+  sheetName: string | null;
+  templateType: string | null;
+  headerRow: number;
+  columns: ColumnMapping[];
   totalRows: number;
   validRows: number;
   errorCount: number;
@@ -26,7 +36,20 @@ interface SubmitResult {
   status: string;
 }
 
-type Status = "idle" | "reading" | "validating" | "previewing" | "submitting" | "success" | "error";
+// Upload fields the server maps file columns onto
+const FIELD_LABELS: Record<string, string> = {
+  sku: "SKU",
+  asin: "ASIN",
+  product_id_type: "Product ID Type",
+  price: "Price",
+  quantity: "Quantity",
+  condition: "Condition",
+  batteries_required: "Batteries Required",
+  are_batteries_included: "Batteries Included",
+  supplier_declared_dg_hz_regulation: "Dangerous Goods Regulation",
+};
+
+type Status = "idle" | "validating" | "previewing" | "submitting" | "success" | "error";
 
 interface SkuUploadCardProps {
   onUploadComplete?: () => void;
@@ -35,7 +58,6 @@ interface SkuUploadCardProps {
 export default function SkuUploadCard({ onUploadComplete }: SkuUploadCardProps) {
   const [status, setStatus] = useState<Status>("idle");
   const [file, setFile] = useState<File | null>(null);
-  const [csvContent, setCsvContent] = useState<string>("");
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [submitResult, setSubmitResult] = useState<SubmitResult | null>(null);
   const [errorMessage, setErrorMessage] = useState<string>("");
@@ -44,32 +66,29 @@ export default function SkuUploadCard({ onUploadComplete }: SkuUploadCardProps)
   const resetState = () => {
     setStatus("idle");
     setFile(null);
-    setCsvContent("");
     setValidationResult(null);
     setSubmitResult(null);
     setErrorMessage("");
   };
 
   const handleFile = useCallback(async (selectedFile: File) => {
-    if (!selectedFile.name.endsWith(".csv") && !selectedFile.name.endsWith(".tsv")) {
+    if (!/\.(csv|tsv|txt|xlsx|xlsm)$/i.test(selectedFile.name)) {
       setStatus("error");
-      setErrorMessage("Please select a CSV or TSV file");
+      setErrorMessage("Please select a CSV, TSV, tab-delimited TXT or Excel file");
       return;
     }
 
     setFile(selectedFile);
-    setStatus("reading");
+    setStatus("validating");
 
     try {
-      const content = await selectedFile.text();
-      setCsvContent(content);
-      setStatus("validating");
+      // Validate with backend; the file is streamed rather than read into memory here
+      const formData = new FormData();
+      formData.append("file", selectedFile);
 
-      // Validate with backend
       const response = await fetch("/api/sku-upload/validate", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ csvContent: content }),
+        body: formData,
       });
 
       const data = await response.json();
@@ -116,18 +135,18 @@ export default function SkuUploadCard({ onUploadComplete }: SkuUploadCardProps)
   }, [handleFile]);
 
   const handleSubmit = async () => {
-    if (!csvContent || !file) return;
+    if (!file) return;
 
     setStatus("submitting");
 
     try {
+      const formData = new FormData();
+      formData.append("filename", file.name);
+      formData.append("file", file);
+
       const response = await fetch("/api/sku-upload/submit", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          csvContent,
-          filename: file.name,
-        }),
+        body: formData,
       });
 
       const data = await response.json();
@@ -152,7 +171,7 @@ export default function SkuUploadCard({ onUploadComplete }: SkuUploadCardProps)
       <CardHeader>
         <CardTitle>Upload SKUs</CardTitle>
         <CardDescription>
-          Upload a CSV or TSV file to create SKU listings on Amazon
+          Upload a CSV, TSV or Excel file, or an Amazon inventory template, to create SKU listings on Amazon
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -173,12 +192,12 @@ export default function SkuUploadCard({ onUploadComplete }: SkuUploadCardProps)
               <input
                 id="file-input"
                 type="file"
-                accept=".csv,.tsv"
+                accept=".csv,.tsv,.txt,.xlsx,.xlsm"
                 className="hidden"
                 onChange={handleFileSelect}
               />
               <Upload className="h-10 w-10 mx-auto mb-4 text-muted-foreground" />
-              <p className="text-lg font-medium">Drop your CSV or TSV file here</p>
+              <p className="text-lg font-medium">Drop your CSV, TSV or Excel file here</p>
               <p className="text-sm text-muted-foreground mt-1">
                 or click to browse
               </p>
@@ -194,13 +213,11 @@ export default function SkuUploadCard({ onUploadComplete }: SkuUploadCardProps)
           </>
         )}
 
-        {/* Reading / Validating */}
-        {(status === "reading" || status === "validating") && (
+        {/* Validating */}
+        {status === "validating" && (
           <div className="flex items-center justify-center py-8">
             <Loader2 className="h-8 w-8 animate-spin text-primary mr-3" />
-            <span className="text-lg">
-              {status === "reading" ? "Reading file..." : "Validating..."}
-            </span>
+            <span className="text-lg">Validating...</span>
           </div>
         )}
 
@@ -214,6 +231,13 @@ export default function SkuUploadCard({ onUploadComplete }: SkuUploadCardProps)
                 <p className="text-sm text-muted-foreground">
                   {validationResult.validRows} valid rows of {validationResult.totalRows} total
                 </p>
+                <p className="text-xs text-muted-foreground" data-testid="text-upload-source">
+                  {validationResult.templateType
+                    ? `Amazon inventory template (${validationResult.templateType})`
+                    : validationResult.format.toUpperCase()}
+                  {validationResult.sheetName && `, sheet "${validationResult.sheetName}"`}
+                  {`, header on row ${validationResult.headerRow}`}
+                </p>
               </div>
             </div>
 
@@ -236,6 +260,37 @@ export default function SkuUploadCard({ onUploadComplete }: SkuUploadCardProps)
               </Alert>
             )}
 
+            <div>
+              <p className="text-sm font-medium mb-2">Column mapping</p>
+              <div className="border rounded-md overflow-auto max-h-64">
+                <Table data-testid="table-column-mapping">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>File Column</TableHead>
+                      <TableHead>Maps To</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {validationResult.columns.map((mapping, i) => (
+                      <TableRow key={i}>
+                        <TableCell className="font-mono text-sm">{mapping.column}</TableCell>
+                        <TableCell>
+                          {mapping.field ? (
+                            <span className="flex items-center gap-1">
+                              <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                              {FIELD_LABELS[mapping.field] || mapping.field}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">Ignored</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
             {validationResult.preview.length > 0 && (
               <div>
                 <p className="text-sm font-medium mb-2">Preview (first 5 rows)</p>
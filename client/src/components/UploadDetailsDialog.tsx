@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Loader2, CheckCircle2, XCircle, AlertCircle, Download } from "lucide-react";
+import { Loader2, CheckCircle2, XCircle, AlertCircle, AlertTriangle, Info, Download, RotateCcw, CornerDownRight } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -12,6 +12,16 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
 
 interface SkuItem {
   id: string;
@@ -20,38 +30,104 @@ interface SkuItem {
   price: string | null;
   quantity: number | null;
   condition: string | null;
+  supplierDeclaredDgHzRegulation: string | null;
+  handlingTime: number | null;
+  messageId: number | null;
   status: string;
   errorMessage: string | null;
+  errorCode: string | null;
+  severity: string | null;
+  issues: string | null;
+  resubmittedUploadId: string | null;
+  createdAt: string;
+}
+
+interface FeedIssue {
+  messageId?: number;
+  code: string;
+  severity: string;
+  message: string;
+  attributeNames?: string[];
+}
+
+type ItemFilter = "all" | "errors" | "warnings";
+
+function parseIssues(item: SkuItem): FeedIssue[] {
+  if (!item.issues) return [];
+  try {
+    return JSON.parse(item.issues);
+  } catch {
+    return [];
+  }
+}
+
+interface LinkedUpload {
+  id: string;
+  filename: string;
+  status: string;
+  totalItems: number;
+  successCount: number;
+  errorCount: number;
   createdAt: string;
 }
 
+// Edits to a failed item before it is resubmitted
+interface ItemCorrection {
+  include: boolean;
+  price: string;
+  quantity: string;
+  handlingTime: string;
+  condition: string;
+  supplierDeclaredDgHzRegulation: string;
+}
+
+const CONDITIONS = ["new", "used", "refurbished"];
+
+const DG_HZ_REGULATIONS = ["Not Applicable", "GHS", "Storage", "Transportation", "Waste", "Other", "Unknown"];
+
 interface UploadDetails {
   id: string;
   filename: string;
   status: string;
+  uploadType: string;
   totalItems: number;
   successCount: number;
   errorCount: number;
   feedId: string | null;
+  closeFeedId: string | null;
+  closeFeedStatus: string | null;
   feedDocumentId: string | null;
   feedResult: string | null;
   errorMessage: string | null;
   createdAt: string;
   updatedAt: string;
+  parentUploadId: string | null;
   items: SkuItem[];
+  parentUpload: LinkedUpload | null;
+  retries: LinkedUpload[];
 }
 
 interface UploadDetailsDialogProps {
   uploadId: string | null;
   onClose: () => void;
+  onSelectUpload?: (uploadId: string) => void;
 }
 
-export default function UploadDetailsDialog({ uploadId, onClose }: UploadDetailsDialogProps) {
+export default function UploadDetailsDialog({ uploadId, onClose, onSelectUpload }: UploadDetailsDialogProps) {
   const [details, setDetails] = useState<UploadDetails | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [itemFilter, setItemFilter] = useState<ItemFilter>("all");
+  const [corrections, setCorrections] = useState<Record<string, ItemCorrection> | null>(null);
+  const [resubmitting, setResubmitting] = useState(false);
+  const [resubmitErrors, setResubmitErrors] = useState<string[]>([]);
+  const { toast } = useToast();
 
   useEffect(() => {
+    setItemFilter("all");
+    setCorrections(null);
+    setResubmitErrors([]);
+
     if (!uploadId) {
       setDetails(null);
       return;
@@ -132,6 +208,110 @@ export default function UploadDetailsDialog({ uploadId, onClose }: UploadDetails
     return new Date(dateString).toLocaleString();
   };
 
+  const renderIssue = (issue: FeedIssue, key: number) => {
+    const color =
+      issue.severity === "ERROR"
+        ? "text-red-600 dark:text-red-400"
+        : issue.severity === "WARNING"
+          ? "text-amber-600 dark:text-amber-400"
+          : "text-muted-foreground";
+    const Icon = issue.severity === "ERROR" ? XCircle : issue.severity === "WARNING" ? AlertTriangle : Info;
+
+    return (
+      <div key={key} className={`flex items-start gap-1 text-xs ${color}`}>
+        <Icon className="h-3 w-3 mt-0.5 shrink-0" />
+        <span>
+          {issue.code && <span className="font-mono">[{issue.code}]</span>} {issue.message}
+          {issue.attributeNames && issue.attributeNames.length > 0 && (
+            <span className="text-muted-foreground"> ({issue.attributeNames.join(", ")})</span>
+          )}
+        </span>
+      </div>
+    );
+  };
+
+  const errorItems = details?.items.filter((item) => item.status === "error") ?? [];
+  // Failures already sent again in a retry upload can't be resubmitted twice
+  const retryableItems = errorItems.filter((item) => !item.resubmittedUploadId);
+  // Offer updates only change price, quantity and handling time
+  const isOfferUpdate = details?.uploadType === "offer_update";
+
+  const startResubmit = () => {
+    const initial: Record<string, ItemCorrection> = {};
+    retryableItems.forEach((item) => {
+      initial[item.id] = {
+        include: true,
+        price: item.price ?? "",
+        quantity: item.quantity?.toString() ?? "",
+        handlingTime: item.handlingTime?.toString() ?? "",
+        condition: item.condition || "new",
+        supplierDeclaredDgHzRegulation: item.supplierDeclaredDgHzRegulation || "Not Applicable",
+      };
+    });
+    setCorrections(initial);
+    setResubmitErrors([]);
+  };
+
+  const updateCorrection = (itemId: string, changes: Partial<ItemCorrection>) => {
+    setCorrections((prev) => (prev ? { ...prev, [itemId]: { ...prev[itemId], ...changes } } : prev));
+  };
+
+  const selectedCount = corrections ? Object.values(corrections).filter((c) => c.include).length : 0;
+
+  const handleResubmit = async () => {
+    if (!details || !corrections) return;
+
+    setResubmitting(true);
+    setResubmitErrors([]);
+
+    try {
+      const items = Object.entries(corrections)
+        .filter(([, correction]) => correction.include)
+        .map(([id, correction]) =>
+          isOfferUpdate
+            ? {
+                id,
+                price: correction.price.trim(),
+                quantity: correction.quantity.trim(),
+                handlingTime: correction.handlingTime.trim(),
+              }
+            : {
+                id,
+                price: correction.price.trim(),
+                condition: correction.condition,
+                supplierDeclaredDgHzRegulation: correction.supplierDeclaredDgHzRegulation,
+              }
+        );
+
+      const response = await fetch(`/api/sku-upload/${details.id}/resubmit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ items }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        setResubmitErrors(data.parseErrors?.length ? data.parseErrors : [data.error || "Resubmission failed"]);
+        return;
+      }
+
+      toast({
+        title: "Failures resubmitted",
+        description: `${data.data.totalItems} SKUs sent to Amazon as a new upload`,
+      });
+      setCorrections(null);
+      onSelectUpload?.(data.data.uploadId);
+    } catch (err) {
+      setResubmitErrors([err instanceof Error ? err.message : "Resubmission failed"]);
+    } finally {
+      setResubmitting(false);
+    }
+  };
+
+  const warningItems = details?.items.filter((item) => parseIssues(item).some((issue) => issue.severity === "WARNING")) ?? [];
+  const visibleItems =
+    itemFilter === "errors" ? errorItems : itemFilter === "warnings" ? warningItems : details?.items ?? [];
+
   return (
     <Dialog open={!!uploadId} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="max-w-4xl max-h-[80vh]">
@@ -183,11 +363,59 @@ export default function UploadDetailsDialog({ uploadId, onClose }: UploadDetails
                 </p>
               </div>
               {details.feedId && (
-                <div className="col-span-2">
+                <div className={details.closeFeedId ? "" : "col-span-2"}>
                   <p className="text-sm text-muted-foreground">Feed ID</p>
                   <p className="font-mono text-sm">{details.feedId}</p>
                 </div>
               )}
+              {details.closeFeedId && (
+                <div>
+                  <p className="text-sm text-muted-foreground">Close Feed ID</p>
+                  <p className="font-mono text-sm">
+                    {details.closeFeedId}
+                    {details.closeFeedStatus && (
+                      <span className="ml-2 text-muted-foreground">({details.closeFeedStatus.toLowerCase()})</span>
+                    )}
+                  </p>
+                </div>
+              )}
+              {details.parentUpload && (
+                <div className="col-span-2">
+                  <p className="text-sm text-muted-foreground">Retry Of</p>
+                  <button
+                    type="button"
+                    className="text-sm font-medium text-primary hover:underline"
+                    onClick={() => onSelectUpload?.(details.parentUpload!.id)}
+                    data-testid="link-parent-upload"
+                  >
+                    {details.parentUpload.filename} ({formatDate(details.parentUpload.createdAt)})
+                  </button>
+                </div>
+              )}
+              {details.retries.length > 0 && (
+                <div className="col-span-2">
+                  <p className="text-sm text-muted-foreground">Retries</p>
+                  <ul className="space-y-1 mt-1">
+                    {details.retries.map((retry) => (
+                      <li key={retry.id} className="flex items-center gap-2 text-sm">
+                        <CornerDownRight className="h-3 w-3 text-muted-foreground" />
+                        <button
+                          type="button"
+                          className="font-medium text-primary hover:underline"
+                          onClick={() => onSelectUpload?.(retry.id)}
+                          data-testid={`link-retry-upload-${retry.id}`}
+                        >
+                          {formatDate(retry.createdAt)}
+                        </button>
+                        {getOverallStatusBadge(retry.status)}
+                        <span className="text-muted-foreground">
+                          {retry.successCount}/{retry.totalItems} succeeded
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               {(details.status === "completed" || details.status === "failed") && details.feedResult && (
                 <div className="col-span-2 space-y-3">
                   {/* Human-readable summary */}
@@ -197,7 +425,7 @@ export default function UploadDetailsDialog({ uploadId, onClose }: UploadDetails
                       const summary = result.summary;
                       const issues = result.issues || [];
                       const isSuccess = summary?.messagesAccepted > 0 && summary?.errors === 0;
-                      const isDelete = details.filename.startsWith("delete-");
+                      const isDelete = details.uploadType === "delete" || details.filename.startsWith("delete-");
 
                       return (
                         <div className={`rounded-md p-4 ${isSuccess ? "bg-green-50 dark:bg-green-950/30" : "bg-red-50 dark:bg-red-950/30"}`}>
@@ -210,7 +438,7 @@ export default function UploadDetailsDialog({ uploadId, onClose }: UploadDetails
                             <div className="flex-1">
                               <p className={`font-medium ${isSuccess ? "text-green-800 dark:text-green-200" : "text-red-800 dark:text-red-200"}`}>
                                 {isSuccess
-                                  ? (isDelete ? "SKU Successfully Deleted" : "SKU Successfully Created")
+                                  ? (isDelete ? "SKU Successfully Deleted" : isOfferUpdate ? "SKU Successfully Updated" : "SKU Successfully Created")
                                   : "Processing Failed"
                                 }
                               </p>
@@ -228,11 +456,14 @@ export default function UploadDetailsDialog({ uploadId, onClose }: UploadDetails
                                 <div className="mt-3 text-sm">
                                   <p className="font-medium text-red-800 dark:text-red-200">Issues:</p>
                                   <ul className="list-disc list-inside mt-1 space-y-1">
-                                    {issues.slice(0, 5).map((issue: any, i: number) => (
-                                      <li key={i} className="text-red-700 dark:text-red-300">
-                                        {issue.sku && <span className="font-mono">[{issue.sku}]</span>} {issue.message}
-                                      </li>
-                                    ))}
+                                    {issues.slice(0, 5).map((issue: any, i: number) => {
+                                      const sku = issue.sku ?? details.items.find((item) => item.messageId === issue.messageId)?.sku;
+                                      return (
+                                        <li key={i} className="text-red-700 dark:text-red-300">
+                                          {sku && <span className="font-mono">[{sku}]</span>} {issue.message}
+                                        </li>
+                                      );
+                                    })}
                                     {issues.length > 5 && (
                                       <li className="text-red-700 dark:text-red-300">
                                         ...and {issues.length - 5} more issues
@@ -272,37 +503,249 @@ export default function UploadDetailsDialog({ uploadId, onClose }: UploadDetails
               )}
             </div>
 
+            {/* Resubmit Failures */}
+            {details.status === "completed" && retryableItems.length > 0 && !corrections && (
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <p className="text-sm text-muted-foreground">
+                  Fix the failed SKUs and send them to Amazon again as a new upload.
+                </p>
+                <Button size="sm" onClick={startResubmit} data-testid="button-resubmit-failures">
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Resubmit Failures ({retryableItems.length})
+                </Button>
+              </div>
+            )}
+
+            {corrections && (
+              <div className="space-y-3 rounded-lg border p-3" data-testid="panel-resubmit-failures">
+                <p className="text-sm font-medium">Resubmit Failures</p>
+                {resubmitErrors.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Could not resubmit</AlertTitle>
+                    <AlertDescription>
+                      <ul className="list-disc list-inside">
+                        {resubmitErrors.slice(0, 5).map((message, i) => (
+                          <li key={i}>{message}</li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <ScrollArea className="h-[240px] border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10"></TableHead>
+                        <TableHead>SKU</TableHead>
+                        <TableHead>Error</TableHead>
+                        <TableHead className="w-28">Price</TableHead>
+                        {isOfferUpdate && <TableHead className="w-24">Qty</TableHead>}
+                        {isOfferUpdate && <TableHead className="w-28">Handling Days</TableHead>}
+                        {!isOfferUpdate && <TableHead className="w-36">Condition</TableHead>}
+                        {!isOfferUpdate && <TableHead className="w-44">DG/HazMat</TableHead>}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {retryableItems.map((item) => {
+                        const correction = corrections[item.id];
+                        if (!correction) return null;
+                        return (
+                          <TableRow key={item.id} data-testid={`row-resubmit-item-${item.id}`}>
+                            <TableCell>
+                              <Checkbox
+                                checked={correction.include}
+                                onCheckedChange={(checked) => updateCorrection(item.id, { include: checked === true })}
+                                data-testid={`checkbox-resubmit-${item.id}`}
+                              />
+                            </TableCell>
+                            <TableCell className="font-mono">{item.sku}</TableCell>
+                            <TableCell className="text-xs text-red-600 max-w-[200px]">{item.errorMessage}</TableCell>
+                            <TableCell>
+                              <Input
+                                value={correction.price}
+                                onChange={(e) => updateCorrection(item.id, { price: e.target.value })}
+                                placeholder="0.00"
+                                disabled={!correction.include}
+                                data-testid={`input-resubmit-price-${item.id}`}
+                              />
+                            </TableCell>
+                            {isOfferUpdate && (
+                              <>
+                                <TableCell>
+                                  <Input
+                                    value={correction.quantity}
+                                    onChange={(e) => updateCorrection(item.id, { quantity: e.target.value })}
+                                    placeholder="0"
+                                    disabled={!correction.include}
+                                    data-testid={`input-resubmit-quantity-${item.id}`}
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    value={correction.handlingTime}
+                                    onChange={(e) => updateCorrection(item.id, { handlingTime: e.target.value })}
+                                    placeholder="2"
+                                    disabled={!correction.include}
+                                    data-testid={`input-resubmit-handling-time-${item.id}`}
+                                  />
+                                </TableCell>
+                              </>
+                            )}
+                            {!isOfferUpdate && (
+                              <>
+                                <TableCell>
+                                  <Select
+                                    value={correction.condition}
+                                    onValueChange={(value) => updateCorrection(item.id, { condition: value })}
+                                    disabled={!correction.include}
+                                  >
+                                    <SelectTrigger data-testid={`select-resubmit-condition-${item.id}`}>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {CONDITIONS.map((condition) => (
+                                        <SelectItem key={condition} value={condition}>
+                                          {condition}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </TableCell>
+                                <TableCell>
+                                  <Select
+                                    value={correction.supplierDeclaredDgHzRegulation}
+                                    onValueChange={(value) => updateCorrection(item.id, { supplierDeclaredDgHzRegulation: value })}
+                                    disabled={!correction.include}
+                                  >
+                                    <SelectTrigger data-testid={`select-resubmit-dg-${item.id}`}>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {DG_HZ_REGULATIONS.map((regulation) => (
+                                        <SelectItem key={regulation} value={regulation}>
+                                          {regulation}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </TableCell>
+                              </>
+                            )}
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCorrections(null)}
+                    disabled={resubmitting}
+                    data-testid="button-cancel-resubmit"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleResubmit}
+                    disabled={resubmitting || selectedCount === 0}
+                    data-testid="button-confirm-resubmit"
+                  >
+                    {resubmitting ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                    )}
+                    Resubmit {selectedCount} SKU{selectedCount === 1 ? "" : "s"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Items Table */}
             {details.items.length > 0 && (
               <div>
-                <p className="text-sm font-medium mb-2">SKU Items ({details.items.length})</p>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm font-medium">SKU Items ({details.items.length})</p>
+                  {(errorItems.length > 0 || warningItems.length > 0) && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant={itemFilter === "all" ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setItemFilter("all")}
+                        data-testid="button-items-all"
+                      >
+                        All
+                      </Button>
+                      <Button
+                        variant={itemFilter === "errors" ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setItemFilter("errors")}
+                        data-testid="button-items-errors"
+                      >
+                        Errors ({errorItems.length})
+                      </Button>
+                      <Button
+                        variant={itemFilter === "warnings" ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setItemFilter("warnings")}
+                        data-testid="button-items-warnings"
+                      >
+                        Warnings ({warningItems.length})
+                      </Button>
+                    </div>
+                  )}
+                </div>
                 <ScrollArea className="h-[300px] border rounded-md">
                   <Table>
                     <TableHeader>
                       <TableRow>
+                        <TableHead className="w-12">#</TableHead>
                         <TableHead>SKU</TableHead>
                         <TableHead>ASIN</TableHead>
                         <TableHead>Price</TableHead>
                         <TableHead>Qty</TableHead>
-                        <TableHead>Condition</TableHead>
+                        <TableHead>{isOfferUpdate ? "Handling Time" : "Condition"}</TableHead>
                         <TableHead>Status</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {details.items.map((item) => (
-                        <TableRow key={item.id}>
+                      {visibleItems.map((item) => (
+                        <TableRow key={item.id} data-testid={`row-sku-item-${item.id}`}>
+                          <TableCell className="text-muted-foreground">{item.messageId ?? "-"}</TableCell>
                           <TableCell className="font-mono">{item.sku}</TableCell>
-                          <TableCell className="font-mono">{item.asin}</TableCell>
+                          <TableCell className="font-mono">{item.asin || "-"}</TableCell>
                           <TableCell>{item.price ? `$${item.price}` : "-"}</TableCell>
                           <TableCell>{item.quantity ?? "-"}</TableCell>
-                          <TableCell>{item.condition || "new"}</TableCell>
+                          <TableCell>
+                            {isOfferUpdate
+                              ? (item.handlingTime != null ? `${item.handlingTime} days` : "-")
+                              : (item.condition || "new")}
+                          </TableCell>
                           <TableCell>
                             <div className="flex flex-col gap-1">
                               {getStatusBadge(item.status)}
-                              {item.errorMessage && (
-                                <span className="text-xs text-red-600">
-                                  {item.errorMessage}
-                                </span>
+                              {item.resubmittedUploadId && (
+                                <button
+                                  type="button"
+                                  className="text-xs text-primary hover:underline text-left"
+                                  onClick={() => onSelectUpload?.(item.resubmittedUploadId!)}
+                                  data-testid={`link-item-retry-${item.id}`}
+                                >
+                                  resubmitted
+                                </button>
+                              )}
+                              {item.issues ? (
+                                parseIssues(item).map(renderIssue)
+                              ) : (
+                                item.errorMessage && (
+                                  <span className="text-xs text-red-600">
+                                    {item.errorMessage}
+                                  </span>
+                                )
                               )}
                             </div>
                           </TableCell>
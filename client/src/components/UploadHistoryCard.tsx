@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { RefreshCw, Eye, Loader2, Download } from "lucide-react";
+import { RefreshCw, Eye, Loader2, Download, CornerDownRight } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -10,12 +10,16 @@ interface SkuUpload {
   id: string;
   filename: string;
   status: string;
+  uploadType: string;
   totalItems: number;
   successCount: number;
   errorCount: number;
   feedId: string | null;
   feedResult: string | null;
+  closeFeedId: string | null;
+  closeFeedStatus: string | null;
   errorMessage: string | null;
+  parentUploadId: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -43,37 +47,18 @@ export default function UploadHistoryCard({ refreshTrigger }: UploadHistoryCardP
     }
   }, []);
 
-  // Poll for status updates on processing uploads
-  const pollProcessingUploads = useCallback(async () => {
-    const processingUploads = uploads.filter((u) => u.status === "processing");
-
-    for (const upload of processingUploads) {
-      try {
-        const response = await fetch(`/api/sku-upload/${upload.id}/status`);
-        const data = await response.json();
-        if (data.success && data.data.status !== upload.status) {
-          setUploads((prev) =>
-            prev.map((u) => (u.id === upload.id ? data.data : u))
-          );
-        }
-      } catch (err) {
-        console.error(`Failed to poll status for ${upload.id}:`, err);
-      }
-    }
-  }, [uploads]);
-
   useEffect(() => {
     fetchUploads();
   }, [fetchUploads, refreshTrigger]);
 
-  // Poll every 5 seconds for processing uploads
+  // The server polls Amazon for processing feeds and tells us when one finishes.
+  // Refetch on (re)connect too, in case an event was missed while disconnected.
   useEffect(() => {
-    const hasProcessing = uploads.some((u) => u.status === "processing");
-    if (!hasProcessing) return;
-
-    const interval = setInterval(pollProcessingUploads, 5000);
-    return () => clearInterval(interval);
-  }, [uploads, pollProcessingUploads]);
+    const events = new EventSource("/api/sku-uploads/events");
+    events.addEventListener("feedCompleted", () => fetchUploads());
+    events.onopen = () => fetchUploads();
+    return () => events.close();
+  }, [fetchUploads]);
 
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -97,10 +82,44 @@ export default function UploadHistoryCard({ refreshTrigger }: UploadHistoryCardP
     }
   };
 
+  const getTypeBadge = (uploadType: string) => {
+    switch (uploadType) {
+      case "offer_update":
+        return <Badge variant="outline">price/qty update</Badge>;
+      case "delete":
+        return <Badge variant="outline">delete</Badge>;
+      default:
+        return null;
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
 
+  // List each retry upload beneath the upload it retried, oldest retry first
+  const orderedUploads = (() => {
+    const ids = new Set(uploads.map((u) => u.id));
+    const children = new Map<string, SkuUpload[]>();
+    uploads.forEach((upload) => {
+      if (upload.parentUploadId && ids.has(upload.parentUploadId)) {
+        const list = children.get(upload.parentUploadId) ?? [];
+        list.unshift(upload);
+        children.set(upload.parentUploadId, list);
+      }
+    });
+
+    const rows: { upload: SkuUpload; depth: number }[] = [];
+    const addRows = (upload: SkuUpload, depth: number) => {
+      rows.push({ upload, depth });
+      (children.get(upload.id) ?? []).forEach((child) => addRows(child, depth + 1));
+    };
+    uploads
+      .filter((upload) => !upload.parentUploadId || !ids.has(upload.parentUploadId))
+      .forEach((upload) => addRows(upload, 0));
+    return rows;
+  })();
+
   if (loading) {
     return (
       <Card>
@@ -150,9 +169,23 @@ export default function UploadHistoryCard({ refreshTrigger }: UploadHistoryCardP
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {uploads.map((upload) => (
-                    <TableRow key={upload.id}>
-                      <TableCell className="font-medium">{upload.filename}</TableCell>
+                  {orderedUploads.map(({ upload, depth }) => (
+                    <TableRow key={upload.id} data-testid={`row-upload-${upload.id}`}>
+                      <TableCell className="font-medium">
+                        {depth > 0 ? (
+                          <div className="flex items-center gap-2" style={{ paddingLeft: `${(depth - 1) * 16}px` }}>
+                            <CornerDownRight className="h-4 w-4 text-muted-foreground" />
+                            <span>{upload.filename}</span>
+                            <Badge variant="outline">retry</Badge>
+                            {getTypeBadge(upload.uploadType)}
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <span>{upload.filename}</span>
+                            {getTypeBadge(upload.uploadType)}
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell className="text-muted-foreground">
                         {formatDate(upload.createdAt)}
                       </TableCell>
@@ -200,6 +233,10 @@ export default function UploadHistoryCard({ refreshTrigger }: UploadHistoryCardP
       <UploadDetailsDialog
         uploadId={selectedUploadId}
         onClose={() => setSelectedUploadId(null)}
+        onSelectUpload={(id) => {
+          setSelectedUploadId(id);
+          fetchUploads();
+        }}
       />
     </>
   );
@@ -0,0 +1,68 @@
+import { useState, useEffect } from "react";
+
+export interface Marketplace {
+  id: string;
+  countryCode: string;
+  name: string;
+  region: string;
+  currency: string;
+  timezone: string;
+  domain: string;
+  sellerCentralUrl: string;
+}
+
+interface MarketplacesResponse {
+  success: boolean;
+  defaultMarketplaceId?: string;
+  data?: Marketplace[];
+  error?: string;
+}
+
+// Shared between all components so the participations are only fetched once
+let marketplacesRequest: Promise<MarketplacesResponse> | null = null;
+
+function loadMarketplaces(): Promise<MarketplacesResponse> {
+  if (!marketplacesRequest) {
+    marketplacesRequest = fetch("/api/marketplaces")
+      .then((response) => response.json())
+      .then((data: MarketplacesResponse) => {
+        if (!data.success) {
+          marketplacesRequest = null;
+        }
+        return data;
+      })
+      .catch((error) => {
+        marketplacesRequest = null;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to load marketplaces",
+        };
+      });
+  }
+  return marketplacesRequest;
+}
+
+export function useMarketplaces() {
+  const [marketplaces, setMarketplaces] = useState<Marketplace[]>([]);
+  const [defaultMarketplaceId, setDefaultMarketplaceId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadMarketplaces().then((data) => {
+      if (cancelled) return;
+      if (data.success && data.data) {
+        setMarketplaces(data.data);
+        setDefaultMarketplaceId(data.defaultMarketplaceId || data.data[0]?.id || null);
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { marketplaces, defaultMarketplaceId, loading };
+}
@@ -1,4 +1,8 @@
 import SalesWidget from "@/components/SalesWidget";
+import SalesChart from "@/components/SalesChart";
+import SalesBreakdownCard from "@/components/SalesBreakdownCard";
+import ProfitSummaryCard from "@/components/ProfitSummaryCard";
+import InventoryAlertsCard from "@/components/InventoryAlertsCard";
 
 export default function Dashboard() {
   return (
@@ -11,6 +15,14 @@ export default function Dashboard() {
       </div>
 
       <SalesWidget />
+
+      <SalesChart />
+
+      <SalesBreakdownCard />
+
+      <ProfitSummaryCard />
+
+      <InventoryAlertsCard />
     </div>
   );
 }
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import InboundOrdersCard from "@/components/InboundOrdersCard";
+import InboundShipmentsCard from "@/components/InboundShipmentsCard";
 import SupplierOrderDetailDialog from "@/components/SupplierOrderDetailDialog";
 
 interface SupplierOrder {
@@ -47,12 +48,14 @@ export default function InboundOrders() {
       <div>
         <h1 className="text-2xl font-semibold">Inbound Orders</h1>
         <p className="text-muted-foreground mt-1">
-          Track orders placed with your suppliers
+          Track orders placed with your suppliers and the shipments you send on to Amazon
         </p>
       </div>
 
       <InboundOrdersCard key={refreshKey} onViewOrder={handleViewOrder} />
 
+      <InboundShipmentsCard />
+
       <SupplierOrderDetailDialog
         order={selectedOrder}
         onClose={() => setSelectedOrder(null)}
@@ -0,0 +1,16 @@
+import RestockCard from "@/components/RestockCard";
+
+export default function Restock() {
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-semibold">Restock</h1>
+        <p className="text-muted-foreground mt-1">
+          See which SKUs to reorder and how much, from sales velocity, FBA stock and supplier lead times
+        </p>
+      </div>
+
+      <RestockCard />
+    </div>
+  );
+}
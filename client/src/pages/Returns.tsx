@@ -0,0 +1,18 @@
+import ReturnsSummaryCard from "@/components/ReturnsSummaryCard";
+import ReturnsListCard from "@/components/ReturnsListCard";
+
+export default function Returns() {
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-semibold">Returns</h1>
+        <p className="text-muted-foreground mt-1">
+          Track FBA customer returns, return reasons and refunds by SKU
+        </p>
+      </div>
+
+      <ReturnsSummaryCard />
+      <ReturnsListCard />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import ConnectionTestCard from "@/components/ConnectionTestCard";
 import GmailAccountsCard from "@/components/GmailAccountsCard";
 import SupplierTrackingSettingsCard from "@/components/SupplierTrackingSettingsCard";
+import InventoryAlertRulesCard from "@/components/InventoryAlertRulesCard";
 import SupplierWhitelistCard from "@/components/SupplierWhitelistCard";
 import SyncLogsCard from "@/components/SyncLogsCard";
 
@@ -19,6 +20,7 @@ export default function Settings() {
       <SupplierWhitelistCard />
       <SyncLogsCard />
       <SupplierTrackingSettingsCard />
+      <InventoryAlertRulesCard />
     </div>
   );
 }
@@ -2,6 +2,7 @@ import { useState } from "react";
 import CsvTemplateCard from "@/components/CsvTemplateCard";
 import SkuUploadCard from "@/components/SkuUploadCard";
 import SkuDeleteCard from "@/components/SkuDeleteCard";
+import SkuUpdateCard from "@/components/SkuUpdateCard";
 import UploadHistoryCard from "@/components/UploadHistoryCard";
 
 export default function SkuUpload() {
@@ -17,13 +18,14 @@ export default function SkuUpload() {
       <div>
         <h1 className="text-2xl font-semibold">SKU Management</h1>
         <p className="text-muted-foreground mt-1">
-          Create and delete SKU listings linked to existing Amazon ASINs
+          Create, reprice and delete SKU listings linked to existing Amazon ASINs
         </p>
       </div>
 
       <div className="grid gap-8 lg:grid-cols-2">
         <SkuUploadCard onUploadComplete={handleUploadComplete} />
         <SkuDeleteCard onDeleteComplete={handleUploadComplete} />
+        <SkuUpdateCard onUpdateComplete={handleUploadComplete} />
       </div>
 
       <CsvTemplateCard />
@@ -0,0 +1,26 @@
+import { readFileSync } from "fs";
+import { createSPAPISimulator } from "../server/spApiSimulator";
+
+// Run the local SP-API simulator:
+//   npm run simulator
+// Options (environment):
+//   SIMULATOR_PORT      port to listen on (default 5100)
+//   SIMULATOR_SEED      seed for generated fixtures (default 42)
+//   SIMULATOR_FIXTURES  JSON file whose keys override the generated fixtures
+
+const port = parseInt(process.env.SIMULATOR_PORT || "5100", 10);
+const seed = parseInt(process.env.SIMULATOR_SEED || "42", 10);
+const fixtures = process.env.SIMULATOR_FIXTURES
+  ? JSON.parse(readFileSync(process.env.SIMULATOR_FIXTURES, "utf-8"))
+  : undefined;
+
+const { app, state } = createSPAPISimulator({ fixtures, fixtureOptions: { seed } });
+
+app.listen(port, () => {
+  const base = `http://localhost:${port}`;
+  console.log(`SP-API simulator listening on ${base} (seed ${state.fixtures.seed})`);
+  console.log(`  SP_API_BASE_URL_NA=${base}`);
+  console.log(`  SP_API_BASE_URL_EU=${base}/eu`);
+  console.log(`  SP_API_BASE_URL_FE=${base}/fe`);
+  console.log(`  LWA_TOKEN_ENDPOINT=${base}/auth/o2/token`);
+});
@@ -1,4 +1,4 @@
-import { eq, desc, and, gte, lte, like, or, sql, inArray } from "drizzle-orm";
+import { eq, ne, desc, asc, and, gt, gte, lte, lt, like, ilike, or, sql, inArray, isNull, isNotNull } from "drizzle-orm";
 import { db } from "./db";
 import {
   users,
@@ -10,6 +10,21 @@ import {
   emailSyncLogs,
   supplierTrackingSettings,
   supplierWhitelist,
+  salesSnapshots,
+  amazonOrders,
+  amazonOrderItems,
+  amazonOrderSyncState,
+  amazonReturns,
+  fbaInventoryItems,
+  fbaInventorySyncState,
+  fbaInventorySnapshots,
+  inventoryAlertRules,
+  inventoryAlerts,
+  fbaInboundPlans,
+  fbaInboundShipments,
+  fbaInboundShipmentItems,
+  fbaInboundSyncState,
+  defaultInventoryAlertRules,
   type User,
   type InsertUser,
   type SkuUpload,
@@ -28,8 +43,61 @@ import {
   type InsertSupplierTrackingSettings,
   type SupplierWhitelist,
   type InsertSupplierWhitelist,
+  type SalesSnapshot,
+  type InsertSalesSnapshot,
+  type AmazonOrder,
+  type InsertAmazonOrder,
+  type AmazonOrderItem,
+  type InsertAmazonOrderItem,
+  type AmazonOrderSyncState,
+  type InsertAmazonOrderSyncState,
+  type AmazonReturn,
+  type InsertAmazonReturn,
+  type AmazonReturnType,
+  type FbaInventoryItem,
+  type InsertFbaInventoryItem,
+  type FbaInventorySyncState,
+  type InsertFbaInventorySyncState,
+  type FbaInventorySnapshot,
+  type InsertFbaInventorySnapshot,
+  type InventoryAlertRule,
+  type InsertInventoryAlertRule,
+  type InventoryAlert,
+  type InsertInventoryAlert,
+  type FbaInboundPlan,
+  type InsertFbaInboundPlan,
+  type FbaInboundShipment,
+  type InsertFbaInboundShipment,
+  type FbaInboundShipmentItem,
+  type InsertFbaInboundShipmentItem,
+  type FbaInboundSyncState,
+  type InsertFbaInboundSyncState,
 } from "@shared/schema";
-import { IStorage, SupplierOrderFilters, SupplierOrderStats } from "./storage";
+import {
+  IStorage,
+  SupplierOrderFilters,
+  SupplierOrderStats,
+  AmazonOrderFilters,
+  AmazonOrderStats,
+  AmazonOrderWithItems,
+  AmazonOrderItemFees,
+  SupplierItemCost,
+  SupplierItemSource,
+  AmazonSkuUnitsSold,
+  FbaStockoutDays,
+  AmazonReturnFilters,
+  AmazonReturnSkuStats,
+  AmazonReturnReasonStats,
+  FbaInboundShipmentFilters,
+  SkuItemUpdate,
+} from "./storage";
+
+// Order total, falling back to the item total for orders Amazon hasn't priced yet
+const amazonOrderAmount = sql<number>`coalesce(${amazonOrders.orderTotal}, case when ${amazonOrders.orderStatus} <> 'Canceled' then ${amazonOrders.itemsTotal} end, 0)`;
+
+// Rows per multi-row INSERT. Postgres caps a statement at 65535 bind parameters,
+// so the widest tables here (~16 columns) must be written in slices.
+const INSERT_CHUNK_SIZE = 1000;
 
 export class DatabaseStorage implements IStorage {
   // User methods
@@ -66,6 +134,18 @@ export class DatabaseStorage implements IStorage {
       .offset(offset);
   }
 
+  async getSkuUploadsByParentId(parentUploadId: string): Promise<SkuUpload[]> {
+    return db.select().from(skuUploads)
+      .where(eq(skuUploads.parentUploadId, parentUploadId))
+      .orderBy(skuUploads.createdAt);
+  }
+
+  async getSkuUploadsByStatus(status: string): Promise<SkuUpload[]> {
+    return db.select().from(skuUploads)
+      .where(eq(skuUploads.status, status))
+      .orderBy(skuUploads.createdAt);
+  }
+
   async updateSkuUpload(id: string, data: Partial<SkuUpload>): Promise<SkuUpload | undefined> {
     const [updated] = await db.update(skuUploads)
       .set({ ...data, updatedAt: new Date() })
@@ -77,13 +157,20 @@ export class DatabaseStorage implements IStorage {
   // SKU Item methods
   async createSkuItems(insertItems: InsertSkuItem[]): Promise<SkuItem[]> {
     if (insertItems.length === 0) return [];
-    return db.insert(skuItems).values(insertItems).returning();
+    return db.transaction(async (tx) => {
+      const created: SkuItem[] = [];
+      for (let i = 0; i < insertItems.length; i += INSERT_CHUNK_SIZE) {
+        const rows = await tx.insert(skuItems).values(insertItems.slice(i, i + INSERT_CHUNK_SIZE)).returning();
+        created.push(...rows);
+      }
+      return created;
+    });
   }
 
   async getSkuItemsByUploadId(uploadId: string): Promise<SkuItem[]> {
     return db.select().from(skuItems)
       .where(eq(skuItems.uploadId, uploadId))
-      .orderBy(skuItems.createdAt);
+      .orderBy(skuItems.createdAt, skuItems.messageId);
   }
 
   async updateSkuItem(id: string, data: Partial<SkuItem>): Promise<SkuItem | undefined> {
@@ -94,17 +181,44 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async updateSkuItemsBatch(
-    uploadId: string,
-    updates: { sku: string; status: string; errorMessage?: string }[]
-  ): Promise<void> {
-    for (const update of updates) {
-      await db.update(skuItems)
-        .set({ status: update.status, errorMessage: update.errorMessage })
-        .where(and(eq(skuItems.uploadId, uploadId), eq(skuItems.sku, update.sku)));
+  async updateSkuItemsBatch(uploadId: string, updates: SkuItemUpdate[]): Promise<void> {
+    // One UPDATE ... FROM (VALUES ...) per chunk rather than a round trip per item
+    for (let i = 0; i < updates.length; i += INSERT_CHUNK_SIZE) {
+      const values = sql.join(
+        updates.slice(i, i + INSERT_CHUNK_SIZE).map((update) =>
+          sql`(${update.id}, ${update.status}, ${update.errorMessage}, ${update.errorCode}, ${update.severity}, ${update.issues})`
+        ),
+        sql`, `
+      );
+      await db.execute(sql`
+        update ${skuItems} set
+          status = v.status,
+          error_message = v.error_message,
+          error_code = v.error_code,
+          severity = v.severity,
+          issues = v.issues
+        from (values ${values}) as v(id, status, error_message, error_code, severity, issues)
+        where ${skuItems.id} = v.id and ${skuItems.uploadId} = ${uploadId}
+      `);
     }
   }
 
+  async markSkuItemsResubmitted(itemIds: string[], resubmittedUploadId: string): Promise<number> {
+    if (itemIds.length === 0) return 0;
+    // Only items not already claimed, so concurrent resubmits can't both take one
+    const rows = await db.update(skuItems)
+      .set({ resubmittedUploadId })
+      .where(and(inArray(skuItems.id, itemIds), isNull(skuItems.resubmittedUploadId)))
+      .returning({ id: skuItems.id });
+    return rows.length;
+  }
+
+  async releaseResubmittedSkuItems(resubmittedUploadId: string): Promise<void> {
+    await db.update(skuItems)
+      .set({ resubmittedUploadId: null })
+      .where(eq(skuItems.resubmittedUploadId, resubmittedUploadId));
+  }
+
   // Gmail Account methods
   async createGmailAccount(insertAccount: InsertGmailAccount): Promise<GmailAccount> {
     const [account] = await db.insert(gmailAccounts).values(insertAccount).returning();
@@ -342,6 +456,42 @@ export class DatabaseStorage implements IStorage {
       .orderBy(supplierOrderItems.createdAt);
   }
 
+  async getSupplierItemCosts(): Promise<SupplierItemCost[]> {
+    const rows = await db.select({
+      sku: supplierOrderItems.sku,
+      asin: supplierOrderItems.asin,
+      quantity: supplierOrderItems.quantity,
+      unitCost: supplierOrderItems.unitCost,
+      currency: supplierOrders.currency,
+    })
+      .from(supplierOrderItems)
+      .innerJoin(supplierOrders, eq(supplierOrderItems.orderId, supplierOrders.id))
+      .where(and(
+        isNotNull(supplierOrderItems.unitCost),
+        or(isNotNull(supplierOrderItems.sku), isNotNull(supplierOrderItems.asin)),
+        ne(supplierOrders.status, "cancelled")
+      ));
+    return rows.map((row) => ({ ...row, unitCost: row.unitCost! }));
+  }
+
+  async getSupplierItemSources(): Promise<SupplierItemSource[]> {
+    return db.select({
+      orderId: supplierOrders.id,
+      sku: supplierOrderItems.sku,
+      asin: supplierOrderItems.asin,
+      supplierName: supplierOrders.supplierName,
+      supplierEmail: supplierOrders.supplierEmail,
+      orderDate: supplierOrders.orderDate,
+      actualDeliveryDate: supplierOrders.actualDeliveryDate,
+    })
+      .from(supplierOrderItems)
+      .innerJoin(supplierOrders, eq(supplierOrderItems.orderId, supplierOrders.id))
+      .where(and(
+        or(isNotNull(supplierOrderItems.sku), isNotNull(supplierOrderItems.asin)),
+        ne(supplierOrders.status, "cancelled")
+      ));
+  }
+
   // Email Sync Log methods
   async createEmailSyncLog(insertLog: InsertEmailSyncLog): Promise<EmailSyncLog> {
     const [log] = await db.insert(emailSyncLogs).values(insertLog).returning();
@@ -478,4 +628,803 @@ export class DatabaseStorage implements IStorage {
 
     return false;
   }
+
+  // Sales Snapshot methods
+  async upsertSalesSnapshots(insertSnapshots: InsertSalesSnapshot[]): Promise<number> {
+    if (insertSnapshots.length === 0) return 0;
+    const result = await db.insert(salesSnapshots)
+      .values(insertSnapshots)
+      .onConflictDoUpdate({
+        target: [salesSnapshots.marketplaceId, salesSnapshots.date],
+        set: {
+          totalSales: sql`excluded.total_sales`,
+          currency: sql`excluded.currency`,
+          unitCount: sql`excluded.unit_count`,
+          orderItemCount: sql`excluded.order_item_count`,
+          orderCount: sql`excluded.order_count`,
+          fetchedAt: sql`excluded.fetched_at`,
+        },
+      });
+    return result.rowCount ?? 0;
+  }
+
+  async getSalesSnapshots(marketplaceId: string, startDate: string, endDate: string): Promise<SalesSnapshot[]> {
+    return db.select().from(salesSnapshots)
+      .where(and(
+        eq(salesSnapshots.marketplaceId, marketplaceId),
+        gte(salesSnapshots.date, startDate),
+        lte(salesSnapshots.date, endDate)
+      ))
+      .orderBy(salesSnapshots.date);
+  }
+
+  // Amazon Order methods
+  async upsertAmazonOrders(insertOrders: InsertAmazonOrder[]): Promise<AmazonOrder[]> {
+    if (insertOrders.length === 0) return [];
+    return db.insert(amazonOrders)
+      .values(insertOrders)
+      .onConflictDoUpdate({
+        target: amazonOrders.amazonOrderId,
+        set: {
+          marketplaceId: sql`excluded.marketplace_id`,
+          purchaseDate: sql`excluded.purchase_date`,
+          lastUpdateDate: sql`excluded.last_update_date`,
+          orderStatus: sql`excluded.order_status`,
+          fulfillmentChannel: sql`excluded.fulfillment_channel`,
+          salesChannel: sql`excluded.sales_channel`,
+          orderTotal: sql`excluded.order_total`,
+          itemsTotal: sql`excluded.items_total`,
+          currency: sql`excluded.currency`,
+          numberOfItemsShipped: sql`excluded.number_of_items_shipped`,
+          numberOfItemsUnshipped: sql`excluded.number_of_items_unshipped`,
+          paymentMethod: sql`excluded.payment_method`,
+          isPrime: sql`excluded.is_prime`,
+          isBusinessOrder: sql`excluded.is_business_order`,
+          shipCity: sql`excluded.ship_city`,
+          shipState: sql`excluded.ship_state`,
+          shipPostalCode: sql`excluded.ship_postal_code`,
+          itemsSyncedAt: sql`excluded.items_synced_at`,
+          feesSyncedAt: sql`excluded.fees_synced_at`,
+          rawData: sql`excluded.raw_data`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+  }
+
+  async getAmazonOrdersByIds(amazonOrderIds: string[]): Promise<AmazonOrder[]> {
+    if (amazonOrderIds.length === 0) return [];
+    return db.select().from(amazonOrders).where(inArray(amazonOrders.amazonOrderId, amazonOrderIds));
+  }
+
+  async updateAmazonOrder(amazonOrderId: string, data: Partial<AmazonOrder>): Promise<AmazonOrder | undefined> {
+    const [updated] = await db.update(amazonOrders)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(amazonOrders.amazonOrderId, amazonOrderId))
+      .returning();
+    return updated;
+  }
+
+  private buildAmazonOrderWhere(filters: AmazonOrderFilters) {
+    const conditions = [];
+
+    if (filters.marketplaceId) {
+      conditions.push(eq(amazonOrders.marketplaceId, filters.marketplaceId));
+    }
+    if (filters.status) {
+      conditions.push(eq(amazonOrders.orderStatus, filters.status));
+    }
+    if (filters.startDate) {
+      conditions.push(gte(amazonOrders.purchaseDate, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lte(amazonOrders.purchaseDate, filters.endDate));
+    }
+    if (filters.missingItems) {
+      conditions.push(isNull(amazonOrders.itemsSyncedAt));
+    }
+    if (filters.missingFees) {
+      conditions.push(
+        inArray(amazonOrders.orderStatus, ["Shipped", "PartiallyShipped"]),
+        isNotNull(amazonOrders.itemsSyncedAt),
+        isNull(amazonOrders.feesSyncedAt)
+      );
+    }
+    if (filters.search) {
+      const searchPattern = `%${filters.search}%`;
+      const matchingItems = db.select({ amazonOrderId: amazonOrderItems.amazonOrderId })
+        .from(amazonOrderItems)
+        .where(or(
+          ilike(amazonOrderItems.sku, searchPattern),
+          ilike(amazonOrderItems.asin, searchPattern)
+        ));
+      conditions.push(or(
+        ilike(amazonOrders.amazonOrderId, searchPattern),
+        ilike(amazonOrders.shipCity, searchPattern),
+        ilike(amazonOrders.shipState, searchPattern),
+        inArray(amazonOrders.amazonOrderId, matchingItems)
+      ));
+    }
+
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  async getAmazonOrders(filters: AmazonOrderFilters): Promise<{ orders: AmazonOrderWithItems[]; total: number }> {
+    const whereClause = this.buildAmazonOrderWhere(filters);
+
+    // Get total count first
+    const [countResult] = await db.select({ count: sql<number>`count(*)` })
+      .from(amazonOrders)
+      .where(whereClause);
+    const total = Number(countResult?.count ?? 0);
+
+    const sortColumn = {
+      purchaseDate: amazonOrders.purchaseDate,
+      lastUpdateDate: amazonOrders.lastUpdateDate,
+      orderTotal: amazonOrderAmount,
+      orderStatus: amazonOrders.orderStatus,
+    }[filters.sortBy ?? "purchaseDate"];
+    const sortOrder = filters.sortDirection === "asc" ? asc(sortColumn) : desc(sortColumn);
+
+    const orders = await db.select().from(amazonOrders)
+      .where(whereClause)
+      .orderBy(sortOrder, desc(amazonOrders.purchaseDate), asc(amazonOrders.amazonOrderId))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+
+    const items = orders.length > 0
+      ? await db.select().from(amazonOrderItems)
+          .where(inArray(amazonOrderItems.amazonOrderId, orders.map((o) => o.amazonOrderId)))
+      : [];
+
+    return {
+      orders: orders.map((order) => ({
+        ...order,
+        items: items.filter((item) => item.amazonOrderId === order.amazonOrderId),
+      })),
+      total,
+    };
+  }
+
+  async getAmazonOrdersAfter(filters: AmazonOrderFilters, afterOrderId: string | null, limit: number): Promise<AmazonOrderWithItems[]> {
+    const orders = await db.select().from(amazonOrders)
+      .where(and(
+        this.buildAmazonOrderWhere(filters),
+        afterOrderId !== null ? gt(amazonOrders.amazonOrderId, afterOrderId) : undefined
+      ))
+      .orderBy(asc(amazonOrders.amazonOrderId))
+      .limit(limit);
+
+    const items = orders.length > 0
+      ? await db.select().from(amazonOrderItems)
+          .where(inArray(amazonOrderItems.amazonOrderId, orders.map((o) => o.amazonOrderId)))
+      : [];
+
+    return orders.map((order) => ({
+      ...order,
+      items: items.filter((item) => item.amazonOrderId === order.amazonOrderId),
+    }));
+  }
+
+  async getAmazonOrderStats(filters: AmazonOrderFilters): Promise<AmazonOrderStats> {
+    const [stats] = await db.select({
+      totalOrders: sql<number>`count(*)`,
+      pendingOrders: sql<number>`count(*) filter (where ${amazonOrders.orderStatus} = 'Pending')`,
+      unshippedOrders: sql<number>`count(*) filter (where ${amazonOrders.orderStatus} = 'Unshipped')`,
+      shippedOrders: sql<number>`count(*) filter (where ${amazonOrders.orderStatus} = 'Shipped')`,
+      canceledOrders: sql<number>`count(*) filter (where ${amazonOrders.orderStatus} = 'Canceled')`,
+      totalRevenue: sql<number>`coalesce(sum(${amazonOrderAmount}), 0)`,
+    })
+      .from(amazonOrders)
+      .where(this.buildAmazonOrderWhere(filters));
+
+    return {
+      totalOrders: Number(stats?.totalOrders ?? 0),
+      pendingOrders: Number(stats?.pendingOrders ?? 0),
+      unshippedOrders: Number(stats?.unshippedOrders ?? 0),
+      shippedOrders: Number(stats?.shippedOrders ?? 0),
+      canceledOrders: Number(stats?.canceledOrders ?? 0),
+      totalRevenue: Math.round(Number(stats?.totalRevenue ?? 0) * 100) / 100,
+    };
+  }
+
+  async getAmazonSkuUnitsSold(filters: AmazonOrderFilters): Promise<AmazonSkuUnitsSold[]> {
+    const rows = await db.select({
+      sku: amazonOrderItems.sku,
+      asin: sql<string | null>`max(${amazonOrderItems.asin})`,
+      title: sql<string | null>`max(${amazonOrderItems.title})`,
+      unitsSold: sql<number>`coalesce(sum(${amazonOrderItems.quantityOrdered}), 0)`,
+    })
+      .from(amazonOrderItems)
+      .innerJoin(amazonOrders, eq(amazonOrderItems.amazonOrderId, amazonOrders.amazonOrderId))
+      .where(and(
+        this.buildAmazonOrderWhere(filters),
+        isNotNull(amazonOrderItems.sku),
+        ne(amazonOrders.orderStatus, "Canceled")
+      ))
+      .groupBy(amazonOrderItems.sku);
+
+    return rows.map((row) => ({ ...row, sku: row.sku!, unitsSold: Number(row.unitsSold) }));
+  }
+
+  // Amazon Order Item methods
+  async replaceAmazonOrderItems(amazonOrderId: string, insertItems: InsertAmazonOrderItem[]): Promise<AmazonOrderItem[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(amazonOrderItems).where(eq(amazonOrderItems.amazonOrderId, amazonOrderId));
+      if (insertItems.length === 0) return [];
+      return tx.insert(amazonOrderItems).values(insertItems).returning();
+    });
+  }
+
+  async updateAmazonOrderItemFees(amazonOrderId: string, fees: AmazonOrderItemFees[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const fee of fees) {
+        await tx.update(amazonOrderItems)
+          .set({ referralFee: fee.referralFee, fbaFee: fee.fbaFee, otherFees: fee.otherFees })
+          .where(and(
+            eq(amazonOrderItems.amazonOrderId, amazonOrderId),
+            eq(amazonOrderItems.orderItemId, fee.orderItemId)
+          ));
+      }
+    });
+  }
+
+  // Amazon Order Sync State methods
+  async getAmazonOrderSyncState(marketplaceId: string): Promise<AmazonOrderSyncState | undefined> {
+    const [state] = await db.select().from(amazonOrderSyncState)
+      .where(eq(amazonOrderSyncState.marketplaceId, marketplaceId));
+    return state;
+  }
+
+  async getAllAmazonOrderSyncStates(): Promise<AmazonOrderSyncState[]> {
+    return db.select().from(amazonOrderSyncState);
+  }
+
+  async upsertAmazonOrderSyncState(insertState: InsertAmazonOrderSyncState): Promise<AmazonOrderSyncState> {
+    const [state] = await db.insert(amazonOrderSyncState)
+      .values(insertState)
+      .onConflictDoUpdate({
+        target: amazonOrderSyncState.marketplaceId,
+        set: { ...insertState, updatedAt: new Date() },
+      })
+      .returning();
+    return state;
+  }
+
+  // Amazon Return methods
+  async upsertAmazonReturns(insertReturns: InsertAmazonReturn[]): Promise<number> {
+    if (insertReturns.length === 0) return 0;
+    const rows = await db.insert(amazonReturns)
+      .values(insertReturns)
+      .onConflictDoUpdate({
+        target: amazonReturns.eventKey,
+        set: {
+          type: sql`excluded.type`,
+          amazonOrderId: sql`excluded.amazon_order_id`,
+          marketplaceId: sql`excluded.marketplace_id`,
+          sku: sql`excluded.sku`,
+          asin: sql`excluded.asin`,
+          fnsku: sql`excluded.fnsku`,
+          productName: sql`excluded.product_name`,
+          quantity: sql`excluded.quantity`,
+          eventDate: sql`excluded.event_date`,
+          reason: sql`excluded.reason`,
+          disposition: sql`excluded.disposition`,
+          status: sql`excluded.status`,
+          fulfillmentCenterId: sql`excluded.fulfillment_center_id`,
+          licensePlateNumber: sql`excluded.license_plate_number`,
+          customerComments: sql`excluded.customer_comments`,
+          refundAmount: sql`excluded.refund_amount`,
+          currency: sql`excluded.currency`,
+          rawData: sql`excluded.raw_data`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning({ id: amazonReturns.id });
+    return rows.length;
+  }
+
+  private buildAmazonReturnWhere(filters: AmazonReturnFilters) {
+    const conditions = [];
+
+    if (filters.marketplaceId) {
+      conditions.push(eq(amazonReturns.marketplaceId, filters.marketplaceId));
+    }
+    if (filters.type) {
+      conditions.push(eq(amazonReturns.type, filters.type));
+    }
+    if (filters.sku) {
+      conditions.push(eq(amazonReturns.sku, filters.sku));
+    }
+    if (filters.startDate) {
+      conditions.push(gte(amazonReturns.eventDate, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lte(amazonReturns.eventDate, filters.endDate));
+    }
+    if (filters.search) {
+      const searchPattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(amazonReturns.amazonOrderId, searchPattern),
+        ilike(amazonReturns.sku, searchPattern),
+        ilike(amazonReturns.asin, searchPattern),
+        ilike(amazonReturns.productName, searchPattern)
+      ));
+    }
+
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  async getAmazonReturns(filters: AmazonReturnFilters): Promise<{ returns: AmazonReturn[]; total: number }> {
+    const whereClause = this.buildAmazonReturnWhere(filters);
+
+    const [countResult] = await db.select({ count: sql<number>`count(*)` })
+      .from(amazonReturns)
+      .where(whereClause);
+    const total = Number(countResult?.count ?? 0);
+
+    const returns = await db.select().from(amazonReturns)
+      .where(whereClause)
+      .orderBy(desc(amazonReturns.eventDate))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+
+    return { returns, total };
+  }
+
+  async getLatestAmazonReturnDate(marketplaceId: string, type: AmazonReturnType): Promise<Date | null> {
+    const [result] = await db.select({ latest: sql<Date | null>`max(${amazonReturns.eventDate})` })
+      .from(amazonReturns)
+      .where(and(eq(amazonReturns.marketplaceId, marketplaceId), eq(amazonReturns.type, type)));
+    return result?.latest ? new Date(result.latest) : null;
+  }
+
+  async getAmazonReturnSkuStats(filters: AmazonReturnFilters): Promise<AmazonReturnSkuStats[]> {
+    // Units sold over the same dates, from the local order store
+    const salesConditions = [
+      isNotNull(amazonOrderItems.sku),
+      ne(amazonOrders.orderStatus, "Canceled"),
+    ];
+    if (filters.marketplaceId) {
+      salesConditions.push(eq(amazonOrders.marketplaceId, filters.marketplaceId));
+    }
+    if (filters.sku) {
+      salesConditions.push(eq(amazonOrderItems.sku, filters.sku));
+    }
+    if (filters.startDate) {
+      salesConditions.push(gte(amazonOrders.purchaseDate, filters.startDate));
+    }
+    if (filters.endDate) {
+      salesConditions.push(lte(amazonOrders.purchaseDate, filters.endDate));
+    }
+
+    const sales = await db.select({
+      sku: amazonOrderItems.sku,
+      asin: sql<string | null>`max(${amazonOrderItems.asin})`,
+      productName: sql<string | null>`max(${amazonOrderItems.title})`,
+      unitsSold: sql<number>`coalesce(sum(${amazonOrderItems.quantityOrdered}), 0)`,
+    })
+      .from(amazonOrderItems)
+      .innerJoin(amazonOrders, eq(amazonOrderItems.amazonOrderId, amazonOrders.amazonOrderId))
+      .where(and(...salesConditions))
+      .groupBy(amazonOrderItems.sku);
+
+    const returnsWhere = and(this.buildAmazonReturnWhere({ ...filters, type: undefined }), isNotNull(amazonReturns.sku));
+    const returned = await db.select({
+      sku: amazonReturns.sku,
+      asin: sql<string | null>`max(${amazonReturns.asin})`,
+      productName: sql<string | null>`max(${amazonReturns.productName})`,
+      unitsReturned: sql<number>`coalesce(sum(${amazonReturns.quantity}) filter (where ${amazonReturns.type} = 'return'), 0)`,
+      returnCount: sql<number>`count(*) filter (where ${amazonReturns.type} = 'return')`,
+      refundCount: sql<number>`count(*) filter (where ${amazonReturns.type} = 'refund')`,
+      refundedAmount: sql<number>`coalesce(sum(${amazonReturns.refundAmount}) filter (where ${amazonReturns.type} = 'refund'), 0)`,
+    })
+      .from(amazonReturns)
+      .where(returnsWhere)
+      .groupBy(amazonReturns.sku);
+
+    const reasons = await db.select({
+      sku: amazonReturns.sku,
+      reason: amazonReturns.reason,
+      units: sql<number>`sum(${amazonReturns.quantity})`,
+    })
+      .from(amazonReturns)
+      .where(and(returnsWhere, eq(amazonReturns.type, "return"), isNotNull(amazonReturns.reason)))
+      .groupBy(amazonReturns.sku, amazonReturns.reason);
+
+    const stats = new Map<string, AmazonReturnSkuStats>();
+    const getStats = (sku: string) => {
+      let entry = stats.get(sku);
+      if (!entry) {
+        entry = {
+          sku,
+          asin: null,
+          productName: null,
+          unitsSold: 0,
+          unitsReturned: 0,
+          returnCount: 0,
+          refundCount: 0,
+          refundedAmount: 0,
+          topReason: null,
+        };
+        stats.set(sku, entry);
+      }
+      return entry;
+    };
+
+    for (const row of sales) {
+      const entry = getStats(row.sku!);
+      entry.asin = row.asin;
+      entry.productName = row.productName;
+      entry.unitsSold = Number(row.unitsSold);
+    }
+    for (const row of returned) {
+      const entry = getStats(row.sku!);
+      entry.asin = entry.asin ?? row.asin;
+      entry.productName = entry.productName ?? row.productName;
+      entry.unitsReturned = Number(row.unitsReturned);
+      entry.returnCount = Number(row.returnCount);
+      entry.refundCount = Number(row.refundCount);
+      entry.refundedAmount = Math.round(Number(row.refundedAmount) * 100) / 100;
+    }
+
+    const topUnits = new Map<string, number>();
+    for (const row of reasons) {
+      const units = Number(row.units);
+      if (units > (topUnits.get(row.sku!) ?? 0)) {
+        topUnits.set(row.sku!, units);
+        getStats(row.sku!).topReason = row.reason;
+      }
+    }
+
+    return Array.from(stats.values());
+  }
+
+  async getAmazonReturnReasonStats(filters: AmazonReturnFilters): Promise<AmazonReturnReasonStats[]> {
+    const rows = await db.select({
+      reason: sql<string>`coalesce(${amazonReturns.reason}, 'UNKNOWN')`,
+      returnCount: sql<number>`count(*)`,
+      unitsReturned: sql<number>`coalesce(sum(${amazonReturns.quantity}), 0)`,
+    })
+      .from(amazonReturns)
+      .where(this.buildAmazonReturnWhere({ ...filters, type: "return" }))
+      .groupBy(sql`coalesce(${amazonReturns.reason}, 'UNKNOWN')`)
+      .orderBy(desc(sql`coalesce(sum(${amazonReturns.quantity}), 0)`));
+
+    return rows.map((row) => ({
+      reason: row.reason,
+      returnCount: Number(row.returnCount),
+      unitsReturned: Number(row.unitsReturned),
+    }));
+  }
+
+  // FBA Inventory methods
+  async replaceFbaInventory(marketplaceId: string, insertItems: InsertFbaInventoryItem[]): Promise<number> {
+    return db.transaction(async (tx) => {
+      await tx.delete(fbaInventoryItems).where(eq(fbaInventoryItems.marketplaceId, marketplaceId));
+      let inserted = 0;
+      for (let i = 0; i < insertItems.length; i += INSERT_CHUNK_SIZE) {
+        const chunk = insertItems.slice(i, i + INSERT_CHUNK_SIZE);
+        const rows = await tx.insert(fbaInventoryItems)
+          .values(chunk.map((item) => ({ ...item, marketplaceId })))
+          .returning({ id: fbaInventoryItems.id });
+        inserted += rows.length;
+      }
+      return inserted;
+    });
+  }
+
+  async getFbaInventory(marketplaceId: string): Promise<FbaInventoryItem[]> {
+    return db.select().from(fbaInventoryItems)
+      .where(eq(fbaInventoryItems.marketplaceId, marketplaceId))
+      .orderBy(asc(fbaInventoryItems.sellerSku));
+  }
+
+  async getFbaInventorySyncState(marketplaceId: string): Promise<FbaInventorySyncState | undefined> {
+    const [state] = await db.select().from(fbaInventorySyncState)
+      .where(eq(fbaInventorySyncState.marketplaceId, marketplaceId));
+    return state;
+  }
+
+  async upsertFbaInventorySyncState(insertState: InsertFbaInventorySyncState): Promise<FbaInventorySyncState> {
+    const [state] = await db.insert(fbaInventorySyncState)
+      .values(insertState)
+      .onConflictDoUpdate({
+        target: fbaInventorySyncState.marketplaceId,
+        set: { ...insertState, updatedAt: new Date() },
+      })
+      .returning();
+    return state;
+  }
+
+  // FBA Inventory Snapshot methods
+  async upsertFbaInventorySnapshots(insertSnapshots: InsertFbaInventorySnapshot[]): Promise<number> {
+    if (insertSnapshots.length === 0) return 0;
+    return db.transaction(async (tx) => {
+      let upserted = 0;
+      for (let i = 0; i < insertSnapshots.length; i += INSERT_CHUNK_SIZE) {
+        const rows = await tx.insert(fbaInventorySnapshots)
+          .values(insertSnapshots.slice(i, i + INSERT_CHUNK_SIZE))
+          .onConflictDoUpdate({
+            target: [fbaInventorySnapshots.marketplaceId, fbaInventorySnapshots.date, fbaInventorySnapshots.sellerSku],
+            set: {
+              asin: sql`excluded.asin`,
+              fulfillableQuantity: sql`excluded.fulfillable_quantity`,
+              inboundWorking: sql`excluded.inbound_working`,
+              inboundShipped: sql`excluded.inbound_shipped`,
+              inboundReceiving: sql`excluded.inbound_receiving`,
+              reservedQuantity: sql`excluded.reserved_quantity`,
+              unfulfillableQuantity: sql`excluded.unfulfillable_quantity`,
+              researchingQuantity: sql`excluded.researching_quantity`,
+              capturedAt: new Date(),
+            },
+          })
+          .returning({ id: fbaInventorySnapshots.id });
+        upserted += rows.length;
+      }
+      return upserted;
+    });
+  }
+
+  async getFbaInventorySnapshots(
+    marketplaceId: string,
+    sellerSku: string,
+    startDate: string,
+    endDate: string
+  ): Promise<FbaInventorySnapshot[]> {
+    return db.select().from(fbaInventorySnapshots)
+      .where(and(
+        eq(fbaInventorySnapshots.marketplaceId, marketplaceId),
+        eq(fbaInventorySnapshots.sellerSku, sellerSku),
+        gte(fbaInventorySnapshots.date, startDate),
+        lte(fbaInventorySnapshots.date, endDate)
+      ))
+      .orderBy(asc(fbaInventorySnapshots.date));
+  }
+
+  async getLatestFbaInventorySnapshots(marketplaceId: string, onOrBefore: string): Promise<FbaInventorySnapshot[]> {
+    return db.selectDistinctOn([fbaInventorySnapshots.sellerSku])
+      .from(fbaInventorySnapshots)
+      .where(and(
+        eq(fbaInventorySnapshots.marketplaceId, marketplaceId),
+        lte(fbaInventorySnapshots.date, onOrBefore)
+      ))
+      .orderBy(fbaInventorySnapshots.sellerSku, desc(fbaInventorySnapshots.date));
+  }
+
+  async getFbaStockoutDays(marketplaceId: string, startDate: string, endDate: string): Promise<FbaStockoutDays[]> {
+    const rows = await db.select({
+      sellerSku: fbaInventorySnapshots.sellerSku,
+      stockoutDays: sql<number>`count(*)`,
+    })
+      .from(fbaInventorySnapshots)
+      .where(and(
+        eq(fbaInventorySnapshots.marketplaceId, marketplaceId),
+        gte(fbaInventorySnapshots.date, startDate),
+        lte(fbaInventorySnapshots.date, endDate),
+        eq(fbaInventorySnapshots.fulfillableQuantity, 0)
+      ))
+      .groupBy(fbaInventorySnapshots.sellerSku);
+
+    return rows.map((row) => ({ ...row, stockoutDays: Number(row.stockoutDays) }));
+  }
+
+  // Inventory Alert Rule methods
+  async getInventoryAlertRules(): Promise<InventoryAlertRule[]> {
+    const rules = await db.select().from(inventoryAlertRules).orderBy(asc(inventoryAlertRules.createdAt));
+    if (rules.length > 0) return rules;
+
+    // Create default rules if none exist
+    return db.insert(inventoryAlertRules).values(defaultInventoryAlertRules).returning();
+  }
+
+  async createInventoryAlertRule(insertRule: InsertInventoryAlertRule): Promise<InventoryAlertRule> {
+    const [rule] = await db.insert(inventoryAlertRules).values(insertRule).returning();
+    return rule;
+  }
+
+  async updateInventoryAlertRule(
+    id: string,
+    data: Partial<InsertInventoryAlertRule>
+  ): Promise<InventoryAlertRule | undefined> {
+    const [updated] = await db.update(inventoryAlertRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(inventoryAlertRules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteInventoryAlertRule(id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(inventoryAlerts).where(eq(inventoryAlerts.ruleId, id));
+      const result = await tx.delete(inventoryAlertRules).where(eq(inventoryAlertRules.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // Inventory Alert methods
+  async recordInventoryAlerts(marketplaceId: string, ruleIds: string[], insertAlerts: InsertInventoryAlert[]): Promise<number> {
+    const now = new Date();
+
+    await db.transaction(async (tx) => {
+      if (insertAlerts.length > 0) {
+        await tx.insert(inventoryAlerts)
+          .values(insertAlerts.map((alert) => ({ ...alert, marketplaceId, firstDetectedAt: now, lastDetectedAt: now })))
+          .onConflictDoUpdate({
+            target: [inventoryAlerts.ruleId, inventoryAlerts.marketplaceId, inventoryAlerts.sellerSku],
+            set: {
+              asin: sql`excluded.asin`,
+              productName: sql`excluded.product_name`,
+              type: sql`excluded.type`,
+              affectedUnits: sql`excluded.affected_units`,
+              suggestedAction: sql`excluded.suggested_action`,
+              message: sql`excluded.message`,
+              // A resolved alert that triggers again starts over, undismissed
+              firstDetectedAt: sql`case when ${inventoryAlerts.resolvedAt} is null then ${inventoryAlerts.firstDetectedAt} else excluded.first_detected_at end`,
+              dismissedAt: sql`case when ${inventoryAlerts.resolvedAt} is null then ${inventoryAlerts.dismissedAt} else null end`,
+              lastDetectedAt: now,
+              resolvedAt: null,
+            },
+          });
+      }
+
+      // Alerts from the evaluated rules that weren't seen this time are resolved
+      if (ruleIds.length > 0) {
+        await tx.update(inventoryAlerts)
+          .set({ resolvedAt: now })
+          .where(and(
+            eq(inventoryAlerts.marketplaceId, marketplaceId),
+            inArray(inventoryAlerts.ruleId, ruleIds),
+            isNull(inventoryAlerts.resolvedAt),
+            lt(inventoryAlerts.lastDetectedAt, now)
+          ));
+      }
+    });
+
+    return insertAlerts.length;
+  }
+
+  async getOpenInventoryAlerts(marketplaceId: string): Promise<InventoryAlert[]> {
+    return db.select().from(inventoryAlerts)
+      .where(and(
+        eq(inventoryAlerts.marketplaceId, marketplaceId),
+        isNull(inventoryAlerts.resolvedAt),
+        isNull(inventoryAlerts.dismissedAt)
+      ))
+      .orderBy(desc(inventoryAlerts.firstDetectedAt));
+  }
+
+  async dismissInventoryAlert(id: string): Promise<InventoryAlert | undefined> {
+    const [dismissed] = await db.update(inventoryAlerts)
+      .set({ dismissedAt: new Date() })
+      .where(eq(inventoryAlerts.id, id))
+      .returning();
+    return dismissed;
+  }
+
+  // FBA Inbound methods
+  async upsertFbaInboundPlans(insertPlans: InsertFbaInboundPlan[]): Promise<number> {
+    if (insertPlans.length === 0) return 0;
+    const rows = await db.insert(fbaInboundPlans)
+      .values(insertPlans)
+      .onConflictDoUpdate({
+        target: fbaInboundPlans.inboundPlanId,
+        set: {
+          marketplaceId: sql`excluded.marketplace_id`,
+          name: sql`excluded.name`,
+          status: sql`excluded.status`,
+          sourceName: sql`excluded.source_name`,
+          createdTime: sql`excluded.created_time`,
+          lastUpdatedTime: sql`excluded.last_updated_time`,
+          rawData: sql`excluded.raw_data`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning({ id: fbaInboundPlans.id });
+    return rows.length;
+  }
+
+  async getFbaInboundPlans(marketplaceId: string): Promise<FbaInboundPlan[]> {
+    return db.select().from(fbaInboundPlans)
+      .where(eq(fbaInboundPlans.marketplaceId, marketplaceId))
+      .orderBy(desc(fbaInboundPlans.createdTime));
+  }
+
+  async upsertFbaInboundShipments(insertShipments: InsertFbaInboundShipment[]): Promise<FbaInboundShipment[]> {
+    if (insertShipments.length === 0) return [];
+    return db.insert(fbaInboundShipments)
+      .values(insertShipments)
+      .onConflictDoUpdate({
+        target: fbaInboundShipments.shipmentId,
+        set: {
+          marketplaceId: sql`excluded.marketplace_id`,
+          inboundPlanId: sql`excluded.inbound_plan_id`,
+          planShipmentId: sql`excluded.plan_shipment_id`,
+          shipmentName: sql`excluded.shipment_name`,
+          status: sql`excluded.status`,
+          destinationFulfillmentCenterId: sql`excluded.destination_fulfillment_center_id`,
+          labelPrepType: sql`excluded.label_prep_type`,
+          boxContentsSource: sql`excluded.box_contents_source`,
+          shipFromName: sql`excluded.ship_from_name`,
+          unitsShipped: sql`excluded.units_shipped`,
+          unitsReceived: sql`excluded.units_received`,
+          skuCount: sql`excluded.sku_count`,
+          itemsSyncedAt: sql`excluded.items_synced_at`,
+          rawData: sql`excluded.raw_data`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+  }
+
+  async getFbaInboundShipmentsByIds(shipmentIds: string[]): Promise<FbaInboundShipment[]> {
+    if (shipmentIds.length === 0) return [];
+    return db.select().from(fbaInboundShipments).where(inArray(fbaInboundShipments.shipmentId, shipmentIds));
+  }
+
+  async getFbaInboundShipments(filters: FbaInboundShipmentFilters): Promise<FbaInboundShipment[]> {
+    const conditions = [eq(fbaInboundShipments.marketplaceId, filters.marketplaceId)];
+
+    if (filters.status) {
+      conditions.push(eq(fbaInboundShipments.status, filters.status));
+    }
+    if (filters.inboundPlanId) {
+      conditions.push(eq(fbaInboundShipments.inboundPlanId, filters.inboundPlanId));
+    }
+    if (filters.missingItems) {
+      conditions.push(isNull(fbaInboundShipments.itemsSyncedAt));
+    }
+
+    return db.select().from(fbaInboundShipments)
+      .where(and(...conditions))
+      .orderBy(desc(fbaInboundShipments.updatedAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  async updateFbaInboundShipment(shipmentId: string, data: Partial<FbaInboundShipment>): Promise<FbaInboundShipment | undefined> {
+    const [updated] = await db.update(fbaInboundShipments)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(fbaInboundShipments.shipmentId, shipmentId))
+      .returning();
+    return updated;
+  }
+
+  async replaceFbaInboundShipmentItems(
+    shipmentId: string,
+    insertItems: InsertFbaInboundShipmentItem[]
+  ): Promise<FbaInboundShipmentItem[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(fbaInboundShipmentItems).where(eq(fbaInboundShipmentItems.shipmentId, shipmentId));
+      if (insertItems.length === 0) return [];
+      return tx.insert(fbaInboundShipmentItems).values(insertItems).returning();
+    });
+  }
+
+  async getFbaInboundShipmentItems(shipmentIds: string[]): Promise<FbaInboundShipmentItem[]> {
+    if (shipmentIds.length === 0) return [];
+    return db.select().from(fbaInboundShipmentItems)
+      .where(inArray(fbaInboundShipmentItems.shipmentId, shipmentIds))
+      .orderBy(fbaInboundShipmentItems.sellerSku);
+  }
+
+  async getFbaInboundSyncState(marketplaceId: string): Promise<FbaInboundSyncState | undefined> {
+    const [state] = await db.select().from(fbaInboundSyncState)
+      .where(eq(fbaInboundSyncState.marketplaceId, marketplaceId));
+    return state;
+  }
+
+  async getAllFbaInboundSyncStates(): Promise<FbaInboundSyncState[]> {
+    return db.select().from(fbaInboundSyncState);
+  }
+
+  async upsertFbaInboundSyncState(insertState: InsertFbaInboundSyncState): Promise<FbaInboundSyncState> {
+    const [state] = await db.insert(fbaInboundSyncState)
+      .values(insertState)
+      .onConflictDoUpdate({
+        target: fbaInboundSyncState.marketplaceId,
+        set: { ...insertState, updatedAt: new Date() },
+      })
+      .returning();
+    return state;
+  }
 }
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { getDateRange, getSalesInterval, zonedTimeToUtc } from "./dateRanges";
+
+const LOS_ANGELES = "America/Los_Angeles";
+const LONDON = "Europe/London";
+
+// 2024 transitions: Los Angeles springs forward on March 10 and falls back on
+// November 3; London on March 31 and October 27
+
+describe("zonedTimeToUtc", () => {
+  it("uses each side's offset across the Los Angeles spring-forward day", () => {
+    expect(zonedTimeToUtc("2024-03-10", "00:00:00", LOS_ANGELES).toISOString()).toBe("2024-03-10T08:00:00.000Z");
+    expect(zonedTimeToUtc("2024-03-10", "23:59:59", LOS_ANGELES).toISOString()).toBe("2024-03-11T06:59:59.000Z");
+    expect(zonedTimeToUtc("2024-03-11", "00:00:00", LOS_ANGELES).toISOString()).toBe("2024-03-11T07:00:00.000Z");
+  });
+
+  it("uses each side's offset across the Los Angeles fall-back day", () => {
+    expect(zonedTimeToUtc("2024-11-03", "00:00:00", LOS_ANGELES).toISOString()).toBe("2024-11-03T07:00:00.000Z");
+    expect(zonedTimeToUtc("2024-11-03", "23:59:59", LOS_ANGELES).toISOString()).toBe("2024-11-04T07:59:59.000Z");
+  });
+
+  it("resolves the repeated hour on the fall-back day to its first occurrence", () => {
+    expect(zonedTimeToUtc("2024-11-03", "01:30:00", LOS_ANGELES).toISOString()).toBe("2024-11-03T08:30:00.000Z");
+  });
+
+  it("uses each side's offset across the London spring-forward day", () => {
+    expect(zonedTimeToUtc("2024-03-31", "00:00:00", LONDON).toISOString()).toBe("2024-03-31T00:00:00.000Z");
+    expect(zonedTimeToUtc("2024-03-31", "23:59:59", LONDON).toISOString()).toBe("2024-03-31T22:59:59.000Z");
+  });
+
+  it("uses each side's offset across the London fall-back day", () => {
+    expect(zonedTimeToUtc("2024-10-27", "00:00:00", LONDON).toISOString()).toBe("2024-10-26T23:00:00.000Z");
+    expect(zonedTimeToUtc("2024-10-27", "23:59:59", LONDON).toISOString()).toBe("2024-10-27T23:59:59.000Z");
+  });
+});
+
+describe("getSalesInterval", () => {
+  it("gives a Los Angeles transition day its start and end offsets", () => {
+    expect(getSalesInterval("2024-03-10", "2024-03-10", LOS_ANGELES)).toBe(
+      "2024-03-10T00:00:00-08:00--2024-03-10T23:59:59-07:00"
+    );
+    expect(getSalesInterval("2024-11-03", "2024-11-03", LOS_ANGELES)).toBe(
+      "2024-11-03T00:00:00-07:00--2024-11-03T23:59:59-08:00"
+    );
+  });
+
+  it("gives a London transition day its start and end offsets", () => {
+    expect(getSalesInterval("2024-03-31", "2024-03-31", LONDON)).toBe(
+      "2024-03-31T00:00:00+00:00--2024-03-31T23:59:59+01:00"
+    );
+    expect(getSalesInterval("2024-10-27", "2024-10-27", LONDON)).toBe(
+      "2024-10-27T00:00:00+01:00--2024-10-27T23:59:59+00:00"
+    );
+  });
+
+  it("uses the offset in effect at each end of a range spanning a transition", () => {
+    expect(getSalesInterval("2024-03-01", "2024-03-31", LOS_ANGELES)).toBe(
+      "2024-03-01T00:00:00-08:00--2024-03-31T23:59:59-07:00"
+    );
+    expect(getSalesInterval("2024-10-01", "2024-11-30", LONDON)).toBe(
+      "2024-10-01T00:00:00+01:00--2024-11-30T23:59:59+00:00"
+    );
+  });
+});
+
+describe("getDateRange", () => {
+  it("takes today from the Los Angeles wall clock around the March transition", () => {
+    // 23:30 PST on March 9, then 23:30 PDT on March 10
+    expect(getDateRange("today", LOS_ANGELES, undefined, new Date("2024-03-10T07:30:00Z"))).toEqual({
+      startDate: "2024-03-09",
+      endDate: "2024-03-09",
+    });
+    expect(getDateRange("7days", LOS_ANGELES, undefined, new Date("2024-03-11T06:30:00Z"))).toEqual({
+      startDate: "2024-03-03",
+      endDate: "2024-03-10",
+    });
+  });
+
+  it("takes today from the Los Angeles wall clock around the November transition", () => {
+    // 23:30 PDT on November 2, then 23:30 PST on November 3
+    expect(getDateRange("today", LOS_ANGELES, undefined, new Date("2024-11-03T06:30:00Z"))).toEqual({
+      startDate: "2024-11-02",
+      endDate: "2024-11-02",
+    });
+    expect(getDateRange("today", LOS_ANGELES, undefined, new Date("2024-11-04T07:30:00Z"))).toEqual({
+      startDate: "2024-11-03",
+      endDate: "2024-11-03",
+    });
+  });
+
+  it("takes today from the London wall clock around the March transition", () => {
+    // 23:30 GMT on March 30, then 00:30 BST on April 1
+    expect(getDateRange("today", LONDON, undefined, new Date("2024-03-30T23:30:00Z"))).toEqual({
+      startDate: "2024-03-30",
+      endDate: "2024-03-30",
+    });
+    expect(getDateRange("30days", LONDON, undefined, new Date("2024-03-31T23:30:00Z"))).toEqual({
+      startDate: "2024-03-02",
+      endDate: "2024-04-01",
+    });
+  });
+
+  it("takes today from the London wall clock around the October transition", () => {
+    // 00:30 BST on October 27, then 23:30 GMT the same day
+    expect(getDateRange("today", LONDON, undefined, new Date("2024-10-26T23:30:00Z"))).toEqual({
+      startDate: "2024-10-27",
+      endDate: "2024-10-27",
+    });
+    expect(getDateRange("today", LONDON, undefined, new Date("2024-10-27T23:30:00Z"))).toEqual({
+      startDate: "2024-10-27",
+      endDate: "2024-10-27",
+    });
+  });
+
+  it("clamps a custom range to today in the marketplace's timezone", () => {
+    // Already November 4 in London, still November 3 in Los Angeles
+    const now = new Date("2024-11-04T06:30:00Z");
+    const custom = { startDate: "2024-11-01", endDate: "2024-11-10" };
+    expect(getDateRange("custom", LOS_ANGELES, custom, now)).toEqual({ startDate: "2024-11-01", endDate: "2024-11-03" });
+    expect(getDateRange("custom", LONDON, custom, now)).toEqual({ startDate: "2024-11-01", endDate: "2024-11-04" });
+  });
+});
@@ -0,0 +1,154 @@
+// Date Range Helpers
+// Calendar dates (YYYY-MM-DD) are interpreted in the marketplace's IANA
+// timezone so daily totals line up with Seller Central, including across DST changes
+
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * UTC offset in minutes of an IANA timezone at the given instant
+ */
+export function getTimezoneOffsetMinutes(timeZone: string, instant: Date = new Date()): number {
+  const tzName = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+    .formatToParts(instant)
+    .find((part) => part.type === "timeZoneName")?.value || "GMT";
+  const match = tzName.match(/GMT([+-])(\d{2}):?(\d{2})?/);
+  if (!match) return 0;
+  return (match[1] === "-" ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3] || 0));
+}
+
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? "-" : "+";
+  const abs = Math.abs(offsetMinutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) in a timezone at the given instant
+ */
+export function getLocalDate(timeZone: string, instant: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || "";
+  return `${get("year")}-${get("month")}-${get("day")}`;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to the UTC instant. Uses the offset
+ * in effect at that local time, so midnight on a DST-change day gets the
+ * offset from before the change.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const asUtc = Date.parse(`${date}T${time}Z`);
+  const firstGuess = getTimezoneOffsetMinutes(timeZone, new Date(asUtc));
+  const offset = getTimezoneOffsetMinutes(timeZone, new Date(asUtc - firstGuess * 60 * 1000));
+  return new Date(asUtc - offset * 60 * 1000);
+}
+
+/**
+ * ISO 8601 timestamp with the timezone's offset at that local time,
+ * e.g. "2024-03-10T00:00:00-08:00"
+ */
+export function formatZonedTime(date: string, time: string, timeZone: string): string {
+  const instant = zonedTimeToUtc(date, time, timeZone);
+  return `${date}T${time}${formatOffset(getTimezoneOffsetMinutes(timeZone, instant))}`;
+}
+
+/**
+ * orderMetrics interval covering whole local days from startDate to endDate
+ */
+export function getSalesInterval(startDate: string, endDate: string, timeZone: string): string {
+  return `${formatZonedTime(startDate, "00:00:00", timeZone)}--${formatZonedTime(endDate, "23:59:59", timeZone)}`;
+}
+
+// Shift a YYYY-MM-DD date by whole days and/or years
+export function shiftDate(date: string, days: number, years = 0): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCFullYear(shifted.getUTCFullYear() + years);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split("T")[0];
+}
+
+function isValidDate(date: unknown): date is string {
+  if (typeof date !== "string" || !DATE_PATTERN.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+/**
+ * Validate a custom range from the query string. Returns an error message, or
+ * null when the range is usable.
+ */
+export function validateCustomDateRange(startDate: unknown, endDate: unknown): string | null {
+  if (!isValidDate(startDate) || !isValidDate(endDate)) {
+    return "Custom ranges require startDate and endDate in YYYY-MM-DD format";
+  }
+  if (startDate > endDate) {
+    return "startDate must be on or before endDate";
+  }
+  return null;
+}
+
+/**
+ * Resolve a preset or custom range to local calendar dates in the timezone
+ */
+export function getDateRange(
+  range: string,
+  timeZone: string,
+  custom?: Partial<DateRange>,
+  now: Date = new Date()
+): DateRange {
+  const today = getLocalDate(timeZone, now);
+  const year = Number(today.slice(0, 4));
+
+  switch (range) {
+    case "7days":
+      return { startDate: shiftDate(today, -7), endDate: today };
+    case "30days":
+      return { startDate: shiftDate(today, -30), endDate: today };
+    case "60days":
+      return { startDate: shiftDate(today, -60), endDate: today };
+    case "ytd":
+      return { startDate: `${year}-01-01`, endDate: today };
+    case "lastyear":
+      return { startDate: `${year - 1}-01-01`, endDate: `${year - 1}-12-31` };
+    case "2years":
+      return { startDate: shiftDate(today, 0, -2), endDate: today };
+    case "custom": {
+      const error = validateCustomDateRange(custom?.startDate, custom?.endDate);
+      if (error) {
+        throw new Error(error);
+      }
+      // Nothing to report past today in the marketplace's timezone
+      const endDate = custom!.endDate! > today ? today : custom!.endDate!;
+      const startDate = custom!.startDate! > endDate ? endDate : custom!.startDate!;
+      return { startDate, endDate };
+    }
+    case "today":
+    default:
+      return { startDate: today, endDate: today };
+  }
+}
+
+// The equal-length period immediately before, and the same dates one year earlier
+export function getComparisonRanges(startDate: string, endDate: string): {
+  previousPeriod: DateRange;
+  lastYear: DateRange;
+} {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const days = Math.round((Date.parse(endDate) - Date.parse(startDate)) / dayMs) + 1;
+  const previousEnd = shiftDate(startDate, -1);
+
+  return {
+    previousPeriod: { startDate: shiftDate(previousEnd, -(days - 1)), endDate: previousEnd },
+    lastYear: { startDate: shiftDate(startDate, 0, -1), endDate: shiftDate(endDate, 0, -1) },
+  };
+}
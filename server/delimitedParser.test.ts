@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { parseDelimitedStream, parseDelimitedText, type DelimitedParseResult } from "./delimitedParser";
+
+interface Parsed {
+  records: Array<{ fields: string[]; line: number }>;
+  result: DelimitedParseResult;
+}
+
+function parseText(content: string): Parsed {
+  const records: Parsed["records"] = [];
+  const result = parseDelimitedText(content, (fields, line) => records.push({ fields, line }));
+  return { records, result };
+}
+
+// Feed the chunks one at a time, as an upload stream would
+async function parseChunks(chunks: Array<Buffer | string>): Promise<Parsed> {
+  const records: Parsed["records"] = [];
+  async function* source() {
+    yield* chunks;
+  }
+  const result = await parseDelimitedStream(source(), (fields, line) => records.push({ fields, line }));
+  return { records, result };
+}
+
+const fieldsOf = (parsed: Parsed) => parsed.records.map((record) => record.fields);
+
+describe("quoted fields", () => {
+  it("keeps delimiters inside quotes", () => {
+    expect(fieldsOf(parseText('sku,title\nA-1,"Mug, blue"\n'))).toEqual([
+      ["sku", "title"],
+      ["A-1", "Mug, blue"],
+    ]);
+  });
+
+  it("reads doubled quotes as one escaped quote", () => {
+    expect(fieldsOf(parseText('sku,title\nA-1,"12"" ruler"\n'))[1]).toEqual(["A-1", '12" ruler']);
+  });
+
+  it("keeps line breaks inside quotes and reports the line each record starts on", () => {
+    const parsed = parseText('sku,note\nA-1,"first\nsecond"\nA-2,x\n');
+    expect(parsed.records).toEqual([
+      { fields: ["sku", "note"], line: 1 },
+      { fields: ["A-1", "first\nsecond"], line: 2 },
+      { fields: ["A-2", "x"], line: 4 },
+    ]);
+  });
+
+  it("reads empty quoted and unquoted fields as empty strings", () => {
+    expect(fieldsOf(parseText('a,b,c\n"",,x\n'))[1]).toEqual(["", "", "x"]);
+  });
+
+  it("rejects a quote left open at the end of the file", () => {
+    expect(() => parseText('sku,title\nA-1,"open\n')).toThrow("Unterminated quoted field starting on line 2");
+  });
+});
+
+describe("line endings", () => {
+  it("treats CRLF, LF and lone CR as one line break each", () => {
+    expect(fieldsOf(parseText("a,b\r\n1,2\n3,4\r5,6"))).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+      ["5", "6"],
+    ]);
+  });
+
+  it("doesn't see an empty record when CRLF is split across chunks", async () => {
+    const parsed = await parseChunks(["a,b\r", "\n1,2\r", "\n3,4"]);
+    expect(parsed.records).toEqual([
+      { fields: ["a", "b"], line: 1 },
+      { fields: ["1", "2"], line: 2 },
+      { fields: ["3", "4"], line: 3 },
+    ]);
+  });
+
+  it("skips blank lines and rows of bare delimiters", () => {
+    expect(fieldsOf(parseText("a,b\n\n1,2\n,\n"))).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+});
+
+describe("delimiter detection", () => {
+  it("picks tab when the header has more tabs than commas", () => {
+    const parsed = parseText("sku\titem-name\nA-1\tMug, blue\n");
+    expect(parsed.result.delimiter).toBe("\t");
+    expect(fieldsOf(parsed)[1]).toEqual(["A-1", "Mug, blue"]);
+  });
+
+  it("ignores commas inside a quoted header", () => {
+    expect(parseText('"a,b,c"\td\te\n').result.delimiter).toBe("\t");
+  });
+
+  it("detects the delimiter when the header arrives over several chunks", async () => {
+    const parsed = await parseChunks(["sk", "u\tpri", "ce\nA-1\t", "9.99\n"]);
+    expect(parsed.result.delimiter).toBe("\t");
+    expect(fieldsOf(parsed)).toEqual([
+      ["sku", "price"],
+      ["A-1", "9.99"],
+    ]);
+  });
+});
+
+describe("encodings", () => {
+  it("strips a UTF-8 byte order mark", async () => {
+    const parsed = await parseChunks([Buffer.from("\uFEFFsku,price\nA-1,1\n", "utf-8")]);
+    expect(parsed.result.encoding).toBe("utf-8");
+    expect(fieldsOf(parsed)[0]).toEqual(["sku", "price"]);
+  });
+
+  it("strips the byte order mark from text already in memory", () => {
+    expect(fieldsOf(parseText("\uFEFFsku,price\n"))[0]).toEqual(["sku", "price"]);
+  });
+
+  it("recognises a byte order mark split across chunks", async () => {
+    const bytes = Buffer.from("\uFEFFsku\n", "utf-8");
+    const parsed = await parseChunks([bytes.subarray(0, 1), bytes.subarray(1, 2), bytes.subarray(2)]);
+    expect(fieldsOf(parsed)).toEqual([["sku"]]);
+  });
+
+  it("decodes UTF-16 little-endian files", async () => {
+    const parsed = await parseChunks([Buffer.from("\uFEFFsku\ttitle\nA-1\tCafé\n", "utf16le")]);
+    expect(parsed.result.encoding).toBe("utf-16le");
+    expect(fieldsOf(parsed)).toEqual([
+      ["sku", "title"],
+      ["A-1", "Café"],
+    ]);
+  });
+
+  it("decodes UTF-16 big-endian files", async () => {
+    const littleEndian = Buffer.from("\uFEFFsku,title\nA-1,Café\n", "utf16le");
+    const bigEndian = Buffer.from(littleEndian).swap16();
+    const parsed = await parseChunks([bigEndian]);
+    expect(parsed.result.encoding).toBe("utf-16be");
+    expect(fieldsOf(parsed)[1]).toEqual(["A-1", "Café"]);
+  });
+
+  it("keeps a UTF-8 character split across chunks", async () => {
+    const bytes = Buffer.from("sku,title\nA-1,Café\n", "utf-8");
+    const split = bytes.indexOf(0xc3) + 1;
+    const parsed = await parseChunks([bytes.subarray(0, split), bytes.subarray(split)]);
+    expect(parsed.result.encoding).toBe("utf-8");
+    expect(fieldsOf(parsed)[1]).toEqual(["A-1", "Café"]);
+  });
+
+  it("falls back to Windows-1252 when the file isn't valid UTF-8", async () => {
+    // 0xe9 is é and 0x80 is € in Windows-1252, neither valid UTF-8 on its own
+    const parsed = await parseChunks([
+      Buffer.from("sku,title\n", "ascii"),
+      Buffer.from([0x41, 0x2d, 0x31, 0x2c, 0x43, 0x61, 0x66, 0xe9, 0x20, 0x80, 0x0a]),
+    ]);
+    expect(parsed.result.encoding).toBe("windows-1252");
+    expect(fieldsOf(parsed)[1]).toEqual(["A-1", "Café €"]);
+  });
+
+  it("rejects invalid UTF-8 after valid UTF-8 rather than misreading earlier text", async () => {
+    await expect(
+      parseChunks([Buffer.from("sku,title\nA-1,Café\n", "utf-8"), Buffer.from([0x41, 0x2c, 0xe9, 0x0a])])
+    ).rejects.toThrow("File is not valid UTF-8");
+  });
+});
@@ -0,0 +1,291 @@
+// Delimited File Parser
+// Streaming RFC 4180 parser for uploaded CSV and tab-delimited files. Quoted
+// fields may contain delimiters, doubled quotes and line breaks. Byte order
+// marks are stripped and UTF-8, UTF-16 and Windows-1252 files are decoded.
+
+export const DELIMITED_ENCODINGS = ["utf-8", "utf-16le", "utf-16be", "windows-1252"] as const;
+export type DelimitedEncoding = typeof DELIMITED_ENCODINGS[number];
+
+export type Delimiter = "," | "\t";
+
+export interface DelimitedParserOptions {
+  delimiter?: Delimiter; // detected from the header row when omitted
+  encoding?: DelimitedEncoding; // detected from the BOM, else UTF-8 falling back to Windows-1252
+}
+
+export interface DelimitedParseResult {
+  delimiter: Delimiter;
+  encoding: DelimitedEncoding;
+  records: number;
+}
+
+// Called with each record's fields and the line it starts on
+export type RecordHandler = (fields: string[], line: number) => void;
+
+type FieldState = "start" | "unquoted" | "quoted" | "quoteInQuoted";
+
+/**
+ * Pick the delimiter from the header row: tab when it has more unquoted tabs
+ * than commas, as Amazon's flat files do, otherwise comma
+ */
+function detectDelimiter(headerLine: string): Delimiter {
+  let tabs = 0;
+  let commas = 0;
+  let inQuotes = false;
+
+  for (const ch of headerLine) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && ch === "\t") tabs++;
+    else if (!inQuotes && ch === ",") commas++;
+  }
+  return tabs > commas ? "\t" : ",";
+}
+
+function detectBom(bytes: Buffer): DelimitedEncoding | null {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+  return null;
+}
+
+function isAscii(bytes: Buffer): boolean {
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] >= 0x80) return false;
+  }
+  return true;
+}
+
+/**
+ * Incremental parser: feed it chunks with write() and call end() once the
+ * input is exhausted. Records are handed to onRecord as soon as they complete,
+ * so a file never has to be held in memory whole.
+ */
+export class DelimitedParser {
+  private decoder: TextDecoder | null = null;
+  private encoding: DelimitedEncoding | null;
+  // Without a BOM or explicit encoding we start as UTF-8 and may fall back
+  private detectingEncoding: boolean;
+  private seenNonAscii = false;
+  private pendingBytes: Buffer = Buffer.alloc(0);
+
+  private delimiter: Delimiter | null;
+  private headerText = "";
+
+  private state: FieldState = "start";
+  private field = "";
+  private fields: string[] = [];
+  private skipLineFeed = false;
+  private line = 1;
+  private recordLine = 1;
+  private records = 0;
+
+  constructor(private onRecord: RecordHandler, options: DelimitedParserOptions = {}) {
+    this.encoding = options.encoding ?? null;
+    this.detectingEncoding = !options.encoding;
+    this.delimiter = options.delimiter ?? null;
+  }
+
+  write(chunk: Buffer | string): void {
+    if (typeof chunk === "string") {
+      this.consume(chunk);
+      return;
+    }
+    const text = this.decode(chunk, false);
+    if (text) this.consume(text);
+  }
+
+  end(): DelimitedParseResult {
+    const text = this.decode(Buffer.alloc(0), true);
+    if (text) this.consume(text);
+
+    if (this.delimiter === null) {
+      this.delimiter = detectDelimiter(this.headerText);
+      const buffered = this.headerText;
+      this.headerText = "";
+      this.parse(buffered);
+    }
+
+    if (this.state === "quoted") {
+      throw new Error(`Unterminated quoted field starting on line ${this.recordLine}`);
+    }
+    if (this.state !== "start" || this.fields.length > 0) {
+      this.endRecord();
+    }
+
+    return {
+      delimiter: this.delimiter,
+      encoding: this.encoding ?? "utf-8",
+      records: this.records,
+    };
+  }
+
+  private decode(chunk: Buffer, final: boolean): string {
+    if (!this.decoder) {
+      // Wait for enough bytes to recognise a byte order mark
+      this.pendingBytes = Buffer.concat([this.pendingBytes, chunk]);
+      if (this.pendingBytes.length < 3 && !final) return "";
+
+      const bom = detectBom(this.pendingBytes);
+      if (bom) {
+        this.encoding = bom;
+        this.detectingEncoding = false;
+      }
+      this.decoder = new TextDecoder(this.encoding ?? "utf-8", { fatal: this.detectingEncoding });
+      chunk = this.pendingBytes;
+      this.pendingBytes = Buffer.alloc(0);
+    }
+
+    if (!this.detectingEncoding) {
+      return this.decoder.decode(chunk, { stream: !final });
+    }
+
+    try {
+      const text = this.decoder.decode(chunk, { stream: !final });
+      if (!this.seenNonAscii && !isAscii(chunk)) this.seenNonAscii = true;
+      return text;
+    } catch {
+      // Everything before this chunk was plain ASCII, which reads the same in
+      // Windows-1252, so switching now loses nothing
+      if (this.seenNonAscii) {
+        throw new Error(`File is not valid UTF-8 near line ${this.line}. Save it as UTF-8 and upload again.`);
+      }
+      this.encoding = "windows-1252";
+      this.detectingEncoding = false;
+      this.decoder = new TextDecoder("windows-1252");
+      return this.decoder.decode(chunk, { stream: !final });
+    }
+  }
+
+  private consume(text: string): void {
+    if (this.delimiter !== null) {
+      this.parse(text);
+      return;
+    }
+
+    // Hold text back until the header row is complete so the delimiter can be detected
+    this.headerText += text;
+    const newline = this.headerText.search(/[\r\n]/);
+    if (newline === -1) return;
+
+    this.delimiter = detectDelimiter(this.headerText.slice(0, newline));
+    const buffered = this.headerText;
+    this.headerText = "";
+    this.parse(buffered);
+  }
+
+  private parse(text: string): void {
+    const delimiter = this.delimiter;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (ch === "\n") continue;
+      }
+
+      switch (this.state) {
+        case "start":
+          if (ch === '"') {
+            this.state = "quoted";
+          } else if (ch === delimiter) {
+            this.fields.push("");
+          } else if (ch === "\r" || ch === "\n") {
+            this.endLine(ch);
+          } else {
+            this.field = ch;
+            this.state = "unquoted";
+          }
+          break;
+
+        case "unquoted":
+          if (ch === delimiter) {
+            this.endField();
+          } else if (ch === "\r" || ch === "\n") {
+            this.endLine(ch);
+          } else {
+            this.field += ch;
+          }
+          break;
+
+        case "quoted":
+          if (ch === '"') {
+            this.state = "quoteInQuoted";
+          } else {
+            if (ch === "\n") this.line++;
+            this.field += ch;
+          }
+          break;
+
+        case "quoteInQuoted":
+          if (ch === '"') {
+            // Doubled quote is an escaped quote
+            this.field += '"';
+            this.state = "quoted";
+          } else if (ch === delimiter) {
+            this.endField();
+          } else if (ch === "\r" || ch === "\n") {
+            this.endLine(ch);
+          } else {
+            // Text after a closing quote isn't valid RFC 4180; keep it rather than drop data
+            this.field += ch;
+            this.state = "unquoted";
+          }
+          break;
+      }
+    }
+  }
+
+  private endField(): void {
+    this.fields.push(this.field);
+    this.field = "";
+    this.state = "start";
+  }
+
+  private endLine(ch: string): void {
+    if (this.state !== "start" || this.fields.length > 0) {
+      this.endRecord();
+    }
+    this.skipLineFeed = ch === "\r";
+    this.line++;
+    this.recordLine = this.line;
+  }
+
+  private endRecord(): void {
+    this.fields.push(this.field);
+    const fields = this.fields;
+    this.field = "";
+    this.fields = [];
+    this.state = "start";
+
+    // Spreadsheets often export trailing rows of bare delimiters
+    if (fields.every((value) => value.trim() === "")) return;
+
+    this.records++;
+    this.onRecord(fields, this.recordLine);
+  }
+}
+
+/**
+ * Parse a stream of file bytes, handing each record to onRecord as it is read
+ */
+export async function parseDelimitedStream(
+  source: AsyncIterable<Buffer | string>,
+  onRecord: RecordHandler,
+  options: DelimitedParserOptions = {}
+): Promise<DelimitedParseResult> {
+  const parser = new DelimitedParser(onRecord, options);
+  for await (const chunk of source) {
+    parser.write(chunk);
+  }
+  return parser.end();
+}
+
+/**
+ * Parse file content that is already in memory
+ */
+export function parseDelimitedText(content: string, onRecord: RecordHandler, options: DelimitedParserOptions = {}): DelimitedParseResult {
+  const parser = new DelimitedParser(onRecord, options);
+  parser.write(content.charCodeAt(0) === 0xfeff ? content.slice(1) : content);
+  return parser.end();
+}
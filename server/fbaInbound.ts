@@ -0,0 +1,112 @@
+// FBA Inbound
+// Helpers for the Fulfillment Inbound API: shipments and their items (v0),
+// and inbound plans with the shipments they created (2024-03-20)
+
+import { callSPAPI } from "./spApi";
+import type { Marketplace } from "./marketplaces";
+
+// Amazon's maximum for listInboundPlans pageSize
+const INBOUND_PLANS_PAGE_SIZE = 30;
+
+export interface InboundShipmentsPage {
+  shipments: any[];
+  nextToken: string | null;
+}
+
+export interface InboundPlansPage {
+  inboundPlans: any[];
+  nextToken: string | null;
+}
+
+/**
+ * Fetch one page of shipments updated within a window. When a NextToken is
+ * given Amazon ignores the dates, so only the marketplace is sent with it.
+ */
+export async function getInboundShipmentsPage(
+  accessToken: string,
+  marketplace: Marketplace,
+  lastUpdatedAfter: string,
+  lastUpdatedBefore: string,
+  nextToken?: string | null
+): Promise<InboundShipmentsPage> {
+  const params = new URLSearchParams({ MarketplaceId: marketplace.id });
+
+  if (nextToken) {
+    params.set("QueryType", "NEXT_TOKEN");
+    params.set("NextToken", nextToken);
+  } else {
+    params.set("QueryType", "DATE_RANGE");
+    params.set("LastUpdatedAfter", lastUpdatedAfter);
+    params.set("LastUpdatedBefore", lastUpdatedBefore);
+  }
+
+  const result = await callSPAPI(accessToken, `/fba/inbound/v0/shipments?${params.toString()}`, marketplace.region);
+
+  return {
+    shipments: result.payload?.ShipmentData || [],
+    nextToken: result.payload?.NextToken || null,
+  };
+}
+
+/**
+ * Fetch the per-SKU quantities shipped and received for one shipment
+ */
+export async function getInboundShipmentItems(
+  accessToken: string,
+  marketplace: Marketplace,
+  shipmentId: string
+): Promise<any[]> {
+  const params = new URLSearchParams({ MarketplaceId: marketplace.id });
+  const endpoint = `/fba/inbound/v0/shipments/${encodeURIComponent(shipmentId)}/items?${params.toString()}`;
+  const result = await callSPAPI(accessToken, endpoint, marketplace.region);
+  return result.payload?.ItemData || [];
+}
+
+/**
+ * Fetch one page of inbound plans for the marketplace's region, most
+ * recently updated first
+ */
+export async function getInboundPlansPage(
+  accessToken: string,
+  marketplace: Marketplace,
+  nextToken?: string | null
+): Promise<InboundPlansPage> {
+  const params = new URLSearchParams({
+    pageSize: String(INBOUND_PLANS_PAGE_SIZE),
+    sortBy: "LAST_UPDATED_TIME",
+    sortOrder: "DESC",
+  });
+
+  if (nextToken) {
+    params.set("paginationToken", nextToken);
+  }
+
+  const result = await callSPAPI(accessToken, `/inbound/fba/2024-03-20/inboundPlans?${params.toString()}`, marketplace.region);
+
+  return {
+    inboundPlans: result.inboundPlans || [],
+    nextToken: result.pagination?.nextToken || null,
+  };
+}
+
+/**
+ * Fetch one inbound plan, including the IDs and statuses of its shipments
+ */
+export async function getInboundPlan(accessToken: string, marketplace: Marketplace, inboundPlanId: string): Promise<any> {
+  const endpoint = `/inbound/fba/2024-03-20/inboundPlans/${encodeURIComponent(inboundPlanId)}`;
+  return callSPAPI(accessToken, endpoint, marketplace.region);
+}
+
+/**
+ * Fetch one of a plan's shipments. Its shipmentConfirmationId is the FBA
+ * shipment ID that getShipments reports once the shipment is confirmed.
+ */
+export async function getInboundPlanShipment(
+  accessToken: string,
+  marketplace: Marketplace,
+  inboundPlanId: string,
+  shipmentId: string
+): Promise<any> {
+  const endpoint = `/inbound/fba/2024-03-20/inboundPlans/${encodeURIComponent(inboundPlanId)}/shipments/${encodeURIComponent(shipmentId)}`;
+  return callSPAPI(accessToken, endpoint, marketplace.region);
+}
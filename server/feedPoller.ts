@@ -0,0 +1,260 @@
+// Feed Poller
+// Checks every processing SKU upload with Amazon in the background, so feeds
+// finish whether or not anyone has the upload open. Each upload is re-checked
+// with exponential backoff until its feeds reach a terminal status; then the
+// result document is applied to its items and a completion event is emitted.
+
+import { EventEmitter } from "events";
+import { storage } from "./storage";
+import { log } from "./log";
+import { getLWAAccessToken } from "./lwaToken";
+import { getMarketplace } from "./marketplaces";
+import { getFeedStatus, getFeedResultDocument, FEED_TERMINAL_STATUSES } from "./feeds";
+import { applyFeedResults } from "./feedResults";
+import type { SkuUpload } from "@shared/schema";
+
+// How often processing uploads are looked at (default: 15 seconds)
+const FEED_POLL_INTERVAL_MS = parseInt(process.env.FEED_POLL_INTERVAL_MS || "15000");
+
+// Delay before re-checking a feed still in progress, doubling per check up to the max
+const FEED_POLL_MIN_DELAY_MS = 30 * 1000;
+const FEED_POLL_MAX_DELAY_MS = 10 * 60 * 1000;
+
+// Checks a finished feed's processing report may fail before the upload is marked failed
+const FEED_RESULT_MAX_ATTEMPTS = 5;
+
+export const FEED_COMPLETED_EVENT = "feedCompleted";
+
+export interface FeedCompletionEvent {
+  uploadId: string;
+  filename: string;
+  status: string; // completed or failed
+  successCount: number;
+  errorCount: number;
+}
+
+// Emits FEED_COMPLETED_EVENT when an upload's feeds finish processing
+export const feedEvents = new EventEmitter();
+feedEvents.setMaxListeners(0);
+
+interface PollBackoff {
+  attempts: number;
+  nextCheckAt: number;
+}
+
+let feedPollIntervalId: NodeJS.Timeout | null = null;
+let isPolling = false;
+const backoff = new Map<string, PollBackoff>();
+// Failed attempts to read each finished feed's processing report
+const resultFailures = new Map<string, number>();
+// Checks under way, so a status request and the poller never apply one report twice
+const inFlight = new Map<string, Promise<SkuUpload | undefined>>();
+
+function isTerminal(status: string | null | undefined): boolean {
+  return !!status && FEED_TERMINAL_STATUSES.includes(status);
+}
+
+function scheduleNextCheck(uploadId: string): void {
+  const attempts = (backoff.get(uploadId)?.attempts ?? 0) + 1;
+  const delay = Math.min(FEED_POLL_MIN_DELAY_MS * 2 ** (attempts - 1), FEED_POLL_MAX_DELAY_MS);
+  backoff.set(uploadId, { attempts, nextCheckAt: Date.now() + delay });
+}
+
+/**
+ * Check an upload's close and listings feeds with Amazon once. Delete uploads
+ * wait for their close feed too, so results describe the listing's final state.
+ */
+async function pollUpload(upload: SkuUpload): Promise<SkuUpload | undefined> {
+  const accessToken = await getLWAAccessToken();
+  const region = getMarketplace(upload.marketplaceId).region;
+
+  let closeFeedStatus = upload.closeFeedStatus;
+  if (upload.closeFeedId && !isTerminal(closeFeedStatus)) {
+    closeFeedStatus = (await getFeedStatus(accessToken, upload.closeFeedId, region)).processingStatus;
+    if (closeFeedStatus !== upload.closeFeedStatus) {
+      log(`Close feed ${upload.closeFeedId} status: ${closeFeedStatus}`, "feed-poller");
+      await storage.updateSkuUpload(upload.id, { closeFeedStatus });
+    }
+  }
+
+  if (!upload.feedId) {
+    return storage.getSkuUpload(upload.id);
+  }
+
+  const feedStatus = await getFeedStatus(accessToken, upload.feedId, region);
+  log(`Feed ${upload.feedId} status: ${feedStatus.processingStatus}`, "feed-poller");
+
+  if (!isTerminal(feedStatus.processingStatus) || (upload.closeFeedId && !isTerminal(closeFeedStatus))) {
+    return storage.getSkuUpload(upload.id);
+  }
+
+  const closeFeedFailed = !!upload.closeFeedId && closeFeedStatus !== "DONE";
+  const closeFeedError = closeFeedFailed ? `Close feed processing ${closeFeedStatus!.toLowerCase()}` : null;
+  let updated: SkuUpload | undefined;
+
+  if (feedStatus.processingStatus === "DONE") {
+    let successCount = 0;
+    let errorCount = 0;
+    let feedResultJson: string | null = null;
+    let resultError: string | null = null;
+
+    if (feedStatus.resultFeedDocumentId) {
+      try {
+        const results = await getFeedResultDocument(accessToken, feedStatus.resultFeedDocumentId, region);
+        // Store the full result JSON for download
+        feedResultJson = JSON.stringify(results, null, 2);
+        // Map each issue back to its item through the messageId
+        const counts = await applyFeedResults(upload.id, results);
+        successCount = counts.successCount;
+        errorCount = counts.errorCount;
+        log(
+          `Feed ${upload.feedId} results: ${successCount} succeeded, ${errorCount} failed, ${counts.warningCount} with warnings`,
+          "feed-poller"
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const failures = (resultFailures.get(upload.id) ?? 0) + 1;
+        // Without the report the items' outcome is unknown, so the upload stays
+        // processing and is retried with backoff rather than reported as done
+        if (failures < FEED_RESULT_MAX_ATTEMPTS) {
+          resultFailures.set(upload.id, failures);
+          throw new Error(`Failed to get feed results (attempt ${failures}): ${errorMessage}`);
+        }
+        resultError = `Feed processed, but its results could not be read: ${errorMessage}`;
+      }
+      resultFailures.delete(upload.id);
+    }
+
+    if (resultError) {
+      updated = await storage.updateSkuUpload(upload.id, {
+        status: "failed",
+        errorMessage: closeFeedError ? `${resultError}; ${closeFeedError.toLowerCase()}` : resultError,
+      });
+    } else {
+      updated = await storage.updateSkuUpload(upload.id, {
+        status: "completed",
+        successCount,
+        errorCount,
+        feedResult: feedResultJson,
+        errorMessage: closeFeedError,
+      });
+    }
+  } else {
+    const feedError = `Feed processing ${feedStatus.processingStatus.toLowerCase()}`;
+    updated = await storage.updateSkuUpload(upload.id, {
+      status: "failed",
+      errorMessage: closeFeedError ? `${feedError}; ${closeFeedError.toLowerCase()}` : feedError,
+    });
+  }
+
+  if (updated) {
+    const event: FeedCompletionEvent = {
+      uploadId: updated.id,
+      filename: updated.filename,
+      status: updated.status,
+      successCount: updated.successCount,
+      errorCount: updated.errorCount,
+    };
+    feedEvents.emit(FEED_COMPLETED_EVENT, event);
+  }
+  return updated;
+}
+
+/**
+ * Check a processing upload's feeds now, outside the backoff schedule.
+ * Returns the upload as stored afterwards.
+ */
+export async function checkSkuUploadFeeds(uploadId: string): Promise<SkuUpload | undefined> {
+  const running = inFlight.get(uploadId);
+  if (running) return running;
+
+  const upload = await storage.getSkuUpload(uploadId);
+  if (!upload || upload.status !== "processing") return upload;
+
+  const check = pollUpload(upload).finally(() => inFlight.delete(uploadId));
+  inFlight.set(uploadId, check);
+
+  let updated: SkuUpload | undefined;
+  try {
+    updated = await check;
+  } catch (error) {
+    scheduleNextCheck(uploadId);
+    throw error;
+  }
+  if (updated?.status === "processing") {
+    scheduleNextCheck(uploadId);
+  } else {
+    backoff.delete(uploadId);
+  }
+  return updated;
+}
+
+/**
+ * Check every processing upload that is due
+ */
+export async function pollProcessingFeeds(): Promise<void> {
+  if (isPolling) return;
+  isPolling = true;
+
+  try {
+    const uploads = await storage.getSkuUploadsByStatus("processing");
+    const processingIds = new Set(uploads.map((upload) => upload.id));
+
+    // Forget uploads finished or removed since the last run
+    Array.from(backoff.keys()).forEach((id) => {
+      if (!processingIds.has(id)) backoff.delete(id);
+    });
+    Array.from(resultFailures.keys()).forEach((id) => {
+      if (!processingIds.has(id)) resultFailures.delete(id);
+    });
+
+    const now = Date.now();
+    for (const upload of uploads) {
+      if ((backoff.get(upload.id)?.nextCheckAt ?? 0) > now) continue;
+
+      try {
+        await checkSkuUploadFeeds(upload.id);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Feed check for upload ${upload.id} failed: ${errorMessage}`, "feed-poller");
+      }
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    log(`Feed polling failed: ${errorMessage}`, "feed-poller");
+  } finally {
+    isPolling = false;
+  }
+}
+
+/**
+ * Start the background feed poller
+ */
+export function startFeedPollScheduler(): void {
+  if (feedPollIntervalId) {
+    log("Feed poll scheduler already running", "feed-poller");
+    return;
+  }
+
+  log(`Starting feed poll scheduler (interval: ${FEED_POLL_INTERVAL_MS}ms)`, "feed-poller");
+
+  // Pick up uploads left processing before a restart
+  setTimeout(() => {
+    pollProcessingFeeds();
+  }, 5000);
+
+  feedPollIntervalId = setInterval(() => {
+    pollProcessingFeeds();
+  }, FEED_POLL_INTERVAL_MS);
+}
+
+/**
+ * Stop the background feed poller
+ */
+export function stopFeedPollScheduler(): void {
+  if (feedPollIntervalId) {
+    clearInterval(feedPollIntervalId);
+    feedPollIntervalId = null;
+    log("Feed poll scheduler stopped", "feed-poller");
+  }
+}
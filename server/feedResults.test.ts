@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { applyFeedResults } from "./feedResults";
+import { storage } from "./storage";
+
+async function createUpload(skus: string[]) {
+  const upload = await storage.createSkuUpload({ filename: "feed.csv", totalItems: skus.length });
+  await storage.createSkuItems(
+    skus.map((sku, index) => ({ uploadId: upload.id, sku, asin: `B0000000${index}`, messageId: index + 1 }))
+  );
+  return upload.id;
+}
+
+async function itemsBySku(uploadId: string) {
+  const items = await storage.getSkuItemsByUploadId(uploadId);
+  return Object.fromEntries(items.map((item) => [item.sku, item]));
+}
+
+describe("applyFeedResults", () => {
+  it("maps issues to items by messageId", async () => {
+    const uploadId = await createUpload(["A", "B", "C"]);
+    const counts = await applyFeedResults(uploadId, {
+      issues: [
+        { messageId: 2, code: "90220", severity: "ERROR", message: "Missing price" },
+        { messageId: 2, code: "8541", severity: "WARNING", message: "Title differs" },
+        { messageId: 3, code: "18027", severity: "WARNING", message: "Image too small" },
+      ],
+    });
+
+    expect(counts).toEqual({ successCount: 2, errorCount: 1, warningCount: 1 });
+    const items = await itemsBySku(uploadId);
+    expect(items.A).toMatchObject({ status: "success", errorMessage: null, severity: null, issues: null });
+    // Only the most severe issues are summarised, but all of them are kept
+    expect(items.B).toMatchObject({ status: "error", errorMessage: "Missing price", errorCode: "90220", severity: "ERROR" });
+    expect(JSON.parse(items.B.issues!)).toHaveLength(2);
+    expect(items.C).toMatchObject({ status: "success", errorMessage: "Image too small", severity: "WARNING" });
+  });
+
+  it("fails every item on an error without a messageId", async () => {
+    const uploadId = await createUpload(["A", "B"]);
+    const counts = await applyFeedResults(uploadId, {
+      issues: [{ code: "50001", severity: "ERROR", message: "Feed rejected" }],
+    });
+
+    expect(counts.errorCount).toBe(2);
+    const items = await itemsBySku(uploadId);
+    expect(items.A.errorMessage).toBe("Feed rejected");
+    expect(items.B.errorMessage).toBe("Feed rejected");
+  });
+
+  it("clears an earlier error when a later report shows the item succeeded", async () => {
+    const uploadId = await createUpload(["A", "B"]);
+    await applyFeedResults(uploadId, {
+      issues: [{ messageId: 1, code: "90220", severity: "ERROR", message: "Missing price" }],
+    });
+    const counts = await applyFeedResults(uploadId, { issues: [] });
+
+    expect(counts).toEqual({ successCount: 2, errorCount: 0, warningCount: 0 });
+    const items = await itemsBySku(uploadId);
+    expect(items.A).toMatchObject({ status: "success", errorMessage: null, errorCode: null, severity: null, issues: null });
+  });
+
+  it("falls back to creation order for items saved without a messageId", async () => {
+    const upload = await storage.createSkuUpload({ filename: "old.csv", totalItems: 1 });
+    await storage.createSkuItems([{ uploadId: upload.id, sku: "OLD", asin: "B000000000" }]);
+    await applyFeedResults(upload.id, {
+      issues: [{ messageId: 1, code: "90220", severity: "ERROR", message: "Missing price" }],
+    });
+
+    const items = await itemsBySku(upload.id);
+    expect(items.OLD.status).toBe("error");
+  });
+
+  it("takes counts from the report summary for uploads without items", async () => {
+    const upload = await storage.createSkuUpload({ filename: "delete.csv", uploadType: "delete" });
+    const counts = await applyFeedResults(upload.id, {
+      summary: { messagesAccepted: 4, messagesInvalid: 1 },
+      issues: [{ messageId: 5, code: "8560", severity: "ERROR", message: "SKU not found" }],
+    });
+
+    expect(counts).toEqual({ successCount: 4, errorCount: 1, warningCount: 0 });
+  });
+});
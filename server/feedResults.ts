@@ -0,0 +1,98 @@
+// Feed Results
+// Maps a JSON_LISTINGS_FEED processing report back onto the SKU items the feed
+// was built from. Each item went out as the message numbered by its messageId,
+// and Amazon reports every issue against that number.
+
+import { storage, type SkuItemUpdate } from "./storage";
+import type { SkuItem } from "@shared/schema";
+
+export interface FeedIssue {
+  messageId?: number;
+  code: string;
+  severity: string; // ERROR, WARNING or INFO
+  message: string;
+  attributeNames?: string[];
+}
+
+export interface FeedResultCounts {
+  successCount: number;
+  errorCount: number;
+  warningCount: number;
+}
+
+const SEVERITY_RANK: Record<string, number> = {
+  ERROR: 3,
+  WARNING: 2,
+  INFO: 1,
+};
+
+function toFeedIssue(issue: any): FeedIssue {
+  return {
+    messageId: typeof issue.messageId === "number" ? issue.messageId : undefined,
+    code: String(issue.code ?? ""),
+    severity: String(issue.severity ?? "ERROR").toUpperCase(),
+    message: String(issue.message ?? ""),
+    attributeNames: issue.attributeNames ?? (issue.attributeName ? [issue.attributeName] : undefined),
+  };
+}
+
+function buildItemUpdate(item: SkuItem, issues: FeedIssue[]): SkuItemUpdate {
+  if (issues.length === 0) {
+    return { id: item.id, status: "success", errorMessage: null, errorCode: null, severity: null, issues: null };
+  }
+
+  const rank = Math.max(...issues.map((issue) => SEVERITY_RANK[issue.severity] ?? 0));
+  const worst = issues.filter((issue) => (SEVERITY_RANK[issue.severity] ?? 0) === rank);
+
+  return {
+    id: item.id,
+    status: worst[0].severity === "ERROR" ? "error" : "success",
+    errorMessage: worst.map((issue) => issue.message).join("; "),
+    errorCode: Array.from(new Set(worst.map((issue) => issue.code))).join(", "),
+    severity: worst[0].severity,
+    issues: JSON.stringify(issues),
+  };
+}
+
+/**
+ * Save each item's issues from a processing report. Items Amazon raised no
+ * errors for are marked successful, with any earlier error cleared. Issues without a messageId apply to the
+ * whole feed, so when one of those is an error every item failed with it.
+ * Delete uploads have no items, so their counts come from the report summary.
+ */
+export async function applyFeedResults(uploadId: string, report: any): Promise<FeedResultCounts> {
+  const issues: FeedIssue[] = Array.isArray(report?.issues) ? report.issues.map(toFeedIssue) : [];
+  const items = await storage.getSkuItemsByUploadId(uploadId);
+
+  if (items.length === 0) {
+    return {
+      successCount: report?.summary?.messagesAccepted ?? 0,
+      errorCount: report?.summary?.messagesInvalid ?? 0,
+      warningCount: issues.filter((issue) => issue.severity === "WARNING").length,
+    };
+  }
+
+  const feedIssues = issues.filter((issue) => issue.messageId === undefined);
+  const issuesByMessage = new Map<number, FeedIssue[]>();
+  for (const issue of issues) {
+    if (issue.messageId === undefined) continue;
+    const list = issuesByMessage.get(issue.messageId) ?? [];
+    list.push(issue);
+    issuesByMessage.set(issue.messageId, list);
+  }
+
+  // Every item is written, so applying a report again leaves no stale errors behind
+  const updates = items.map((item, index) => {
+    // Items saved before messageIds were recorded went out in creation order
+    const messageId = item.messageId ?? index + 1;
+    return buildItemUpdate(item, [...feedIssues, ...(issuesByMessage.get(messageId) ?? [])]);
+  });
+  await storage.updateSkuItemsBatch(uploadId, updates);
+
+  const errorCount = updates.filter((update) => update.status === "error").length;
+  return {
+    successCount: items.length - errorCount,
+    errorCount,
+    warningCount: updates.filter((update) => update.severity === "WARNING").length,
+  };
+}
@@ -0,0 +1,99 @@
+// Feeds
+// Helpers for the Feeds API (2021-06-30): creating feed documents and feeds,
+// and reading back a feed's processing status and result document
+
+import { log } from "./log";
+import { callSPAPI, callSPAPIPost, type SPAPIRegion } from "./spApi";
+import type { Marketplace } from "./marketplaces";
+
+// Processing statuses after which a feed never changes again
+export const FEED_TERMINAL_STATUSES = ["DONE", "FATAL", "CANCELLED"];
+
+export async function createFeedDocument(accessToken: string, region: SPAPIRegion): Promise<{ feedDocumentId: string; url: string }> {
+  const body = {
+    contentType: "application/json; charset=UTF-8",
+  };
+
+  const result = await callSPAPIPost(accessToken, "/feeds/2021-06-30/documents", body, region);
+  return {
+    feedDocumentId: result.feedDocumentId,
+    url: result.url,
+  };
+}
+
+export async function uploadFeedContent(url: string, content: string): Promise<void> {
+  log(`Uploading feed content to pre-signed URL`, "sp-api");
+
+  const response = await fetch(url, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json; charset=UTF-8",
+    },
+    body: content,
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Failed to upload feed content: ${response.status} - ${text}`);
+  }
+
+  log(`Feed content uploaded successfully`, "sp-api");
+}
+
+export async function createFeed(
+  accessToken: string,
+  feedDocumentId: string,
+  marketplace: Marketplace
+): Promise<{ feedId: string }> {
+  const body = {
+    feedType: "JSON_LISTINGS_FEED",
+    marketplaceIds: [marketplace.id],
+    inputFeedDocumentId: feedDocumentId,
+  };
+
+  const result = await callSPAPIPost(accessToken, "/feeds/2021-06-30/feeds", body, marketplace.region);
+  return { feedId: result.feedId };
+}
+
+export async function getFeedStatus(accessToken: string, feedId: string, region: SPAPIRegion): Promise<{
+  processingStatus: string;
+  resultFeedDocumentId?: string;
+}> {
+  const result = await callSPAPI(accessToken, `/feeds/2021-06-30/feeds/${feedId}`, region);
+  return {
+    processingStatus: result.processingStatus,
+    resultFeedDocumentId: result.resultFeedDocumentId,
+  };
+}
+
+export async function getFeedResultDocument(accessToken: string, feedResultDocumentId: string, region: SPAPIRegion): Promise<any> {
+  const docInfo = await callSPAPI(accessToken, `/feeds/2021-06-30/documents/${feedResultDocumentId}`, region);
+
+  log(`Feed document info: ${JSON.stringify(docInfo)}`, "sp-api");
+
+  // Download the actual result from the URL
+  const response = await fetch(docInfo.url);
+  if (!response.ok) {
+    throw new Error(`Failed to download feed result: ${response.status}`);
+  }
+
+  let text: string;
+
+  // Check if the document is compressed
+  if (docInfo.compressionAlgorithm === "GZIP") {
+    const { gunzipSync } = await import("zlib");
+    const buffer = Buffer.from(await response.arrayBuffer());
+    text = gunzipSync(buffer).toString("utf-8");
+    log(`Decompressed feed result (first 500 chars): ${text.substring(0, 500)}`, "sp-api");
+  } else {
+    text = await response.text();
+    log(`Feed result (first 500 chars): ${text.substring(0, 500)}`, "sp-api");
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { raw: text };
+  }
+}
+
@@ -0,0 +1,144 @@
+// File Uploads
+// Reads uploaded CSV/TSV files and .xlsx/.xlsm workbooks record by record.
+// Multipart uploads are streamed straight from the request into the parser;
+// the older JSON body with a CSV as a csvContent string is still accepted.
+
+import type { Request } from "express";
+import type { Readable } from "stream";
+import busboy from "busboy";
+import {
+  parseDelimitedStream,
+  parseDelimitedText,
+  DELIMITED_ENCODINGS,
+  type DelimitedEncoding,
+  type RecordHandler,
+} from "./delimitedParser";
+import { parseWorkbookStream } from "./workbookParser";
+
+// Name of the multipart field carrying the file
+const FILE_FIELD = "file";
+
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+const WORKBOOK_EXTENSIONS = /\.(xlsx|xlsm)$/i;
+
+export type UploadFormat = "csv" | "tsv" | "xlsx";
+
+export interface TableUpload {
+  format: UploadFormat;
+  sheetName: string | null; // the worksheet read, for workbooks
+  records: number;
+  filename: string | null;
+  fields: Record<string, string>; // the other form fields, or the rest of the JSON body
+}
+
+type ParsedTable = Pick<TableUpload, "format" | "sheetName" | "records">;
+
+function getEncoding(value: unknown): DelimitedEncoding | undefined {
+  if (value === undefined || value === "" || value === "auto") return undefined;
+  if (typeof value === "string" && (DELIMITED_ENCODINGS as readonly string[]).includes(value.toLowerCase())) {
+    return value.toLowerCase() as DelimitedEncoding;
+  }
+  throw new Error(`Unsupported encoding: ${value}. Use one of ${DELIMITED_ENCODINGS.join(", ")}`);
+}
+
+async function parseDelimitedUpload(stream: Readable, onRecord: RecordHandler, encoding: unknown): Promise<ParsedTable> {
+  const result = await parseDelimitedStream(stream, onRecord, { encoding: getEncoding(encoding) });
+  return { format: result.delimiter === "\t" ? "tsv" : "csv", sheetName: null, records: result.records };
+}
+
+async function parseWorkbookUpload(stream: Readable, onRecord: RecordHandler): Promise<ParsedTable> {
+  const result = await parseWorkbookStream(stream, onRecord);
+  return { format: "xlsx", sheetName: result.sheetName, records: result.records };
+}
+
+function readMultipartUpload(req: Request, onRecord: RecordHandler): Promise<TableUpload> {
+  return new Promise((resolve, reject) => {
+    const fields: Record<string, string> = {};
+    let filename: string | null = null;
+    let parsing: Promise<ParsedTable | null> | null = null;
+
+    let form: busboy.Busboy;
+    try {
+      form = busboy({ headers: req.headers, limits: { files: 1, fields: 20, fileSize: MAX_UPLOAD_BYTES } });
+    } catch (error) {
+      reject(error);
+      return;
+    }
+
+    // Stop reading the request once the upload has been rejected
+    const abort = (error: unknown) => {
+      req.unpipe(form);
+      req.resume();
+      reject(error);
+    };
+
+    // Fields sent ahead of the file (such as encoding) are available here
+    form.on("field", (name, value) => {
+      fields[name] = value;
+    });
+
+    form.on("file", (name, stream, info) => {
+      if (name !== FILE_FIELD || parsing) {
+        stream.resume();
+        return;
+      }
+
+      filename = info.filename || null;
+      stream.on("limit", () => {
+        abort(new Error(`File is larger than the ${MAX_UPLOAD_BYTES / 1024 / 1024} MB upload limit`));
+      });
+
+      const isWorkbook = WORKBOOK_EXTENSIONS.test(info.filename || "");
+      parsing = Promise.resolve()
+        .then(() => (isWorkbook ? parseWorkbookUpload(stream, onRecord) : parseDelimitedUpload(stream, onRecord, fields.encoding)))
+        .catch((error) => {
+          stream.resume();
+          abort(error);
+          return null;
+        });
+    });
+
+    form.on("close", () => {
+      if (!parsing) {
+        reject(new Error(`A CSV, TSV or Excel file is required in the "${FILE_FIELD}" field`));
+        return;
+      }
+      parsing.then((result) => {
+        if (result) resolve({ ...result, filename, fields });
+      });
+    });
+
+    form.on("error", abort);
+    req.pipe(form);
+  });
+}
+
+/**
+ * Read an uploaded file, handing each record (preamble and header rows
+ * included) to onRecord as it is parsed
+ */
+export async function readTableUpload(req: Request, onRecord: RecordHandler): Promise<TableUpload> {
+  if (req.is("multipart/form-data")) {
+    return readMultipartUpload(req, onRecord);
+  }
+
+  const { csvContent, ...rest } = req.body ?? {};
+  if (!csvContent || typeof csvContent !== "string") {
+    throw new Error("CSV content is required");
+  }
+
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(rest)) {
+    if (typeof value === "string") fields[key] = value;
+  }
+
+  const result = parseDelimitedText(csvContent, onRecord);
+  return {
+    format: result.delimiter === "\t" ? "tsv" : "csv",
+    sheetName: null,
+    records: result.records,
+    filename: fields.filename || null,
+    fields,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { getItemFees } from "./finances";
+
+// Finances amounts are signed, with fees as negative numbers
+function fee(type: string, amount: number) {
+  return { FeeType: type, FeeAmount: { CurrencyCode: "USD", CurrencyAmount: -amount } };
+}
+
+describe("getItemFees", () => {
+  it("splits item fees into referral, FBA and other", () => {
+    const fees = getItemFees({
+      ShipmentEventList: [
+        {
+          ShipmentItemList: [
+            {
+              OrderItemId: "item-1",
+              ItemFeeList: [
+                fee("Commission", 3),
+                fee("FBAPerUnitFulfillmentFee", 4.25),
+                fee("FBAWeightBasedFee", 0.5),
+                fee("VariableClosingFee", 1.8),
+              ],
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(fees).toEqual([{ orderItemId: "item-1", referralFee: "3.00", fbaFee: "4.75", otherFees: "1.80" }]);
+  });
+
+  it("totals an item across the shipments it went out in", () => {
+    const fees = getItemFees({
+      ShipmentEventList: [
+        { ShipmentItemList: [{ OrderItemId: "item-1", ItemFeeList: [fee("Commission", 1.5)] }] },
+        { ShipmentItemList: [{ OrderItemId: "item-1", ItemFeeList: [fee("Commission", 1.5)] }] },
+      ],
+    });
+
+    expect(fees).toEqual([{ orderItemId: "item-1", referralFee: "3.00", fbaFee: "0.00", otherFees: "0.00" }]);
+  });
+
+  it("books order-level fees against the first item", () => {
+    const fees = getItemFees({
+      ShipmentEventList: [
+        {
+          OrderFeeList: [fee("ShippingHB", 0.75)],
+          ShipmentFeeList: [fee("FBAInboundTransportationFee", 0.25)],
+          ShipmentItemList: [
+            { OrderItemId: "item-1", ItemFeeList: [fee("Commission", 2)] },
+            { OrderItemId: "item-2", ItemFeeList: [fee("Commission", 1)] },
+          ],
+        },
+      ],
+    });
+
+    expect(fees.map((item) => item.otherFees)).toEqual(["1.00", "0.00"]);
+  });
+
+  it("keeps refunded fees as a negative charge", () => {
+    const fees = getItemFees({
+      ShipmentEventList: [
+        { ShipmentItemList: [{ OrderItemId: "item-1", ItemFeeList: [fee("Commission", 3), fee("Commission", -0.6)] }] },
+      ],
+    });
+
+    expect(fees[0].referralFee).toBe("2.40");
+  });
+
+  it("skips items without an OrderItemId and events without shipments", () => {
+    expect(getItemFees({ ShipmentEventList: [{ ShipmentItemList: [{ ItemFeeList: [fee("Commission", 1)] }] }] })).toEqual([]);
+    expect(getItemFees({ RefundEventList: [{}] })).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+// Amazon Finances
+// Financial event lookups, the fee breakdown used for order profitability and refunds
+
+import { callSPAPI, type SPAPIRegion } from "./spApi";
+import type { Marketplace } from "./marketplaces";
+import type { AmazonOrderItemFees } from "./storage";
+
+export interface FinancialEvents {
+  ShipmentEventList?: any[];
+  RefundEventList?: any[];
+  [eventList: string]: any[] | undefined;
+}
+
+// Follow NextToken, merging each page's event lists
+async function collectFinancialEvents(
+  accessToken: string,
+  path: string,
+  params: URLSearchParams,
+  region: SPAPIRegion
+): Promise<FinancialEvents> {
+  const events: FinancialEvents = {};
+  let nextToken: string | null = null;
+
+  do {
+    // Amazon ignores every other filter when a NextToken is supplied
+    const pageParams: URLSearchParams = nextToken ? new URLSearchParams({ NextToken: nextToken }) : params;
+    const query = pageParams.toString();
+
+    const result = await callSPAPI(accessToken, `${path}${query ? `?${query}` : ""}`, region);
+
+    const page = result.payload?.FinancialEvents || {};
+    for (const [listName, list] of Object.entries(page)) {
+      if (Array.isArray(list)) {
+        events[listName] = [...(events[listName] || []), ...list];
+      }
+    }
+    nextToken = result.payload?.NextToken || null;
+  } while (nextToken);
+
+  return events;
+}
+
+/**
+ * Fetch every financial event posted for an order
+ */
+export async function listFinancialEventsByOrderId(
+  accessToken: string,
+  marketplace: Marketplace,
+  orderId: string
+): Promise<FinancialEvents> {
+  return collectFinancialEvents(
+    accessToken,
+    `/finances/v0/orders/${orderId}/financialEvents`,
+    new URLSearchParams(),
+    marketplace.region
+  );
+}
+
+/**
+ * Fetch every financial event posted in a window, across the region's
+ * marketplaces. PostedBefore must be at least 2 minutes in the past.
+ */
+export async function listFinancialEvents(
+  accessToken: string,
+  region: SPAPIRegion,
+  postedAfter: Date,
+  postedBefore: Date
+): Promise<FinancialEvents> {
+  const params = new URLSearchParams({
+    PostedAfter: postedAfter.toISOString(),
+    PostedBefore: postedBefore.toISOString(),
+    MaxResultsPerPage: "100",
+  });
+  return collectFinancialEvents(accessToken, "/finances/v0/financialEvents", params, region);
+}
+
+// One refunded item from a RefundEventList
+export interface RefundItem {
+  amazonOrderId: string;
+  marketplaceName: string | null;
+  postedDate: Date;
+  sku: string | null;
+  orderAdjustmentItemId: string | null;
+  quantity: number;
+  refundAmount: number; // charged back to us, as a positive amount
+  currency: string | null;
+}
+
+// Finances amounts are signed; fees come through as negative numbers
+function feeAmount(fee: any): number {
+  return -(Number(fee?.FeeAmount?.CurrencyAmount) || 0);
+}
+
+export function toAmount(value: number): string {
+  return (Math.round(value * 100) / 100).toFixed(2);
+}
+
+/**
+ * Total the fees charged on each order item across its shipment events.
+ * Commission is the referral fee and FBA* fees are fulfillment; everything
+ * else (closing fees, order-level shipment fees) is counted as other fees.
+ */
+export function getItemFees(events: FinancialEvents): AmazonOrderItemFees[] {
+  const totals = new Map<string, { referralFee: number; fbaFee: number; otherFees: number }>();
+  let orderLevelFees = 0;
+
+  for (const shipment of events.ShipmentEventList || []) {
+    for (const fee of [...(shipment.ShipmentFeeList || []), ...(shipment.OrderFeeList || [])]) {
+      orderLevelFees += feeAmount(fee);
+    }
+
+    for (const item of shipment.ShipmentItemList || []) {
+      if (!item.OrderItemId) continue;
+      const total = totals.get(item.OrderItemId) ?? { referralFee: 0, fbaFee: 0, otherFees: 0 };
+
+      for (const fee of item.ItemFeeList || []) {
+        if (fee.FeeType === "Commission") {
+          total.referralFee += feeAmount(fee);
+        } else if (String(fee.FeeType || "").startsWith("FBA")) {
+          total.fbaFee += feeAmount(fee);
+        } else {
+          total.otherFees += feeAmount(fee);
+        }
+      }
+      totals.set(item.OrderItemId, total);
+    }
+  }
+
+  const fees = Array.from(totals.entries()).map(([orderItemId, total]) => ({ orderItemId, ...total }));
+
+  // Fees charged on the order as a whole are booked against its first item
+  if (fees.length > 0) {
+    fees[0].otherFees += orderLevelFees;
+  }
+
+  return fees.map((fee) => ({
+    orderItemId: fee.orderItemId,
+    referralFee: toAmount(fee.referralFee),
+    fbaFee: toAmount(fee.fbaFee),
+    otherFees: toAmount(fee.otherFees),
+  }));
+}
+
+/**
+ * Flatten refund events into one entry per adjusted item. The refunded
+ * amount is every charge adjustment (principal, tax, shipping) on the item.
+ */
+export function getRefundItems(events: FinancialEvents): RefundItem[] {
+  const refunds: RefundItem[] = [];
+
+  for (const event of events.RefundEventList || []) {
+    if (!event.AmazonOrderId || !event.PostedDate) continue;
+
+    for (const item of event.ShipmentItemAdjustmentList || []) {
+      const charges: any[] = item.ItemChargeAdjustmentList || [];
+      const refunded = charges.reduce((sum, charge) => sum - (Number(charge.ChargeAmount?.CurrencyAmount) || 0), 0);
+
+      refunds.push({
+        amazonOrderId: event.AmazonOrderId,
+        marketplaceName: event.MarketplaceName ?? null,
+        postedDate: new Date(event.PostedDate),
+        sku: item.SellerSKU ?? null,
+        orderAdjustmentItemId: item.OrderAdjustmentItemId ?? null,
+        quantity: item.QuantityShipped ?? 0,
+        refundAmount: refunded,
+        currency: charges.find((charge) => charge.ChargeAmount?.CurrencyCode)?.ChargeAmount.CurrencyCode ?? null,
+      });
+    }
+  }
+
+  return refunds;
+}
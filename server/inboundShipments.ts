@@ -0,0 +1,175 @@
+// FBA Inbound Shipments
+// Shipments to Amazon with their plan, per-SKU shipped and received
+// quantities, and the supplier order each SKU last came in on, so a unit can
+// be followed from the supplier to Amazon receiving
+
+import { storage, type SupplierItemSource } from "./storage";
+
+// Received quantities keep climbing while a shipment is receiving, so a
+// shortfall only counts as a discrepancy once Amazon closes the shipment
+const CLOSED_STATUS = "CLOSED";
+
+export interface InboundSupplierSource {
+  orderId: string;
+  supplier: string | null;
+  orderDate: Date | null;
+  deliveredAt: Date | null;
+}
+
+export interface InboundShipmentLine {
+  sellerSku: string;
+  fnSku: string | null;
+  asin: string | null;
+  productName: string | null;
+  quantityShipped: number;
+  quantityReceived: number;
+  quantityInCase: number;
+  discrepancy: number | null; // received minus shipped, once the shipment is closed
+  supplierOrder: InboundSupplierSource | null;
+}
+
+export interface InboundShipmentSummary {
+  shipmentId: string;
+  shipmentName: string | null;
+  status: string;
+  inboundPlanId: string | null;
+  planName: string | null;
+  destinationFulfillmentCenterId: string | null;
+  shipFromName: string | null;
+  labelPrepType: string | null;
+  boxContentsSource: string | null;
+  unitsShipped: number;
+  unitsReceived: number;
+  discrepancy: number | null;
+  skuCount: number;
+  updatedAt: Date;
+  items: InboundShipmentLine[];
+}
+
+export interface InboundPlanSummary {
+  inboundPlanId: string;
+  name: string | null;
+  status: string;
+  sourceName: string | null;
+  createdTime: Date | null;
+  lastUpdatedTime: Date | null;
+  shipmentIds: string[];
+}
+
+export interface InboundShipmentReport {
+  totals: {
+    openShipments: number; // not yet closed or cancelled
+    unitsInTransit: number; // sent but not yet received on open shipments
+    unitsShort: number; // shipped but never received on closed shipments
+  };
+  shipments: InboundShipmentSummary[];
+  plans: InboundPlanSummary[];
+}
+
+// The latest supplier order per SKU and per ASIN
+function getLatestSupplierOrders(sources: SupplierItemSource[]): Map<string, InboundSupplierSource> {
+  const latest = new Map<string, InboundSupplierSource>();
+
+  const consider = (key: string, source: SupplierItemSource) => {
+    const current = latest.get(key);
+    if (!current || (source.orderDate?.getTime() ?? 0) > (current.orderDate?.getTime() ?? 0)) {
+      latest.set(key, {
+        orderId: source.orderId,
+        supplier: source.supplierName || source.supplierEmail || null,
+        orderDate: source.orderDate,
+        deliveredAt: source.actualDeliveryDate,
+      });
+    }
+  };
+
+  for (const source of sources) {
+    if (source.sku) consider(`sku:${source.sku}`, source);
+    if (source.asin) consider(`asin:${source.asin}`, source);
+  }
+  return latest;
+}
+
+/**
+ * Shipments for a marketplace, most recently updated first, with the plans
+ * they belong to
+ */
+export async function getInboundShipmentReport(marketplaceId: string, status?: string): Promise<InboundShipmentReport> {
+  const [shipments, plans, inventory, sources] = await Promise.all([
+    storage.getFbaInboundShipments({ marketplaceId, status }),
+    storage.getFbaInboundPlans(marketplaceId),
+    storage.getFbaInventory(marketplaceId),
+    storage.getSupplierItemSources(),
+  ]);
+
+  const items = await storage.getFbaInboundShipmentItems(shipments.map((s) => s.shipmentId));
+  const inventoryBySku = new Map(inventory.map((item) => [item.sellerSku, item]));
+  const planNames = new Map(plans.map((plan) => [plan.inboundPlanId, plan.name]));
+  const supplierOrders = getLatestSupplierOrders(sources);
+
+  const itemsByShipment = new Map<string, InboundShipmentLine[]>();
+  for (const shipment of shipments) {
+    itemsByShipment.set(shipment.shipmentId, []);
+  }
+
+  const closedIds = new Set(shipments.filter((s) => s.status === CLOSED_STATUS).map((s) => s.shipmentId));
+  for (const item of items) {
+    const stock = inventoryBySku.get(item.sellerSku);
+    const asin = stock?.asin ?? null;
+    itemsByShipment.get(item.shipmentId)?.push({
+      sellerSku: item.sellerSku,
+      fnSku: item.fulfillmentNetworkSku,
+      asin,
+      productName: stock?.productName ?? null,
+      quantityShipped: item.quantityShipped,
+      quantityReceived: item.quantityReceived,
+      quantityInCase: item.quantityInCase,
+      discrepancy: closedIds.has(item.shipmentId) ? item.quantityReceived - item.quantityShipped : null,
+      supplierOrder: supplierOrders.get(`sku:${item.sellerSku}`)
+        ?? (asin ? supplierOrders.get(`asin:${asin}`) : undefined)
+        ?? null,
+    });
+  }
+
+  const totals = { openShipments: 0, unitsInTransit: 0, unitsShort: 0 };
+  for (const shipment of shipments) {
+    if (shipment.status === CLOSED_STATUS) {
+      totals.unitsShort += Math.max(0, shipment.unitsShipped - shipment.unitsReceived);
+    } else if (shipment.status !== "CANCELLED" && shipment.status !== "DELETED") {
+      totals.openShipments++;
+      // Working shipments list their units but haven't left yet
+      if (shipment.status !== "WORKING") {
+        totals.unitsInTransit += Math.max(0, shipment.unitsShipped - shipment.unitsReceived);
+      }
+    }
+  }
+
+  return {
+    totals,
+    shipments: shipments.map((shipment) => ({
+      shipmentId: shipment.shipmentId,
+      shipmentName: shipment.shipmentName,
+      status: shipment.status,
+      inboundPlanId: shipment.inboundPlanId,
+      planName: shipment.inboundPlanId ? planNames.get(shipment.inboundPlanId) ?? null : null,
+      destinationFulfillmentCenterId: shipment.destinationFulfillmentCenterId,
+      shipFromName: shipment.shipFromName,
+      labelPrepType: shipment.labelPrepType,
+      boxContentsSource: shipment.boxContentsSource,
+      unitsShipped: shipment.unitsShipped,
+      unitsReceived: shipment.unitsReceived,
+      discrepancy: shipment.status === CLOSED_STATUS ? shipment.unitsReceived - shipment.unitsShipped : null,
+      skuCount: shipment.skuCount,
+      updatedAt: shipment.updatedAt,
+      items: itemsByShipment.get(shipment.shipmentId) ?? [],
+    })),
+    plans: plans.map((plan) => ({
+      inboundPlanId: plan.inboundPlanId,
+      name: plan.name,
+      status: plan.status,
+      sourceName: plan.sourceName,
+      createdTime: plan.createdTime,
+      lastUpdatedTime: plan.lastUpdatedTime,
+      shipmentIds: shipments.filter((s) => s.inboundPlanId === plan.inboundPlanId).map((s) => s.shipmentId),
+    })),
+  };
+}
@@ -0,0 +1,358 @@
+// FBA Inbound Sync
+// Keeps fba_inbound_shipments current by pulling shipments changed since the
+// last run (LastUpdatedAfter) with their shipped and received quantities, then
+// links them to the inbound plans that created them
+
+import { storage } from "./storage";
+import { log } from "./log";
+import { getLWAAccessToken } from "./lwaToken";
+import { getMarketplaceParticipations, type Marketplace } from "./marketplaces";
+import {
+  getInboundShipmentsPage,
+  getInboundShipmentItems,
+  getInboundPlansPage,
+  getInboundPlan,
+  getInboundPlanShipment,
+  type InboundPlansPage,
+  type InboundShipmentsPage,
+} from "./fbaInbound";
+import type { FbaInboundShipment, InsertFbaInboundPlan, InsertFbaInboundShipment } from "@shared/schema";
+
+// Sync interval (default: 1 hour)
+const INBOUND_SYNC_INTERVAL_MS = parseInt(process.env.INBOUND_SYNC_INTERVAL_MS || "3600000");
+
+// How far back the first sync for a marketplace reaches
+const INBOUND_BACKFILL_DAYS = 90;
+
+// Shipments whose items failed to fetch are retried, this many per run
+const ITEM_RETRY_LIMIT = 50;
+
+let inboundSyncIntervalId: NodeJS.Timeout | null = null;
+
+export interface InboundSyncProgress {
+  isRunning: boolean;
+  currentMarketplaceId: string | null;
+  shipmentsSynced: number;
+  itemsFetched: number;
+  plansSynced: number;
+  lastRunAt: Date | null;
+  lastError: string | null;
+}
+
+let inboundSyncProgress: InboundSyncProgress = {
+  isRunning: false,
+  currentMarketplaceId: null,
+  shipmentsSynced: 0,
+  itemsFetched: 0,
+  plansSynced: 0,
+  lastRunAt: null,
+  lastError: null,
+};
+
+export function getInboundSyncProgress(): InboundSyncProgress {
+  return { ...inboundSyncProgress };
+}
+
+/**
+ * Map a getShipments shipment to a row. getShipments has no quantities or
+ * plan, so those carry over from the stored row until they're fetched again.
+ */
+function toInboundShipment(shipment: any, marketplace: Marketplace, previous?: FbaInboundShipment): InsertFbaInboundShipment {
+  return {
+    shipmentId: shipment.ShipmentId,
+    marketplaceId: marketplace.id,
+    inboundPlanId: previous?.inboundPlanId ?? null,
+    planShipmentId: previous?.planShipmentId ?? null,
+    shipmentName: shipment.ShipmentName ?? null,
+    status: shipment.ShipmentStatus || "UNKNOWN",
+    destinationFulfillmentCenterId: shipment.DestinationFulfillmentCenterId ?? null,
+    labelPrepType: shipment.LabelPrepType ?? null,
+    boxContentsSource: shipment.BoxContentsSource ?? null,
+    shipFromName: shipment.ShipFromAddress?.Name ?? null,
+    unitsShipped: previous?.unitsShipped ?? 0,
+    unitsReceived: previous?.unitsReceived ?? 0,
+    skuCount: previous?.skuCount ?? 0,
+    itemsSyncedAt: null,
+    rawData: JSON.stringify(shipment),
+  };
+}
+
+function toInboundPlan(plan: any, marketplace: Marketplace): InsertFbaInboundPlan {
+  return {
+    inboundPlanId: plan.inboundPlanId,
+    marketplaceId: marketplace.id,
+    name: plan.name ?? null,
+    status: plan.status || "UNKNOWN",
+    sourceName: plan.sourceAddress?.name ?? null,
+    createdTime: plan.createdAt ? new Date(plan.createdAt) : null,
+    lastUpdatedTime: plan.lastUpdatedAt ? new Date(plan.lastUpdatedAt) : null,
+    rawData: JSON.stringify(plan),
+  };
+}
+
+/**
+ * Fetch and store the items of one shipment, with its shipped and received
+ * totals. Failures leave itemsSyncedAt empty so the next run retries.
+ */
+async function syncShipmentItems(marketplace: Marketplace, shipmentId: string): Promise<boolean> {
+  try {
+    const accessToken = await getLWAAccessToken();
+    const items = await getInboundShipmentItems(accessToken, marketplace, shipmentId);
+
+    const rows = items
+      .filter((item: any) => item.SellerSKU)
+      .map((item: any) => ({
+        shipmentId,
+        sellerSku: item.SellerSKU,
+        fulfillmentNetworkSku: item.FulfillmentNetworkSKU ?? null,
+        quantityShipped: Number(item.QuantityShipped) || 0,
+        quantityReceived: Number(item.QuantityReceived) || 0,
+        quantityInCase: Number(item.QuantityInCase) || 0,
+      }));
+
+    await storage.replaceFbaInboundShipmentItems(shipmentId, rows);
+    await storage.updateFbaInboundShipment(shipmentId, {
+      unitsShipped: rows.reduce((sum, item) => sum + item.quantityShipped, 0),
+      unitsReceived: rows.reduce((sum, item) => sum + item.quantityReceived, 0),
+      skuCount: rows.length,
+      itemsSyncedAt: new Date(),
+    });
+
+    inboundSyncProgress.itemsFetched++;
+    return true;
+  } catch (error) {
+    log(`Failed to sync items for shipment ${shipmentId}: ${error}`, "inbound-sync");
+    return false;
+  }
+}
+
+/**
+ * Upsert one page of shipments and fetch the items of each, since receiving
+ * moves the quantities without always changing the status
+ */
+async function saveShipmentsPage(marketplace: Marketplace, shipments: any[]): Promise<void> {
+  const valid = shipments.filter((s) => s.ShipmentId);
+  if (valid.length === 0) return;
+
+  const stored = await storage.getFbaInboundShipmentsByIds(valid.map((s) => s.ShipmentId));
+  const storedById = new Map(stored.map((s) => [s.shipmentId, s]));
+
+  const rows = valid.map((shipment) => toInboundShipment(shipment, marketplace, storedById.get(shipment.ShipmentId)));
+  await storage.upsertFbaInboundShipments(rows);
+  inboundSyncProgress.shipmentsSynced += rows.length;
+
+  for (const row of rows) {
+    await syncShipmentItems(marketplace, row.shipmentId);
+  }
+}
+
+/**
+ * Link a plan's confirmed shipments to their FBA shipment IDs. Shipments
+ * already linked are skipped, so each costs one getShipment call.
+ */
+async function linkPlanShipments(marketplace: Marketplace, inboundPlanId: string): Promise<void> {
+  const accessToken = await getLWAAccessToken();
+  const plan = await getInboundPlan(accessToken, marketplace, inboundPlanId);
+
+  const linked = await storage.getFbaInboundShipments({ marketplaceId: marketplace.id, inboundPlanId });
+  const linkedIds = new Set(linked.map((s) => s.planShipmentId));
+
+  for (const planShipment of plan.shipments || []) {
+    if (!planShipment.shipmentId || linkedIds.has(planShipment.shipmentId)) continue;
+
+    const shipment = await getInboundPlanShipment(await getLWAAccessToken(), marketplace, inboundPlanId, planShipment.shipmentId);
+    // Unconfirmed shipments have no FBA shipment ID yet
+    if (!shipment.shipmentConfirmationId) continue;
+
+    await storage.updateFbaInboundShipment(shipment.shipmentConfirmationId, {
+      inboundPlanId,
+      planShipmentId: planShipment.shipmentId,
+    });
+  }
+}
+
+/**
+ * Pull the region's inbound plans updated since the cursor, newest first,
+ * keeping those for this marketplace, and link each to its shipments
+ */
+async function syncInboundPlans(marketplace: Marketplace, since: Date): Promise<void> {
+  let nextToken: string | null = null;
+  let reachedCursor = false;
+
+  do {
+    const accessToken = await getLWAAccessToken();
+    const page: InboundPlansPage = await getInboundPlansPage(accessToken, marketplace, nextToken);
+
+    const plans: any[] = [];
+    for (const plan of page.inboundPlans) {
+      if (plan.lastUpdatedAt && new Date(plan.lastUpdatedAt) < since) {
+        reachedCursor = true;
+        break;
+      }
+      if (plan.inboundPlanId && (!plan.marketplaceIds || plan.marketplaceIds.includes(marketplace.id))) {
+        plans.push(plan);
+      }
+    }
+
+    await storage.upsertFbaInboundPlans(plans.map((plan) => toInboundPlan(plan, marketplace)));
+    inboundSyncProgress.plansSynced += plans.length;
+
+    for (const plan of plans) {
+      await linkPlanShipments(marketplace, plan.inboundPlanId);
+    }
+
+    nextToken = page.nextToken;
+  } while (nextToken && !reachedCursor);
+}
+
+/**
+ * Pull every shipment and plan updated since the marketplace's cursor, then
+ * advance it
+ */
+export async function syncMarketplaceInbound(marketplace: Marketplace): Promise<number> {
+  const state = await storage.getFbaInboundSyncState(marketplace.id);
+
+  const lastUpdatedBefore = new Date();
+  const lastUpdatedAfter =
+    state?.lastUpdatedAfter ?? new Date(lastUpdatedBefore.getTime() - INBOUND_BACKFILL_DAYS * 24 * 60 * 60 * 1000);
+
+  inboundSyncProgress.currentMarketplaceId = marketplace.id;
+  await storage.upsertFbaInboundSyncState({
+    marketplaceId: marketplace.id,
+    lastUpdatedAfter,
+    status: "running",
+    errorMessage: null,
+  });
+
+  const startCount = inboundSyncProgress.shipmentsSynced;
+
+  try {
+    let nextToken: string | null = null;
+    do {
+      const accessToken = await getLWAAccessToken();
+      const page: InboundShipmentsPage = await getInboundShipmentsPage(
+        accessToken,
+        marketplace,
+        lastUpdatedAfter.toISOString(),
+        lastUpdatedBefore.toISOString(),
+        nextToken
+      );
+      await saveShipmentsPage(marketplace, page.shipments);
+      nextToken = page.nextToken;
+    } while (nextToken);
+
+    // Retry shipments whose items failed on an earlier run
+    const missingItems = await storage.getFbaInboundShipments({
+      marketplaceId: marketplace.id,
+      missingItems: true,
+      limit: ITEM_RETRY_LIMIT,
+    });
+    for (const shipment of missingItems) {
+      await syncShipmentItems(marketplace, shipment.shipmentId);
+    }
+
+    // After the shipments, so newly confirmed ones are stored to link to
+    await syncInboundPlans(marketplace, lastUpdatedAfter);
+
+    const synced = inboundSyncProgress.shipmentsSynced - startCount;
+    await storage.upsertFbaInboundSyncState({
+      marketplaceId: marketplace.id,
+      lastUpdatedAfter: lastUpdatedBefore,
+      lastSyncAt: new Date(),
+      status: "idle",
+      shipmentsSynced: synced,
+      errorMessage: null,
+    });
+
+    log(`Synced ${synced} ${marketplace.countryCode} inbound shipments updated since ${lastUpdatedAfter.toISOString()}`, "inbound-sync");
+    return synced;
+  } catch (error) {
+    // The cursor stays put, so the next run picks up from the same point
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await storage.upsertFbaInboundSyncState({
+      marketplaceId: marketplace.id,
+      lastUpdatedAfter,
+      lastSyncAt: new Date(),
+      status: "failed",
+      errorMessage,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Sync inbound shipments for every marketplace the seller participates in
+ */
+export async function syncAllInbound(): Promise<void> {
+  if (inboundSyncProgress.isRunning) {
+    log("Inbound sync already running, skipping", "inbound-sync");
+    return;
+  }
+
+  inboundSyncProgress = {
+    ...inboundSyncProgress,
+    isRunning: true,
+    currentMarketplaceId: null,
+    shipmentsSynced: 0,
+    itemsFetched: 0,
+    plansSynced: 0,
+    lastError: null,
+  };
+
+  try {
+    const accessToken = await getLWAAccessToken();
+    const marketplaces = (await getMarketplaceParticipations(accessToken)).filter((m) => m.isParticipating);
+    const errors: string[] = [];
+
+    for (const marketplace of marketplaces) {
+      try {
+        await syncMarketplaceInbound(marketplace);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Inbound sync for ${marketplace.countryCode} failed: ${errorMessage}`, "inbound-sync");
+        errors.push(`${marketplace.countryCode}: ${errorMessage}`);
+      }
+    }
+
+    inboundSyncProgress.lastError = errors.length > 0 ? errors.join("; ") : null;
+  } catch (error) {
+    inboundSyncProgress.lastError = error instanceof Error ? error.message : String(error);
+    log(`Inbound sync failed: ${inboundSyncProgress.lastError}`, "inbound-sync");
+  } finally {
+    inboundSyncProgress.isRunning = false;
+    inboundSyncProgress.currentMarketplaceId = null;
+    inboundSyncProgress.lastRunAt = new Date();
+  }
+}
+
+/**
+ * Start the background inbound shipment sync
+ */
+export function startInboundSyncScheduler(): void {
+  if (inboundSyncIntervalId) {
+    log("Inbound sync scheduler already running", "inbound-sync");
+    return;
+  }
+
+  log(`Starting inbound sync scheduler (interval: ${INBOUND_SYNC_INTERVAL_MS}ms)`, "inbound-sync");
+
+  // Initial sync after a short delay
+  setTimeout(() => {
+    syncAllInbound();
+  }, 40000);
+
+  inboundSyncIntervalId = setInterval(() => {
+    syncAllInbound();
+  }, INBOUND_SYNC_INTERVAL_MS);
+}
+
+/**
+ * Stop the background inbound shipment sync
+ */
+export function stopInboundSyncScheduler(): void {
+  if (inboundSyncIntervalId) {
+    clearInterval(inboundSyncIntervalId);
+    inboundSyncIntervalId = null;
+    log("Inbound sync scheduler stopped", "inbound-sync");
+  }
+}
@@ -4,6 +4,12 @@ import { serveStatic } from "./static";
 import { createServer } from "http";
 import { log } from "./log";
 import { startPollingScheduler } from "./emailSync";
+import { startSalesSnapshotScheduler } from "./salesSnapshots";
+import { startOrderSyncScheduler } from "./orderSync";
+import { startReturnsSyncScheduler } from "./returnsSync";
+import { startInventorySyncScheduler } from "./inventorySync";
+import { startInboundSyncScheduler } from "./inboundSync";
+import { startFeedPollScheduler } from "./feedPoller";
 
 const app = express();
 const httpServer = createServer(app);
@@ -90,6 +96,24 @@ app.use((req, res, next) => {
       // Start email sync scheduler for supplier tracking
       startPollingScheduler();
       log("Email sync scheduler started");
+
+      // Start daily sales snapshot job (backfills on first run)
+      startSalesSnapshotScheduler();
+
+      // Start Amazon order sync for the local order store
+      startOrderSyncScheduler();
+
+      // Start FBA returns and refunds sync
+      startReturnsSyncScheduler();
+
+      // Start FBA inventory refresh for the inventory cache
+      startInventorySyncScheduler();
+
+      // Start FBA inbound shipment sync
+      startInboundSyncScheduler();
+
+      // Start the background check of processing SKU upload feeds
+      startFeedPollScheduler();
     },
   );
 })();
@@ -0,0 +1,59 @@
+// FBA Inventory
+// Helpers for paging through FBA inventory summaries
+
+import { callSPAPI } from "./spApi";
+import type { Marketplace } from "./marketplaces";
+
+export interface InventorySummariesPage {
+  inventorySummaries: any[];
+  nextToken: string | null;
+}
+
+/**
+ * Fetch one page of FBA inventory summaries for a marketplace
+ */
+export async function getInventorySummaries(
+  accessToken: string,
+  marketplace: Marketplace,
+  nextToken?: string | null,
+  details = true
+): Promise<InventorySummariesPage> {
+  const params = new URLSearchParams({
+    granularityType: "Marketplace",
+    granularityId: marketplace.id,
+    marketplaceIds: marketplace.id,
+    details: String(details),
+  });
+
+  if (nextToken) {
+    params.set("nextToken", nextToken);
+  }
+
+  const endpoint = `/fba/inventory/v1/summaries?${params.toString()}`;
+  const result = await callSPAPI(accessToken, endpoint, marketplace.region);
+
+  return {
+    inventorySummaries: result.payload?.inventorySummaries || [],
+    nextToken: result.pagination?.nextToken || null,
+  };
+}
+
+/**
+ * Follow nextToken until every inventory summary for the marketplace is fetched
+ */
+export async function getAllInventorySummaries(
+  accessToken: string,
+  marketplace: Marketplace,
+  details = true
+): Promise<any[]> {
+  const summaries: any[] = [];
+  let nextToken: string | null = null;
+
+  do {
+    const page: InventorySummariesPage = await getInventorySummaries(accessToken, marketplace, nextToken, details);
+    summaries.push(...page.inventorySummaries);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return summaries;
+}
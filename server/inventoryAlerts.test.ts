@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InsertFbaInventoryItem, InsertInventoryAlertRule } from "@shared/schema";
+import { evaluateInventoryAlerts } from "./inventoryAlerts";
+import { getLocalDate, shiftDate } from "./dateRanges";
+import { getMarketplace } from "./marketplaces";
+import { storage } from "./storage";
+
+const US = getMarketplace("ATVPDKIKX0DER");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function setRules(rules: InsertInventoryAlertRule[]) {
+  // Listing the rules creates the defaults when there are none, so clear them too
+  for (const rule of await storage.getInventoryAlertRules()) {
+    await storage.deleteInventoryAlertRule(rule.id);
+  }
+  return Promise.all(rules.map((rule) => storage.createInventoryAlertRule(rule)));
+}
+
+async function setInventory(items: Array<Omit<InsertFbaInventoryItem, "marketplaceId">>) {
+  await storage.replaceFbaInventory(US.id, items.map((item) => ({ ...item, marketplaceId: US.id })));
+}
+
+async function recordSale(sellerSku: string, units: number, daysAgo: number) {
+  const amazonOrderId = `111-${sellerSku}-${daysAgo}`;
+  const purchaseDate = new Date(Date.now() - daysAgo * DAY_MS);
+  await storage.upsertAmazonOrders([
+    { amazonOrderId, marketplaceId: US.id, purchaseDate, lastUpdateDate: purchaseDate, orderStatus: "Shipped" },
+  ]);
+  await storage.replaceAmazonOrderItems(amazonOrderId, [
+    { amazonOrderId, orderItemId: `${amazonOrderId}-1`, sku: sellerSku, quantityOrdered: units },
+  ]);
+}
+
+async function openAlerts() {
+  const alerts = await storage.getOpenInventoryAlerts(US.id);
+  return Object.fromEntries(alerts.map((alert) => [alert.sellerSku, alert]));
+}
+
+beforeEach(async () => {
+  await storage.upsertAmazonOrderSyncState({ marketplaceId: US.id, lastUpdatedAfter: new Date(), lastSyncAt: new Date() });
+});
+
+describe("evaluateInventoryAlerts", () => {
+  it("flags unfulfillable units at or over the threshold for removal", async () => {
+    await setRules([{ type: "unfulfillable", threshold: 2 }]);
+    await setInventory([
+      { sellerSku: "DAMAGED-1", unfulfillableQuantity: 1 },
+      { sellerSku: "DAMAGED-2", unfulfillableQuantity: 2 },
+    ]);
+
+    expect(await evaluateInventoryAlerts(US)).toBe(1);
+    const alerts = await openAlerts();
+    expect(alerts["DAMAGED-2"]).toMatchObject({ type: "unfulfillable", affectedUnits: 2, suggestedAction: "removal" });
+    expect(alerts["DAMAGED-1"]).toBeUndefined();
+  });
+
+  it("flags units under research for investigation", async () => {
+    await setRules([{ type: "researching", threshold: 1 }]);
+    await setInventory([{ sellerSku: "LOST-1", researchingQuantity: 3 }]);
+
+    await evaluateInventoryAlerts(US);
+    expect((await openAlerts())["LOST-1"]).toMatchObject({ affectedUnits: 3, suggestedAction: "investigate" });
+  });
+
+  it("flags in-stock SKUs without a sale since the cutoff", async () => {
+    await setRules([{ type: "no_sales", threshold: 30 }]);
+    await setInventory([
+      { sellerSku: "IDLE-1", fulfillableQuantity: 5 },
+      { sellerSku: "SELLING-1", fulfillableQuantity: 5 },
+      { sellerSku: "EMPTY-1", fulfillableQuantity: 0 },
+    ]);
+    await recordSale("SELLING-1", 1, 10);
+    await recordSale("IDLE-1", 1, 45);
+
+    await evaluateInventoryAlerts(US);
+    const alerts = await openAlerts();
+    expect(Object.keys(alerts)).toEqual(["IDLE-1"]);
+    expect(alerts["IDLE-1"]).toMatchObject({ affectedUnits: 5, suggestedAction: "relist" });
+  });
+
+  it("counts units on hand at the cutoff that haven't sold since as aged", async () => {
+    await setRules([{ type: "aged", threshold: 90 }]);
+    const beforeCutoff = shiftDate(getLocalDate(US.timezone), -95);
+    await storage.upsertFbaInventorySnapshots([
+      { marketplaceId: US.id, date: beforeCutoff, sellerSku: "OLD-1", fulfillableQuantity: 20 },
+      { marketplaceId: US.id, date: beforeCutoff, sellerSku: "SOLD-THROUGH-1", fulfillableQuantity: 4 },
+    ]);
+    await setInventory([
+      { sellerSku: "OLD-1", fulfillableQuantity: 30 },
+      { sellerSku: "SOLD-THROUGH-1", fulfillableQuantity: 10 },
+      { sellerSku: "NO-SNAPSHOT-1", fulfillableQuantity: 10 },
+    ]);
+    await recordSale("OLD-1", 6, 20);
+    await recordSale("SOLD-THROUGH-1", 4, 20);
+
+    await evaluateInventoryAlerts(US);
+    const alerts = await openAlerts();
+    expect(Object.keys(alerts)).toEqual(["OLD-1"]);
+    expect(alerts["OLD-1"]).toMatchObject({ affectedUnits: 14, suggestedAction: "price_drop" });
+  });
+
+  it("resolves an alert once its SKU stops matching", async () => {
+    await setRules([{ type: "unfulfillable", threshold: 1 }]);
+    await setInventory([{ sellerSku: "DAMAGED-3", unfulfillableQuantity: 2 }]);
+    await evaluateInventoryAlerts(US);
+
+    await setInventory([{ sellerSku: "DAMAGED-3", unfulfillableQuantity: 0 }]);
+    expect(await evaluateInventoryAlerts(US)).toBe(0);
+    expect(await openAlerts()).toEqual({});
+  });
+
+  it("resolves the alerts of a rule that's been turned off", async () => {
+    const [rule] = await setRules([{ type: "researching", threshold: 1 }]);
+    await setInventory([{ sellerSku: "LOST-2", researchingQuantity: 1 }]);
+    await evaluateInventoryAlerts(US);
+
+    await storage.updateInventoryAlertRule(rule.id, { isActive: false });
+    await evaluateInventoryAlerts(US);
+    expect(await openAlerts()).toEqual({});
+  });
+
+  it("skips sales-based rules until orders have synced, keeping their alerts", async () => {
+    await setRules([
+      { type: "no_sales", threshold: 30 },
+      { type: "unfulfillable", threshold: 1 },
+    ]);
+    await setInventory([{ sellerSku: "IDLE-2", fulfillableQuantity: 5, unfulfillableQuantity: 1 }]);
+    await evaluateInventoryAlerts(US);
+
+    await storage.upsertAmazonOrderSyncState({ marketplaceId: US.id, lastUpdatedAfter: new Date(), lastSyncAt: null });
+    await evaluateInventoryAlerts(US);
+    const alerts = await storage.getOpenInventoryAlerts(US.id);
+    expect(alerts.map((alert) => alert.type).sort()).toEqual(["no_sales", "unfulfillable"]);
+  });
+});
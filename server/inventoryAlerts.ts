@@ -0,0 +1,145 @@
+// Inventory Alerts
+// Checks the alert rules against a marketplace's cached inventory after each
+// refresh: unfulfillable or researching units, aged stock and SKUs holding
+// stock without selling. Each match is stored with a suggested action.
+
+import { storage } from "./storage";
+import { log } from "./log";
+import { getLocalDate, shiftDate, zonedTimeToUtc } from "./dateRanges";
+import type { Marketplace } from "./marketplaces";
+import type {
+  FbaInventoryItem,
+  InsertInventoryAlert,
+  InventoryAlertAction,
+  InventoryAlertRule,
+  InventoryAlertType,
+} from "@shared/schema";
+
+interface AlertMatch {
+  affectedUnits: number;
+  suggestedAction: InventoryAlertAction;
+  message: string;
+}
+
+// Per-rule inputs that need more than the inventory row
+interface RuleContext {
+  unitsSoldSince: Map<string, number>; // units sold since the rule's cutoff
+  fulfillableAtCutoff: Map<string, number>; // latest snapshot on or before the cutoff
+}
+
+function plural(count: number, word: string): string {
+  return `${count.toLocaleString()} ${word}${count === 1 ? "" : "s"}`;
+}
+
+function matchRule(
+  type: InventoryAlertType,
+  threshold: number,
+  item: FbaInventoryItem,
+  context: RuleContext | null
+): AlertMatch | null {
+  switch (type) {
+    case "unfulfillable":
+      if (item.unfulfillableQuantity < threshold) return null;
+      return {
+        affectedUnits: item.unfulfillableQuantity,
+        suggestedAction: "removal",
+        message: `${plural(item.unfulfillableQuantity, "unit")} unfulfillable. Create a removal order to have them returned or disposed of.`,
+      };
+
+    case "researching":
+      if (item.researchingQuantity < threshold) return null;
+      return {
+        affectedUnits: item.researchingQuantity,
+        suggestedAction: "investigate",
+        message: `${plural(item.researchingQuantity, "unit")} under research by Amazon. Open a case if they aren't found or reimbursed.`,
+      };
+
+    case "aged": {
+      // First in, first out: units on hand at the cutoff that haven't sold
+      // since are at least that old. Needs a snapshot from before the cutoff.
+      const atCutoff = context?.fulfillableAtCutoff.get(item.sellerSku);
+      if (atCutoff === undefined) return null;
+      const sold = context?.unitsSoldSince.get(item.sellerSku) ?? 0;
+      const agedUnits = Math.min(item.fulfillableQuantity, atCutoff - sold);
+      if (agedUnits <= 0) return null;
+      return {
+        affectedUnits: agedUnits,
+        suggestedAction: "price_drop",
+        message: `About ${plural(agedUnits, "unit")} in stock for over ${threshold} days. Lower the price to sell through, or remove them before long-term storage fees.`,
+      };
+    }
+
+    case "no_sales": {
+      if (item.fulfillableQuantity === 0 || (context?.unitsSoldSince.get(item.sellerSku) ?? 0) > 0) return null;
+      return {
+        affectedUnits: item.fulfillableQuantity,
+        suggestedAction: "relist",
+        message: `No sales in ${threshold} days with ${plural(item.fulfillableQuantity, "unit")} available. Check the listing is active and relist if it's stranded, or lower the price.`,
+      };
+    }
+  }
+}
+
+async function getRuleContext(rule: InventoryAlertRule, marketplace: Marketplace): Promise<RuleContext> {
+  const cutoffDate = shiftDate(getLocalDate(marketplace.timezone), -rule.threshold);
+  const sales = await storage.getAmazonSkuUnitsSold({
+    marketplaceId: marketplace.id,
+    startDate: zonedTimeToUtc(cutoffDate, "00:00:00", marketplace.timezone),
+  });
+
+  const fulfillableAtCutoff = new Map<string, number>();
+  if (rule.type === "aged") {
+    const snapshots = await storage.getLatestFbaInventorySnapshots(marketplace.id, cutoffDate);
+    snapshots.forEach((snapshot) => fulfillableAtCutoff.set(snapshot.sellerSku, snapshot.fulfillableQuantity));
+  }
+
+  return {
+    unitsSoldSince: new Map(sales.map((sale) => [sale.sku, sale.unitsSold])),
+    fulfillableAtCutoff,
+  };
+}
+
+/**
+ * Evaluate every rule against a marketplace's cached inventory and record the
+ * results. Inactive rules count as evaluated with no matches, so their alerts
+ * resolve. Sales-based rules are skipped until orders have synced once.
+ */
+export async function evaluateInventoryAlerts(marketplace: Marketplace): Promise<number> {
+  const [rules, inventory, orderSyncState] = await Promise.all([
+    storage.getInventoryAlertRules(),
+    storage.getFbaInventory(marketplace.id),
+    storage.getAmazonOrderSyncState(marketplace.id),
+  ]);
+
+  const evaluatedRuleIds: string[] = [];
+  const alerts: InsertInventoryAlert[] = [];
+
+  for (const rule of rules) {
+    const type = rule.type as InventoryAlertType;
+    const needsSales = type === "aged" || type === "no_sales";
+    if (rule.isActive && needsSales && !orderSyncState?.lastSyncAt) continue;
+
+    evaluatedRuleIds.push(rule.id);
+    if (!rule.isActive) continue;
+
+    const context = needsSales ? await getRuleContext(rule, marketplace) : null;
+    for (const item of inventory) {
+      const match = matchRule(type, rule.threshold, item, context);
+      if (!match) continue;
+
+      alerts.push({
+        ruleId: rule.id,
+        marketplaceId: marketplace.id,
+        sellerSku: item.sellerSku,
+        asin: item.asin,
+        productName: item.productName,
+        type,
+        ...match,
+      });
+    }
+  }
+
+  const alertCount = await storage.recordInventoryAlerts(marketplace.id, evaluatedRuleIds, alerts);
+  log(`${plural(alertCount, "inventory alert")} active for ${marketplace.countryCode}`, "inventory");
+  return alertCount;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { analyzeInventoryHistory, type InventoryHistoryPoint } from "./inventoryHistory";
+
+function point(date: string, fulfillable: number, inbound: Partial<InventoryHistoryPoint> = {}): InventoryHistoryPoint {
+  return {
+    date,
+    fulfillable,
+    inboundWorking: 0,
+    inboundShipped: 0,
+    inboundReceiving: 0,
+    reserved: 0,
+    unfulfillable: 0,
+    researching: 0,
+    ...inbound,
+  };
+}
+
+describe("analyzeInventoryHistory", () => {
+  it("finds nothing for a SKU that stayed in stock", () => {
+    expect(analyzeInventoryHistory([point("2024-05-01", 10), point("2024-05-02", 8)])).toEqual({
+      stockouts: [],
+      inboundPeriods: [],
+    });
+  });
+
+  it("finds nothing without snapshots", () => {
+    expect(analyzeInventoryHistory([])).toEqual({ stockouts: [], inboundPeriods: [] });
+  });
+
+  it("ends a stockout on its last empty day and counts up to the restock", () => {
+    const { stockouts } = analyzeInventoryHistory([
+      point("2024-05-01", 5),
+      point("2024-05-02", 0),
+      point("2024-05-03", 0),
+      point("2024-05-04", 12),
+    ]);
+    expect(stockouts).toEqual([{ startDate: "2024-05-02", endDate: "2024-05-03", days: 2 }]);
+  });
+
+  it("counts missing days inside a stockout as out of stock", () => {
+    const { stockouts } = analyzeInventoryHistory([
+      point("2024-05-01", 0),
+      point("2024-05-05", 0),
+      point("2024-05-08", 3),
+    ]);
+    expect(stockouts).toEqual([{ startDate: "2024-05-01", endDate: "2024-05-05", days: 7 }]);
+  });
+
+  it("leaves a stockout open when the latest snapshot is still empty", () => {
+    const { stockouts } = analyzeInventoryHistory([
+      point("2024-05-01", 0),
+      point("2024-05-02", 4),
+      point("2024-05-03", 0),
+      point("2024-05-04", 0),
+    ]);
+    expect(stockouts).toEqual([
+      { startDate: "2024-05-01", endDate: "2024-05-01", days: 1 },
+      { startDate: "2024-05-03", endDate: null, days: 2 },
+    ]);
+  });
+
+  it("tracks inbound stock from the first inbound day until it's all available", () => {
+    const { inboundPeriods } = analyzeInventoryHistory([
+      point("2024-05-01", 5, { inboundWorking: 20 }),
+      point("2024-05-03", 5, { inboundShipped: 20 }),
+      point("2024-05-06", 5, { inboundShipped: 8, inboundReceiving: 24 }),
+      point("2024-05-09", 37),
+    ]);
+    expect(inboundPeriods).toEqual([{ startDate: "2024-05-01", availableDate: "2024-05-09", days: 8, peakUnits: 32 }]);
+  });
+
+  it("leaves an inbound period open while stock is still inbound", () => {
+    const { inboundPeriods } = analyzeInventoryHistory([
+      point("2024-05-01", 5),
+      point("2024-05-02", 5, { inboundShipped: 10 }),
+      point("2024-05-04", 5, { inboundReceiving: 10 }),
+    ]);
+    expect(inboundPeriods).toEqual([{ startDate: "2024-05-02", availableDate: null, days: 3, peakUnits: 10 }]);
+  });
+
+  it("tracks a stockout and the shipment that ends it independently", () => {
+    const { stockouts, inboundPeriods } = analyzeInventoryHistory([
+      point("2024-05-01", 0, { inboundShipped: 30 }),
+      point("2024-05-02", 0, { inboundReceiving: 30 }),
+      point("2024-05-03", 30),
+    ]);
+    expect(stockouts).toEqual([{ startDate: "2024-05-01", endDate: "2024-05-02", days: 2 }]);
+    expect(inboundPeriods).toEqual([{ startDate: "2024-05-01", availableDate: "2024-05-03", days: 2, peakUnits: 30 }]);
+  });
+});
@@ -0,0 +1,121 @@
+// Inventory History
+// Per-SKU stock over time from the daily inventory snapshots, with the
+// out-of-stock stretches and inbound lead times found in it
+
+import { storage } from "./storage";
+import type { FbaInventorySnapshot } from "@shared/schema";
+
+export interface InventoryHistoryPoint {
+  date: string;
+  fulfillable: number;
+  inboundWorking: number;
+  inboundShipped: number;
+  inboundReceiving: number;
+  reserved: number;
+  unfulfillable: number;
+  researching: number;
+}
+
+// A stretch of snapshots with nothing fulfillable
+export interface StockoutPeriod {
+  startDate: string;
+  endDate: string | null; // last out-of-stock day; null while still out of stock
+  days: number;
+}
+
+// A stretch of snapshots with stock inbound, ending once it's all available
+export interface InboundPeriod {
+  startDate: string;
+  availableDate: string | null; // first day with nothing inbound; null while still inbound
+  days: number;
+  peakUnits: number;
+}
+
+export interface InventoryHistory {
+  points: InventoryHistoryPoint[];
+  stockouts: StockoutPeriod[];
+  inboundPeriods: InboundPeriod[];
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+function toPoint(snapshot: FbaInventorySnapshot): InventoryHistoryPoint {
+  return {
+    date: snapshot.date,
+    fulfillable: snapshot.fulfillableQuantity,
+    inboundWorking: snapshot.inboundWorking,
+    inboundShipped: snapshot.inboundShipped,
+    inboundReceiving: snapshot.inboundReceiving,
+    reserved: snapshot.reservedQuantity,
+    unfulfillable: snapshot.unfulfillableQuantity,
+    researching: snapshot.researchingQuantity,
+  };
+}
+
+/**
+ * Find stockouts and inbound periods. Days without a snapshot are assumed to
+ * match the snapshot before them, so a gap doesn't split a period in two.
+ */
+export function analyzeInventoryHistory(points: InventoryHistoryPoint[]): Omit<InventoryHistory, "points"> {
+  const stockouts: StockoutPeriod[] = [];
+  const inboundPeriods: InboundPeriod[] = [];
+  const lastDate = points.length > 0 ? points[points.length - 1].date : null;
+
+  let stockout: { startDate: string; endDate: string } | null = null;
+  let inbound: { startDate: string; peakUnits: number } | null = null;
+
+  for (const point of points) {
+    if (point.fulfillable === 0) {
+      if (stockout) {
+        stockout.endDate = point.date;
+      } else {
+        stockout = { startDate: point.date, endDate: point.date };
+      }
+    } else if (stockout) {
+      stockouts.push({ ...stockout, days: daysBetween(stockout.startDate, point.date) });
+      stockout = null;
+    }
+
+    const inboundUnits = point.inboundWorking + point.inboundShipped + point.inboundReceiving;
+    if (inboundUnits > 0) {
+      if (inbound) {
+        inbound.peakUnits = Math.max(inbound.peakUnits, inboundUnits);
+      } else {
+        inbound = { startDate: point.date, peakUnits: inboundUnits };
+      }
+    } else if (inbound) {
+      inboundPeriods.push({
+        ...inbound,
+        availableDate: point.date,
+        days: daysBetween(inbound.startDate, point.date),
+      });
+      inbound = null;
+    }
+  }
+
+  // Periods still open at the latest snapshot
+  if (stockout && lastDate) {
+    stockouts.push({ startDate: stockout.startDate, endDate: null, days: daysBetween(stockout.startDate, lastDate) + 1 });
+  }
+  if (inbound && lastDate) {
+    inboundPeriods.push({ ...inbound, availableDate: null, days: daysBetween(inbound.startDate, lastDate) + 1 });
+  }
+
+  return { stockouts, inboundPeriods };
+}
+
+/**
+ * Daily quantities for one SKU between two local dates, oldest first
+ */
+export async function getInventoryHistory(
+  marketplaceId: string,
+  sellerSku: string,
+  startDate: string,
+  endDate: string
+): Promise<InventoryHistory> {
+  const snapshots = await storage.getFbaInventorySnapshots(marketplaceId, sellerSku, startDate, endDate);
+  const points = snapshots.map(toPoint);
+  return { points, ...analyzeInventoryHistory(points) };
+}
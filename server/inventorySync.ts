@@ -0,0 +1,231 @@
+// FBA Inventory Sync
+// Pulls every getInventorySummaries page (following nextToken) into the local
+// fba_inventory_items cache, replacing the marketplace's previous snapshot, and
+// records the day's per-SKU quantities in fba_inventory_snapshots, then checks
+// the inventory alert rules against the new snapshot
+
+import { storage } from "./storage";
+import { log } from "./log";
+import { getLWAAccessToken } from "./lwaToken";
+import { getMarketplaceParticipations, type Marketplace } from "./marketplaces";
+import { getInventorySummaries, type InventorySummariesPage } from "./inventory";
+import { getLocalDate } from "./dateRanges";
+import { evaluateInventoryAlerts } from "./inventoryAlerts";
+import type { InsertFbaInventoryItem, InsertFbaInventorySnapshot } from "@shared/schema";
+
+// Refresh interval (default: 1 hour)
+const INVENTORY_SYNC_INTERVAL_MS = parseInt(process.env.INVENTORY_SYNC_INTERVAL_MS || "3600000");
+
+let inventorySyncIntervalId: NodeJS.Timeout | null = null;
+
+export interface InventorySyncProgress {
+  isRunning: boolean;
+  currentMarketplaceId: string | null;
+  pagesFetched: number;
+  itemsFetched: number;
+  lastRunAt: Date | null;
+  lastError: string | null;
+}
+
+let inventorySyncProgress: InventorySyncProgress = {
+  isRunning: false,
+  currentMarketplaceId: null,
+  pagesFetched: 0,
+  itemsFetched: 0,
+  lastRunAt: null,
+  lastError: null,
+};
+
+export function getInventorySyncProgress(): InventorySyncProgress {
+  return { ...inventorySyncProgress };
+}
+
+function toInventoryItem(summary: any, marketplace: Marketplace): InsertFbaInventoryItem {
+  const details = summary.inventoryDetails || {};
+  return {
+    marketplaceId: marketplace.id,
+    sellerSku: summary.sellerSku,
+    asin: summary.asin ?? null,
+    fnSku: summary.fnSku ?? null,
+    productName: summary.productName ?? null,
+    condition: summary.condition ?? null,
+    totalQuantity: Number(summary.totalQuantity) || 0,
+    fulfillableQuantity: Number(details.fulfillableQuantity) || 0,
+    inboundWorking: Number(details.inboundWorkingQuantity) || 0,
+    inboundShipped: Number(details.inboundShippedQuantity) || 0,
+    inboundReceiving: Number(details.inboundReceivingQuantity) || 0,
+    reservedQuantity: Number(details.reservedQuantity?.totalReservedQuantity) || 0,
+    unfulfillableQuantity: Number(details.unfulfillableQuantity) || 0,
+    researchingQuantity: Number(details.researchingQuantity?.totalResearchingQuantity ?? details.researchingQuantity) || 0,
+    lastUpdatedTime: summary.lastUpdatedTime ? new Date(summary.lastUpdatedTime) : null,
+    rawData: JSON.stringify(summary),
+  };
+}
+
+function toInventorySnapshot(item: InsertFbaInventoryItem, date: string): InsertFbaInventorySnapshot {
+  return {
+    marketplaceId: item.marketplaceId,
+    date,
+    sellerSku: item.sellerSku,
+    asin: item.asin,
+    fulfillableQuantity: item.fulfillableQuantity,
+    inboundWorking: item.inboundWorking,
+    inboundShipped: item.inboundShipped,
+    inboundReceiving: item.inboundReceiving,
+    reservedQuantity: item.reservedQuantity,
+    unfulfillableQuantity: item.unfulfillableQuantity,
+    researchingQuantity: item.researchingQuantity,
+  };
+}
+
+// Follow nextToken through every page, taking a fresh token per page since a
+// large catalog can outlast one. callSPAPI's limiter spaces out the requests.
+async function fetchAllPages(marketplace: Marketplace): Promise<any[]> {
+  const summaries: any[] = [];
+  let nextToken: string | null = null;
+
+  do {
+    const accessToken = await getLWAAccessToken();
+    const page: InventorySummariesPage = await getInventorySummaries(accessToken, marketplace, nextToken);
+    summaries.push(...page.inventorySummaries);
+    inventorySyncProgress.pagesFetched++;
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return summaries;
+}
+
+/**
+ * Replace a marketplace's cached inventory with a fresh full pull. A failed
+ * pull leaves the previous snapshot in place.
+ */
+export async function refreshMarketplaceInventory(marketplace: Marketplace): Promise<number> {
+  inventorySyncProgress.currentMarketplaceId = marketplace.id;
+  await storage.upsertFbaInventorySyncState({
+    marketplaceId: marketplace.id,
+    status: "running",
+    errorMessage: null,
+  });
+
+  try {
+    const summaries = await fetchAllPages(marketplace);
+    // Amazon can list the same SKU on more than one page while quantities move
+    const bySku = new Map<string, InsertFbaInventoryItem>();
+    summaries
+      .filter((summary) => summary.sellerSku)
+      .forEach((summary) => bySku.set(summary.sellerSku, toInventoryItem(summary, marketplace)));
+
+    const items = Array.from(bySku.values());
+    const itemCount = await storage.replaceFbaInventory(marketplace.id, items);
+    inventorySyncProgress.itemsFetched += itemCount;
+
+    // Amazon has no inventory history, so days the server didn't refresh are gaps
+    const date = getLocalDate(marketplace.timezone);
+    await storage.upsertFbaInventorySnapshots(items.map((item) => toInventorySnapshot(item, date)));
+
+    await storage.upsertFbaInventorySyncState({
+      marketplaceId: marketplace.id,
+      lastSyncAt: new Date(),
+      status: "idle",
+      itemCount,
+      errorMessage: null,
+    });
+
+    log(`Refreshed ${itemCount} ${marketplace.countryCode} inventory items`, "inventory");
+
+    // The refresh itself succeeded, so an alert failure is only logged
+    try {
+      await evaluateInventoryAlerts(marketplace);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Inventory alert check for ${marketplace.countryCode} failed: ${errorMessage}`, "inventory");
+    }
+
+    return itemCount;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await storage.upsertFbaInventorySyncState({
+      marketplaceId: marketplace.id,
+      status: "failed",
+      errorMessage,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Refresh the given marketplaces, or every marketplace the seller
+ * participates in when none are given
+ */
+export async function refreshInventory(marketplaces?: Marketplace[]): Promise<void> {
+  if (inventorySyncProgress.isRunning) {
+    log("Inventory refresh already running, skipping", "inventory");
+    return;
+  }
+
+  inventorySyncProgress = {
+    ...inventorySyncProgress,
+    isRunning: true,
+    currentMarketplaceId: null,
+    pagesFetched: 0,
+    itemsFetched: 0,
+    lastError: null,
+  };
+
+  try {
+    const targets = marketplaces
+      ?? (await getMarketplaceParticipations(await getLWAAccessToken())).filter((m) => m.isParticipating);
+    const errors: string[] = [];
+
+    for (const marketplace of targets) {
+      try {
+        await refreshMarketplaceInventory(marketplace);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Inventory refresh for ${marketplace.countryCode} failed: ${errorMessage}`, "inventory");
+        errors.push(`${marketplace.countryCode}: ${errorMessage}`);
+      }
+    }
+
+    inventorySyncProgress.lastError = errors.length > 0 ? errors.join("; ") : null;
+  } catch (error) {
+    inventorySyncProgress.lastError = error instanceof Error ? error.message : String(error);
+    log(`Inventory refresh failed: ${inventorySyncProgress.lastError}`, "inventory");
+  } finally {
+    inventorySyncProgress.isRunning = false;
+    inventorySyncProgress.currentMarketplaceId = null;
+    inventorySyncProgress.lastRunAt = new Date();
+  }
+}
+
+/**
+ * Start the background inventory refresh
+ */
+export function startInventorySyncScheduler(): void {
+  if (inventorySyncIntervalId) {
+    log("Inventory sync scheduler already running", "inventory");
+    return;
+  }
+
+  log(`Starting inventory sync scheduler (interval: ${INVENTORY_SYNC_INTERVAL_MS}ms)`, "inventory");
+
+  // Initial refresh after a short delay
+  setTimeout(() => {
+    refreshInventory();
+  }, 30000);
+
+  inventorySyncIntervalId = setInterval(() => {
+    refreshInventory();
+  }, INVENTORY_SYNC_INTERVAL_MS);
+}
+
+/**
+ * Stop the background inventory refresh
+ */
+export function stopInventorySyncScheduler(): void {
+  if (inventorySyncIntervalId) {
+    clearInterval(inventorySyncIntervalId);
+    inventorySyncIntervalId = null;
+    log("Inventory sync scheduler stopped", "inventory");
+  }
+}
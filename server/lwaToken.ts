@@ -0,0 +1,180 @@
+// LWA (Login with Amazon) Access Token Manager
+// Caches the SP-API access token and shares it across all routes
+
+import { log } from "./log";
+
+// Override with LWA_TOKEN_ENDPOINT, e.g. to point at the local simulator
+export const LWA_TOKEN_ENDPOINT = process.env.LWA_TOKEN_ENDPOINT || "https://api.amazon.com/auth/o2/token";
+
+// Refresh this long before the token actually expires
+const EXPIRY_BUFFER_MS = 5 * 60 * 1000;
+
+interface LWATokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  refresh_token?: string;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: Date;
+}
+
+export interface TokenHealth {
+  hasToken: boolean;
+  isValid: boolean;
+  lastRefreshAt: Date | null;
+  expiresAt: Date | null;
+  refreshCount: number;
+  failureCount: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+}
+
+let cachedToken: CachedToken | null = null;
+let inFlightRefresh: Promise<CachedToken> | null = null;
+
+const health = {
+  lastRefreshAt: null as Date | null,
+  refreshCount: 0,
+  failureCount: 0,
+  consecutiveFailures: 0,
+  lastError: null as string | null,
+  lastErrorAt: null as Date | null,
+};
+
+function isTokenFresh(token: CachedToken | null): token is CachedToken {
+  return !!token && Date.now() < token.expiresAt.getTime() - EXPIRY_BUFFER_MS;
+}
+
+/**
+ * Request a new access token from the LWA token endpoint
+ */
+async function requestAccessToken(): Promise<CachedToken> {
+  const clientId = process.env.SP_API_CLIENT_ID;
+  const clientSecret = process.env.SP_API_CLIENT_SECRET;
+  const refreshToken = process.env.SP_API_REFRESH_TOKEN;
+
+  if (!clientId || !clientSecret || !refreshToken) {
+    throw new Error("Missing SP-API credentials. Please set SP_API_CLIENT_ID, SP_API_CLIENT_SECRET, and SP_API_REFRESH_TOKEN environment variables.");
+  }
+
+  log(`Requesting LWA token from: ${LWA_TOKEN_ENDPOINT}`, "sp-api");
+
+  const response = await fetch(LWA_TOKEN_ENDPOINT, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      grant_type: "refresh_token",
+      client_id: clientId,
+      client_secret: clientSecret,
+      refresh_token: refreshToken,
+    }),
+  });
+
+  const responseText = await response.text();
+  log(`LWA Response Status: ${response.status}`, "sp-api");
+
+  // Check if response is HTML (error page)
+  if (responseText.trim().startsWith("<!") || responseText.trim().startsWith("<html")) {
+    log(`LWA Error: Received HTML response instead of JSON`, "sp-api");
+    log(`LWA HTML Response (first 500 chars): ${responseText.substring(0, 500)}`, "sp-api");
+    throw new Error("LWA token endpoint returned HTML instead of JSON. This may indicate an incorrect endpoint URL or network issue.");
+  }
+
+  let data: LWATokenResponse;
+  try {
+    data = JSON.parse(responseText);
+  } catch (e) {
+    log(`LWA Error: Failed to parse JSON response: ${responseText.substring(0, 500)}`, "sp-api");
+    throw new Error(`Failed to parse LWA response as JSON: ${responseText.substring(0, 200)}`);
+  }
+
+  if (!response.ok) {
+    log(`LWA Error Response: ${JSON.stringify(data)}`, "sp-api");
+    throw new Error(`LWA token request failed: ${JSON.stringify(data)}`);
+  }
+
+  const expiresInSeconds = Number(data.expires_in) || 3600;
+  log(`LWA token obtained successfully (expires in ${expiresInSeconds}s)`, "sp-api");
+
+  return {
+    accessToken: data.access_token,
+    expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+  };
+}
+
+/**
+ * Refresh the cached token, sharing a single in-flight request between
+ * concurrent callers
+ */
+function refreshAccessToken(): Promise<CachedToken> {
+  if (inFlightRefresh) {
+    return inFlightRefresh;
+  }
+
+  inFlightRefresh = requestAccessToken()
+    .then((token) => {
+      cachedToken = token;
+      health.lastRefreshAt = new Date();
+      health.refreshCount++;
+      health.consecutiveFailures = 0;
+      return token;
+    })
+    .catch((error) => {
+      health.failureCount++;
+      health.consecutiveFailures++;
+      health.lastError = error instanceof Error ? error.message : String(error);
+      health.lastErrorAt = new Date();
+      throw error;
+    })
+    .finally(() => {
+      inFlightRefresh = null;
+    });
+
+  return inFlightRefresh;
+}
+
+/**
+ * Get a valid SP-API access token, refreshing only when the cached one is
+ * missing or about to expire
+ */
+export async function getLWAAccessToken(): Promise<string> {
+  if (isTokenFresh(cachedToken)) {
+    return cachedToken.accessToken;
+  }
+
+  const token = await refreshAccessToken();
+  return token.accessToken;
+}
+
+/**
+ * Drop the cached token so the next call fetches a new one (e.g. after SP-API
+ * rejects it as expired). Given the rejected token, a newer cached one is kept,
+ * so concurrent rejections don't each force another refresh.
+ */
+export function invalidateLWAAccessToken(rejectedToken?: string): void {
+  if (rejectedToken && cachedToken?.accessToken !== rejectedToken) return;
+  cachedToken = null;
+}
+
+/**
+ * Token health for diagnostics
+ */
+export function getTokenHealth(): TokenHealth {
+  return {
+    hasToken: cachedToken !== null,
+    isValid: isTokenFresh(cachedToken),
+    lastRefreshAt: health.lastRefreshAt,
+    expiresAt: cachedToken?.expiresAt ?? null,
+    refreshCount: health.refreshCount,
+    failureCount: health.failureCount,
+    consecutiveFailures: health.consecutiveFailures,
+    lastError: health.lastError,
+    lastErrorAt: health.lastErrorAt,
+  };
+}
@@ -0,0 +1,161 @@
+// Amazon Marketplace Registry
+// Static metadata for each marketplace plus the seller's live participations
+
+import { log } from "./log";
+import { callSPAPI, type SPAPIRegion } from "./spApi";
+
+export interface Marketplace {
+  id: string;
+  countryCode: string;
+  name: string;
+  region: SPAPIRegion;
+  currency: string;
+  timezone: string; // IANA timezone Seller Central reports in
+  locale: string;
+  domain: string;
+  fulfillmentChannelCode: string; // FBA channel code for listings feeds
+}
+
+export interface MarketplaceParticipation extends Marketplace {
+  isParticipating: boolean;
+  hasSuspendedListings: boolean;
+}
+
+// Default marketplace when a request doesn't specify one (US)
+export const DEFAULT_MARKETPLACE_ID = process.env.SP_API_MARKETPLACE_ID || "ATVPDKIKX0DER";
+
+// Re-fetch participations at most once an hour (the operation allows ~1 request/minute)
+const PARTICIPATIONS_CACHE_MS = 60 * 60 * 1000;
+
+export const MARKETPLACES: Marketplace[] = [
+  // North America
+  { id: "ATVPDKIKX0DER", countryCode: "US", name: "Amazon.com", region: "na", currency: "USD", timezone: "America/Los_Angeles", locale: "en_US", domain: "amazon.com", fulfillmentChannelCode: "AMAZON_NA" },
+  { id: "A2EUQ1WTGCTBG2", countryCode: "CA", name: "Amazon.ca", region: "na", currency: "CAD", timezone: "America/Los_Angeles", locale: "en_CA", domain: "amazon.ca", fulfillmentChannelCode: "AMAZON_NA" },
+  { id: "A1AM78C64UM0Y8", countryCode: "MX", name: "Amazon.com.mx", region: "na", currency: "MXN", timezone: "America/Mexico_City", locale: "es_MX", domain: "amazon.com.mx", fulfillmentChannelCode: "AMAZON_NA" },
+  { id: "A2Q3Y263D00KWC", countryCode: "BR", name: "Amazon.com.br", region: "na", currency: "BRL", timezone: "America/Sao_Paulo", locale: "pt_BR", domain: "amazon.com.br", fulfillmentChannelCode: "AMAZON_NA" },
+  // Europe
+  { id: "A1F83G8C2ARO7P", countryCode: "GB", name: "Amazon.co.uk", region: "eu", currency: "GBP", timezone: "Europe/London", locale: "en_GB", domain: "amazon.co.uk", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "A1PA6795UKMFR9", countryCode: "DE", name: "Amazon.de", region: "eu", currency: "EUR", timezone: "Europe/Berlin", locale: "de_DE", domain: "amazon.de", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "A13V1IB3VIYZZH", countryCode: "FR", name: "Amazon.fr", region: "eu", currency: "EUR", timezone: "Europe/Paris", locale: "fr_FR", domain: "amazon.fr", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "APJ6JRA9NG5V4", countryCode: "IT", name: "Amazon.it", region: "eu", currency: "EUR", timezone: "Europe/Rome", locale: "it_IT", domain: "amazon.it", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "A1RKKUPIHCS9HS", countryCode: "ES", name: "Amazon.es", region: "eu", currency: "EUR", timezone: "Europe/Madrid", locale: "es_ES", domain: "amazon.es", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "A1805IZSGTT6HS", countryCode: "NL", name: "Amazon.nl", region: "eu", currency: "EUR", timezone: "Europe/Amsterdam", locale: "nl_NL", domain: "amazon.nl", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "A2NODRKZP88ZB9", countryCode: "SE", name: "Amazon.se", region: "eu", currency: "SEK", timezone: "Europe/Stockholm", locale: "sv_SE", domain: "amazon.se", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "A1C3SOZRARQ6R3", countryCode: "PL", name: "Amazon.pl", region: "eu", currency: "PLN", timezone: "Europe/Warsaw", locale: "pl_PL", domain: "amazon.pl", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "AMEN7PMS3EDWL", countryCode: "BE", name: "Amazon.com.be", region: "eu", currency: "EUR", timezone: "Europe/Brussels", locale: "fr_BE", domain: "amazon.com.be", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "A28R8C7NBKEWEA", countryCode: "IE", name: "Amazon.ie", region: "eu", currency: "EUR", timezone: "Europe/Dublin", locale: "en_IE", domain: "amazon.ie", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "A33AVAJ2PDY3EV", countryCode: "TR", name: "Amazon.com.tr", region: "eu", currency: "TRY", timezone: "Europe/Istanbul", locale: "tr_TR", domain: "amazon.com.tr", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "A2VIGQ35RCS4UG", countryCode: "AE", name: "Amazon.ae", region: "eu", currency: "AED", timezone: "Asia/Dubai", locale: "en_AE", domain: "amazon.ae", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "A17E79C6D8DWNP", countryCode: "SA", name: "Amazon.sa", region: "eu", currency: "SAR", timezone: "Asia/Riyadh", locale: "en_AE", domain: "amazon.sa", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "ARBP9OOSHTCHU", countryCode: "EG", name: "Amazon.eg", region: "eu", currency: "EGP", timezone: "Africa/Cairo", locale: "en_AE", domain: "amazon.eg", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "AE08WJ6YKNBMC", countryCode: "ZA", name: "Amazon.co.za", region: "eu", currency: "ZAR", timezone: "Africa/Johannesburg", locale: "en_ZA", domain: "amazon.co.za", fulfillmentChannelCode: "AMAZON_EU" },
+  { id: "A21TJRUUN4KGV", countryCode: "IN", name: "Amazon.in", region: "eu", currency: "INR", timezone: "Asia/Kolkata", locale: "en_IN", domain: "amazon.in", fulfillmentChannelCode: "AMAZON_IN" },
+  // Far East
+  { id: "A1VC38T7YXB528", countryCode: "JP", name: "Amazon.co.jp", region: "fe", currency: "JPY", timezone: "Asia/Tokyo", locale: "ja_JP", domain: "amazon.co.jp", fulfillmentChannelCode: "AMAZON_JP" },
+  { id: "A39IBJ37TRP1C6", countryCode: "AU", name: "Amazon.com.au", region: "fe", currency: "AUD", timezone: "Australia/Sydney", locale: "en_AU", domain: "amazon.com.au", fulfillmentChannelCode: "AMAZON_FE" },
+  { id: "A19VAU5U5O7RUS", countryCode: "SG", name: "Amazon.sg", region: "fe", currency: "SGD", timezone: "Asia/Singapore", locale: "en_SG", domain: "amazon.sg", fulfillmentChannelCode: "AMAZON_FE" },
+];
+
+const marketplacesById = new Map(MARKETPLACES.map((m) => [m.id, m]));
+
+let participationsCache: { data: MarketplaceParticipation[]; fetchedAt: number } | null = null;
+
+/**
+ * Look up a marketplace by ID, falling back to the default marketplace when
+ * no ID is given. Marketplaces missing from the registry are resolved from
+ * the cached participations; anything else throws.
+ */
+export function getMarketplace(marketplaceId?: string | null): Marketplace {
+  const id = marketplaceId || DEFAULT_MARKETPLACE_ID;
+  const marketplace = marketplacesById.get(id) ?? participationsCache?.data.find((p) => p.id === id);
+  if (!marketplace) {
+    throw new Error(`Unknown marketplace ID: ${id}`);
+  }
+  return marketplace;
+}
+
+/**
+ * Whether getMarketplace can resolve an ID (an empty ID means the default)
+ */
+export function isSupportedMarketplace(marketplaceId?: string | null): boolean {
+  if (!marketplaceId) return true;
+  return marketplacesById.has(marketplaceId) || !!participationsCache?.data.some((p) => p.id === marketplaceId);
+}
+
+/**
+ * Regions to query for participations, from SP_API_REGIONS (e.g. "na,eu")
+ */
+export function getConfiguredRegions(): SPAPIRegion[] {
+  const configured = (process.env.SP_API_REGIONS || getMarketplace().region)
+    .split(",")
+    .map((r) => r.trim().toLowerCase())
+    .filter((r): r is SPAPIRegion => r === "na" || r === "eu" || r === "fe");
+  return configured.length > 0 ? Array.from(new Set(configured)) : ["na"];
+}
+
+export function getSellerCentralUrl(marketplace: Marketplace): string {
+  return `https://sellercentral.${marketplace.domain}`;
+}
+
+/**
+ * Fetch the marketplaces this seller participates in across all configured
+ * regions, merged with registry metadata
+ */
+export async function getMarketplaceParticipations(
+  accessToken: string,
+  forceRefresh = false
+): Promise<MarketplaceParticipation[]> {
+  if (
+    !forceRefresh &&
+    participationsCache &&
+    Date.now() - participationsCache.fetchedAt < PARTICIPATIONS_CACHE_MS
+  ) {
+    return participationsCache.data;
+  }
+
+  const participations: MarketplaceParticipation[] = [];
+  const errors: string[] = [];
+
+  for (const region of getConfiguredRegions()) {
+    try {
+      const result = await callSPAPI(accessToken, "/sellers/v1/marketplaceParticipations", region);
+      const entries: any[] = result.payload || [];
+
+      for (const entry of entries) {
+        const id = entry.marketplace?.id;
+        if (!id || participations.some((p) => p.id === id)) continue;
+
+        const known = marketplacesById.get(id);
+        const marketplace: Marketplace = known ?? {
+          id,
+          countryCode: entry.marketplace?.countryCode || "",
+          name: entry.marketplace?.name || id,
+          region,
+          currency: entry.marketplace?.defaultCurrencyCode || "USD",
+          timezone: "UTC",
+          locale: (entry.marketplace?.defaultLanguageCode || "en_US").replace("-", "_"),
+          domain: entry.marketplace?.domainName?.replace(/^www\./, "") || "amazon.com",
+          fulfillmentChannelCode: region === "na" ? "AMAZON_NA" : region === "eu" ? "AMAZON_EU" : "AMAZON_FE",
+        };
+
+        participations.push({
+          ...marketplace,
+          isParticipating: entry.participation?.isParticipating ?? true,
+          hasSuspendedListings: entry.participation?.hasSuspendedListings ?? false,
+        });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Failed to fetch marketplace participations for region ${region}: ${errorMessage}`, "sp-api");
+      errors.push(`${region.toUpperCase()}: ${errorMessage}`);
+    }
+  }
+
+  if (participations.length === 0 && errors.length > 0) {
+    throw new Error(`Failed to fetch marketplace participations (${errors.join("; ")})`);
+  }
+
+  participationsCache = { data: participations, fetchedAt: Date.now() };
+
+  return participations;
+}
@@ -0,0 +1,203 @@
+// Order Export
+// Streams orders from the local store as CSV or XLSX, with a caller-chosen set
+// of columns. Picking any item column flattens the export to one row per line item.
+
+import { once } from "events";
+import type { Writable } from "stream";
+import ExcelJS from "exceljs";
+import { storage, type AmazonOrderFilters, type AmazonOrderWithItems } from "./storage";
+import { calculateOrderProfit, getUnitCosts, type OrderProfit, type UnitCosts } from "./profitability";
+import type { AmazonOrderItem } from "@shared/schema";
+
+// Orders are read from the store in pages of this size while streaming
+const EXPORT_PAGE_SIZE = 500;
+
+export const ORDER_EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type OrderExportFormat = typeof ORDER_EXPORT_FORMATS[number];
+
+type CellValue = string | number | boolean | Date | null;
+
+interface ExportRowContext {
+  order: AmazonOrderWithItems;
+  item: AmazonOrderItem | null; // null for order-level rows and orders without items
+  profit: OrderProfit | null;
+  currency: string;
+}
+
+export interface OrderExportColumn {
+  key: string;
+  header: string;
+  item: boolean; // a line item field; selecting one exports a row per item
+  money?: boolean;
+  date?: boolean;
+  isDefault?: boolean;
+  value: (row: ExportRowContext) => CellValue;
+}
+
+function amount(value: string | null | undefined): number | null {
+  return value !== null && value !== undefined ? Number(value) : null;
+}
+
+const ORDER_EXPORT_COLUMNS: OrderExportColumn[] = [
+  { key: "orderId", header: "Order ID", item: false, isDefault: true, value: ({ order }) => order.amazonOrderId },
+  { key: "purchaseDate", header: "Purchase Date", item: false, date: true, isDefault: true, value: ({ order }) => order.purchaseDate },
+  { key: "lastUpdateDate", header: "Last Updated", item: false, date: true, value: ({ order }) => order.lastUpdateDate },
+  { key: "orderStatus", header: "Status", item: false, isDefault: true, value: ({ order }) => order.orderStatus },
+  { key: "fulfillmentChannel", header: "Fulfillment", item: false, value: ({ order }) => order.fulfillmentChannel },
+  { key: "salesChannel", header: "Sales Channel", item: false, value: ({ order }) => order.salesChannel },
+  {
+    key: "orderTotal",
+    header: "Order Total",
+    item: false,
+    money: true,
+    isDefault: true,
+    value: ({ order }) => amount(order.orderTotal ?? order.itemsTotal),
+  },
+  { key: "currency", header: "Currency", item: false, isDefault: true, value: ({ currency }) => currency },
+  {
+    key: "numberOfItems",
+    header: "Items",
+    item: false,
+    value: ({ order }) => order.numberOfItemsShipped + order.numberOfItemsUnshipped,
+  },
+  { key: "paymentMethod", header: "Payment Method", item: false, value: ({ order }) => order.paymentMethod },
+  { key: "isPrime", header: "Prime", item: false, value: ({ order }) => order.isPrime },
+  { key: "isBusinessOrder", header: "Business Order", item: false, value: ({ order }) => order.isBusinessOrder },
+  { key: "shipCity", header: "Ship City", item: false, value: ({ order }) => order.shipCity },
+  { key: "shipState", header: "Ship State", item: false, isDefault: true, value: ({ order }) => order.shipState },
+  { key: "shipPostalCode", header: "Ship Postal Code", item: false, value: ({ order }) => order.shipPostalCode },
+  { key: "orderFees", header: "Amazon Fees", item: false, money: true, value: ({ profit }) => profit?.totalFees ?? null },
+  { key: "orderCogs", header: "Cost of Goods", item: false, money: true, value: ({ profit }) => profit?.cogs ?? null },
+  { key: "netProfit", header: "Net Profit", item: false, money: true, value: ({ profit }) => profit?.netProfit ?? null },
+  { key: "items.sku", header: "SKU", item: true, isDefault: true, value: ({ item }) => item?.sku ?? null },
+  { key: "items.asin", header: "ASIN", item: true, value: ({ item }) => item?.asin ?? null },
+  { key: "items.title", header: "Product", item: true, value: ({ item }) => item?.title ?? null },
+  { key: "items.quantityOrdered", header: "Qty Ordered", item: true, isDefault: true, value: ({ item }) => item?.quantityOrdered ?? null },
+  { key: "items.quantityShipped", header: "Qty Shipped", item: true, value: ({ item }) => item?.quantityShipped ?? null },
+  { key: "items.itemPrice", header: "Item Price", item: true, money: true, isDefault: true, value: ({ item }) => amount(item?.itemPrice) },
+  { key: "items.referralFee", header: "Referral Fee", item: true, money: true, value: ({ item }) => amount(item?.referralFee) },
+  { key: "items.fbaFee", header: "FBA Fee", item: true, money: true, value: ({ item }) => amount(item?.fbaFee) },
+  { key: "items.otherFees", header: "Other Fees", item: true, money: true, value: ({ item }) => amount(item?.otherFees) },
+];
+
+/**
+ * The columns a caller can choose from, in export order
+ */
+export function getOrderExportColumns(): { key: string; header: string; item: boolean; isDefault: boolean }[] {
+  return ORDER_EXPORT_COLUMNS.map(({ key, header, item, isDefault }) => ({
+    key,
+    header,
+    item,
+    isDefault: isDefault ?? false,
+  }));
+}
+
+/**
+ * Resolve requested column keys, keeping the caller's order. Returns the
+ * unknown keys instead when any don't match a column.
+ */
+export function resolveOrderExportColumns(
+  keys: string[] | undefined
+): { columns: OrderExportColumn[] } | { unknown: string[] } {
+  if (!keys || keys.length === 0) {
+    return { columns: ORDER_EXPORT_COLUMNS.filter((column) => column.isDefault) };
+  }
+
+  const byKey = new Map(ORDER_EXPORT_COLUMNS.map((column) => [column.key, column]));
+  const unknown = keys.filter((key) => !byKey.has(key));
+  if (unknown.length > 0) {
+    return { unknown };
+  }
+  return { columns: Array.from(new Set(keys)).map((key) => byKey.get(key)!) };
+}
+
+// Page through every order matching the filters, yielding export rows
+async function* getExportRows(
+  filters: AmazonOrderFilters,
+  columns: OrderExportColumn[],
+  defaultCurrency: string
+): AsyncGenerator<CellValue[]> {
+  const perItem = columns.some((column) => column.item);
+  const needsProfit = columns.some((column) => ["orderFees", "orderCogs", "netProfit"].includes(column.key));
+  const unitCosts: UnitCosts = needsProfit ? await getUnitCosts() : new Map();
+
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const { orders } = await storage.getAmazonOrders({ ...filters, limit: EXPORT_PAGE_SIZE, offset });
+
+    for (const order of orders) {
+      const currency = order.currency || defaultCurrency;
+      const profit = needsProfit ? calculateOrderProfit(order, unitCosts, defaultCurrency) : null;
+      const items: (AmazonOrderItem | null)[] = perItem && order.items.length > 0 ? order.items : [null];
+
+      for (const item of items) {
+        yield columns.map((column) => column.value({ order, item, profit, currency }));
+      }
+    }
+
+    if (orders.length < EXPORT_PAGE_SIZE) break;
+  }
+}
+
+// RFC 4180: quote fields containing a delimiter, quote or line break
+function toCsvField(value: CellValue): string {
+  if (value === null) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Stream matching orders as CSV. Starts with a byte order mark so Excel
+ * opens non-ASCII product titles correctly.
+ */
+export async function writeOrdersCsv(
+  out: Writable,
+  filters: AmazonOrderFilters,
+  columns: OrderExportColumn[],
+  defaultCurrency: string
+): Promise<number> {
+  let rowCount = 0;
+  const write = async (line: string) => {
+    if (!out.write(line)) {
+      await once(out, "drain");
+    }
+  };
+
+  await write("\uFEFF" + columns.map((column) => toCsvField(column.header)).join(",") + "\r\n");
+  for await (const row of getExportRows(filters, columns, defaultCurrency)) {
+    await write(row.map(toCsvField).join(",") + "\r\n");
+    rowCount++;
+  }
+
+  out.end();
+  return rowCount;
+}
+
+/**
+ * Stream matching orders as an XLSX workbook with a single Orders sheet
+ */
+export async function writeOrdersXlsx(
+  out: Writable,
+  filters: AmazonOrderFilters,
+  columns: OrderExportColumn[],
+  defaultCurrency: string
+): Promise<number> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: true });
+  const sheet = workbook.addWorksheet("Orders", { views: [{ state: "frozen", ySplit: 1 }] });
+  sheet.columns = columns.map((column) => ({
+    header: column.header,
+    key: column.key,
+    width: Math.max(12, column.header.length + 2),
+    style: column.money ? { numFmt: "#,##0.00" } : column.date ? { numFmt: "yyyy-mm-dd hh:mm" } : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  let rowCount = 0;
+  for await (const row of getExportRows(filters, columns, defaultCurrency)) {
+    sheet.addRow(row).commit();
+    rowCount++;
+  }
+
+  sheet.commit();
+  await workbook.commit();
+  return rowCount;
+}
@@ -0,0 +1,341 @@
+// Amazon Order Sync
+// Keeps the local amazon_orders/amazon_order_items store current by pulling
+// orders changed since the last run (LastUpdatedAfter) and upserting them
+
+import { storage } from "./storage";
+import { log } from "./log";
+import { getLWAAccessToken } from "./lwaToken";
+import { getMarketplaceParticipations, type Marketplace } from "./marketplaces";
+import { getOrdersPage, getOrderItems, calculateItemsTotal } from "./orders";
+import { listFinancialEventsByOrderId, getItemFees } from "./finances";
+import type { AmazonOrder, InsertAmazonOrder } from "@shared/schema";
+
+// Sync interval (default: 15 minutes)
+const ORDER_SYNC_INTERVAL_MS = parseInt(process.env.ORDER_SYNC_INTERVAL_MS || "900000");
+
+// How far back the first sync for a marketplace reaches
+const ORDER_BACKFILL_DAYS = 90;
+
+// Orders whose items failed to fetch are retried, this many per run
+const ITEM_RETRY_LIMIT = 50;
+
+// Shipped orders whose fees haven't been fetched, this many per run
+const FEE_SYNC_LIMIT = 50;
+
+// Amazon can take a few days to post fee events after an order ships;
+// orders older than this with no events are marked synced without fees
+const FEE_POSTING_DAYS = 7;
+
+let orderSyncIntervalId: NodeJS.Timeout | null = null;
+
+export interface OrderSyncProgress {
+  isRunning: boolean;
+  currentMarketplaceId: string | null;
+  ordersSynced: number;
+  itemsFetched: number;
+  feesFetched: number;
+  lastRunAt: Date | null;
+  lastError: string | null;
+}
+
+let orderSyncProgress: OrderSyncProgress = {
+  isRunning: false,
+  currentMarketplaceId: null,
+  ordersSynced: 0,
+  itemsFetched: 0,
+  feesFetched: 0,
+  lastRunAt: null,
+  lastError: null,
+};
+
+export function getOrderSyncProgress(): OrderSyncProgress {
+  return { ...orderSyncProgress };
+}
+
+/**
+ * Map a getOrders order to a row. Item fields carry over from the stored row
+ * when the order hasn't changed, so its items aren't fetched again.
+ */
+function toAmazonOrder(order: any, marketplace: Marketplace, unchanged?: AmazonOrder): InsertAmazonOrder {
+  return {
+    amazonOrderId: order.AmazonOrderId,
+    marketplaceId: order.MarketplaceId || marketplace.id,
+    purchaseDate: new Date(order.PurchaseDate),
+    lastUpdateDate: new Date(order.LastUpdateDate),
+    orderStatus: order.OrderStatus,
+    fulfillmentChannel: order.FulfillmentChannel ?? null,
+    salesChannel: order.SalesChannel ?? null,
+    orderTotal: order.OrderTotal?.Amount !== undefined ? String(order.OrderTotal.Amount) : null,
+    itemsTotal: unchanged?.itemsTotal ?? null,
+    currency: order.OrderTotal?.CurrencyCode || marketplace.currency,
+    numberOfItemsShipped: order.NumberOfItemsShipped ?? 0,
+    numberOfItemsUnshipped: order.NumberOfItemsUnshipped ?? 0,
+    paymentMethod: order.PaymentMethod ?? null,
+    isPrime: order.IsPrime ?? false,
+    isBusinessOrder: order.IsBusinessOrder ?? false,
+    shipCity: order.ShippingAddress?.City ?? null,
+    shipState: order.ShippingAddress?.StateOrRegion ?? null,
+    shipPostalCode: order.ShippingAddress?.PostalCode ?? null,
+    itemsSyncedAt: unchanged?.itemsSyncedAt ?? null,
+    feesSyncedAt: unchanged?.feesSyncedAt ?? null,
+    rawData: JSON.stringify(order),
+  };
+}
+
+/**
+ * Fetch and store the line items of one order. Failures leave itemsSyncedAt
+ * empty so the next run retries.
+ */
+async function syncOrderItems(marketplace: Marketplace, amazonOrderId: string): Promise<boolean> {
+  try {
+    const accessToken = await getLWAAccessToken();
+    const items = await getOrderItems(accessToken, marketplace, amazonOrderId);
+
+    await storage.replaceAmazonOrderItems(
+      amazonOrderId,
+      items.map((item: any) => ({
+        amazonOrderId,
+        orderItemId: item.OrderItemId,
+        asin: item.ASIN ?? null,
+        sku: item.SellerSKU ?? null,
+        title: item.Title ?? null,
+        quantityOrdered: item.QuantityOrdered ?? 0,
+        quantityShipped: item.QuantityShipped ?? 0,
+        itemPrice: item.ItemPrice?.Amount !== undefined ? String(item.ItemPrice.Amount) : null,
+        currency: item.ItemPrice?.CurrencyCode ?? null,
+      }))
+    );
+    // Replacing the items drops their fees, so fetch those again too
+    await storage.updateAmazonOrder(amazonOrderId, {
+      itemsSyncedAt: new Date(),
+      itemsTotal: String(calculateItemsTotal(items)),
+      feesSyncedAt: null,
+    });
+
+    orderSyncProgress.itemsFetched++;
+    return true;
+  } catch (error) {
+    log(`Failed to sync items for order ${amazonOrderId}: ${error}`, "order-sync");
+    return false;
+  }
+}
+
+/**
+ * Fetch an order's fee events from the Finances API and store them on its
+ * items. Orders with no events yet stay unsynced so a later run retries.
+ */
+async function syncOrderFees(marketplace: Marketplace, order: AmazonOrder): Promise<boolean> {
+  try {
+    const accessToken = await getLWAAccessToken();
+    const events = await listFinancialEventsByOrderId(accessToken, marketplace, order.amazonOrderId);
+    const fees = getItemFees(events);
+
+    const ageDays = (Date.now() - order.lastUpdateDate.getTime()) / (24 * 60 * 60 * 1000);
+    if (fees.length === 0 && ageDays < FEE_POSTING_DAYS) {
+      return false;
+    }
+
+    await storage.updateAmazonOrderItemFees(order.amazonOrderId, fees);
+    await storage.updateAmazonOrder(order.amazonOrderId, { feesSyncedAt: new Date() });
+
+    orderSyncProgress.feesFetched++;
+    return true;
+  } catch (error) {
+    log(`Failed to sync fees for order ${order.amazonOrderId}: ${error}`, "order-sync");
+    return false;
+  }
+}
+
+/**
+ * Upsert one page of orders, fetching items only for new or changed orders
+ */
+async function saveOrdersPage(marketplace: Marketplace, orders: any[]): Promise<void> {
+  if (orders.length === 0) return;
+
+  const stored = await storage.getAmazonOrdersByIds(orders.map((o) => o.AmazonOrderId));
+  const storedById = new Map(stored.map((o) => [o.amazonOrderId, o]));
+  const changedIds: string[] = [];
+
+  const rows = orders.map((order) => {
+    const previous = storedById.get(order.AmazonOrderId);
+    const unchanged =
+      previous?.itemsSyncedAt &&
+      previous.lastUpdateDate.getTime() === new Date(order.LastUpdateDate).getTime();
+
+    if (!unchanged) {
+      changedIds.push(order.AmazonOrderId);
+    }
+    return toAmazonOrder(order, marketplace, unchanged ? previous : undefined);
+  });
+
+  await storage.upsertAmazonOrders(rows);
+  orderSyncProgress.ordersSynced += rows.length;
+
+  for (const amazonOrderId of changedIds) {
+    await syncOrderItems(marketplace, amazonOrderId);
+  }
+}
+
+/**
+ * Pull every order updated since the marketplace's cursor, then advance it
+ */
+export async function syncMarketplaceOrders(marketplace: Marketplace): Promise<number> {
+  const state = await storage.getAmazonOrderSyncState(marketplace.id);
+
+  // SP-API requires LastUpdatedBefore to be at least 2 minutes in the past
+  const lastUpdatedBefore = new Date(Date.now() - 3 * 60 * 1000);
+  const lastUpdatedAfter =
+    state?.lastUpdatedAfter ?? new Date(lastUpdatedBefore.getTime() - ORDER_BACKFILL_DAYS * 24 * 60 * 60 * 1000);
+
+  orderSyncProgress.currentMarketplaceId = marketplace.id;
+  await storage.upsertAmazonOrderSyncState({
+    marketplaceId: marketplace.id,
+    lastUpdatedAfter,
+    status: "running",
+    errorMessage: null,
+  });
+
+  const startCount = orderSyncProgress.ordersSynced;
+
+  try {
+    let nextToken: string | null = null;
+    do {
+      const accessToken = await getLWAAccessToken();
+      const page: { orders: any[]; nextToken: string | null } = await getOrdersPage(
+        accessToken,
+        marketplace,
+        {
+          lastUpdatedAfter: lastUpdatedAfter.toISOString(),
+          lastUpdatedBefore: lastUpdatedBefore.toISOString(),
+        },
+        nextToken
+      );
+      await saveOrdersPage(marketplace, page.orders);
+      nextToken = page.nextToken;
+    } while (nextToken);
+
+    // Retry orders whose items failed on an earlier run
+    const { orders: missingItems } = await storage.getAmazonOrders({
+      marketplaceId: marketplace.id,
+      missingItems: true,
+      limit: ITEM_RETRY_LIMIT,
+    });
+    for (const order of missingItems) {
+      await syncOrderItems(marketplace, order.amazonOrderId);
+    }
+
+    // Oldest first, so orders still waiting on Amazon to post fees don't
+    // hold back the rest
+    const { orders: missingFees } = await storage.getAmazonOrders({
+      marketplaceId: marketplace.id,
+      missingFees: true,
+      sortBy: "purchaseDate",
+      sortDirection: "asc",
+      limit: FEE_SYNC_LIMIT,
+    });
+    for (const order of missingFees) {
+      await syncOrderFees(marketplace, order);
+    }
+
+    const synced = orderSyncProgress.ordersSynced - startCount;
+    await storage.upsertAmazonOrderSyncState({
+      marketplaceId: marketplace.id,
+      lastUpdatedAfter: lastUpdatedBefore,
+      lastSyncAt: new Date(),
+      status: "idle",
+      ordersSynced: synced,
+      errorMessage: null,
+    });
+
+    log(`Synced ${synced} ${marketplace.countryCode} orders updated since ${lastUpdatedAfter.toISOString()}`, "order-sync");
+    return synced;
+  } catch (error) {
+    // The cursor stays put, so the next run picks up from the same point
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await storage.upsertAmazonOrderSyncState({
+      marketplaceId: marketplace.id,
+      lastUpdatedAfter,
+      lastSyncAt: new Date(),
+      status: "failed",
+      errorMessage,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Sync orders for every marketplace the seller participates in
+ */
+export async function syncAllOrders(): Promise<void> {
+  if (orderSyncProgress.isRunning) {
+    log("Order sync already running, skipping", "order-sync");
+    return;
+  }
+
+  orderSyncProgress = {
+    ...orderSyncProgress,
+    isRunning: true,
+    currentMarketplaceId: null,
+    ordersSynced: 0,
+    itemsFetched: 0,
+    feesFetched: 0,
+    lastError: null,
+  };
+
+  try {
+    const accessToken = await getLWAAccessToken();
+    const marketplaces = (await getMarketplaceParticipations(accessToken)).filter((m) => m.isParticipating);
+    const errors: string[] = [];
+
+    for (const marketplace of marketplaces) {
+      try {
+        await syncMarketplaceOrders(marketplace);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Order sync for ${marketplace.countryCode} failed: ${errorMessage}`, "order-sync");
+        errors.push(`${marketplace.countryCode}: ${errorMessage}`);
+      }
+    }
+
+    orderSyncProgress.lastError = errors.length > 0 ? errors.join("; ") : null;
+  } catch (error) {
+    orderSyncProgress.lastError = error instanceof Error ? error.message : String(error);
+    log(`Order sync failed: ${orderSyncProgress.lastError}`, "order-sync");
+  } finally {
+    orderSyncProgress.isRunning = false;
+    orderSyncProgress.currentMarketplaceId = null;
+    orderSyncProgress.lastRunAt = new Date();
+  }
+}
+
+/**
+ * Start the background order sync
+ */
+export function startOrderSyncScheduler(): void {
+  if (orderSyncIntervalId) {
+    log("Order sync scheduler already running", "order-sync");
+    return;
+  }
+
+  log(`Starting order sync scheduler (interval: ${ORDER_SYNC_INTERVAL_MS}ms)`, "order-sync");
+
+  // Initial sync after a short delay
+  setTimeout(() => {
+    syncAllOrders();
+  }, 20000);
+
+  orderSyncIntervalId = setInterval(() => {
+    syncAllOrders();
+  }, ORDER_SYNC_INTERVAL_MS);
+}
+
+/**
+ * Stop the background order sync
+ */
+export function stopOrderSyncScheduler(): void {
+  if (orderSyncIntervalId) {
+    clearInterval(orderSyncIntervalId);
+    orderSyncIntervalId = null;
+    log("Order sync scheduler stopped", "order-sync");
+  }
+}
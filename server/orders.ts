@@ -0,0 +1,231 @@
+// Amazon Orders
+// Paging through getOrders with NextToken, order item lookups and summary stats
+
+import { log } from "./log";
+import { callSPAPI } from "./spApi";
+import { getLWAAccessToken } from "./lwaToken";
+import type { Marketplace } from "./marketplaces";
+
+// Amazon's maximum for MaxResultsPerPage
+export const MAX_ORDERS_PAGE_SIZE = 100;
+
+// Reuse a finished summary for this long before walking the pages again
+const SUMMARY_CACHE_MS = 10 * 60 * 1000;
+
+// Either the created or the last-updated window is required by Amazon
+export interface OrdersQuery {
+  createdAfter?: string;
+  createdBefore?: string;
+  lastUpdatedAfter?: string;
+  lastUpdatedBefore?: string;
+  statuses?: string[];
+  pageSize?: number;
+}
+
+export interface OrdersPage {
+  orders: any[];
+  nextToken: string | null;
+}
+
+export interface OrdersSummary {
+  totalOrders: number;
+  pendingOrders: number;
+  unshippedOrders: number;
+  shippedOrders: number;
+  canceledOrders: number;
+  totalRevenue: number;
+  currency: string;
+}
+
+// A summary over every page of a query, computed in the background
+export interface OrdersSummaryJob {
+  status: "running" | "ready" | "failed";
+  progress: { pagesFetched: number; ordersCounted: number };
+  summary: OrdersSummary | null; // set once every page has been counted
+  error: string | null;
+  startedAt: Date;
+  completedAt: Date | null;
+}
+
+const summaryJobs = new Map<string, OrdersSummaryJob>();
+
+/**
+ * Fetch one page of orders. When a NextToken is given Amazon ignores every
+ * other filter, so only the marketplace is sent with it.
+ */
+export async function getOrdersPage(
+  accessToken: string,
+  marketplace: Marketplace,
+  query: OrdersQuery,
+  nextToken?: string | null
+): Promise<OrdersPage> {
+  const params = new URLSearchParams({ MarketplaceIds: marketplace.id });
+
+  if (nextToken) {
+    params.set("NextToken", nextToken);
+  } else {
+    if (query.createdAfter) params.set("CreatedAfter", query.createdAfter);
+    if (query.createdBefore) params.set("CreatedBefore", query.createdBefore);
+    if (query.lastUpdatedAfter) params.set("LastUpdatedAfter", query.lastUpdatedAfter);
+    if (query.lastUpdatedBefore) params.set("LastUpdatedBefore", query.lastUpdatedBefore);
+    params.set("MaxResultsPerPage", String(query.pageSize ?? MAX_ORDERS_PAGE_SIZE));
+    if (query.statuses && query.statuses.length > 0) {
+      params.set("OrderStatuses", query.statuses.join(","));
+    }
+  }
+
+  const result = await callSPAPI(accessToken, `/orders/v0/orders?${params.toString()}`, marketplace.region);
+
+  return {
+    orders: result.payload?.Orders || [],
+    nextToken: result.payload?.NextToken || null,
+  };
+}
+
+/**
+ * Fetch the line items of an order
+ */
+export async function getOrderItems(accessToken: string, marketplace: Marketplace, orderId: string): Promise<any[]> {
+  const result = await callSPAPI(accessToken, `/orders/v0/orders/${orderId}/orderItems`, marketplace.region);
+  return result.payload?.OrderItems || [];
+}
+
+// Sum of item prices, used when Amazon hasn't set OrderTotal yet (e.g. Pending orders)
+export function calculateItemsTotal(items: any[]): number {
+  return items.reduce((sum: number, item: any) => sum + (Number(item.ItemPrice?.Amount) || 0), 0);
+}
+
+/**
+ * Attach line items (and an item-based total) to each order, rate limited by the SP-API client
+ */
+export async function withOrderItems(accessToken: string, marketplace: Marketplace, orders: any[]): Promise<any[]> {
+  const ordersWithItems = [];
+
+  for (const order of orders) {
+    try {
+      const items = await getOrderItems(accessToken, marketplace, order.AmazonOrderId);
+
+      ordersWithItems.push({
+        ...order,
+        calculatedTotal: calculateItemsTotal(items),
+        items: items.map((item: any) => ({
+          asin: item.ASIN,
+          sku: item.SellerSKU,
+          title: item.Title,
+          quantity: item.QuantityOrdered,
+          itemPrice: item.ItemPrice?.Amount,
+        })),
+      });
+    } catch (itemError) {
+      // If we can't get items, still include the order without items
+      log(`Failed to fetch items for order ${order.AmazonOrderId}: ${itemError}`, "orders");
+      ordersWithItems.push({ ...order, items: [] });
+    }
+  }
+
+  return ordersWithItems;
+}
+
+/**
+ * Walk every NextToken page of the query and total it. Pages are counted as
+ * they arrive rather than held, and orders without an OrderTotal are priced
+ * from their items.
+ */
+async function runOrdersSummary(job: OrdersSummaryJob, marketplace: Marketplace, query: OrdersQuery): Promise<void> {
+  const statusCounts = new Map<string, number>();
+  let totalRevenue = 0;
+  let currency: string | null = null;
+  let nextToken: string | null = null;
+
+  do {
+    // A fresh token per page, since a long walk can outlive one
+    const accessToken = await getLWAAccessToken();
+    const page: OrdersPage = await getOrdersPage(accessToken, marketplace, query, nextToken);
+
+    for (const order of page.orders) {
+      statusCounts.set(order.OrderStatus, (statusCounts.get(order.OrderStatus) ?? 0) + 1);
+      currency = currency ?? order.OrderTotal?.CurrencyCode ?? null;
+
+      if (order.OrderTotal?.Amount !== undefined) {
+        totalRevenue += Number(order.OrderTotal.Amount) || 0;
+      } else if (order.OrderStatus !== "Canceled") {
+        // Canceled orders charged nothing; the rest aren't priced until Amazon sets a total
+        try {
+          const items = await getOrderItems(accessToken, marketplace, order.AmazonOrderId);
+          totalRevenue += calculateItemsTotal(items);
+        } catch (itemError) {
+          log(`Failed to price order ${order.AmazonOrderId} from items: ${itemError}`, "orders");
+        }
+      }
+    }
+
+    job.progress.pagesFetched++;
+    job.progress.ordersCounted += page.orders.length;
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  job.summary = {
+    totalOrders: job.progress.ordersCounted,
+    pendingOrders: statusCounts.get("Pending") ?? 0,
+    unshippedOrders: statusCounts.get("Unshipped") ?? 0,
+    shippedOrders: statusCounts.get("Shipped") ?? 0,
+    canceledOrders: statusCounts.get("Canceled") ?? 0,
+    totalRevenue: Math.round(totalRevenue * 100) / 100,
+    currency: currency || marketplace.currency,
+  };
+}
+
+/**
+ * Get the summary of every order matching a query, starting a background walk
+ * of its pages when there's no fresh result. Poll until status is "ready".
+ */
+export function getOrdersSummary(marketplace: Marketplace, query: OrdersQuery, forceRefresh = false): OrdersSummaryJob {
+  const statuses = [...(query.statuses ?? [])].sort().join(",");
+  const key = `${marketplace.id}:${query.createdAfter}:${query.createdBefore}:${statuses}`;
+  const existing = summaryJobs.get(key);
+
+  const isFresh =
+    existing &&
+    (existing.status === "running" ||
+      (existing.status === "ready" &&
+        !forceRefresh &&
+        Date.now() - (existing.completedAt?.getTime() ?? 0) < SUMMARY_CACHE_MS));
+
+  if (existing && isFresh) {
+    return { ...existing, progress: { ...existing.progress } };
+  }
+
+  // Drop stale results so the map doesn't grow without bound
+  summaryJobs.forEach((job, cachedKey) => {
+    if (job.completedAt && Date.now() - job.completedAt.getTime() > SUMMARY_CACHE_MS) {
+      summaryJobs.delete(cachedKey);
+    }
+  });
+
+  const job: OrdersSummaryJob = {
+    status: "running",
+    progress: { pagesFetched: 0, ordersCounted: 0 },
+    summary: null,
+    error: null,
+    startedAt: new Date(),
+    completedAt: null,
+  };
+  summaryJobs.set(key, job);
+
+  // The summary walks every page, so it doesn't use the caller's page size
+  runOrdersSummary(job, marketplace, { ...query, pageSize: MAX_ORDERS_PAGE_SIZE })
+    .then(() => {
+      job.status = "ready";
+      log(`Orders summary ready: ${job.progress.ordersCounted} orders over ${job.progress.pagesFetched} pages`, "orders");
+    })
+    .catch((error) => {
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+      log(`Orders summary failed: ${job.error}`, "orders");
+    })
+    .finally(() => {
+      job.completedAt = new Date();
+    });
+
+  return { ...job, progress: { ...job.progress } };
+}
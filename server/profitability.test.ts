@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import type { AmazonOrder, AmazonOrderItem } from "@shared/schema";
+import { calculateOrderProfit, getProfitSummary, type UnitCosts } from "./profitability";
+import { storage, type AmazonOrderWithItems } from "./storage";
+
+const MARKETPLACE_ID = "ATVPDKIKX0DER";
+const PURCHASE_DATE = new Date("2024-05-01T12:00:00Z");
+
+function orderItem(overrides: Partial<AmazonOrderItem> = {}): AmazonOrderItem {
+  return {
+    id: "item-row",
+    amazonOrderId: "111-0000000-0000001",
+    orderItemId: "item-1",
+    asin: "B000000001",
+    sku: "SKU-1",
+    title: "Widget",
+    quantityOrdered: 2,
+    quantityShipped: 2,
+    itemPrice: "50.00",
+    currency: "USD",
+    referralFee: "7.50",
+    fbaFee: "6.00",
+    otherFees: "0.50",
+    createdAt: PURCHASE_DATE,
+    ...overrides,
+  };
+}
+
+function order(items: AmazonOrderItem[], overrides: Partial<AmazonOrder> = {}): AmazonOrderWithItems {
+  return {
+    id: "order-row",
+    amazonOrderId: "111-0000000-0000001",
+    marketplaceId: MARKETPLACE_ID,
+    purchaseDate: PURCHASE_DATE,
+    lastUpdateDate: PURCHASE_DATE,
+    orderStatus: "Shipped",
+    fulfillmentChannel: "AFN",
+    salesChannel: "Amazon.com",
+    orderTotal: "50.00",
+    itemsTotal: "50.00",
+    currency: "USD",
+    numberOfItemsShipped: 2,
+    numberOfItemsUnshipped: 0,
+    paymentMethod: null,
+    isPrime: false,
+    isBusinessOrder: false,
+    shipCity: null,
+    shipState: null,
+    shipPostalCode: null,
+    itemsSyncedAt: PURCHASE_DATE,
+    feesSyncedAt: PURCHASE_DATE,
+    rawData: null,
+    createdAt: PURCHASE_DATE,
+    updatedAt: PURCHASE_DATE,
+    items,
+    ...overrides,
+  };
+}
+
+// Same keys getUnitCosts builds: currency, then sku or asin, then the value
+function unitCosts(entries: Record<string, number>): UnitCosts {
+  return new Map(Object.entries(entries));
+}
+
+describe("calculateOrderProfit", () => {
+  it("takes fees and cost of goods off item revenue", () => {
+    const profit = calculateOrderProfit(order([orderItem()]), unitCosts({ "USD:sku:SKU-1": 10 }), "USD");
+
+    expect(profit).toEqual({
+      revenue: 50,
+      referralFees: 7.5,
+      fbaFees: 6,
+      otherFees: 0.5,
+      totalFees: 14,
+      cogs: 20,
+      netProfit: 16,
+      margin: 32,
+      roi: 80,
+      feesPending: false,
+      missingCost: false,
+    });
+  });
+
+  it("falls back to the ASIN's cost when the SKU has none", () => {
+    const profit = calculateOrderProfit(order([orderItem()]), unitCosts({ "USD:asin:B000000001": 5 }), "USD");
+    expect(profit?.cogs).toBe(10);
+  });
+
+  it("only applies costs recorded in the order's currency", () => {
+    const profit = calculateOrderProfit(
+      order([orderItem()], { currency: "CAD" }),
+      unitCosts({ "USD:sku:SKU-1": 10 }),
+      "USD"
+    );
+    expect(profit).toMatchObject({ cogs: 0, missingCost: true, roi: null });
+  });
+
+  it("uses the marketplace currency for orders without one", () => {
+    const profit = calculateOrderProfit(
+      order([orderItem()], { currency: null }),
+      unitCosts({ "EUR:sku:SKU-1": 10 }),
+      "EUR"
+    );
+    expect(profit?.cogs).toBe(20);
+  });
+
+  it("flags fees as pending until a shipped order's fee events are synced", () => {
+    expect(calculateOrderProfit(order([orderItem()], { feesSyncedAt: null }), unitCosts({}), "USD")?.feesPending).toBe(true);
+    expect(calculateOrderProfit(order([orderItem()], { orderStatus: "Unshipped" }), unitCosts({}), "USD")?.feesPending).toBe(true);
+    expect(calculateOrderProfit(order([orderItem()], { orderStatus: "PartiallyShipped" }), unitCosts({}), "USD")?.feesPending).toBe(false);
+  });
+
+  it("returns null for orders with nothing charged", () => {
+    expect(calculateOrderProfit(order([orderItem()], { orderStatus: "Pending" }), unitCosts({}), "USD")).toBeNull();
+    expect(calculateOrderProfit(order([orderItem()], { orderStatus: "Canceled" }), unitCosts({}), "USD")).toBeNull();
+    expect(calculateOrderProfit(order([]), unitCosts({}), "USD")).toBeNull();
+  });
+
+  it("doesn't flag a missing cost for items with no units", () => {
+    const profit = calculateOrderProfit(order([orderItem({ quantityOrdered: 0 })]), unitCosts({}), "USD");
+    expect(profit?.missingCost).toBe(false);
+  });
+});
+
+describe("getProfitSummary", () => {
+  it("totals every order across pages", async () => {
+    // One more than a page, so the summary has to fetch a second one
+    const orderIds = Array.from({ length: 501 }, (_, i) => `111-0000000-${String(i).padStart(7, "0")}`);
+    await storage.upsertAmazonOrders(
+      orderIds.map((amazonOrderId, i) => ({
+        amazonOrderId,
+        marketplaceId: MARKETPLACE_ID,
+        purchaseDate: PURCHASE_DATE,
+        lastUpdateDate: PURCHASE_DATE,
+        orderStatus: i === 0 ? "Canceled" : "Shipped",
+        currency: "USD",
+        feesSyncedAt: i % 2 === 0 ? PURCHASE_DATE : null,
+      }))
+    );
+    for (const amazonOrderId of orderIds) {
+      await storage.replaceAmazonOrderItems(amazonOrderId, [
+        {
+          amazonOrderId,
+          orderItemId: `${amazonOrderId}-1`,
+          sku: "SKU-1",
+          asin: "B000000001",
+          quantityOrdered: 1,
+          itemPrice: "10.00",
+          referralFee: "1.50",
+          fbaFee: "3.00",
+          otherFees: "0.00",
+        },
+      ]);
+    }
+
+    const summary = await getProfitSummary({ marketplaceId: MARKETPLACE_ID }, "USD");
+
+    expect(summary.orderCount).toBe(500);
+    expect(summary.revenue).toBe(5000);
+    expect(summary.totalFees).toBe(2250);
+    expect(summary.ordersFeesPending).toBe(250);
+    expect(summary.ordersMissingCost).toBe(500);
+    expect(summary.skus).toHaveLength(1);
+    expect(summary.skus[0]).toMatchObject({ sku: "SKU-1", unitsSold: 500, orderCount: 500, netProfit: 2750 });
+  });
+});
@@ -0,0 +1,277 @@
+// Order Profitability
+// Net profit per order and per SKU from the local order store: item revenue
+// less Amazon fees (Finances API) and cost of goods (supplier order items)
+
+import { storage, type AmazonOrderFilters, type AmazonOrderWithItems, type SupplierItemCost } from "./storage";
+
+// Orders are read from the store in pages of this size when totalling a range
+const PROFIT_PAGE_SIZE = 500;
+
+// Nothing is charged on these, so they have no profit to report
+const UNPRICED_STATUSES = ["Pending", "Canceled"];
+
+export interface ProfitBreakdown {
+  revenue: number;
+  referralFees: number;
+  fbaFees: number;
+  otherFees: number;
+  totalFees: number;
+  cogs: number;
+  netProfit: number;
+  margin: number | null; // net profit / revenue, as a percentage
+  roi: number | null; // net profit / cost of goods, as a percentage
+}
+
+export interface OrderProfit extends ProfitBreakdown {
+  feesPending: boolean; // shipped but Amazon hasn't posted fee events yet
+  missingCost: boolean; // at least one item has no supplier unit cost
+}
+
+export interface SkuProfit extends ProfitBreakdown {
+  sku: string | null;
+  asin: string | null;
+  title: string | null;
+  unitsSold: number;
+  orderCount: number;
+  missingCost: boolean;
+}
+
+export interface ProfitSummary extends ProfitBreakdown {
+  orderCount: number;
+  ordersMissingCost: number;
+  ordersFeesPending: number;
+  skus: SkuProfit[];
+}
+
+// Unit costs keyed by currency and SKU or ASIN
+export type UnitCosts = Map<string, number>;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percentage(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 10 : null;
+}
+
+// Supplier emails store costs as free text, e.g. "$12.50" or "1,024.00"
+function parseCost(value: string): number | null {
+  const amount = parseFloat(value.replace(/[^0-9.-]/g, ""));
+  return isNaN(amount) ? null : amount;
+}
+
+function costKey(currency: string, type: "sku" | "asin", value: string): string {
+  return `${currency}:${type}:${value}`;
+}
+
+/**
+ * Average unit cost per SKU and per ASIN, weighted by quantity purchased.
+ * Costs only apply to orders in the same currency as the supplier order.
+ */
+export async function getUnitCosts(): Promise<UnitCosts> {
+  const costs: SupplierItemCost[] = await storage.getSupplierItemCosts();
+  const totals = new Map<string, { cost: number; quantity: number }>();
+
+  const add = (key: string, unitCost: number, quantity: number) => {
+    const total = totals.get(key) ?? { cost: 0, quantity: 0 };
+    total.cost += unitCost * quantity;
+    total.quantity += quantity;
+    totals.set(key, total);
+  };
+
+  for (const item of costs) {
+    const unitCost = parseCost(item.unitCost);
+    if (unitCost === null) continue;
+
+    const currency = item.currency || "USD";
+    const quantity = item.quantity && item.quantity > 0 ? item.quantity : 1;
+    if (item.sku) add(costKey(currency, "sku", item.sku), unitCost, quantity);
+    if (item.asin) add(costKey(currency, "asin", item.asin), unitCost, quantity);
+  }
+
+  const unitCosts: UnitCosts = new Map();
+  totals.forEach((total, key) => {
+    unitCosts.set(key, total.cost / total.quantity);
+  });
+  return unitCosts;
+}
+
+function findUnitCost(unitCosts: UnitCosts, currency: string, sku: string | null, asin: string | null): number | null {
+  if (sku && unitCosts.has(costKey(currency, "sku", sku))) {
+    return unitCosts.get(costKey(currency, "sku", sku))!;
+  }
+  if (asin && unitCosts.has(costKey(currency, "asin", asin))) {
+    return unitCosts.get(costKey(currency, "asin", asin))!;
+  }
+  return null;
+}
+
+function emptyBreakdown(): ProfitBreakdown {
+  return {
+    revenue: 0,
+    referralFees: 0,
+    fbaFees: 0,
+    otherFees: 0,
+    totalFees: 0,
+    cogs: 0,
+    netProfit: 0,
+    margin: null,
+    roi: null,
+  };
+}
+
+// Round the running totals and derive net profit, margin and ROI from them
+function finishBreakdown<T extends ProfitBreakdown>(totals: T): T {
+  const totalFees = totals.referralFees + totals.fbaFees + totals.otherFees;
+  const netProfit = totals.revenue - totalFees - totals.cogs;
+  return {
+    ...totals,
+    revenue: round(totals.revenue),
+    referralFees: round(totals.referralFees),
+    fbaFees: round(totals.fbaFees),
+    otherFees: round(totals.otherFees),
+    totalFees: round(totalFees),
+    cogs: round(totals.cogs),
+    netProfit: round(netProfit),
+    margin: percentage(netProfit, totals.revenue),
+    roi: percentage(netProfit, totals.cogs),
+  };
+}
+
+interface ItemProfit {
+  sku: string | null;
+  asin: string | null;
+  title: string | null;
+  units: number;
+  revenue: number;
+  referralFees: number;
+  fbaFees: number;
+  otherFees: number;
+  cogs: number;
+  missingCost: boolean;
+}
+
+function getItemProfits(order: AmazonOrderWithItems, unitCosts: UnitCosts, currency: string): ItemProfit[] {
+  return order.items.map((item) => {
+    const unitCost = findUnitCost(unitCosts, currency, item.sku, item.asin);
+    const units = item.quantityOrdered;
+    return {
+      sku: item.sku,
+      asin: item.asin,
+      title: item.title,
+      units,
+      revenue: Number(item.itemPrice ?? 0),
+      referralFees: Number(item.referralFee ?? 0),
+      fbaFees: Number(item.fbaFee ?? 0),
+      otherFees: Number(item.otherFees ?? 0),
+      cogs: unitCost !== null ? unitCost * units : 0,
+      missingCost: unitCost === null && units > 0,
+    };
+  });
+}
+
+/**
+ * Profit for a single order, or null for orders with nothing charged yet
+ * (Pending, Canceled). Costs that can't be found count as zero and set
+ * missingCost, so the figure is an upper bound until they're recorded.
+ */
+export function calculateOrderProfit(
+  order: AmazonOrderWithItems,
+  unitCosts: UnitCosts,
+  defaultCurrency: string
+): OrderProfit | null {
+  if (UNPRICED_STATUSES.includes(order.orderStatus) || order.items.length === 0) {
+    return null;
+  }
+
+  const items = getItemProfits(order, unitCosts, order.currency || defaultCurrency);
+  const totals = items.reduce(
+    (sum, item) => ({
+      ...sum,
+      revenue: sum.revenue + item.revenue,
+      referralFees: sum.referralFees + item.referralFees,
+      fbaFees: sum.fbaFees + item.fbaFees,
+      otherFees: sum.otherFees + item.otherFees,
+      cogs: sum.cogs + item.cogs,
+    }),
+    emptyBreakdown()
+  );
+
+  const shipped = order.orderStatus === "Shipped" || order.orderStatus === "PartiallyShipped";
+  return {
+    ...finishBreakdown(totals),
+    feesPending: !shipped || !order.feesSyncedAt,
+    missingCost: items.some((item) => item.missingCost),
+  };
+}
+
+/**
+ * Totals and a per-SKU breakdown across every priced order matching the filters
+ */
+export async function getProfitSummary(filters: AmazonOrderFilters, defaultCurrency: string): Promise<ProfitSummary> {
+  const unitCosts = await getUnitCosts();
+  const totals = emptyBreakdown();
+  const skus = new Map<string, SkuProfit & { orderIds: Set<string> }>();
+  let orderCount = 0;
+  let ordersMissingCost = 0;
+  let ordersFeesPending = 0;
+
+  // Keyset paging, so later pages cost no more than the first and nothing is counted
+  let afterOrderId: string | null = null;
+  let orders: AmazonOrderWithItems[];
+
+  do {
+    orders = await storage.getAmazonOrdersAfter(filters, afterOrderId, PROFIT_PAGE_SIZE);
+
+    for (const order of orders) {
+      const profit = calculateOrderProfit(order, unitCosts, defaultCurrency);
+      if (!profit) continue;
+
+      orderCount++;
+      if (profit.missingCost) ordersMissingCost++;
+      if (profit.feesPending) ordersFeesPending++;
+      totals.revenue += profit.revenue;
+      totals.referralFees += profit.referralFees;
+      totals.fbaFees += profit.fbaFees;
+      totals.otherFees += profit.otherFees;
+      totals.cogs += profit.cogs;
+
+      for (const item of getItemProfits(order, unitCosts, order.currency || defaultCurrency)) {
+        const key = item.sku || item.asin || "unknown";
+        const sku = skus.get(key) ?? {
+          ...emptyBreakdown(),
+          sku: item.sku,
+          asin: item.asin,
+          title: item.title,
+          unitsSold: 0,
+          orderCount: 0,
+          missingCost: false,
+          orderIds: new Set<string>(),
+        };
+        sku.unitsSold += item.units;
+        sku.revenue += item.revenue;
+        sku.referralFees += item.referralFees;
+        sku.fbaFees += item.fbaFees;
+        sku.otherFees += item.otherFees;
+        sku.cogs += item.cogs;
+        sku.missingCost = sku.missingCost || item.missingCost;
+        sku.orderIds.add(order.amazonOrderId);
+        skus.set(key, sku);
+      }
+    }
+
+    afterOrderId = orders[orders.length - 1]?.amazonOrderId ?? null;
+  } while (orders.length === PROFIT_PAGE_SIZE);
+
+  const skuProfits = Array.from(skus.values())
+    .map(({ orderIds, ...sku }) => finishBreakdown({ ...sku, orderCount: orderIds.size }))
+    .sort((a, b) => b.netProfit - a.netProfit);
+
+  return {
+    ...finishBreakdown(totals),
+    orderCount,
+    ordersMissingCost,
+    ordersFeesPending,
+    skus: skuProfits,
+  };
+}
@@ -0,0 +1,131 @@
+// Amazon Reports
+// Request a report, wait for Amazon to generate it, then download and parse the document
+
+import { gunzipSync } from "zlib";
+import { log } from "./log";
+import { callSPAPI, callSPAPIPost } from "./spApi";
+import type { Marketplace } from "./marketplaces";
+
+// How often to check on a report that is still processing
+const REPORT_POLL_INTERVAL_MS = parseInt(process.env.REPORT_POLL_INTERVAL_MS || "15000");
+
+// Give up waiting on a report after this long
+const REPORT_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface ReportOptions {
+  dataStartTime?: string;
+  dataEndTime?: string;
+}
+
+/**
+ * Ask Amazon to generate a report, returning its ID
+ */
+export async function createReport(
+  accessToken: string,
+  marketplace: Marketplace,
+  reportType: string,
+  options: ReportOptions = {}
+): Promise<string> {
+  const body = {
+    reportType,
+    marketplaceIds: [marketplace.id],
+    ...(options.dataStartTime ? { dataStartTime: options.dataStartTime } : {}),
+    ...(options.dataEndTime ? { dataEndTime: options.dataEndTime } : {}),
+  };
+
+  const result = await callSPAPIPost(accessToken, "/reports/2021-06-30/reports", body, marketplace.region);
+  return result.reportId;
+}
+
+/**
+ * Poll a report until it finishes. Returns the document ID, or null when
+ * Amazon cancelled the report because there was no data for the range.
+ */
+export async function waitForReport(
+  getAccessToken: () => Promise<string>,
+  marketplace: Marketplace,
+  reportId: string
+): Promise<string | null> {
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < REPORT_TIMEOUT_MS) {
+    const accessToken = await getAccessToken();
+    const report = await callSPAPI(accessToken, `/reports/2021-06-30/reports/${reportId}`, marketplace.region);
+
+    switch (report.processingStatus) {
+      case "DONE":
+        return report.reportDocumentId;
+      case "CANCELLED":
+        return null;
+      case "FATAL":
+        throw new Error(`Report ${reportId} failed with processingStatus FATAL`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, REPORT_POLL_INTERVAL_MS));
+  }
+
+  throw new Error(`Timed out waiting for report ${reportId}`);
+}
+
+/**
+ * Download a report document, decompressing it if needed
+ */
+export async function downloadReportDocument(
+  accessToken: string,
+  marketplace: Marketplace,
+  reportDocumentId: string
+): Promise<string> {
+  const document = await callSPAPI(accessToken, `/reports/2021-06-30/documents/${reportDocumentId}`, marketplace.region);
+
+  const response = await fetch(document.url);
+  if (!response.ok) {
+    throw new Error(`Failed to download report document: ${response.status}`);
+  }
+
+  if (document.compressionAlgorithm === "GZIP") {
+    const buffer = Buffer.from(await response.arrayBuffer());
+    return gunzipSync(buffer).toString("utf-8");
+  }
+  return response.text();
+}
+
+/**
+ * Parse a tab-delimited flat file report into rows keyed by header
+ */
+export function parseTabDelimitedReport(content: string): Record<string, string>[] {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length === 0) return [];
+
+  const headers = lines[0].split("\t").map((h) => h.trim().toLowerCase());
+  return lines.slice(1).map((line) => {
+    const values = line.split("\t");
+    const row: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      row[header] = (values[i] ?? "").trim();
+    });
+    return row;
+  });
+}
+
+/**
+ * Request a flat file report and return its parsed rows (empty when Amazon
+ * has no data for the range)
+ */
+export async function fetchTabDelimitedReport(
+  getAccessToken: () => Promise<string>,
+  marketplace: Marketplace,
+  reportType: string,
+  options: ReportOptions = {}
+): Promise<Record<string, string>[]> {
+  const reportId = await createReport(await getAccessToken(), marketplace, reportType, options);
+  log(`Requested ${reportType} report ${reportId} for ${marketplace.countryCode}`, "reports");
+
+  const reportDocumentId = await waitForReport(getAccessToken, marketplace, reportId);
+  if (!reportDocumentId) {
+    log(`Report ${reportId} was cancelled (no data for the range)`, "reports");
+    return [];
+  }
+
+  const content = await downloadReportDocument(await getAccessToken(), marketplace, reportDocumentId);
+  return parseTabDelimitedReport(content);
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { getDailyVelocity, getRestockStatus } from "./restock";
+
+describe("getDailyVelocity", () => {
+  it("averages units over the whole window when the SKU was always in stock", () => {
+    expect(getDailyVelocity([{ days: 30, unitsSold: 60, stockoutDays: 0 }])).toBe(2);
+  });
+
+  it("leaves stocked-out days out of the denominator", () => {
+    expect(getDailyVelocity([{ days: 30, unitsSold: 60, stockoutDays: 10 }])).toBe(3);
+  });
+
+  it("falls back to the next window when the SKU was out of stock for the whole first one", () => {
+    expect(
+      getDailyVelocity([
+        { days: 30, unitsSold: 0, stockoutDays: 30 },
+        { days: 90, unitsSold: 120, stockoutDays: 30 },
+      ])
+    ).toBe(2);
+  });
+
+  it("doesn't fall back when the first window had days in stock, even with no sales", () => {
+    expect(
+      getDailyVelocity([
+        { days: 30, unitsSold: 0, stockoutDays: 5 },
+        { days: 90, unitsSold: 120, stockoutDays: 5 },
+      ])
+    ).toBe(0);
+  });
+
+  it("is zero when no window had a day in stock", () => {
+    expect(getDailyVelocity([{ days: 30, unitsSold: 4, stockoutDays: 30 }])).toBe(0);
+  });
+
+  it("treats more stockout days than the window as the whole window", () => {
+    expect(getDailyVelocity([{ days: 30, unitsSold: 4, stockoutDays: 31 }])).toBe(0);
+  });
+});
+
+describe("getRestockStatus", () => {
+  it("reports a SKU with nothing fulfillable or inbound as out of stock even without sales", () => {
+    expect(getRestockStatus(0, 0, 0, 0)).toBe("out_of_stock");
+    expect(getRestockStatus(0, 0, 20, 1.5)).toBe("out_of_stock");
+  });
+
+  it("reports no sales for a stocked SKU that didn't sell", () => {
+    expect(getRestockStatus(10, 0, 0, 0)).toBe("no_sales");
+  });
+
+  it("counts inbound units as stock", () => {
+    expect(getRestockStatus(0, 5, 0, 0)).toBe("no_sales");
+    expect(getRestockStatus(0, 50, 20, 1)).toBe("ok");
+  });
+
+  it("asks for a reorder at or below the reorder point", () => {
+    expect(getRestockStatus(15, 5, 20, 1)).toBe("reorder");
+    expect(getRestockStatus(10, 5, 20, 1)).toBe("reorder");
+  });
+
+  it("is ok above the reorder point", () => {
+    expect(getRestockStatus(21, 0, 20, 1)).toBe("ok");
+  });
+});
@@ -0,0 +1,268 @@
+// Restock Recommendations
+// Days of cover, reorder point and suggested order quantity per SKU, from
+// sales velocity in the local order store, the cached FBA inventory and each
+// supplier's observed lead time (supplier order date to actual delivery)
+
+import { storage, type SupplierItemSource } from "./storage";
+import { getLocalDate, shiftDate } from "./dateRanges";
+import type { Marketplace } from "./marketplaces";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A SKU stocked out for the whole velocity window is rated over a window this
+// many times longer, the last stretch it had stock to sell
+const FALLBACK_VELOCITY_MULTIPLIER = 3;
+
+export interface RestockSettings {
+  velocityDays: number; // sales window the daily velocity is averaged over
+  safetyDays: number; // extra days of sales held as safety stock
+  targetDays: number; // days of sales an order should cover once it arrives
+  defaultLeadTimeDays: number; // for SKUs with no delivered supplier orders
+}
+
+export const DEFAULT_RESTOCK_SETTINGS: RestockSettings = {
+  velocityDays: 30,
+  safetyDays: 7,
+  targetDays: 30,
+  defaultLeadTimeDays: 14,
+};
+
+export type RestockStatus = "out_of_stock" | "reorder" | "ok" | "no_sales";
+
+export interface SupplierLeadTime {
+  supplier: string;
+  averageDays: number;
+  deliveredOrders: number;
+}
+
+export interface RestockRecommendation {
+  sellerSku: string;
+  asin: string | null;
+  productName: string | null;
+  fulfillable: number;
+  inbound: number;
+  available: number; // fulfillable plus inbound
+  unitsSold: number;
+  stockoutDays: number; // days in the velocity window with nothing fulfillable
+  dailyVelocity: number;
+  daysOfCover: number | null; // null when nothing has sold in the window
+  supplier: string | null;
+  leadTimeDays: number;
+  leadTimeSource: "supplier" | "default";
+  reorderPoint: number;
+  suggestedQuantity: number;
+  daysUntilReorder: number | null;
+  status: RestockStatus;
+}
+
+export interface RestockReport {
+  settings: RestockSettings;
+  inventoryRefreshedAt: Date | null;
+  suppliers: SupplierLeadTime[];
+  recommendations: RestockRecommendation[];
+}
+
+// Most urgent first: stocked-out and due SKUs, then by how soon they're due
+const STATUS_ORDER: RestockStatus[] = ["out_of_stock", "reorder", "ok", "no_sales"];
+
+function round(value: number, places = 1): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function supplierLabel(source: SupplierItemSource): string | null {
+  return source.supplierName || source.supplierEmail || null;
+}
+
+// Units sold over a window and how many of its days the SKU was stocked out
+export interface SalesWindow {
+  days: number;
+  unitsSold: number;
+  stockoutDays: number;
+}
+
+/**
+ * Average daily sales over the days a SKU had stock. Stocked-out days would
+ * understate demand, so they're left out; a SKU without a day in stock in a
+ * window falls back to the next window given.
+ */
+export function getDailyVelocity(windows: SalesWindow[]): number {
+  for (const window of windows) {
+    const inStockDays = window.days - Math.min(window.stockoutDays, window.days);
+    if (inStockDays > 0) {
+      return window.unitsSold / inStockDays;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Stock on hand is checked before sales: a SKU with nothing fulfillable or
+ * inbound is out of stock whether or not it sold in the window.
+ */
+export function getRestockStatus(
+  fulfillable: number,
+  inbound: number,
+  reorderPoint: number,
+  dailyVelocity: number
+): RestockStatus {
+  if (fulfillable === 0 && inbound === 0) return "out_of_stock";
+  if (dailyVelocity === 0) return "no_sales";
+  if (fulfillable + inbound <= reorderPoint) return "reorder";
+  return "ok";
+}
+
+/**
+ * Average days from order to delivery per supplier, over delivered orders
+ * with both dates recorded
+ */
+export function getSupplierLeadTimes(sources: SupplierItemSource[]): Map<string, SupplierLeadTime> {
+  const totals = new Map<string, { days: number; orders: Set<string> }>();
+
+  for (const source of sources) {
+    const supplier = supplierLabel(source);
+    if (!supplier || !source.orderDate || !source.actualDeliveryDate) continue;
+
+    const days = (source.actualDeliveryDate.getTime() - source.orderDate.getTime()) / DAY_MS;
+    if (days < 0) continue;
+
+    // Sources are per item, so an order with several items is only counted once
+    const total = totals.get(supplier) ?? { days: 0, orders: new Set<string>() };
+    if (!total.orders.has(source.orderId)) {
+      total.orders.add(source.orderId);
+      total.days += days;
+    }
+    totals.set(supplier, total);
+  }
+
+  const leadTimes = new Map<string, SupplierLeadTime>();
+  totals.forEach((total, supplier) => {
+    leadTimes.set(supplier, {
+      supplier,
+      averageDays: round(total.days / total.orders.size),
+      deliveredOrders: total.orders.size,
+    });
+  });
+  return leadTimes;
+}
+
+// The supplier a SKU was most recently ordered from, matched by SKU then ASIN
+function getLatestSuppliers(sources: SupplierItemSource[]): Map<string, string> {
+  const latest = new Map<string, { supplier: string; orderedAt: number }>();
+
+  const consider = (key: string, supplier: string, orderedAt: number) => {
+    const current = latest.get(key);
+    if (!current || orderedAt > current.orderedAt) {
+      latest.set(key, { supplier, orderedAt });
+    }
+  };
+
+  for (const source of sources) {
+    const supplier = supplierLabel(source);
+    if (!supplier) continue;
+    const orderedAt = source.orderDate?.getTime() ?? 0;
+    if (source.sku) consider(`sku:${source.sku}`, supplier, orderedAt);
+    if (source.asin) consider(`asin:${source.asin}`, supplier, orderedAt);
+  }
+
+  const suppliers = new Map<string, string>();
+  latest.forEach((entry, key) => suppliers.set(key, entry.supplier));
+  return suppliers;
+}
+
+/**
+ * Recommendations for every SKU in a marketplace's cached inventory.
+ * Reorder point = velocity × lead time + safety stock; an order brings stock
+ * back up to the reorder point plus targetDays of sales.
+ */
+export async function getRestockReport(
+  marketplace: Marketplace,
+  settings: RestockSettings = DEFAULT_RESTOCK_SETTINGS
+): Promise<RestockReport> {
+  const fallbackDays = settings.velocityDays * FALLBACK_VELOCITY_MULTIPLIER;
+  // Snapshot days are local to the marketplace, ending yesterday's full day
+  const today = getLocalDate(marketplace.timezone);
+  const windowEnd = shiftDate(today, -1);
+
+  const [inventory, syncState, sales, fallbackSales, stockouts, fallbackStockouts, sources] = await Promise.all([
+    storage.getFbaInventory(marketplace.id),
+    storage.getFbaInventorySyncState(marketplace.id),
+    storage.getAmazonSkuUnitsSold({
+      marketplaceId: marketplace.id,
+      startDate: new Date(Date.now() - settings.velocityDays * DAY_MS),
+    }),
+    storage.getAmazonSkuUnitsSold({
+      marketplaceId: marketplace.id,
+      startDate: new Date(Date.now() - fallbackDays * DAY_MS),
+    }),
+    storage.getFbaStockoutDays(marketplace.id, shiftDate(today, -settings.velocityDays), windowEnd),
+    storage.getFbaStockoutDays(marketplace.id, shiftDate(today, -fallbackDays), windowEnd),
+    storage.getSupplierItemSources(),
+  ]);
+
+  const unitsBySku = new Map(sales.map((sale) => [sale.sku, sale.unitsSold]));
+  const fallbackUnitsBySku = new Map(fallbackSales.map((sale) => [sale.sku, sale.unitsSold]));
+  const stockoutsBySku = new Map(stockouts.map((row) => [row.sellerSku, row.stockoutDays]));
+  const fallbackStockoutsBySku = new Map(fallbackStockouts.map((row) => [row.sellerSku, row.stockoutDays]));
+  const leadTimes = getSupplierLeadTimes(sources);
+  const latestSuppliers = getLatestSuppliers(sources);
+
+  const recommendations = inventory.map((item): RestockRecommendation => {
+    const inbound = item.inboundWorking + item.inboundShipped + item.inboundReceiving;
+    const available = item.fulfillableQuantity + inbound;
+    const unitsSold = unitsBySku.get(item.sellerSku) ?? 0;
+    const stockoutDays = stockoutsBySku.get(item.sellerSku) ?? 0;
+    const dailyVelocity = getDailyVelocity([
+      { days: settings.velocityDays, unitsSold, stockoutDays },
+      {
+        days: fallbackDays,
+        unitsSold: fallbackUnitsBySku.get(item.sellerSku) ?? 0,
+        stockoutDays: fallbackStockoutsBySku.get(item.sellerSku) ?? 0,
+      },
+    ]);
+
+    const supplier = latestSuppliers.get(`sku:${item.sellerSku}`)
+      ?? (item.asin ? latestSuppliers.get(`asin:${item.asin}`) : undefined)
+      ?? null;
+    const leadTime = supplier ? leadTimes.get(supplier) : undefined;
+    const leadTimeDays = leadTime?.averageDays ?? settings.defaultLeadTimeDays;
+
+    const reorderPoint = Math.ceil(dailyVelocity * (leadTimeDays + settings.safetyDays));
+    const orderUpTo = reorderPoint + Math.ceil(dailyVelocity * settings.targetDays);
+
+    const status = getRestockStatus(item.fulfillableQuantity, inbound, reorderPoint, dailyVelocity);
+
+    return {
+      sellerSku: item.sellerSku,
+      asin: item.asin,
+      productName: item.productName,
+      fulfillable: item.fulfillableQuantity,
+      inbound,
+      available,
+      unitsSold,
+      stockoutDays,
+      dailyVelocity: round(dailyVelocity, 2),
+      daysOfCover: dailyVelocity > 0 ? round(available / dailyVelocity) : null,
+      supplier,
+      leadTimeDays,
+      leadTimeSource: leadTime ? "supplier" : "default",
+      reorderPoint,
+      suggestedQuantity: status === "out_of_stock" || status === "reorder" ? Math.max(0, orderUpTo - available) : 0,
+      daysUntilReorder: dailyVelocity > 0 ? Math.max(0, round((available - reorderPoint) / dailyVelocity)) : null,
+      status,
+    };
+  });
+
+  recommendations.sort((a, b) =>
+    STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+    (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) ||
+    a.sellerSku.localeCompare(b.sellerSku)
+  );
+
+  return {
+    settings,
+    inventoryRefreshedAt: syncState?.lastSyncAt ?? null,
+    suppliers: Array.from(leadTimes.values()).sort((a, b) => a.supplier.localeCompare(b.supplier)),
+    recommendations,
+  };
+}
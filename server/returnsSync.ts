@@ -0,0 +1,250 @@
+// Amazon Returns Sync
+// Pulls FBA customer returns (returns report) and refund events (Finances API)
+// into the local amazon_returns table
+
+import { storage } from "./storage";
+import { log } from "./log";
+import { getLWAAccessToken } from "./lwaToken";
+import { getMarketplaceParticipations, type Marketplace } from "./marketplaces";
+import { fetchTabDelimitedReport } from "./reports";
+import { listFinancialEvents, getRefundItems, toAmount } from "./finances";
+import type { SPAPIRegion } from "./spApi";
+import type { InsertAmazonReturn } from "@shared/schema";
+
+// Sync interval (default: 6 hours; the returns report is slow to generate)
+const RETURNS_SYNC_INTERVAL_MS = parseInt(process.env.RETURNS_SYNC_INTERVAL_MS || "21600000");
+
+// How far back the first sync for a marketplace reaches
+const RETURNS_BACKFILL_DAYS = 90;
+
+// Later syncs re-read this many days before the newest stored event, since
+// Amazon can add returns and refunds to the report/event list late
+const RETURNS_OVERLAP_DAYS = 7;
+
+const RETURNS_REPORT_TYPE = "GET_FBA_FULFILLMENT_CUSTOMER_RETURNS_DATA";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let returnsSyncIntervalId: NodeJS.Timeout | null = null;
+
+export interface ReturnsSyncProgress {
+  isRunning: boolean;
+  currentMarketplaceId: string | null;
+  returnsSynced: number;
+  refundsSynced: number;
+  lastRunAt: Date | null;
+  lastError: string | null;
+}
+
+let returnsSyncProgress: ReturnsSyncProgress = {
+  isRunning: false,
+  currentMarketplaceId: null,
+  returnsSynced: 0,
+  refundsSynced: 0,
+  lastRunAt: null,
+  lastError: null,
+};
+
+export function getReturnsSyncProgress(): ReturnsSyncProgress {
+  return { ...returnsSyncProgress };
+}
+
+// Where the next sync should start reading from
+async function getSyncStart(marketplaceId: string, type: "return" | "refund"): Promise<Date> {
+  const latest = await storage.getLatestAmazonReturnDate(marketplaceId, type);
+  return latest
+    ? new Date(latest.getTime() - RETURNS_OVERLAP_DAYS * DAY_MS)
+    : new Date(Date.now() - RETURNS_BACKFILL_DAYS * DAY_MS);
+}
+
+/**
+ * Map a returns report row to a row. Returns are identified by their license
+ * plate number, falling back to the return date.
+ */
+function toReturnRow(row: Record<string, string>, marketplace: Marketplace): InsertAmazonReturn | null {
+  const amazonOrderId = row["order-id"];
+  const returnDate = new Date(row["return-date"]);
+  if (!amazonOrderId || isNaN(returnDate.getTime())) {
+    return null;
+  }
+
+  return {
+    eventKey: `return:${amazonOrderId}:${row["sku"]}:${row["license-plate-number"] || returnDate.toISOString()}`,
+    type: "return",
+    amazonOrderId,
+    marketplaceId: marketplace.id,
+    sku: row["sku"] || null,
+    asin: row["asin"] || null,
+    fnsku: row["fnsku"] || null,
+    productName: row["product-name"] || null,
+    quantity: parseInt(row["quantity"]) || 1,
+    eventDate: returnDate,
+    reason: row["reason"] || null,
+    disposition: row["detailed-disposition"] || null,
+    status: row["status"] || null,
+    fulfillmentCenterId: row["fulfillment-center-id"] || null,
+    licensePlateNumber: row["license-plate-number"] || null,
+    customerComments: row["customer-comments"] || null,
+    refundAmount: null,
+    currency: null,
+    rawData: JSON.stringify(row),
+  };
+}
+
+/**
+ * Pull the FBA customer returns report for one marketplace
+ */
+export async function syncMarketplaceReturns(marketplace: Marketplace): Promise<number> {
+  const dataStartTime = await getSyncStart(marketplace.id, "return");
+  returnsSyncProgress.currentMarketplaceId = marketplace.id;
+
+  const rows = await fetchTabDelimitedReport(getLWAAccessToken, marketplace, RETURNS_REPORT_TYPE, {
+    dataStartTime: dataStartTime.toISOString(),
+    dataEndTime: new Date().toISOString(),
+  });
+
+  const returns = rows
+    .map((row) => toReturnRow(row, marketplace))
+    .filter((row): row is InsertAmazonReturn => row !== null);
+  const synced = await storage.upsertAmazonReturns(returns);
+  returnsSyncProgress.returnsSynced += synced;
+
+  log(`Synced ${synced} ${marketplace.countryCode} returns since ${dataStartTime.toISOString()}`, "returns");
+  return synced;
+}
+
+/**
+ * Pull refund events for a region. Financial events cover every marketplace
+ * in the region, so each refund is matched to one by its marketplace name.
+ */
+export async function syncRegionRefunds(region: SPAPIRegion, marketplaces: Marketplace[]): Promise<number> {
+  const starts = await Promise.all(marketplaces.map((m) => getSyncStart(m.id, "refund")));
+  const postedAfter = new Date(Math.min(...starts.map((d) => d.getTime())));
+  // SP-API requires PostedBefore to be at least 2 minutes in the past
+  const postedBefore = new Date(Date.now() - 3 * 60 * 1000);
+
+  const accessToken = await getLWAAccessToken();
+  const events = await listFinancialEvents(accessToken, region, postedAfter, postedBefore);
+  const marketplacesByName = new Map(marketplaces.map((m) => [m.name, m]));
+
+  const refunds: InsertAmazonReturn[] = [];
+  let skipped = 0;
+  for (const refund of getRefundItems(events)) {
+    const marketplace = refund.marketplaceName ? marketplacesByName.get(refund.marketplaceName) : undefined;
+    if (!marketplace) {
+      skipped++;
+      continue;
+    }
+
+    const itemKey = refund.orderAdjustmentItemId || refund.sku;
+    refunds.push({
+      eventKey: `refund:${refund.amazonOrderId}:${itemKey}:${refund.postedDate.toISOString()}`,
+      type: "refund",
+      amazonOrderId: refund.amazonOrderId,
+      marketplaceId: marketplace.id,
+      sku: refund.sku,
+      quantity: refund.quantity,
+      eventDate: refund.postedDate,
+      refundAmount: toAmount(refund.refundAmount),
+      currency: refund.currency || marketplace.currency,
+    });
+  }
+
+  if (skipped > 0) {
+    log(`Skipped ${skipped} refunds from marketplaces the seller doesn't sell in`, "returns");
+  }
+
+  const synced = await storage.upsertAmazonReturns(refunds);
+  returnsSyncProgress.refundsSynced += synced;
+
+  log(`Synced ${synced} ${region.toUpperCase()} refunds posted since ${postedAfter.toISOString()}`, "returns");
+  return synced;
+}
+
+/**
+ * Sync returns and refunds for every marketplace the seller participates in
+ */
+export async function syncAllReturns(): Promise<void> {
+  if (returnsSyncProgress.isRunning) {
+    log("Returns sync already running, skipping", "returns");
+    return;
+  }
+
+  returnsSyncProgress = {
+    ...returnsSyncProgress,
+    isRunning: true,
+    currentMarketplaceId: null,
+    returnsSynced: 0,
+    refundsSynced: 0,
+    lastError: null,
+  };
+
+  try {
+    const accessToken = await getLWAAccessToken();
+    const marketplaces = (await getMarketplaceParticipations(accessToken)).filter((m) => m.isParticipating);
+    const errors: string[] = [];
+
+    for (const marketplace of marketplaces) {
+      try {
+        await syncMarketplaceReturns(marketplace);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Returns sync for ${marketplace.countryCode} failed: ${errorMessage}`, "returns");
+        errors.push(`${marketplace.countryCode} returns: ${errorMessage}`);
+      }
+    }
+
+    returnsSyncProgress.currentMarketplaceId = null;
+    const regions = Array.from(new Set(marketplaces.map((m) => m.region)));
+    for (const region of regions) {
+      try {
+        await syncRegionRefunds(region, marketplaces.filter((m) => m.region === region));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Refund sync for ${region.toUpperCase()} failed: ${errorMessage}`, "returns");
+        errors.push(`${region.toUpperCase()} refunds: ${errorMessage}`);
+      }
+    }
+
+    returnsSyncProgress.lastError = errors.length > 0 ? errors.join("; ") : null;
+  } catch (error) {
+    returnsSyncProgress.lastError = error instanceof Error ? error.message : String(error);
+    log(`Returns sync failed: ${returnsSyncProgress.lastError}`, "returns");
+  } finally {
+    returnsSyncProgress.isRunning = false;
+    returnsSyncProgress.currentMarketplaceId = null;
+    returnsSyncProgress.lastRunAt = new Date();
+  }
+}
+
+/**
+ * Start the background returns sync
+ */
+export function startReturnsSyncScheduler(): void {
+  if (returnsSyncIntervalId) {
+    log("Returns sync scheduler already running", "returns");
+    return;
+  }
+
+  log(`Starting returns sync scheduler (interval: ${RETURNS_SYNC_INTERVAL_MS}ms)`, "returns");
+
+  // Initial sync after a short delay
+  setTimeout(() => {
+    syncAllReturns();
+  }, 25000);
+
+  returnsSyncIntervalId = setInterval(() => {
+    syncAllReturns();
+  }, RETURNS_SYNC_INTERVAL_MS);
+}
+
+/**
+ * Stop the background returns sync
+ */
+export function stopReturnsSyncScheduler(): void {
+  if (returnsSyncIntervalId) {
+    clearInterval(returnsSyncIntervalId);
+    returnsSyncIntervalId = null;
+    log("Returns sync scheduler stopped", "returns");
+  }
+}
@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { SimulatorState } from "./spApiSimulator";
+
+// The SP-API client and LWA token module read their endpoints when first
+// imported, so the simulator's port is picked and exported before any of them
+const simulatorPort = await vi.hoisted(async () => {
+  const { createServer } = await import("net");
+  const probe = createServer();
+  await new Promise<void>((resolve) => probe.listen(0, "127.0.0.1", resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+
+  const base = `http://127.0.0.1:${port}`;
+  process.env.SP_API_BASE_URL_NA = base;
+  process.env.SP_API_BASE_URL_EU = `${base}/eu`;
+  process.env.SP_API_BASE_URL_FE = `${base}/fe`;
+  process.env.LWA_TOKEN_ENDPOINT = `${base}/auth/o2/token`;
+  process.env.SP_API_CLIENT_ID = "test-client";
+  process.env.SP_API_CLIENT_SECRET = "test-secret";
+  process.env.SP_API_REFRESH_TOKEN = "test-refresh-token";
+  return port;
+});
+
+const US = "ATVPDKIKX0DER";
+const REJECTED_SKU = "ROUTE-TEST-002";
+
+let simulator: SimulatorState;
+let simulatorServer: Server;
+let appServer: Server;
+let baseUrl: string;
+
+function listen(server: Server, port = 0): Promise<number> {
+  return new Promise((resolve) => server.listen(port, "127.0.0.1", () => resolve((server.address() as AddressInfo).port)));
+}
+
+function close(server: Server | undefined): Promise<void> {
+  if (!server) return Promise.resolve();
+  server.closeAllConnections();
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+async function getJson(path: string): Promise<any> {
+  const response = await fetch(`${baseUrl}${path}`);
+  return response.json();
+}
+
+async function addFailure(failure: Record<string, unknown>) {
+  await fetch(`http://127.0.0.1:${simulatorPort}/__simulator/failures`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(failure),
+  });
+}
+
+beforeAll(async () => {
+  const { createSPAPISimulator } = await import("./spApiSimulator");
+  const { registerRoutes } = await import("./routes");
+
+  // Orders end an hour ago, comfortably before the route's CreatedBefore cutoff
+  const sim = createSPAPISimulator({
+    fixtures: { feedErrorSkus: [REJECTED_SKU] },
+    fixtureOptions: { seed: 7, orderCount: 12, days: 3, now: new Date(Date.now() - 60 * 60 * 1000) },
+    settings: { feedProcessingMs: 200 },
+  });
+  simulator = sim.state;
+  simulatorServer = createServer(sim.app);
+  await listen(simulatorServer, simulatorPort);
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  appServer = createServer(app);
+  await registerRoutes(appServer, app);
+  baseUrl = `http://127.0.0.1:${await listen(appServer)}`;
+});
+
+afterAll(async () => {
+  await close(appServer);
+  await close(simulatorServer);
+});
+
+describe("GET /api/orders", () => {
+  it("follows nextToken through every page", async () => {
+    const expected = simulator.fixtures.orders
+      .filter((order) => order.MarketplaceId === US)
+      .map((order) => order.AmazonOrderId)
+      .sort();
+
+    const seen: string[] = [];
+    let nextToken: string | null = null;
+    let pages = 0;
+    do {
+      const query: string = nextToken ? `pageSize=5&nextToken=${encodeURIComponent(nextToken)}` : "pageSize=5";
+      const body = await getJson(`/api/orders?${query}`);
+      expect(body.success).toBe(true);
+      seen.push(...body.data.orders.map((order: any) => order.orderId));
+      nextToken = body.data.nextToken;
+      pages++;
+    } while (nextToken);
+
+    expect(pages).toBe(Math.ceil(expected.length / 5));
+    expect(seen.sort()).toEqual(expected);
+  });
+
+  // A 429 empties the operation's token bucket, so the retry and the rest of
+  // the page's item lookups wait out getOrderItems' two-second rate (~10s)
+  it("retries a throttled request after Retry-After", async () => {
+    const first = await getJson("/api/orders?pageSize=5");
+    expect(first.data.nextToken).toBeTruthy();
+
+    await addFailure({ mode: "throttle", operation: "getOrderItems", times: 1, retryAfter: 1 });
+    const requestsBefore = simulator.requests.length;
+    const second = await getJson(`/api/orders?pageSize=5&nextToken=${encodeURIComponent(first.data.nextToken)}`);
+
+    expect(second.success).toBe(true);
+    expect(second.data.orders.length).toBeGreaterThan(0);
+    // The throttled order's items still arrive once the retry succeeds
+    expect(second.data.orders.every((order: any) => order.items.length > 0)).toBe(true);
+    const statuses = simulator.requests
+      .slice(requestsBefore)
+      .filter((request) => request.operation === "getOrderItems")
+      .map((request) => request.status);
+    expect(statuses.slice(0, 2)).toEqual([429, 200]);
+
+    const metrics = await getJson("/api/sp-api/metrics");
+    const getOrderItems = metrics.data.find((entry: any) => entry.operation === "getOrderItems" && entry.region === "na");
+    expect(getOrderItems).toMatchObject({ throttled: 1, retries: 1 });
+  }, 30000);
+});
+
+describe("SKU upload feeds", () => {
+  it("submits a listings feed and maps the processing report onto its items", async () => {
+    const csv = ["sku,asin,price,quantity", "ROUTE-TEST-001,B0ROUTE001,19.99,5", `${REJECTED_SKU},B0ROUTE002,24.99,3`].join("\n");
+    const form = new FormData();
+    form.append("marketplaceId", US);
+    form.append("file", new Blob([csv], { type: "text/csv" }), "listings.csv");
+
+    const submitResponse = await fetch(`${baseUrl}/api/sku-upload/submit`, { method: "POST", body: form });
+    const submitted = await submitResponse.json();
+    expect(submitted).toMatchObject({ success: true, data: { totalItems: 2, status: "processing" } });
+    const { uploadId, feedId } = submitted.data;
+    expect(simulator.feeds.get(feedId)?.feedType).toBe("JSON_LISTINGS_FEED");
+
+    // Poll as the client does until Amazon finishes processing
+    let upload: any;
+    for (let attempt = 0; attempt < 40; attempt++) {
+      upload = (await getJson(`/api/sku-upload/${uploadId}/status`)).data;
+      if (upload.status !== "processing") break;
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+    expect(upload).toMatchObject({ status: "completed", successCount: 1, errorCount: 1 });
+
+    const details = await getJson(`/api/sku-upload/${uploadId}`);
+    const items = Object.fromEntries(details.data.items.map((item: any) => [item.sku, item]));
+    expect(items["ROUTE-TEST-001"]).toMatchObject({ status: "success", errorMessage: null });
+    expect(items[REJECTED_SKU]).toMatchObject({ status: "error", errorCode: "90220" });
+  });
+});
@@ -1,326 +1,132 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage, type SupplierOrderFilters } from "./storage";
+import { storage, type SupplierOrderFilters, type AmazonOrderFilters, type AmazonReturnFilters } from "./storage";
 import { log } from "./log";
-import { csvSkuRowSchema, csvSupplierWhitelistRowSchema, type InsertSkuItem } from "@shared/schema";
+import { getLWAAccessToken, getTokenHealth, LWA_TOKEN_ENDPOINT } from "./lwaToken";
+import { callSPAPI, getSPAPIMetrics, SP_API_ENDPOINTS, type SPAPIRegion } from "./spApi";
+import { getMarketplace, getMarketplaceParticipations, getSellerCentralUrl, isSupportedMarketplace, MARKETPLACES, type Marketplace } from "./marketplaces";
+import { getDateRange, getComparisonRanges, validateCustomDateRange, zonedTimeToUtc, type DateRange } from "./dateRanges";
+import {
+  getSalesData,
+  extractSalesMetrics,
+  compareSalesMetrics,
+  getSalesBreakdown,
+  SALES_GRANULARITIES,
+  type SalesGranularity,
+  type BreakdownDimension,
+} from "./sales";
+import {
+  getOrdersPage,
+  getOrdersSummary,
+  withOrderItems,
+  MAX_ORDERS_PAGE_SIZE,
+  type OrdersQuery,
+  type OrdersPage,
+  type OrdersSummaryJob,
+} from "./orders";
+import { syncAllOrders, getOrderSyncProgress } from "./orderSync";
+import { getUnitCosts, calculateOrderProfit, getProfitSummary } from "./profitability";
+import {
+  getOrderExportColumns,
+  resolveOrderExportColumns,
+  writeOrdersCsv,
+  writeOrdersXlsx,
+  ORDER_EXPORT_FORMATS,
+  type OrderExportFormat,
+} from "./orderExport";
+import { syncAllReturns, getReturnsSyncProgress } from "./returnsSync";
+import { refreshInventory, getInventorySyncProgress } from "./inventorySync";
+import { getInventoryHistory } from "./inventoryHistory";
+import { getRestockReport, DEFAULT_RESTOCK_SETTINGS, type RestockSettings } from "./restock";
+import { syncAllInbound, getInboundSyncProgress } from "./inboundSync";
+import { getInboundShipmentReport } from "./inboundShipments";
+import { readSkuFile, type SkuFile } from "./skuUploadFile";
+import { createFeedDocument, uploadFeedContent, createFeed } from "./feeds";
+import { checkSkuUploadFeeds, feedEvents, FEED_COMPLETED_EVENT, type FeedCompletionEvent } from "./feedPoller";
+import { getSalesDataWithSnapshots, syncAllSalesSnapshots, getSnapshotProgress, type SalesDataResult } from "./salesSnapshots";
+import { csvSkuRowSchema, csvOfferUpdateRowSchema, csvSupplierWhitelistRowSchema, amazonReturnTypeEnum, inventoryAlertTypeEnum, type InsertSkuItem, type SkuUpload, type CsvOfferUpdateRow } from "@shared/schema";
 import * as gmail from "./gmail";
 import * as emailSync from "./emailSync";
 import { isSupplierOrderEmail, extractSupplierName, extractSupplierEmail, COURIER_DOMAINS, isCourierDomain } from "./emailParser";
 
-// SP-API configuration
-const LWA_TOKEN_ENDPOINT = "https://api.amazon.com/auth/o2/token";
-const SP_API_BASE_URL_NA = "https://sellingpartnerapi-na.amazon.com";
-
-interface LWATokenResponse {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
-  refresh_token?: string;
-}
-
-interface SPAPIError {
-  errors?: Array<{
-    code: string;
-    message: string;
-    details?: string;
-  }>;
-}
-
-async function getLWAAccessToken(): Promise<string> {
-  const clientId = process.env.SP_API_CLIENT_ID;
-  const clientSecret = process.env.SP_API_CLIENT_SECRET;
-  const refreshToken = process.env.SP_API_REFRESH_TOKEN;
-
-  if (!clientId || !clientSecret || !refreshToken) {
-    throw new Error("Missing SP-API credentials. Please set SP_API_CLIENT_ID, SP_API_CLIENT_SECRET, and SP_API_REFRESH_TOKEN environment variables.");
-  }
-
-  log(`Requesting LWA token from: ${LWA_TOKEN_ENDPOINT}`, "sp-api");
-
-  const response = await fetch(LWA_TOKEN_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: new URLSearchParams({
-      grant_type: "refresh_token",
-      client_id: clientId,
-      client_secret: clientSecret,
-      refresh_token: refreshToken,
-    }),
-  });
-
-  const responseText = await response.text();
-  log(`LWA Response Status: ${response.status}`, "sp-api");
-  log(`LWA Response Headers: ${JSON.stringify(Object.fromEntries(response.headers.entries()))}`, "sp-api");
-
-  // Check if response is HTML (error page)
-  if (responseText.trim().startsWith("<!") || responseText.trim().startsWith("<html")) {
-    log(`LWA Error: Received HTML response instead of JSON`, "sp-api");
-    log(`LWA HTML Response (first 500 chars): ${responseText.substring(0, 500)}`, "sp-api");
-    throw new Error("LWA token endpoint returned HTML instead of JSON. This may indicate an incorrect endpoint URL or network issue.");
-  }
-
-  let data: LWATokenResponse;
-  try {
-    data = JSON.parse(responseText);
-  } catch (e) {
-    log(`LWA Error: Failed to parse JSON response: ${responseText.substring(0, 500)}`, "sp-api");
-    throw new Error(`Failed to parse LWA response as JSON: ${responseText.substring(0, 200)}`);
-  }
-
-  if (!response.ok) {
-    log(`LWA Error Response: ${JSON.stringify(data)}`, "sp-api");
-    throw new Error(`LWA token request failed: ${JSON.stringify(data)}`);
-  }
-
-  log(`LWA token obtained successfully`, "sp-api");
-  return data.access_token;
-}
-
-async function callSPAPI(accessToken: string, endpoint: string): Promise<any> {
-  const fullUrl = `${SP_API_BASE_URL_NA}${endpoint}`;
-  log(`Calling SP-API: ${fullUrl}`, "sp-api");
-
-  const response = await fetch(fullUrl, {
-    method: "GET",
-    headers: {
-      "x-amz-access-token": accessToken,
-      "Content-Type": "application/json",
-    },
-  });
-
-  const responseText = await response.text();
-  log(`SP-API Response Status: ${response.status}`, "sp-api");
-
-  if (responseText.trim().startsWith("<!") || responseText.trim().startsWith("<html")) {
-    log(`SP-API Error: Received HTML response instead of JSON`, "sp-api");
-    log(`SP-API HTML Response (first 500 chars): ${responseText.substring(0, 500)}`, "sp-api");
-    throw new Error("SP-API endpoint returned HTML instead of JSON.");
-  }
-
-  let data: any;
-  try {
-    data = JSON.parse(responseText);
-  } catch (e) {
-    log(`SP-API Error: Failed to parse JSON response: ${responseText.substring(0, 500)}`, "sp-api");
-    throw new Error(`Failed to parse SP-API response as JSON: ${responseText.substring(0, 200)}`);
-  }
-
-  if (!response.ok) {
-    log(`SP-API Error Response: ${JSON.stringify(data)}`, "sp-api");
-    const apiError = data as SPAPIError;
-    const errorMessage = apiError.errors?.[0]?.message || JSON.stringify(data);
-    throw new Error(`SP-API request failed (${response.status}): ${errorMessage}`);
-  }
-
-  return data;
-}
-
-async function testSPAPIConnection(accessToken: string): Promise<any> {
-  return callSPAPI(accessToken, "/sellers/v1/marketplaceParticipations");
-}
-
-function getDateRange(range: string): { startDate: string; endDate: string } {
-  // Use Pacific Time to match Amazon Seller Central's timezone
-  const now = new Date();
-  const pacificTime = new Date(now.toLocaleString("en-US", { timeZone: "America/Los_Angeles" }));
-  const endDate = pacificTime.toISOString().split("T")[0];
-  let startDate: string;
-
-  switch (range) {
-    case "today":
-      startDate = endDate;
-      break;
-    case "7days":
-      const sevenDaysAgo = new Date(pacificTime);
-      sevenDaysAgo.setDate(pacificTime.getDate() - 7);
-      startDate = sevenDaysAgo.toISOString().split("T")[0];
-      break;
-    case "30days":
-      const thirtyDaysAgo = new Date(pacificTime);
-      thirtyDaysAgo.setDate(pacificTime.getDate() - 30);
-      startDate = thirtyDaysAgo.toISOString().split("T")[0];
-      break;
-    case "60days":
-      const sixtyDaysAgo = new Date(pacificTime);
-      sixtyDaysAgo.setDate(pacificTime.getDate() - 60);
-      startDate = sixtyDaysAgo.toISOString().split("T")[0];
-      break;
-    case "ytd":
-      startDate = `${pacificTime.getFullYear()}-01-01`;
-      break;
-    case "lastyear":
-      const lastYear = pacificTime.getFullYear() - 1;
-      startDate = `${lastYear}-01-01`;
-      return { startDate, endDate: `${lastYear}-12-31` };
-    case "2years":
-      const twoYearsAgo = new Date(pacificTime);
-      twoYearsAgo.setFullYear(pacificTime.getFullYear() - 2);
-      startDate = twoYearsAgo.toISOString().split("T")[0];
-      break;
-    default:
-      startDate = endDate;
-  }
-
-  return { startDate, endDate };
+async function testSPAPIConnection(accessToken: string, region: SPAPIRegion): Promise<any> {
+  return callSPAPI(accessToken, "/sellers/v1/marketplaceParticipations", region);
 }
 
-async function getSalesData(
-  accessToken: string,
-  startDate: string,
-  endDate: string,
-  marketplaceIds: string[] = ["ATVPDKIKX0DER"] // US marketplace
-): Promise<any> {
-  // Determine if Pacific Time is currently in PST (-08:00) or PDT (-07:00)
-  const now = new Date();
-  const jan = new Date(now.getFullYear(), 0, 1);
-  const jul = new Date(now.getFullYear(), 6, 1);
-  const stdOffset = Math.max(jan.getTimezoneOffset(), jul.getTimezoneOffset());
-  const pacificDate = new Date(now.toLocaleString("en-US", { timeZone: "America/Los_Angeles" }));
-  const isDST = now.getTimezoneOffset() < stdOffset ||
-    pacificDate.toLocaleString("en-US", { timeZone: "America/Los_Angeles", timeZoneName: "short" }).includes("PDT");
-
-  // Use -07:00 for PDT (Mar-Nov) or -08:00 for PST (Nov-Mar)
-  const tzOffset = isDST ? "-07:00" : "-08:00";
-
-  const params = new URLSearchParams({
-    marketplaceIds: marketplaceIds.join(","),
-    interval: `${startDate}T00:00:00${tzOffset}--${endDate}T23:59:59${tzOffset}`,
-    granularity: "Total",
-  });
-
-  const endpoint = `/sales/v1/orderMetrics?${params.toString()}`;
-  return callSPAPI(accessToken, endpoint);
+// Resolve the marketplace a request targets (query string or JSON body)
+function getRequestMarketplace(req: { query: Record<string, any>; body?: any }): Marketplace {
+  const marketplaceId = (req.query.marketplaceId as string) || req.body?.marketplaceId;
+  return getMarketplace(marketplaceId);
 }
 
-// SP-API POST request helper
-async function callSPAPIPost(accessToken: string, endpoint: string, body: any): Promise<any> {
-  const fullUrl = `${SP_API_BASE_URL_NA}${endpoint}`;
-  log(`Calling SP-API POST: ${fullUrl}`, "sp-api");
-
-  const response = await fetch(fullUrl, {
-    method: "POST",
-    headers: {
-      "x-amz-access-token": accessToken,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(body),
-  });
-
-  const responseText = await response.text();
-  log(`SP-API POST Response Status: ${response.status}`, "sp-api");
-
-  if (responseText.trim().startsWith("<!") || responseText.trim().startsWith("<html")) {
-    log(`SP-API Error: Received HTML response instead of JSON`, "sp-api");
-    throw new Error("SP-API endpoint returned HTML instead of JSON.");
-  }
-
-  let data: any;
-  try {
-    data = JSON.parse(responseText);
-  } catch (e) {
-    log(`SP-API Error: Failed to parse JSON response: ${responseText.substring(0, 500)}`, "sp-api");
-    throw new Error(`Failed to parse SP-API response as JSON: ${responseText.substring(0, 200)}`);
-  }
-
-  if (!response.ok) {
-    log(`SP-API Error Response: ${JSON.stringify(data)}`, "sp-api");
-    const apiError = data as SPAPIError;
-    const errorMessage = apiError.errors?.[0]?.message || JSON.stringify(data);
-    throw new Error(`SP-API request failed (${response.status}): ${errorMessage}`);
+// 400 response body for a marketplaceId we can't serve, or null when it's fine
+function getMarketplaceIdError(marketplaceId: unknown): {
+  success: false;
+  error: string;
+  supportedMarketplaces: Array<{ id: string; countryCode: string; name: string }>;
+} | null {
+  if (marketplaceId === undefined || (typeof marketplaceId === "string" && isSupportedMarketplace(marketplaceId))) {
+    return null;
   }
-
-  return data;
-}
-
-// Feeds API helpers
-async function createFeedDocument(accessToken: string): Promise<{ feedDocumentId: string; url: string }> {
-  const body = {
-    contentType: "application/json; charset=UTF-8",
-  };
-
-  const result = await callSPAPIPost(accessToken, "/feeds/2021-06-30/documents", body);
   return {
-    feedDocumentId: result.feedDocumentId,
-    url: result.url,
+    success: false,
+    error: `Unsupported marketplace ID: ${String(marketplaceId)}`,
+    supportedMarketplaces: MARKETPLACES.map(({ id, countryCode, name }) => ({ id, countryCode, name })),
   };
 }
 
-async function uploadFeedContent(url: string, content: string): Promise<void> {
-  log(`Uploading feed content to pre-signed URL`, "sp-api");
-
-  const response = await fetch(url, {
-    method: "PUT",
-    headers: {
-      "Content-Type": "application/json; charset=UTF-8",
-    },
-    body: content,
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Failed to upload feed content: ${response.status} - ${text}`);
-  }
-
-  log(`Feed content uploaded successfully`, "sp-api");
+// Custom start/end dates from the query string (used when range=custom)
+function getRequestCustomRange(req: { query: Record<string, any> }): { startDate?: string; endDate?: string } {
+  return {
+    startDate: req.query.startDate as string | undefined,
+    endDate: req.query.endDate as string | undefined,
+  };
 }
 
-async function createFeed(
-  accessToken: string,
-  feedDocumentId: string,
-  marketplaceIds: string[] = ["ATVPDKIKX0DER"]
-): Promise<{ feedId: string }> {
-  const body = {
-    feedType: "JSON_LISTINGS_FEED",
-    marketplaceIds,
-    inputFeedDocumentId: feedDocumentId,
+// Local-day range for a request (range=7days|30days|...|custom) as UTC instants in the marketplace's timezone
+function getRequestInstantRange(req: { query: Record<string, any> }, marketplace: Marketplace): DateRange & {
+  start: Date;
+  end: Date;
+} {
+  const range = (req.query.range as string) || "30days";
+  const { startDate, endDate } = getDateRange(range, marketplace.timezone, getRequestCustomRange(req));
+  return {
+    startDate,
+    endDate,
+    start: zonedTimeToUtc(startDate, "00:00:00", marketplace.timezone),
+    end: zonedTimeToUtc(endDate, "23:59:59", marketplace.timezone),
   };
-
-  const result = await callSPAPIPost(accessToken, "/feeds/2021-06-30/feeds", body);
-  return { feedId: result.feedId };
 }
 
-async function getFeedStatus(accessToken: string, feedId: string): Promise<{
-  processingStatus: string;
-  resultFeedDocumentId?: string;
-}> {
-  const result = await callSPAPI(accessToken, `/feeds/2021-06-30/feeds/${feedId}`);
+// Local order store filters shared by the orders list and export
+function getRequestOrderFilters(req: { query: Record<string, any> }, marketplace: Marketplace): AmazonOrderFilters {
+  const { startDate, endDate, status, search } = req.query;
   return {
-    processingStatus: result.processingStatus,
-    resultFeedDocumentId: result.resultFeedDocumentId,
+    marketplaceId: marketplace.id,
+    status: status && status !== "all" ? (status as string) : undefined,
+    startDate: startDate ? new Date(startDate as string) : undefined,
+    endDate: endDate ? new Date(endDate as string) : undefined,
+    search: (search as string) || undefined,
   };
 }
 
-async function getFeedResultDocument(accessToken: string, feedResultDocumentId: string): Promise<any> {
-  const docInfo = await callSPAPI(accessToken, `/feeds/2021-06-30/documents/${feedResultDocumentId}`);
-
-  log(`Feed document info: ${JSON.stringify(docInfo)}`, "sp-api");
-
-  // Download the actual result from the URL
-  const response = await fetch(docInfo.url);
-  if (!response.ok) {
-    throw new Error(`Failed to download feed result: ${response.status}`);
+// Alert rule thresholds are units or days, depending on the rule type
+function validateAlertThreshold(threshold: unknown): string | null {
+  if (typeof threshold !== "number" || !Number.isInteger(threshold) || threshold < 1 || threshold > 3650) {
+    return "threshold must be a whole number between 1 and 3650";
   }
+  return null;
+}
 
-  let text: string;
-
-  // Check if the document is compressed
-  if (docInfo.compressionAlgorithm === "GZIP") {
-    const { gunzipSync } = await import("zlib");
-    const buffer = Buffer.from(await response.arrayBuffer());
-    text = gunzipSync(buffer).toString("utf-8");
-    log(`Decompressed feed result (first 500 chars): ${text.substring(0, 500)}`, "sp-api");
-  } else {
-    text = await response.text();
-    log(`Feed result (first 500 chars): ${text.substring(0, 500)}`, "sp-api");
-  }
+// fulfillment_channel_code of merchant-fulfilled availability in listings feeds
+const MERCHANT_FULFILLMENT_CHANNEL_CODE = "DEFAULT";
 
-  try {
-    return JSON.parse(text);
-  } catch {
-    return { raw: text };
-  }
+const FBA_AVAILABILITY_ERROR = "quantity and handling time can't be set on an FBA SKU, Amazon manages its inventory";
+
+// SKUs in the marketplace's cached FBA inventory. Offer updates may only reprice these.
+async function getFbaSkus(marketplaceId: string): Promise<Set<string>> {
+  const inventory = await storage.getFbaInventory(marketplaceId);
+  return new Set(inventory.map((item) => item.sellerSku));
 }
 
 // Convert SKU items to JSON_LISTINGS_FEED format
@@ -335,7 +141,7 @@ function convertToListingsFeed(items: Array<{
   batteriesRequired?: string | null;
   areBatteriesIncluded?: string | null;
   supplierDeclaredDgHzRegulation?: string | null;
-}>, sellerId: string): object {
+}>, sellerId: string, marketplace: Marketplace): object {
   const messages = items.map((item, index) => {
     const conditionMap: Record<string, string> = {
       new: "new_new",
@@ -348,37 +154,43 @@ function convertToListingsFeed(items: Array<{
       "Not Applicable": "not_applicable",
       "not applicable": "not_applicable",
       "N/A": "not_applicable",
+      "GHS": "ghs",
+      "Storage": "storage",
+      "Transportation": "transportation",
+      "Waste": "waste",
+      "Other": "other",
+      "Unknown": "unknown",
     };
 
     const attributes: Record<string, any> = {
       // Link to existing ASIN
       merchant_suggested_asin: [{
         value: item.asin,
-        marketplace_id: "ATVPDKIKX0DER",
+        marketplace_id: marketplace.id,
       }],
       condition_type: [{
         value: conditionMap[item.condition || "new"] || "new_new",
-        marketplace_id: "ATVPDKIKX0DER",
+        marketplace_id: marketplace.id,
       }],
       // FBA dangerous goods fields
       batteries_required: [{
         value: item.batteriesRequired === "true",
-        marketplace_id: "ATVPDKIKX0DER",
+        marketplace_id: marketplace.id,
       }],
       supplier_declared_dg_hz_regulation: [{
         value: dgHzMap[item.supplierDeclaredDgHzRegulation || "Not Applicable"] || "not_applicable",
-        marketplace_id: "ATVPDKIKX0DER",
+        marketplace_id: marketplace.id,
       }],
       // FBA fulfillment channel
       fulfillment_availability: [{
-        fulfillment_channel_code: "AMAZON_NA",
+        fulfillment_channel_code: marketplace.fulfillmentChannelCode,
       }],
     };
 
     if (item.price) {
       attributes.purchasable_offer = [{
-        currency: "USD",
-        marketplace_id: "ATVPDKIKX0DER",
+        currency: marketplace.currency,
+        marketplace_id: marketplace.id,
         our_price: [{
           schedule: [{
             value_with_tax: parseFloat(item.price),
@@ -401,100 +213,191 @@ function convertToListingsFeed(items: Array<{
     header: {
       sellerId,
       version: "2.0",
-      issueLocale: "en_US",
+      issueLocale: marketplace.locale,
     },
     messages,
   };
 }
 
-// Column name mappings from legacy Amazon flat files to our format
-const COLUMN_ALIASES: Record<string, string> = {
-  "product-id": "asin",
-  "product_id": "asin",
-  "productid": "asin",
-  "item-sku": "sku",
-  "item_sku": "sku",
-  "seller-sku": "sku",
-  "seller_sku": "sku",
-  "standard-price": "price",
-  "standard_price": "price",
-  "your-price": "price",
-  "your_price": "price",
-  "fulfillment-center-id": "fulfillment_center_id",
-  "batteries-required": "batteries_required",
-  "are-batteries-included": "are_batteries_included",
-  "supplier-declared-dg-hz-regulation1": "supplier_declared_dg_hz_regulation",
-  "supplier-declared-dg-hz-regulation": "supplier_declared_dg_hz_regulation",
-};
-
-// CSV/TSV parsing helper - auto-detects delimiter
-function parseDelimitedFile(content: string): { headers: string[]; rows: Record<string, string>[] } {
-  const lines = content.trim().split(/\r?\n/);
-  if (lines.length < 2) {
-    throw new Error("File must have a header row and at least one data row");
-  }
+// Convert offer updates to JSON_LISTINGS_FEED PATCH messages. The patches merge
+// into the listing's offer and merchant-fulfilled availability, so sale and
+// min/max prices, and whichever of quantity or handling time isn't set, are kept.
+function convertToOfferUpdateFeed(items: Array<{
+  sku: string;
+  price?: string | null;
+  quantity?: number | null;
+  handlingTime?: number | null;
+}>, sellerId: string, marketplace: Marketplace): object {
+  const messages = items.map((item, index) => {
+    const patches: Array<Record<string, any>> = [];
 
-  // Auto-detect delimiter: check if first line has more tabs than commas
-  const firstLine = lines[0];
-  const tabCount = (firstLine.match(/\t/g) || []).length;
-  const commaCount = (firstLine.match(/,/g) || []).length;
-  const delimiter = tabCount > commaCount ? "\t" : ",";
+    if (item.price) {
+      patches.push({
+        op: "merge",
+        path: "/attributes/purchasable_offer",
+        value: [{
+          currency: marketplace.currency,
+          marketplace_id: marketplace.id,
+          our_price: [{
+            schedule: [{
+              value_with_tax: parseFloat(item.price),
+            }],
+          }],
+        }],
+      });
+    }
 
-  // Parse headers and normalize names (apply aliases)
-  const rawHeaders = firstLine.split(delimiter).map((h) => h.trim().toLowerCase().replace(/\s+/g, "_"));
-  const headers = rawHeaders.map((h) => COLUMN_ALIASES[h] || h);
+    if (item.quantity != null || item.handlingTime != null) {
+      // Amazon owns FBA quantity, so only the merchant-fulfilled channel is set
+      const availability: Record<string, any> = {
+        fulfillment_channel_code: MERCHANT_FULFILLMENT_CHANNEL_CODE,
+      };
+      if (item.quantity != null) availability.quantity = item.quantity;
+      if (item.handlingTime != null) availability.lead_time_to_ship_max_days = item.handlingTime;
 
-  const rows: Record<string, string>[] = [];
+      patches.push({
+        op: "merge",
+        path: "/attributes/fulfillment_availability",
+        value: [availability],
+      });
+    }
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue; // Skip empty lines
+    return {
+      messageId: index + 1,
+      sku: item.sku,
+      operationType: "PATCH",
+      productType: "PRODUCT",
+      patches,
+    };
+  });
 
-    const values = line.split(delimiter).map((v) => v.trim());
-    const row: Record<string, string> = {};
-    headers.forEach((header, idx) => {
-      row[header] = values[idx] || "";
-    });
+  return {
+    header: {
+      sellerId,
+      version: "2.0",
+      issueLocale: marketplace.locale,
+    },
+    messages,
+  };
+}
 
-    // Handle product-id-type: if it's "1" or "ASIN", the product-id is an ASIN
-    if (row.asin && rawHeaders.includes("product-id-type")) {
-      const productIdType = values[rawHeaders.indexOf("product-id-type")]?.trim().toUpperCase();
-      // product-id-type: 1=ASIN, 2=ISBN, 3=UPC, 4=EAN
-      // Only use product-id as ASIN if type is 1 or "ASIN"
-      if (productIdType !== "1" && productIdType !== "ASIN") {
-        // Not an ASIN, clear it so validation fails appropriately
-        row.asin = "";
-      }
+// Build the feed body for an upload's items, by upload type
+function convertUploadItemsToFeed(
+  uploadType: string,
+  items: Parameters<typeof convertToListingsFeed>[0] & Parameters<typeof convertToOfferUpdateFeed>[0],
+  sellerId: string,
+  marketplace: Marketplace
+): object {
+  return uploadType === "offer_update"
+    ? convertToOfferUpdateFeed(items, sellerId, marketplace)
+    : convertToListingsFeed(items, sellerId, marketplace);
+}
+
+// Send an upload's items to Amazon as a JSON_LISTINGS_FEED: new offers for a
+// listing upload, PATCHes for an offer update. The upload moves to processing,
+// or to failed when any step of the submission throws.
+async function submitListingsFeed(
+  uploadId: string,
+  uploadType: string,
+  items: Parameters<typeof convertUploadItemsToFeed>[1],
+  marketplace: Marketplace
+): Promise<string> {
+  log(`Starting SKU submission for upload ${uploadId}`, "sku-upload");
+
+  try {
+    const accessToken = await getLWAAccessToken();
+
+    // Get seller ID from marketplace participations
+    const participations = await callSPAPI(accessToken, "/sellers/v1/marketplaceParticipations", marketplace.region);
+    log(`Marketplace participations response: ${JSON.stringify(participations)}`, "sku-upload");
+
+    // Try different paths where seller ID might be located
+    let sellerId = participations.payload?.[0]?.seller?.sellerId;
+
+    // Alternative paths based on different API response structures
+    if (!sellerId && participations.payload?.[0]?.participation?.sellerId) {
+      sellerId = participations.payload[0].participation.sellerId;
+    }
+    if (!sellerId && participations[0]?.seller?.sellerId) {
+      sellerId = participations[0].seller.sellerId;
+    }
+    if (!sellerId && participations[0]?.participation?.sellerId) {
+      sellerId = participations[0].participation.sellerId;
     }
 
-    rows.push(row);
-  }
+    // Check for seller ID in environment as fallback
+    if (!sellerId) {
+      sellerId = process.env.SP_API_SELLER_ID || "A1QO8EE1RAHPLZ";
+    }
+
+    if (!sellerId) {
+      throw new Error("Could not determine seller ID from SP-API. Please set SP_API_SELLER_ID environment variable.");
+    }
 
-  return { headers, rows };
+    log(`Using seller ID: ${sellerId}`, "sku-upload");
+
+    // Create feed document
+    const feedDoc = await createFeedDocument(accessToken, marketplace.region);
+    await storage.updateSkuUpload(uploadId, { feedDocumentId: feedDoc.feedDocumentId });
+
+    // Convert to JSON_LISTINGS_FEED format and upload
+    const feedContent = convertUploadItemsToFeed(uploadType, items, sellerId, marketplace);
+    await uploadFeedContent(feedDoc.url, JSON.stringify(feedContent));
+
+    // Create feed
+    const feed = await createFeed(accessToken, feedDoc.feedDocumentId, marketplace);
+    await storage.updateSkuUpload(uploadId, {
+      feedId: feed.feedId,
+      status: "processing",
+    });
+
+    log(`Feed submitted successfully: ${feed.feedId}`, "sku-upload");
+
+    return feed.feedId;
+  } catch (spApiError) {
+    const errorMessage = spApiError instanceof Error ? spApiError.message : String(spApiError);
+    await storage.updateSkuUpload(uploadId, {
+      status: "failed",
+      errorMessage,
+    });
+    throw spApiError;
+  }
 }
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  // Reject an unknown marketplaceId before any handler tries to resolve it.
+  // Multipart uploads carry theirs as a form field, checked once the file is read.
+  app.use("/api", (req, res, next) => {
+    const marketplaceError = getMarketplaceIdError(req.query.marketplaceId || req.body?.marketplaceId);
+    if (marketplaceError) {
+      return res.status(400).json(marketplaceError);
+    }
+    next();
+  });
+
   // SP-API connection test endpoint
   app.get("/api/test-connection", async (req, res) => {
     log("Starting SP-API connection test", "sp-api");
+    const region = getMarketplace().region;
 
     try {
       // Step 1: Get LWA access token
       const accessToken = await getLWAAccessToken();
 
       // Step 2: Test SP-API connection
-      const result = await testSPAPIConnection(accessToken);
+      const result = await testSPAPIConnection(accessToken, region);
 
       res.json({
         success: true,
         message: "SP-API connection successful",
         endpoints: {
           lwa: LWA_TOKEN_ENDPOINT,
-          spApi: SP_API_BASE_URL_NA,
+          spApi: SP_API_ENDPOINTS[region],
         },
+        tokenHealth: getTokenHealth(),
         data: result,
       });
     } catch (error) {
@@ -506,8 +409,36 @@ export async function registerRoutes(
         error: errorMessage,
         endpoints: {
           lwa: LWA_TOKEN_ENDPOINT,
-          spApi: SP_API_BASE_URL_NA,
+          spApi: SP_API_ENDPOINTS[region],
         },
+        tokenHealth: getTokenHealth(),
+      });
+    }
+  });
+
+  // Marketplaces: List marketplaces the seller participates in
+  app.get("/api/marketplaces", async (req, res) => {
+    try {
+      const accessToken = await getLWAAccessToken();
+      const participations = await getMarketplaceParticipations(accessToken, req.query.refresh === "true");
+      const defaultMarketplace = getMarketplace();
+
+      res.json({
+        success: true,
+        defaultMarketplaceId: defaultMarketplace.id,
+        data: participations
+          .filter((m) => m.isParticipating)
+          .map((m) => ({
+            ...m,
+            sellerCentralUrl: getSellerCentralUrl(m),
+          })),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Marketplace participations fetch failed: ${errorMessage}`, "sp-api");
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
       });
     }
   });
@@ -517,30 +448,69 @@ export async function registerRoutes(
     const range = (req.query.range as string) || "today";
     log(`Fetching sales data for range: ${range}`, "sp-api");
 
+    if (range === "custom") {
+      const rangeError = validateCustomDateRange(req.query.startDate, req.query.endDate);
+      if (rangeError) {
+        return res.status(400).json({
+          success: false,
+          error: rangeError,
+          range,
+        });
+      }
+    }
+
     try {
-      const accessToken = await getLWAAccessToken();
-      const { startDate, endDate } = getDateRange(range);
+      const marketplace = getRequestMarketplace(req);
+      const forceLive = req.query.refresh === "true";
+      const { startDate, endDate } = getDateRange(range, marketplace.timezone, getRequestCustomRange(req));
 
-      log(`Date range: ${startDate} to ${endDate}`, "sp-api");
+      log(`Date range: ${startDate} to ${endDate} (${marketplace.countryCode})`, "sp-api");
 
-      const salesData = await getSalesData(accessToken, startDate, endDate);
+      // Stored daily snapshots when they cover the range, SP-API otherwise
+      const { salesData, source, stale, fetchedAt } = await getSalesDataWithSnapshots(
+        marketplace,
+        startDate,
+        endDate,
+        "Total",
+        forceLive
+      );
+      const data = extractSalesMetrics(salesData, marketplace);
+
+      // Compare against the prior period and the same period last year (skip with compare=false)
+      let comparison = null;
+      if (req.query.compare !== "false") {
+        const ranges = getComparisonRanges(startDate, endDate);
+
+        // A failed comparison shouldn't hide the current period's numbers
+        const fetchComparison = async (period: DateRange) => {
+          try {
+            const previousData = await getSalesDataWithSnapshots(marketplace, period.startDate, period.endDate, "Total", forceLive);
+            const previous = extractSalesMetrics(previousData.salesData, marketplace);
+            return { ...period, data: previous, changes: compareSalesMetrics(data, previous) };
+          } catch (compareError) {
+            log(`Sales comparison for ${period.startDate} to ${period.endDate} failed: ${compareError}`, "sp-api");
+            return null;
+          }
+        };
 
-      // Extract the metrics from the response
-      const metrics = salesData.payload?.[0] || {};
+        const [previousPeriod, lastYear] = await Promise.all([
+          fetchComparison(ranges.previousPeriod),
+          fetchComparison(ranges.lastYear),
+        ]);
+        comparison = { previousPeriod, lastYear };
+      }
 
       res.json({
         success: true,
         range,
         startDate,
         endDate,
-        data: {
-          totalSales: metrics.totalSales?.amount || 0,
-          currency: metrics.totalSales?.currencyCode || "USD",
-          unitCount: metrics.unitCount || 0,
-          orderCount: metrics.orderCount || 0,
-          averageUnitPrice: metrics.averageSellingPrice?.amount || 0,
-          averageSellingPrice: metrics.averageUnitPrice?.amount || 0,
-        },
+        marketplaceId: marketplace.id,
+        source,
+        stale,
+        fetchedAt,
+        data,
+        comparison,
         raw: salesData,
       });
     } catch (error) {
@@ -555,139 +525,212 @@ export async function registerRoutes(
     }
   });
 
-  // Health check endpoint
-  app.get("/api/health", (req, res) => {
-    res.json({ status: "ok", timestamp: new Date().toISOString() });
-  });
-
-  // SKU Upload: Download CSV template
-  app.get("/api/sku-upload/template", (req, res) => {
-    const template = `sku,asin,price,quantity,condition,batteries_required,are_batteries_included,supplier_declared_dg_hz_regulation
-MY-SKU-001,B08N5WRWNW,19.99,100,new,false,false,Not Applicable
-MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
-
-    res.setHeader("Content-Type", "text/csv");
-    res.setHeader("Content-Disposition", "attachment; filename=sku-upload-template.csv");
-    res.send(template);
-  });
-
-  // SKU Upload: Validate CSV
-  app.post("/api/sku-upload/validate", async (req, res) => {
-    try {
-      const { csvContent } = req.body;
-
-      if (!csvContent || typeof csvContent !== "string") {
-        return res.status(400).json({
-          success: false,
-          error: "CSV content is required",
-        });
-      }
+  // Sales time series: bucketed sales, units and orders for charting
+  app.get("/api/sales/timeseries", async (req, res) => {
+    const range = (req.query.range as string) || "30days";
+    const granularity = (req.query.granularity as SalesGranularity) || "Day";
 
-      const { headers, rows } = parseDelimitedFile(csvContent);
+    if (!SALES_GRANULARITIES.includes(granularity) || granularity === "Total") {
+      return res.status(400).json({
+        success: false,
+        error: "Granularity must be one of Day, Week or Month",
+        range,
+      });
+    }
 
-      // Check required headers
-      const requiredHeaders = ["sku", "asin"];
-      const missingHeaders = requiredHeaders.filter((h) => !headers.includes(h));
-      if (missingHeaders.length > 0) {
+    if (range === "custom") {
+      const rangeError = validateCustomDateRange(req.query.startDate, req.query.endDate);
+      if (rangeError) {
         return res.status(400).json({
           success: false,
-          error: `Missing required columns: ${missingHeaders.join(", ")}`,
+          error: rangeError,
+          range,
         });
       }
+    }
 
-      // Validate each row
-      const validRows: Array<{
-        sku: string;
-        asin: string;
-        price?: string;
-        quantity?: number;
-        condition?: string;
-        batteries_required?: string;
-        are_batteries_included?: string;
-        supplier_declared_dg_hz_regulation?: string;
-      }> = [];
-      const errors: Array<{ row: number; errors: string[] }> = [];
-
-      for (let i = 0; i < rows.length; i++) {
-        const row = rows[i];
+    log(`Fetching ${granularity} sales time series for range: ${range}`, "sp-api");
 
-        // Helper to get value or undefined if empty/whitespace
-        const getVal = (val: string | undefined): string | undefined => {
-          const trimmed = val?.trim();
-          return trimmed && trimmed.length > 0 ? trimmed : undefined;
-        };
+    try {
+      const marketplace = getRequestMarketplace(req);
+      const { startDate, endDate } = getDateRange(range, marketplace.timezone, getRequestCustomRange(req));
 
-        const result = csvSkuRowSchema.safeParse({
-          sku: getVal(row.sku),
-          asin: getVal(row.asin),
-          price: getVal(row.price),
-          quantity: getVal(row.quantity) ? parseInt(row.quantity) : undefined,
-          condition: getVal(row.condition),
-          batteries_required: getVal(row.batteries_required),
-          are_batteries_included: getVal(row.are_batteries_included),
-          supplier_declared_dg_hz_regulation: getVal(row.supplier_declared_dg_hz_regulation),
-        });
+      // Optional drill-down into a single SKU or ASIN
+      const filter = {
+        sku: (req.query.sku as string) || undefined,
+        asin: (req.query.asin as string) || undefined,
+      };
 
-        if (result.success) {
-          validRows.push(result.data);
-        } else {
-          errors.push({
-            row: i + 2, // +2 for 1-indexed and header row
-            errors: result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`),
-          });
-        }
+      // Snapshots are marketplace-wide, so SKU/ASIN drill-downs always go to SP-API
+      let result: SalesDataResult;
+      if (filter.sku || filter.asin) {
+        const accessToken = await getLWAAccessToken();
+        const salesData = await getSalesData(accessToken, startDate, endDate, marketplace, granularity, filter);
+        result = { salesData, source: "live", stale: false, fetchedAt: new Date() };
+      } else {
+        result = await getSalesDataWithSnapshots(marketplace, startDate, endDate, granularity, req.query.refresh === "true");
       }
+      const intervals: any[] = result.salesData.payload || [];
 
       res.json({
         success: true,
-        data: {
-          totalRows: rows.length,
-          validRows: validRows.length,
-          errorCount: errors.length,
-          errors: errors.slice(0, 10), // Limit errors shown
-          preview: validRows.slice(0, 5),
-        },
+        range,
+        granularity,
+        startDate,
+        endDate,
+        marketplaceId: marketplace.id,
+        sku: filter.sku || null,
+        asin: filter.asin || null,
+        source: result.source,
+        stale: result.stale,
+        fetchedAt: result.fetchedAt,
+        currency: intervals[0]?.totalSales?.currencyCode || marketplace.currency,
+        data: intervals.map((interval) => ({
+          // Bucket start date, e.g. "2024-01-01T00:00-08:00--2024-01-02T00:00-08:00" -> "2024-01-01"
+          date: String(interval.interval || "").split("T")[0],
+          totalSales: Number(interval.totalSales?.amount) || 0,
+          unitCount: interval.unitCount || 0,
+          orderCount: interval.orderCount || 0,
+        })),
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      log(`CSV validation failed: ${errorMessage}`, "sku-upload");
-      res.status(400).json({
+      log(`Sales time series fetch failed: ${errorMessage}`, "sp-api");
+
+      res.status(500).json({
         success: false,
         error: errorMessage,
+        range,
       });
     }
   });
 
-  // SKU Upload: Submit to Amazon
-  app.post("/api/sku-upload/submit", async (req, res) => {
-    try {
-      const { csvContent, filename } = req.body;
+  // Sales breakdown: per-SKU or per-ASIN sales for the range, computed in the background
+  app.get("/api/sales/breakdown", async (req, res) => {
+    const range = (req.query.range as string) || "30days";
+    const dimension = (req.query.by as BreakdownDimension) || "sku";
 
-      if (!csvContent || typeof csvContent !== "string") {
+    if (dimension !== "sku" && dimension !== "asin") {
+      return res.status(400).json({
+        success: false,
+        error: "Breakdown must be by sku or asin",
+      });
+    }
+
+    if (range === "custom") {
+      const rangeError = validateCustomDateRange(req.query.startDate, req.query.endDate);
+      if (rangeError) {
         return res.status(400).json({
           success: false,
-          error: "CSV content is required",
+          error: rangeError,
+          range,
         });
       }
+    }
 
-      // Parse and validate CSV
-      const { rows } = parseDelimitedFile(csvContent);
-      const validItems: InsertSkuItem[] = [];
-      const parseErrors: string[] = [];
+    try {
+      const marketplace = getRequestMarketplace(req);
+      const dateRange = getDateRange(range, marketplace.timezone, getRequestCustomRange(req));
+      const breakdown = getSalesBreakdown(marketplace, dimension, dateRange, req.query.refresh === "true");
 
-      // Helper to get value or undefined if empty/whitespace
-      const getVal = (val: string | undefined): string | undefined => {
-        const trimmed = val?.trim();
-        return trimmed && trimmed.length > 0 ? trimmed : undefined;
-      };
+      res.json({
+        success: true,
+        range,
+        data: breakdown,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Sales breakdown failed: ${errorMessage}`, "sales");
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+        range,
+      });
+    }
+  });
 
-      for (let i = 0; i < rows.length; i++) {
-        const row = rows[i];
-        const result = csvSkuRowSchema.safeParse({
-          sku: getVal(row.sku),
-          asin: getVal(row.asin),
-          price: getVal(row.price),
-          quantity: getVal(row.quantity) ? parseInt(row.quantity) : undefined,
+  // Sales snapshots: progress of the daily snapshot job
+  app.get("/api/sales/snapshots/status", (req, res) => {
+    res.json({
+      success: true,
+      data: getSnapshotProgress(),
+    });
+  });
+
+  // Sales snapshots: run the backfill/refresh now (progress via /status)
+  app.post("/api/sales/snapshots/sync", (req, res) => {
+    if (getSnapshotProgress().isRunning) {
+      return res.status(409).json({
+        success: false,
+        error: "A sales snapshot sync is already running",
+      });
+    }
+
+    log("Manual sales snapshot sync triggered", "sales-snapshots");
+    syncAllSalesSnapshots();
+
+    res.json({
+      success: true,
+      message: "Sales snapshot sync started",
+      data: getSnapshotProgress(),
+    });
+  });
+
+  // SP-API throttling metrics per operation
+  app.get("/api/sp-api/metrics", (req, res) => {
+    res.json({
+      success: true,
+      data: getSPAPIMetrics(),
+    });
+  });
+
+  // Health check endpoint
+  app.get("/api/health", (req, res) => {
+    res.json({ status: "ok", timestamp: new Date().toISOString() });
+  });
+
+  // SKU Upload: Download CSV template
+  app.get("/api/sku-upload/template", (req, res) => {
+    const template = `sku,asin,price,quantity,condition,batteries_required,are_batteries_included,supplier_declared_dg_hz_regulation
+MY-SKU-001,B08N5WRWNW,19.99,100,new,false,false,Not Applicable
+MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
+
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader("Content-Disposition", "attachment; filename=sku-upload-template.csv");
+    res.send(template);
+  });
+
+  // SKU Upload: Validate CSV/TSV or XLSX (multipart file upload, or JSON csvContent)
+  app.post("/api/sku-upload/validate", async (req, res) => {
+    try {
+      // Only counts, the first errors and a preview are kept, so large files
+      // are validated as they stream in
+      let validCount = 0;
+      const preview: Array<{
+        sku: string;
+        asin: string;
+        price?: string;
+        quantity?: number;
+        condition?: string;
+        batteries_required?: string;
+        are_batteries_included?: string;
+        supplier_declared_dg_hz_regulation?: string;
+      }> = [];
+      const errors: Array<{ row: number; errors: string[] }> = [];
+      let errorCount = 0;
+
+      // Helper to get value or undefined if empty/whitespace
+      const getVal = (val: string | undefined): string | undefined => {
+        const trimmed = val?.trim();
+        return trimmed && trimmed.length > 0 ? trimmed : undefined;
+      };
+
+      const file = await readSkuFile(req, ["sku", "asin"], (row, rowNumber) => {
+        const result = csvSkuRowSchema.safeParse({
+          sku: getVal(row.sku),
+          asin: getVal(row.asin),
+          price: getVal(row.price),
+          quantity: getVal(row.quantity) ? parseInt(row.quantity) : undefined,
           condition: getVal(row.condition),
           batteries_required: getVal(row.batteries_required),
           are_batteries_included: getVal(row.are_batteries_included),
@@ -695,24 +738,103 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
         });
 
         if (result.success) {
-          validItems.push({
-            uploadId: "", // Will be set after creating upload record
-            sku: result.data.sku,
-            asin: result.data.asin,
-            price: result.data.price || null,
-            quantity: result.data.quantity ?? null,
-            condition: result.data.condition || "new",
-            // FBA fields - always FBA, with sensible defaults
-            fulfillmentChannel: "FBA",
-            batteriesRequired: result.data.batteries_required || "false",
-            areBatteriesIncluded: result.data.are_batteries_included || "false",
-            supplierDeclaredDgHzRegulation: result.data.supplier_declared_dg_hz_regulation || "Not Applicable",
-            status: "pending",
-          });
+          validCount++;
+          if (preview.length < 5) preview.push(result.data);
         } else {
-          parseErrors.push(`Row ${i + 2}: ${result.error.errors.map((e) => e.message).join(", ")}`);
+          errorCount++;
+          if (errors.length < 10) {
+            errors.push({
+              row: rowNumber,
+              errors: result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`),
+            });
+          }
         }
+      });
+
+      res.json({
+        success: true,
+        data: {
+          format: file.format,
+          sheetName: file.sheetName,
+          templateType: file.templateType,
+          headerRow: file.headerRow,
+          columns: file.columns,
+          totalRows: file.rowCount,
+          validRows: validCount,
+          errorCount,
+          errors, // Limited to the first 10
+          preview,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`CSV validation failed: ${errorMessage}`, "sku-upload");
+      res.status(400).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  // SKU Upload: Submit to Amazon (multipart file upload, or JSON csvContent)
+  app.post("/api/sku-upload/submit", async (req, res) => {
+    try {
+      const validItems: InsertSkuItem[] = [];
+      const parseErrors: string[] = [];
+
+      // Helper to get value or undefined if empty/whitespace
+      const getVal = (val: string | undefined): string | undefined => {
+        const trimmed = val?.trim();
+        return trimmed && trimmed.length > 0 ? trimmed : undefined;
+      };
+
+      // Parse and validate CSV
+      let file: SkuFile;
+      try {
+        file = await readSkuFile(req, ["sku", "asin"], (row, rowNumber) => {
+          const result = csvSkuRowSchema.safeParse({
+            sku: getVal(row.sku),
+            asin: getVal(row.asin),
+            price: getVal(row.price),
+            quantity: getVal(row.quantity) ? parseInt(row.quantity) : undefined,
+            condition: getVal(row.condition),
+            batteries_required: getVal(row.batteries_required),
+            are_batteries_included: getVal(row.are_batteries_included),
+            supplier_declared_dg_hz_regulation: getVal(row.supplier_declared_dg_hz_regulation),
+          });
+
+          if (result.success) {
+            validItems.push({
+              uploadId: "", // Will be set after creating upload record
+              sku: result.data.sku,
+              asin: result.data.asin,
+              price: result.data.price || null,
+              quantity: result.data.quantity ?? null,
+              condition: result.data.condition || "new",
+              // FBA fields - always FBA, with sensible defaults
+              fulfillmentChannel: "FBA",
+              batteriesRequired: result.data.batteries_required || "false",
+              areBatteriesIncluded: result.data.are_batteries_included || "false",
+              supplierDeclaredDgHzRegulation: result.data.supplier_declared_dg_hz_regulation || "Not Applicable",
+              status: "pending",
+            });
+          } else {
+            parseErrors.push(`Row ${rowNumber}: ${result.error.errors.map((e) => e.message).join(", ")}`);
+          }
+        });
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      const filename = file.fields.filename || file.filename;
+      const marketplaceError = getMarketplaceIdError(file.fields.marketplaceId);
+      if (marketplaceError) {
+        return res.status(400).json(marketplaceError);
       }
+      const marketplace = getRequestMarketplace({ query: req.query, body: file.fields });
 
       if (validItems.length === 0) {
         return res.status(400).json({
@@ -725,90 +847,226 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
       // Create upload record
       const upload = await storage.createSkuUpload({
         filename: filename || `upload-${Date.now()}.csv`,
+        marketplaceId: marketplace.id,
         status: "submitting",
         totalItems: validItems.length,
       });
 
-      // Set uploadId on items and create them
-      const itemsWithUploadId = validItems.map((item) => ({
+      // Set uploadId on items and create them, numbered as their feed messages will be
+      const itemsWithUploadId = validItems.map((item, index) => ({
         ...item,
         uploadId: upload.id,
+        messageId: index + 1,
       }));
       await storage.createSkuItems(itemsWithUploadId);
 
-      // Get seller ID from SP-API
-      log(`Starting SKU submission for upload ${upload.id}`, "sku-upload");
+      const feedId = await submitListingsFeed(upload.id, "listing", validItems, marketplace);
 
-      try {
-        const accessToken = await getLWAAccessToken();
+      res.json({
+        success: true,
+        message: `Submitted ${validItems.length} SKUs to Amazon`,
+        data: {
+          uploadId: upload.id,
+          feedId,
+          totalItems: validItems.length,
+          status: "processing",
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`SKU submission failed: ${errorMessage}`, "sku-upload");
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
 
-        // Get seller ID from marketplace participations
-        const participations = await callSPAPI(accessToken, "/sellers/v1/marketplaceParticipations");
-        log(`Marketplace participations response: ${JSON.stringify(participations)}`, "sku-upload");
+  // Offer Update: Download CSV template
+  app.get("/api/sku-update/template", (req, res) => {
+    const template = `sku,price,quantity,handling_time
+MY-SKU-001,18.99,,
+MY-SKU-002,,25,2`;
 
-        // Try different paths where seller ID might be located
-        let sellerId = participations.payload?.[0]?.seller?.sellerId;
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader("Content-Disposition", "attachment; filename=offer-update-template.csv");
+    res.send(template);
+  });
 
-        // Alternative paths based on different API response structures
-        if (!sellerId && participations.payload?.[0]?.participation?.sellerId) {
-          sellerId = participations.payload[0].participation.sellerId;
-        }
-        if (!sellerId && participations[0]?.seller?.sellerId) {
-          sellerId = participations[0].seller.sellerId;
-        }
-        if (!sellerId && participations[0]?.participation?.sellerId) {
-          sellerId = participations[0].participation.sellerId;
-        }
+  // Offer Update: Validate a price/quantity/handling time file
+  app.post("/api/sku-update/validate", async (req, res) => {
+    try {
+      let validCount = 0;
+      const preview: Array<{ sku: string; price?: string; quantity?: number; handling_time?: number }> = [];
+      const errors: Array<{ row: number; errors: string[] }> = [];
+      let errorCount = 0;
+      const parsedRows: Array<{ rowNumber: number; data: CsvOfferUpdateRow }> = [];
+
+      // Helper to get value or undefined if empty/whitespace
+      const getVal = (val: string | undefined): string | undefined => {
+        const trimmed = val?.trim();
+        return trimmed && trimmed.length > 0 ? trimmed : undefined;
+      };
+
+      const addError = (row: number, rowErrors: string[]) => {
+        errorCount++;
+        if (errors.length < 10) errors.push({ row, errors: rowErrors });
+      };
+
+      const file = await readSkuFile(req, ["sku"], (row, rowNumber) => {
+        const result = csvOfferUpdateRowSchema.safeParse({
+          sku: getVal(row.sku),
+          price: getVal(row.price),
+          quantity: getVal(row.quantity),
+          handling_time: getVal(row.handling_time),
+        });
 
-        // Check for seller ID in environment as fallback
-        if (!sellerId) {
-          sellerId = process.env.SP_API_SELLER_ID || "A1QO8EE1RAHPLZ";
+        if (result.success) {
+          parsedRows.push({ rowNumber, data: result.data });
+        } else {
+          addError(rowNumber, result.error.errors.map((e) => (e.path.length > 0 ? `${e.path.join(".")}: ${e.message}` : e.message)));
         }
+      });
+
+      const marketplaceError = getMarketplaceIdError(file.fields.marketplaceId);
+      if (marketplaceError) {
+        return res.status(400).json(marketplaceError);
+      }
+      const fbaSkus = await getFbaSkus(getRequestMarketplace({ query: req.query, body: file.fields }).id);
 
-        if (!sellerId) {
-          throw new Error("Could not determine seller ID from SP-API. Please set SP_API_SELLER_ID environment variable.");
+      for (const { rowNumber, data } of parsedRows) {
+        if (fbaSkus.has(data.sku) && (data.quantity !== undefined || data.handling_time !== undefined)) {
+          addError(rowNumber, [`${data.sku}: ${FBA_AVAILABILITY_ERROR}`]);
+          continue;
         }
+        validCount++;
+        if (preview.length < 5) preview.push(data);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          format: file.format,
+          sheetName: file.sheetName,
+          templateType: file.templateType,
+          headerRow: file.headerRow,
+          columns: file.columns,
+          totalRows: file.rowCount,
+          validRows: validCount,
+          errorCount,
+          errors, // Limited to the first 10
+          preview,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Offer update validation failed: ${errorMessage}`, "sku-upload");
+      res.status(400).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
 
-        log(`Using seller ID: ${sellerId}`, "sku-upload");
+  // Offer Update: Submit price/quantity/handling time changes as PATCH messages
+  app.post("/api/sku-update/submit", async (req, res) => {
+    try {
+      const validItems: InsertSkuItem[] = [];
+      const parsedRows: Array<{ rowNumber: number; data: CsvOfferUpdateRow }> = [];
+      const parseErrors: string[] = [];
 
-        // Create feed document
-        const feedDoc = await createFeedDocument(accessToken);
-        await storage.updateSkuUpload(upload.id, { feedDocumentId: feedDoc.feedDocumentId });
+      // Helper to get value or undefined if empty/whitespace
+      const getVal = (val: string | undefined): string | undefined => {
+        const trimmed = val?.trim();
+        return trimmed && trimmed.length > 0 ? trimmed : undefined;
+      };
 
-        // Convert to JSON_LISTINGS_FEED format and upload
-        const feedContent = convertToListingsFeed(validItems, sellerId);
-        await uploadFeedContent(feedDoc.url, JSON.stringify(feedContent));
+      let file: SkuFile;
+      try {
+        file = await readSkuFile(req, ["sku"], (row, rowNumber) => {
+          const result = csvOfferUpdateRowSchema.safeParse({
+            sku: getVal(row.sku),
+            price: getVal(row.price),
+            quantity: getVal(row.quantity),
+            handling_time: getVal(row.handling_time),
+          });
 
-        // Create feed
-        const feed = await createFeed(accessToken, feedDoc.feedDocumentId);
-        await storage.updateSkuUpload(upload.id, {
-          feedId: feed.feedId,
-          status: "processing",
+          if (result.success) {
+            parsedRows.push({ rowNumber, data: result.data });
+          } else {
+            parseErrors.push(`Row ${rowNumber}: ${result.error.errors.map((e) => e.message).join(", ")}`);
+          }
         });
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
 
-        log(`Feed submitted successfully: ${feed.feedId}`, "sku-upload");
+      const filename = file.fields.filename || file.filename;
+      const marketplaceError = getMarketplaceIdError(file.fields.marketplaceId);
+      if (marketplaceError) {
+        return res.status(400).json(marketplaceError);
+      }
+      const marketplace = getRequestMarketplace({ query: req.query, body: file.fields });
+      const fbaSkus = await getFbaSkus(marketplace.id);
 
-        res.json({
-          success: true,
-          message: `Submitted ${validItems.length} SKUs to Amazon`,
-          data: {
-            uploadId: upload.id,
-            feedId: feed.feedId,
-            totalItems: validItems.length,
-            status: "processing",
-          },
+      for (const { rowNumber, data } of parsedRows) {
+        if (fbaSkus.has(data.sku) && (data.quantity !== undefined || data.handling_time !== undefined)) {
+          parseErrors.push(`Row ${rowNumber}: ${data.sku}: ${FBA_AVAILABILITY_ERROR}`);
+          continue;
+        }
+        validItems.push({
+          uploadId: "", // Will be set after creating upload record
+          sku: data.sku,
+          asin: "", // Offer updates address the listing by SKU alone
+          price: data.price || null,
+          quantity: data.quantity ?? null,
+          handlingTime: data.handling_time ?? null,
+          status: "pending",
         });
-      } catch (spApiError) {
-        const errorMessage = spApiError instanceof Error ? spApiError.message : String(spApiError);
-        await storage.updateSkuUpload(upload.id, {
-          status: "failed",
-          errorMessage,
+      }
+
+      if (validItems.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: "No valid rows found in CSV",
+          parseErrors,
         });
-        throw spApiError;
       }
+
+      const upload = await storage.createSkuUpload({
+        filename: filename || `update-${Date.now()}.csv`,
+        marketplaceId: marketplace.id,
+        status: "submitting",
+        uploadType: "offer_update",
+        totalItems: validItems.length,
+      });
+
+      // Set uploadId on items and create them, numbered as their feed messages will be
+      const itemsWithUploadId = validItems.map((item, index) => ({
+        ...item,
+        uploadId: upload.id,
+        messageId: index + 1,
+      }));
+      await storage.createSkuItems(itemsWithUploadId);
+
+      const feedId = await submitListingsFeed(upload.id, "offer_update", validItems, marketplace);
+
+      res.json({
+        success: true,
+        message: `Submitted updates for ${validItems.length} SKUs to Amazon`,
+        data: {
+          uploadId: upload.id,
+          feedId,
+          totalItems: validItems.length,
+          status: "processing",
+        },
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      log(`SKU submission failed: ${errorMessage}`, "sku-upload");
+      log(`Offer update submission failed: ${errorMessage}`, "sku-upload");
       res.status(500).json({
         success: false,
         error: errorMessage,
@@ -850,13 +1108,30 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
         });
       }
 
-      const items = await storage.getSkuItemsByUploadId(id);
+      const [items, parent, retries] = await Promise.all([
+        storage.getSkuItemsByUploadId(id),
+        upload.parentUploadId ? storage.getSkuUpload(upload.parentUploadId) : Promise.resolve(undefined),
+        storage.getSkuUploadsByParentId(id),
+      ]);
+
+      // Just enough of the linked uploads to list and open them
+      const linkSummary = (linked: SkuUpload) => ({
+        id: linked.id,
+        filename: linked.filename,
+        status: linked.status,
+        totalItems: linked.totalItems,
+        successCount: linked.successCount,
+        errorCount: linked.errorCount,
+        createdAt: linked.createdAt,
+      });
 
       res.json({
         success: true,
         data: {
           ...upload,
           items,
+          parentUpload: parent ? linkSummary(parent) : null,
+          retries: retries.map(linkSummary),
         },
       });
     } catch (error) {
@@ -868,12 +1143,12 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
     }
   });
 
-  // SKU Upload: Check status and poll Amazon if processing
+  // SKU Upload: Check status, asking Amazon now if still processing
   app.get("/api/sku-upload/:id/status", async (req, res) => {
     try {
       const { id } = req.params;
 
-      const upload = await storage.getSkuUpload(id);
+      let upload = await storage.getSkuUpload(id);
       if (!upload) {
         return res.status(404).json({
           success: false,
@@ -881,60 +1156,10 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
         });
       }
 
-      // If still processing, check with Amazon
-      if (upload.status === "processing" && upload.feedId) {
+      // The feed poller finishes uploads on its own; this just checks sooner
+      if (upload.status === "processing") {
         try {
-          const accessToken = await getLWAAccessToken();
-          const feedStatus = await getFeedStatus(accessToken, upload.feedId);
-
-          log(`Feed ${upload.feedId} status: ${feedStatus.processingStatus}`, "sku-upload");
-
-          if (feedStatus.processingStatus === "DONE") {
-            // Get results
-            let successCount = 0;
-            let errorCount = 0;
-            let feedResultJson: string | null = null;
-
-            if (feedStatus.resultFeedDocumentId) {
-              try {
-                const results = await getFeedResultDocument(accessToken, feedStatus.resultFeedDocumentId);
-                // Store the full result JSON for download
-                feedResultJson = JSON.stringify(results, null, 2);
-                // Parse results and update item statuses
-                // The result format varies, so we'll do basic parsing
-                if (results.summary) {
-                  successCount = results.summary.messagesProcessed - (results.summary.messagesWithError || 0);
-                  errorCount = results.summary.messagesWithError || 0;
-                }
-              } catch (resultError) {
-                log(`Failed to get feed results: ${resultError}`, "sku-upload");
-              }
-            }
-
-            await storage.updateSkuUpload(id, {
-              status: "completed",
-              successCount,
-              errorCount,
-              feedResult: feedResultJson,
-            });
-
-            const updatedUpload = await storage.getSkuUpload(id);
-            return res.json({
-              success: true,
-              data: updatedUpload,
-            });
-          } else if (feedStatus.processingStatus === "FATAL" || feedStatus.processingStatus === "CANCELLED") {
-            await storage.updateSkuUpload(id, {
-              status: "failed",
-              errorMessage: `Feed processing ${feedStatus.processingStatus.toLowerCase()}`,
-            });
-
-            const updatedUpload = await storage.getSkuUpload(id);
-            return res.json({
-              success: true,
-              data: updatedUpload,
-            });
-          }
+          upload = (await checkSkuUploadFeeds(id)) ?? upload;
         } catch (spApiError) {
           log(`Failed to check feed status: ${spApiError}`, "sku-upload");
           // Don't fail the request, just return current status
@@ -954,6 +1179,26 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
     }
   });
 
+  // SKU Upload: Stream feed completion events as server-sent events
+  app.get("/api/sku-uploads/events", (req, res) => {
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+
+    const onCompleted = (event: FeedCompletionEvent) => {
+      res.write(`event: ${FEED_COMPLETED_EVENT}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+    // Comment lines keep proxies from closing an idle stream
+    const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 30000);
+
+    feedEvents.on(FEED_COMPLETED_EVENT, onCompleted);
+    req.on("close", () => {
+      clearInterval(keepAlive);
+      feedEvents.off(FEED_COMPLETED_EVENT, onCompleted);
+    });
+  });
+
   // SKU Upload: Download processing report
   app.get("/api/sku-upload/:id/report", async (req, res) => {
     try {
@@ -988,37 +1233,247 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
     }
   });
 
-  // SKU Delete: Delete single SKU (close first, then delete)
-  app.post("/api/sku/delete", async (req, res) => {
+  // SKU Upload: Resubmit failed items, with any corrections, as a new linked upload
+  app.post("/api/sku-upload/:id/resubmit", async (req, res) => {
     try {
-      const { sku } = req.body;
+      const { id } = req.params;
 
-      if (!sku || typeof sku !== "string") {
-        return res.status(400).json({
+      const parent = await storage.getSkuUpload(id);
+      if (!parent) {
+        return res.status(404).json({
           success: false,
-          error: "SKU is required",
+          error: "Upload not found",
         });
       }
 
-      log(`Closing and deleting single SKU: ${sku}`, "sku-delete");
+      const failedItems = (await storage.getSkuItemsByUploadId(id)).filter((item) => item.status === "error");
+      const retryableItems = failedItems.filter((item) => !item.resubmittedUploadId);
+      if (retryableItems.length === 0) {
+        return res.status(failedItems.length > 0 ? 409 : 400).json({
+          success: false,
+          error: failedItems.length > 0
+            ? "Every failed item of this upload has already been resubmitted"
+            : "This upload has no failed items to resubmit",
+        });
+      }
 
-      // Create upload record for tracking
-      const upload = await storage.createSkuUpload({
-        filename: `delete-${sku}`,
-        status: "submitting",
-        totalItems: 1,
-      });
+      // Without a list, every failed item not yet resubmitted goes again unchanged
+      const failedById = new Map(failedItems.map((item) => [item.id, item]));
+      const corrections: Array<Record<string, any>> = Array.isArray(req.body?.items)
+        ? req.body.items
+        : retryableItems.map((item) => ({ id: item.id }));
+
+      const fbaSkus = parent.uploadType === "offer_update" ? await getFbaSkus(parent.marketplaceId) : new Set<string>();
+
+      // Fields a correction may change; anything else would be silently dropped
+      const editableFields = parent.uploadType === "offer_update"
+        ? ["price", "quantity", "handlingTime"]
+        : ["price", "condition", "supplierDeclaredDgHzRegulation"];
+      // A corrected value, or the item's own when the correction leaves it out. Blank clears it.
+      const corrected = (value: unknown, original: string | number | null) => {
+        const result = value ?? original;
+        return result === null || String(result).trim() === "" ? undefined : result;
+      };
+
+      const retryItems: InsertSkuItem[] = [];
+      const claimedIds: string[] = [];
+      const itemErrors: string[] = [];
+
+      for (const correction of corrections) {
+        const item = failedById.get(correction.id);
+        if (!item) {
+          itemErrors.push(`Item ${correction.id} is not a failed item of this upload`);
+          continue;
+        }
+        if (item.resubmittedUploadId) {
+          itemErrors.push(`${item.sku}: already resubmitted in upload ${item.resubmittedUploadId}`);
+          continue;
+        }
+        if (claimedIds.includes(item.id)) {
+          itemErrors.push(`${item.sku}: listed more than once`);
+          continue;
+        }
+        claimedIds.push(item.id);
+        const unsupported = Object.keys(correction).filter((field) => field !== "id" && !editableFields.includes(field));
+        if (unsupported.length > 0) {
+          itemErrors.push(`${item.sku}: ${unsupported.join(", ")} cannot be corrected on this upload`);
+          continue;
+        }
+
+        const price = corrected(correction.price, item.price) as string | undefined;
+
+        // Offer updates only carry a price, quantity and handling time
+        if (parent.uploadType === "offer_update") {
+          const update = csvOfferUpdateRowSchema.safeParse({
+            sku: item.sku,
+            price,
+            quantity: corrected(correction.quantity, item.quantity),
+            handling_time: corrected(correction.handlingTime, item.handlingTime),
+          });
+          if (!update.success) {
+            itemErrors.push(`${item.sku}: ${update.error.errors.map((e) => e.message).join(", ")}`);
+            continue;
+          }
+          if (fbaSkus.has(item.sku) && (update.data.quantity !== undefined || update.data.handling_time !== undefined)) {
+            itemErrors.push(`${item.sku}: ${FBA_AVAILABILITY_ERROR}`);
+            continue;
+          }
+
+          retryItems.push({
+            uploadId: "", // Will be set after creating upload record
+            sku: update.data.sku,
+            asin: "",
+            price: update.data.price || null,
+            quantity: update.data.quantity ?? null,
+            handlingTime: update.data.handling_time ?? null,
+            status: "pending",
+          });
+          continue;
+        }
+
+        const result = csvSkuRowSchema.safeParse({
+          sku: item.sku,
+          asin: item.asin,
+          price,
+          quantity: item.quantity ?? undefined,
+          condition: (correction.condition ?? item.condition) || undefined,
+          batteries_required: item.batteriesRequired || undefined,
+          are_batteries_included: item.areBatteriesIncluded || undefined,
+          supplier_declared_dg_hz_regulation: (correction.supplierDeclaredDgHzRegulation ?? item.supplierDeclaredDgHzRegulation) || undefined,
+        });
+
+        if (!result.success) {
+          itemErrors.push(`${item.sku}: ${result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`);
+          continue;
+        }
+        if (result.data.price && !(parseFloat(result.data.price) > 0)) {
+          itemErrors.push(`${item.sku}: price: must be a positive number`);
+          continue;
+        }
+
+        retryItems.push({
+          uploadId: "", // Will be set after creating upload record
+          sku: result.data.sku,
+          asin: result.data.asin,
+          price: result.data.price || null,
+          quantity: result.data.quantity ?? null,
+          condition: result.data.condition || "new",
+          fulfillmentChannel: item.fulfillmentChannel || "FBA",
+          batteriesRequired: result.data.batteries_required || "false",
+          areBatteriesIncluded: result.data.are_batteries_included || "false",
+          supplierDeclaredDgHzRegulation: result.data.supplier_declared_dg_hz_regulation || "Not Applicable",
+          status: "pending",
+        });
+      }
+
+      if (itemErrors.length > 0 || retryItems.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: itemErrors.length > 0 ? "Some items could not be resubmitted" : "No items selected to resubmit",
+          parseErrors: itemErrors,
+        });
+      }
+
+      const marketplace = getMarketplace(parent.marketplaceId);
+      const upload = await storage.createSkuUpload({
+        filename: parent.filename,
+        marketplaceId: marketplace.id,
+        status: "submitting",
+        uploadType: parent.uploadType,
+        totalItems: retryItems.length,
+        parentUploadId: parent.id,
+      });
+
+      // Claim the failed items for this retry. A concurrent resubmit that got
+      // some of them first wins, and this upload is closed without a feed.
+      const claimed = await storage.markSkuItemsResubmitted(claimedIds, upload.id);
+      if (claimed < claimedIds.length) {
+        await storage.releaseResubmittedSkuItems(upload.id);
+        await storage.updateSkuUpload(upload.id, {
+          status: "failed",
+          errorMessage: "Items were already resubmitted by another request",
+        });
+        return res.status(409).json({
+          success: false,
+          error: "Some of these items have already been resubmitted",
+        });
+      }
+
+      let feedId: string;
+      try {
+        await storage.createSkuItems(
+          retryItems.map((item, index) => ({
+            ...item,
+            uploadId: upload.id,
+            messageId: index + 1,
+          }))
+        );
+
+        log(`Resubmitting ${retryItems.length} failed SKUs from upload ${parent.id} as upload ${upload.id}`, "sku-upload");
+        feedId = await submitListingsFeed(upload.id, parent.uploadType, retryItems, marketplace);
+      } catch (resubmitError) {
+        // Nothing reached Amazon, so close this upload and let the items be resubmitted again
+        const errorMessage = resubmitError instanceof Error ? resubmitError.message : String(resubmitError);
+        await storage.releaseResubmittedSkuItems(upload.id);
+        await storage.updateSkuUpload(upload.id, { status: "failed", errorMessage });
+        throw resubmitError;
+      }
+
+      res.json({
+        success: true,
+        message: `Resubmitted ${retryItems.length} SKUs to Amazon`,
+        data: {
+          uploadId: upload.id,
+          parentUploadId: parent.id,
+          feedId,
+          totalItems: retryItems.length,
+          status: "processing",
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`SKU resubmission failed: ${errorMessage}`, "sku-upload");
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  // SKU Delete: Delete single SKU (close first, then delete)
+  app.post("/api/sku/delete", async (req, res) => {
+    try {
+      const { sku } = req.body;
+
+      if (!sku || typeof sku !== "string") {
+        return res.status(400).json({
+          success: false,
+          error: "SKU is required",
+        });
+      }
+
+      const marketplace = getRequestMarketplace(req);
+      log(`Closing and deleting single SKU: ${sku} (${marketplace.countryCode})`, "sku-delete");
+
+      // Create upload record for tracking
+      const upload = await storage.createSkuUpload({
+        filename: `delete-${sku}`,
+        marketplaceId: marketplace.id,
+        status: "submitting",
+        uploadType: "delete",
+        totalItems: 1,
+      });
 
       const accessToken = await getLWAAccessToken();
       const sellerId = process.env.SP_API_SELLER_ID || "A1QO8EE1RAHPLZ";
 
       // Step 1: Close the listing (set quantity to 0)
-      const closeFeedDoc = await createFeedDocument(accessToken);
+      const closeFeedDoc = await createFeedDocument(accessToken, marketplace.region);
       const closeFeed = {
         header: {
           sellerId,
           version: "2.0",
-          issueLocale: "en_US",
+          issueLocale: marketplace.locale,
         },
         messages: [{
           messageId: 1,
@@ -1029,7 +1484,7 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
             op: "replace",
             path: "/attributes/fulfillment_availability",
             value: [{
-              fulfillment_channel_code: "AMAZON_NA",
+              fulfillment_channel_code: marketplace.fulfillmentChannelCode,
               quantity: 0,
             }],
           }],
@@ -1037,16 +1492,16 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
       };
 
       await uploadFeedContent(closeFeedDoc.url, JSON.stringify(closeFeed));
-      const closeResult = await createFeed(accessToken, closeFeedDoc.feedDocumentId);
+      const closeResult = await createFeed(accessToken, closeFeedDoc.feedDocumentId, marketplace);
       log(`Close feed submitted: ${closeResult.feedId}`, "sku-delete");
 
       // Step 2: Delete the listing
-      const deleteFeedDoc = await createFeedDocument(accessToken);
+      const deleteFeedDoc = await createFeedDocument(accessToken, marketplace.region);
       const deleteFeed = {
         header: {
           sellerId,
           version: "2.0",
-          issueLocale: "en_US",
+          issueLocale: marketplace.locale,
         },
         messages: [{
           messageId: 1,
@@ -1056,15 +1511,15 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
       };
 
       await uploadFeedContent(deleteFeedDoc.url, JSON.stringify(deleteFeed));
-      const deleteResult = await createFeed(accessToken, deleteFeedDoc.feedDocumentId);
+      const deleteResult = await createFeed(accessToken, deleteFeedDoc.feedDocumentId, marketplace);
       log(`Delete feed submitted: ${deleteResult.feedId}`, "sku-delete");
 
-      // Track both feeds - store close feed ID in errorMessage field temporarily for reference
+      // Track both feeds; the poller completes the upload once both are done
       await storage.updateSkuUpload(upload.id, {
         feedDocumentId: deleteFeedDoc.feedDocumentId,
         feedId: deleteResult.feedId,
+        closeFeedId: closeResult.feedId,
         status: "processing",
-        errorMessage: `Close Feed: ${closeResult.feedId}`, // Store close feed ID for reference
       });
 
       res.json({
@@ -1091,11 +1546,14 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
   app.get("/api/orders", async (req, res) => {
     try {
       const { startDate, endDate, status } = req.query;
+      const nextToken = (req.query.nextToken as string) || null;
 
       // Default to last 7 days if no dates provided
-      // SP-API requires CreatedBefore to be at least 2 minutes in the past
+      // SP-API requires CreatedBefore to be at least 2 minutes in the past. It's
+      // rounded down to 10 minutes so repeat requests share one background summary.
       const now = new Date();
-      const twoMinutesAgo = new Date(now.getTime() - 3 * 60 * 1000); // 3 minutes buffer to be safe
+      const summaryWindowMs = 10 * 60 * 1000;
+      const twoMinutesAgo = new Date(Math.floor((now.getTime() - 3 * 60 * 1000) / summaryWindowMs) * summaryWindowMs); // 3 minutes buffer to be safe
       const defaultEnd = twoMinutesAgo.toISOString();
       const defaultStart = new Date(twoMinutesAgo.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
 
@@ -1106,89 +1564,50 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
         createdBefore = twoMinutesAgo.toISOString();
       }
 
-      log(`Fetching orders from ${createdAfter} to ${createdBefore}`, "orders");
+      const pageSize = Math.min(
+        Math.max(parseInt(req.query.pageSize as string) || MAX_ORDERS_PAGE_SIZE, 1),
+        MAX_ORDERS_PAGE_SIZE
+      );
+
+      const query: OrdersQuery = {
+        createdAfter,
+        createdBefore,
+        // Add optional status filter, one status or several separated by commas
+        statuses: status && typeof status === "string" && status !== "all"
+          ? status.split(",").map((s) => s.trim()).filter(Boolean)
+          : undefined,
+        pageSize,
+      };
 
+      const marketplace = getRequestMarketplace(req);
       const accessToken = await getLWAAccessToken();
 
-      const params = new URLSearchParams({
-        MarketplaceIds: "ATVPDKIKX0DER", // US marketplace
-        CreatedAfter: createdAfter,
-        CreatedBefore: createdBefore,
-      });
-
-      // Add optional status filter
-      if (status && typeof status === "string" && status !== "all") {
-        params.set("OrderStatuses", status);
-      }
-
-      const endpoint = `/orders/v0/orders?${params.toString()}`;
-      const result = await callSPAPI(accessToken, endpoint);
-
-      const orders = result.payload?.Orders || [];
-      const hasMore = !!result.payload?.NextToken;
-
-      log(`Fetched ${orders.length} orders, hasMore: ${hasMore}`, "orders");
-
-      // Fetch order items for each order (with rate limiting)
-      const ordersWithItems = [];
-      for (const order of orders) {
-        try {
-          const itemsEndpoint = `/orders/v0/orders/${order.AmazonOrderId}/orderItems`;
-          const itemsResult = await callSPAPI(accessToken, itemsEndpoint);
-          const items = itemsResult.payload?.OrderItems || [];
-
-          // Calculate total from items if OrderTotal not available
-          const itemsTotal = items.reduce((sum: number, item: any) => {
-            return sum + (Number(item.ItemPrice?.Amount) || 0);
-          }, 0);
-
-          ordersWithItems.push({
-            ...order,
-            calculatedTotal: itemsTotal,
-            items: items.map((item: any) => ({
-              asin: item.ASIN,
-              sku: item.SellerSKU,
-              title: item.Title,
-              quantity: item.QuantityOrdered,
-              itemPrice: item.ItemPrice?.Amount,
-            })),
-          });
+      // Only the requested page is fetched here. The summary covers every page,
+      // which can take minutes at getOrders' rate limit, so a background job walks
+      // them and the client polls the first page until its status is "ready".
+      let summaryJob: OrdersSummaryJob | null = null;
 
-          // Small delay to avoid rate limits
-          await new Promise(resolve => setTimeout(resolve, 100));
-        } catch (itemError) {
-          // If we can't get items, still include the order without items
-          log(`Failed to fetch items for order ${order.AmazonOrderId}: ${itemError}`, "orders");
-          ordersWithItems.push({ ...order, items: [] });
-        }
+      if (nextToken) {
+        log(`Fetching next page of ${marketplace.countryCode} orders`, "orders");
+      } else {
+        log(`Fetching ${marketplace.countryCode} orders from ${createdAfter} to ${createdBefore}`, "orders");
+        summaryJob = getOrdersSummary(marketplace, query, req.query.refresh === "true");
       }
 
-      // Calculate summary stats
-      const totalOrders = ordersWithItems.length;
-      const pendingOrders = ordersWithItems.filter((o: any) => o.OrderStatus === "Pending").length;
-      const shippedOrders = ordersWithItems.filter((o: any) => o.OrderStatus === "Shipped").length;
-      const canceledOrders = ordersWithItems.filter((o: any) => o.OrderStatus === "Canceled").length;
-      const unshippedOrders = ordersWithItems.filter((o: any) => o.OrderStatus === "Unshipped").length;
+      const page: OrdersPage = await getOrdersPage(accessToken, marketplace, query, nextToken);
+      const ordersWithItems = await withOrderItems(accessToken, marketplace, page.orders);
 
-      // Calculate total revenue from orders (use calculated total as fallback)
-      const totalRevenue = ordersWithItems.reduce((sum: number, order: any) => {
-        const amount = Number(order.OrderTotal?.Amount ?? order.calculatedTotal ?? 0);
-        return sum + amount;
-      }, 0);
+      log(`Fetched ${page.orders.length} orders, hasMore: ${!!page.nextToken}`, "orders");
 
       res.json({
         success: true,
         data: {
-          summary: {
-            totalOrders,
-            pendingOrders,
-            unshippedOrders,
-            shippedOrders,
-            canceledOrders,
-            totalRevenue,
-            currency: ordersWithItems[0]?.OrderTotal?.CurrencyCode || "USD",
-            hasMore,
-          },
+          // Only on the first page: the summary once ready, and the job's progress meanwhile
+          summary: summaryJob?.summary ?? null,
+          summaryStatus: summaryJob
+            ? { status: summaryJob.status, progress: summaryJob.progress, error: summaryJob.error }
+            : null,
+          nextToken: page.nextToken,
           orders: ordersWithItems.map((order: any) => ({
             orderId: order.AmazonOrderId,
             purchaseDate: order.PurchaseDate,
@@ -1197,7 +1616,7 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
             fulfillmentChannel: order.FulfillmentChannel,
             salesChannel: order.SalesChannel,
             orderTotal: order.OrderTotal?.Amount ?? order.calculatedTotal ?? null,
-            currency: order.OrderTotal?.CurrencyCode || "USD",
+            currency: order.OrderTotal?.CurrencyCode || marketplace.currency,
             numberOfItems: order.NumberOfItemsShipped + order.NumberOfItemsUnshipped,
             itemsShipped: order.NumberOfItemsShipped,
             itemsUnshipped: order.NumberOfItemsUnshipped,
@@ -1221,79 +1640,435 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
     }
   });
 
-  // Inventory: Get FBA inventory summaries (single page to avoid rate limits)
+  // Local order store: filter, sort and search synced orders without calling SP-API
+  app.get("/api/amazon-orders", async (req, res) => {
+    try {
+      const { sortBy, sortDirection, limit, offset } = req.query;
+      const marketplace = getRequestMarketplace(req);
+      const filters = getRequestOrderFilters(req, marketplace);
+
+      const [{ orders, total }, summary, syncState, unitCosts] = await Promise.all([
+        storage.getAmazonOrders({
+          ...filters,
+          sortBy: sortBy as AmazonOrderFilters["sortBy"],
+          sortDirection: sortDirection === "asc" ? "asc" : "desc",
+          limit: limit ? parseInt(limit as string) : 100,
+          offset: offset ? parseInt(offset as string) : 0,
+        }),
+        storage.getAmazonOrderStats(filters),
+        storage.getAmazonOrderSyncState(marketplace.id),
+        getUnitCosts(),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          summary: { ...summary, currency: marketplace.currency },
+          total,
+          syncState: syncState ?? null,
+          orders: orders.map((order) => ({
+            orderId: order.amazonOrderId,
+            purchaseDate: order.purchaseDate,
+            lastUpdateDate: order.lastUpdateDate,
+            orderStatus: order.orderStatus,
+            fulfillmentChannel: order.fulfillmentChannel,
+            salesChannel: order.salesChannel,
+            orderTotal: order.orderTotal !== null
+              ? Number(order.orderTotal)
+              : order.itemsTotal !== null ? Number(order.itemsTotal) : null,
+            currency: order.currency || marketplace.currency,
+            numberOfItems: order.numberOfItemsShipped + order.numberOfItemsUnshipped,
+            itemsShipped: order.numberOfItemsShipped,
+            itemsUnshipped: order.numberOfItemsUnshipped,
+            paymentMethod: order.paymentMethod,
+            isPrime: order.isPrime,
+            isBusinessOrder: order.isBusinessOrder,
+            shipCity: order.shipCity,
+            shipState: order.shipState,
+            shipPostalCode: order.shipPostalCode,
+            items: order.items.map((item) => ({
+              asin: item.asin,
+              sku: item.sku,
+              title: item.title,
+              quantity: item.quantityOrdered,
+              itemPrice: item.itemPrice !== null ? Number(item.itemPrice) : null,
+            })),
+            profit: calculateOrderProfit(order, unitCosts, marketplace.currency),
+          })),
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Local orders query failed: ${errorMessage}`, "orders");
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  // Local order store: columns available to the export
+  app.get("/api/amazon-orders/export/columns", (req, res) => {
+    res.json({
+      success: true,
+      data: getOrderExportColumns(),
+    });
+  });
+
+  // Local order store: stream the filtered orders as CSV or XLSX
+  app.get("/api/amazon-orders/export", async (req, res) => {
+    const format = ((req.query.format as string) || "csv").toLowerCase();
+    if (!ORDER_EXPORT_FORMATS.includes(format as OrderExportFormat)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unsupported export format "${format}". Use one of: ${ORDER_EXPORT_FORMATS.join(", ")}`,
+      });
+    }
+
+    const columnKeys = req.query.columns
+      ? (req.query.columns as string).split(",").map((key) => key.trim()).filter(Boolean)
+      : undefined;
+    const resolved = resolveOrderExportColumns(columnKeys);
+    if ("unknown" in resolved) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown export columns: ${resolved.unknown.join(", ")}`,
+      });
+    }
+
+    const { sortBy, sortDirection } = req.query;
+    const marketplace = getRequestMarketplace(req);
+    const filters: AmazonOrderFilters = {
+      ...getRequestOrderFilters(req, marketplace),
+      sortBy: sortBy as AmazonOrderFilters["sortBy"],
+      sortDirection: sortDirection === "asc" ? "asc" : "desc",
+    };
+
+    const filename = `orders-${marketplace.countryCode.toLowerCase()}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader("Content-Type", format === "xlsx"
+      ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      : "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+
+    try {
+      const write = format === "xlsx" ? writeOrdersXlsx : writeOrdersCsv;
+      const rowCount = await write(res, filters, resolved.columns, marketplace.currency);
+      log(`Exported ${rowCount} ${marketplace.countryCode} order rows as ${format.toUpperCase()}`, "orders");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Order export failed: ${errorMessage}`, "orders");
+      // Once rows are streaming the status is already sent; cut the download short instead
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : new Error(errorMessage));
+      } else {
+        res.removeHeader("Content-Disposition");
+        res.status(500).json({
+          success: false,
+          error: errorMessage,
+        });
+      }
+    }
+  });
+
+  // Local order store: sync progress and per-marketplace cursors
+  app.get("/api/amazon-orders/sync-status", async (req, res) => {
+    try {
+      const states = await storage.getAllAmazonOrderSyncStates();
+      res.json({
+        success: true,
+        data: {
+          progress: getOrderSyncProgress(),
+          marketplaces: states,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  // Local order store: pull changed orders now (progress via /sync-status)
+  app.post("/api/amazon-orders/sync", (req, res) => {
+    if (getOrderSyncProgress().isRunning) {
+      return res.status(409).json({
+        success: false,
+        error: "An order sync is already running",
+      });
+    }
+
+    log("Manual order sync triggered", "order-sync");
+    syncAllOrders();
+
+    res.json({
+      success: true,
+      message: "Order sync started",
+      data: getOrderSyncProgress(),
+    });
+  });
+
+  // Profitability: revenue, Amazon fees, cost of goods and net profit for a date range, with a per-SKU breakdown
+  app.get("/api/profit/summary", async (req, res) => {
+    const range = (req.query.range as string) || "30days";
+
+    if (range === "custom") {
+      const rangeError = validateCustomDateRange(req.query.startDate, req.query.endDate);
+      if (rangeError) {
+        return res.status(400).json({
+          success: false,
+          error: rangeError,
+          range,
+        });
+      }
+    }
+
+    try {
+      const marketplace = getRequestMarketplace(req);
+      const { startDate, endDate, start, end } = getRequestInstantRange(req, marketplace);
+      const summary = await getProfitSummary(
+        { marketplaceId: marketplace.id, startDate: start, endDate: end },
+        marketplace.currency
+      );
+
+      res.json({
+        success: true,
+        range,
+        data: {
+          ...summary,
+          startDate,
+          endDate,
+          currency: marketplace.currency,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Profit summary failed: ${errorMessage}`, "profit");
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+        range,
+      });
+    }
+  });
+
+  // Returns: return rate, reasons and refunds per SKU for a date range
+  app.get("/api/returns/summary", async (req, res) => {
+    const range = (req.query.range as string) || "30days";
+
+    if (range === "custom") {
+      const rangeError = validateCustomDateRange(req.query.startDate, req.query.endDate);
+      if (rangeError) {
+        return res.status(400).json({
+          success: false,
+          error: rangeError,
+          range,
+        });
+      }
+    }
+
+    try {
+      const marketplace = getRequestMarketplace(req);
+      const { startDate, endDate, start, end } = getRequestInstantRange(req, marketplace);
+      const filters: AmazonReturnFilters = { marketplaceId: marketplace.id, startDate: start, endDate: end };
+
+      const [skuStats, reasons] = await Promise.all([
+        storage.getAmazonReturnSkuStats(filters),
+        storage.getAmazonReturnReasonStats(filters),
+      ]);
+
+      const returnRate = (returned: number, sold: number) =>
+        sold > 0 ? Math.round((returned / sold) * 1000) / 10 : null;
+
+      const totals = skuStats.reduce(
+        (sum, sku) => ({
+          unitsSold: sum.unitsSold + sku.unitsSold,
+          unitsReturned: sum.unitsReturned + sku.unitsReturned,
+          returnCount: sum.returnCount + sku.returnCount,
+          refundCount: sum.refundCount + sku.refundCount,
+          refundedAmount: sum.refundedAmount + sku.refundedAmount,
+        }),
+        { unitsSold: 0, unitsReturned: 0, returnCount: 0, refundCount: 0, refundedAmount: 0 }
+      );
+
+      res.json({
+        success: true,
+        range,
+        data: {
+          startDate,
+          endDate,
+          currency: marketplace.currency,
+          summary: {
+            ...totals,
+            refundedAmount: Math.round(totals.refundedAmount * 100) / 100,
+            returnRate: returnRate(totals.unitsReturned, totals.unitsSold),
+          },
+          reasons,
+          // Only SKUs with returns or refunds; the rest are in unitsSold above
+          skus: skuStats
+            .filter((sku) => sku.returnCount > 0 || sku.refundCount > 0)
+            .map((sku) => ({ ...sku, returnRate: returnRate(sku.unitsReturned, sku.unitsSold) })),
+          syncProgress: getReturnsSyncProgress(),
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Returns summary failed: ${errorMessage}`, "returns");
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+        range,
+      });
+    }
+  });
+
+  // Returns: individual returns and refunds, newest first
+  app.get("/api/returns", async (req, res) => {
+    const range = (req.query.range as string) || "30days";
+
+    if (range === "custom") {
+      const rangeError = validateCustomDateRange(req.query.startDate, req.query.endDate);
+      if (rangeError) {
+        return res.status(400).json({
+          success: false,
+          error: rangeError,
+          range,
+        });
+      }
+    }
+
+    try {
+      const { type, sku, search, limit, offset } = req.query;
+      const marketplace = getRequestMarketplace(req);
+      const { start, end } = getRequestInstantRange(req, marketplace);
+      const parsedType = amazonReturnTypeEnum.safeParse(type);
+
+      const { returns, total } = await storage.getAmazonReturns({
+        marketplaceId: marketplace.id,
+        type: parsedType.success ? parsedType.data : undefined,
+        sku: (sku as string) || undefined,
+        search: (search as string) || undefined,
+        startDate: start,
+        endDate: end,
+        limit: limit ? parseInt(limit as string) : 100,
+        offset: offset ? parseInt(offset as string) : 0,
+      });
+
+      res.json({
+        success: true,
+        range,
+        data: {
+          total,
+          returns: returns.map((r) => ({
+            id: r.id,
+            type: r.type,
+            orderId: r.amazonOrderId,
+            sku: r.sku,
+            asin: r.asin,
+            productName: r.productName,
+            quantity: r.quantity,
+            eventDate: r.eventDate,
+            reason: r.reason,
+            disposition: r.disposition,
+            status: r.status,
+            customerComments: r.customerComments,
+            refundAmount: r.refundAmount !== null ? Number(r.refundAmount) : null,
+            currency: r.currency || marketplace.currency,
+          })),
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Returns query failed: ${errorMessage}`, "returns");
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+        range,
+      });
+    }
+  });
+
+  // Returns: sync progress
+  app.get("/api/returns/sync-status", (req, res) => {
+    res.json({
+      success: true,
+      data: getReturnsSyncProgress(),
+    });
+  });
+
+  // Returns: pull returns and refunds now (progress via /sync-status)
+  app.post("/api/returns/sync", (req, res) => {
+    if (getReturnsSyncProgress().isRunning) {
+      return res.status(409).json({
+        success: false,
+        error: "A returns sync is already running",
+      });
+    }
+
+    log("Manual returns sync triggered", "returns");
+    syncAllReturns();
+
+    res.json({
+      success: true,
+      message: "Returns sync started",
+      data: getReturnsSyncProgress(),
+    });
+  });
+
+  // Inventory: FBA inventory for the whole catalog, served from the local cache
   app.get("/api/inventory", async (req, res) => {
     try {
-      log("Fetching inventory data from SP-API", "inventory");
+      const marketplace = getRequestMarketplace(req);
+      const syncState = await storage.getFbaInventorySyncState(marketplace.id);
+
+      // Nothing cached yet for this marketplace, so start pulling it and answer
+      // "syncing" until it lands. A failed first pull waits for a manual refresh.
+      if (!syncState?.lastSyncAt && syncState?.status !== "failed" && !getInventorySyncProgress().isRunning) {
+        log(`No cached ${marketplace.countryCode} inventory, refreshing from SP-API`, "inventory");
+        refreshInventory([marketplace]);
+      }
 
-      const accessToken = await getLWAAccessToken();
+      const isRefreshing = getInventorySyncProgress().isRunning;
+      const status = syncState?.lastSyncAt ? "ready" : isRefreshing ? "syncing" : "failed";
+      const inventory = await storage.getFbaInventory(marketplace.id);
 
-      const params = new URLSearchParams({
-        granularityType: "Marketplace",
-        granularityId: "ATVPDKIKX0DER", // US marketplace
-        marketplaceIds: "ATVPDKIKX0DER",
-        details: "true",
-      });
-
-      const endpoint = `/fba/inventory/v1/summaries?${params.toString()}`;
-      const result = await callSPAPI(accessToken, endpoint);
-
-      const inventory = result.payload?.inventorySummaries || [];
-      const hasMore = !!result.pagination?.nextToken;
-
-      log(`Fetched ${inventory.length} items, hasMore: ${hasMore}`, "inventory");
-
-      // Calculate summary stats for this page
-      const pageCount = inventory.length;
-      const activeOnPage = inventory.filter((item: any) => {
-        const qty = Number(item.inventoryDetails?.fulfillableQuantity) || 0;
-        return qty > 0;
-      }).length;
-      const inactiveOnPage = pageCount - activeOnPage;
-      const totalFulfillable = inventory.reduce((sum: number, item: any) => {
-        return sum + (Number(item.inventoryDetails?.fulfillableQuantity) || 0);
-      }, 0);
-      const totalInbound = inventory.reduce((sum: number, item: any) => {
-        const working = Number(item.inventoryDetails?.inboundWorkingQuantity) || 0;
-        const shipped = Number(item.inventoryDetails?.inboundShippedQuantity) || 0;
-        const receiving = Number(item.inventoryDetails?.inboundReceivingQuantity) || 0;
-        return sum + working + shipped + receiving;
-      }, 0);
-      const totalUnfulfillable = inventory.reduce((sum: number, item: any) => {
-        return sum + (Number(item.inventoryDetails?.unfulfillableQuantity) || 0);
-      }, 0);
-      const totalReserved = inventory.reduce((sum: number, item: any) => {
-        return sum + (Number(item.inventoryDetails?.reservedQuantity?.totalReservedQuantity) || 0);
-      }, 0);
+      const activeItems = inventory.filter((item) => item.fulfillableQuantity > 0).length;
+      const sum = (quantity: (item: typeof inventory[number]) => number) =>
+        inventory.reduce((total, item) => total + quantity(item), 0);
 
       res.json({
         success: true,
         data: {
           summary: {
-            totalItems: pageCount,
-            activeItems: activeOnPage,
-            inactiveItems: inactiveOnPage,
-            totalFulfillable,
-            totalInbound,
-            totalUnfulfillable,
-            totalReserved,
-            hasMore, // indicates there are more SKUs beyond this page
+            totalItems: inventory.length,
+            activeItems,
+            inactiveItems: inventory.length - activeItems,
+            totalFulfillable: sum((item) => item.fulfillableQuantity),
+            totalInbound: sum((item) => item.inboundWorking + item.inboundShipped + item.inboundReceiving),
+            totalUnfulfillable: sum((item) => item.unfulfillableQuantity),
+            totalReserved: sum((item) => item.reservedQuantity),
           },
-          inventory: inventory.map((item: any) => ({
+          status,
+          refreshedAt: syncState?.lastSyncAt ?? null,
+          refreshStatus: syncState?.status ?? null,
+          refreshError: syncState?.errorMessage ?? null,
+          isRefreshing,
+          inventory: inventory.map((item) => ({
             asin: item.asin,
             fnSku: item.fnSku,
             sellerSku: item.sellerSku,
             productName: item.productName,
             condition: item.condition,
             lastUpdatedTime: item.lastUpdatedTime,
-            totalQuantity: Number(item.totalQuantity) || 0,
-            fulfillableQuantity: Number(item.inventoryDetails?.fulfillableQuantity) || 0,
-            inboundWorking: Number(item.inventoryDetails?.inboundWorkingQuantity) || 0,
-            inboundShipped: Number(item.inventoryDetails?.inboundShippedQuantity) || 0,
-            inboundReceiving: Number(item.inventoryDetails?.inboundReceivingQuantity) || 0,
-            reservedQuantity: Number(item.inventoryDetails?.reservedQuantity?.totalReservedQuantity) || 0,
-            unfulfillableQuantity: Number(item.inventoryDetails?.unfulfillableQuantity) || 0,
-            researchingQuantity: Number(item.inventoryDetails?.researchingQuantity) || 0,
+            totalQuantity: item.totalQuantity,
+            fulfillableQuantity: item.fulfillableQuantity,
+            inboundWorking: item.inboundWorking,
+            inboundShipped: item.inboundShipped,
+            inboundReceiving: item.inboundReceiving,
+            reservedQuantity: item.reservedQuantity,
+            unfulfillableQuantity: item.unfulfillableQuantity,
+            researchingQuantity: item.researchingQuantity,
           })),
         },
       });
@@ -1307,31 +2082,379 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
     }
   });
 
-  // SKU Delete: Bulk delete via CSV (close first, then delete)
-  app.post("/api/sku/delete-bulk", async (req, res) => {
+  // Inventory: one SKU's daily quantities, stockouts and inbound lead times
+  app.get("/api/inventory/history", async (req, res) => {
+    const range = (req.query.range as string) || "60days";
+    const sku = req.query.sku as string | undefined;
+
+    if (!sku) {
+      return res.status(400).json({
+        success: false,
+        error: "sku is required",
+        range,
+      });
+    }
+
+    if (range === "custom") {
+      const rangeError = validateCustomDateRange(req.query.startDate, req.query.endDate);
+      if (rangeError) {
+        return res.status(400).json({
+          success: false,
+          error: rangeError,
+          range,
+        });
+      }
+    }
+
     try {
-      const { csvContent, filename } = req.body;
+      const marketplace = getRequestMarketplace(req);
+      const { startDate, endDate } = getDateRange(range, marketplace.timezone, getRequestCustomRange(req));
+      const history = await getInventoryHistory(marketplace.id, sku, startDate, endDate);
 
-      if (!csvContent || typeof csvContent !== "string") {
+      res.json({
+        success: true,
+        range,
+        data: {
+          sku,
+          startDate,
+          endDate,
+          ...history,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Inventory history failed: ${errorMessage}`, "inventory");
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+        range,
+      });
+    }
+  });
+
+  // Inventory: refresh progress
+  app.get("/api/inventory/sync-status", (req, res) => {
+    res.json({
+      success: true,
+      data: getInventorySyncProgress(),
+    });
+  });
+
+  // Inventory: re-pull a marketplace's full catalog now (progress via /sync-status)
+  app.post("/api/inventory/refresh", (req, res) => {
+    if (getInventorySyncProgress().isRunning) {
+      return res.status(409).json({
+        success: false,
+        error: "An inventory refresh is already running",
+      });
+    }
+
+    const marketplace = getRequestMarketplace(req);
+    log(`Manual ${marketplace.countryCode} inventory refresh triggered`, "inventory");
+    refreshInventory([marketplace]);
+
+    res.json({
+      success: true,
+      message: "Inventory refresh started",
+      data: getInventorySyncProgress(),
+    });
+  });
+
+  // Inventory: open alerts for a marketplace, newest first
+  app.get("/api/inventory/alerts", async (req, res) => {
+    try {
+      const marketplace = getRequestMarketplace(req);
+      const alerts = await storage.getOpenInventoryAlerts(marketplace.id);
+
+      res.json({
+        success: true,
+        data: alerts,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  // Inventory: hide an alert until it resolves and triggers again
+  app.post("/api/inventory/alerts/:id/dismiss", async (req, res) => {
+    try {
+      const alert = await storage.dismissInventoryAlert(req.params.id);
+
+      if (!alert) {
+        return res.status(404).json({
+          success: false,
+          error: "Alert not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        data: alert,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  // Inventory: alert rules, checked after each inventory refresh
+  app.get("/api/inventory/alert-rules", async (req, res) => {
+    try {
+      const rules = await storage.getInventoryAlertRules();
+      res.json({
+        success: true,
+        data: rules,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  app.post("/api/inventory/alert-rules", async (req, res) => {
+    try {
+      const { type, threshold, isActive } = req.body;
+      const parsedType = inventoryAlertTypeEnum.safeParse(type);
+
+      if (!parsedType.success) {
         return res.status(400).json({
           success: false,
-          error: "CSV content is required",
+          error: `type must be one of: ${inventoryAlertTypeEnum.options.join(", ")}`,
         });
       }
 
-      // Parse CSV - only need SKU column
-      const { headers, rows } = parseDelimitedFile(csvContent);
+      const thresholdError = validateAlertThreshold(threshold);
+      if (thresholdError) {
+        return res.status(400).json({
+          success: false,
+          error: thresholdError,
+        });
+      }
+
+      const rule = await storage.createInventoryAlertRule({
+        type: parsedType.data,
+        threshold,
+        isActive: isActive ?? true,
+      });
 
-      if (!headers.includes("sku")) {
+      log(`Created ${rule.type} inventory alert rule (threshold ${rule.threshold})`, "inventory");
+
+      res.json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  app.patch("/api/inventory/alert-rules/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { threshold, isActive } = req.body;
+
+      const updates: Record<string, any> = {};
+      if (threshold !== undefined) {
+        const thresholdError = validateAlertThreshold(threshold);
+        if (thresholdError) {
+          return res.status(400).json({
+            success: false,
+            error: thresholdError,
+          });
+        }
+        updates.threshold = threshold;
+      }
+      if (isActive !== undefined) updates.isActive = !!isActive;
+
+      const rule = await storage.updateInventoryAlertRule(id, updates);
+
+      if (!rule) {
+        return res.status(404).json({
+          success: false,
+          error: "Alert rule not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  app.delete("/api/inventory/alert-rules/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteInventoryAlertRule(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: "Alert rule not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Alert rule deleted",
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  // Restock: days of cover, reorder point and order quantity for every cached SKU
+  app.get("/api/restock", async (req, res) => {
+    const settings: RestockSettings = { ...DEFAULT_RESTOCK_SETTINGS };
+    const params: [keyof RestockSettings, string][] = [
+      ["velocityDays", "velocityDays"],
+      ["safetyDays", "safetyDays"],
+      ["targetDays", "targetDays"],
+      ["defaultLeadTimeDays", "leadTimeDays"],
+    ];
+
+    for (const [key, param] of params) {
+      if (req.query[param] === undefined) continue;
+      const value = Number(req.query[param]);
+      // Safety stock can be switched off; every other window needs at least a day
+      const min = key === "safetyDays" ? 0 : 1;
+      if (!Number.isInteger(value) || value < min || value > 365) {
+        return res.status(400).json({
+          success: false,
+          error: `${param} must be a whole number of days between ${min} and 365`,
+        });
+      }
+      settings[key] = value;
+    }
+
+    try {
+      const marketplace = getRequestMarketplace(req);
+      const report = await getRestockReport(marketplace, settings);
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Restock report failed: ${errorMessage}`, "restock");
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  // Inbound shipments: FBA shipments with plan, per-SKU received quantities and supplier orders
+  app.get("/api/inbound/shipments", async (req, res) => {
+    try {
+      const marketplace = getRequestMarketplace(req);
+      const status = (req.query.status as string) || undefined;
+      const [report, syncState] = await Promise.all([
+        getInboundShipmentReport(marketplace.id, status),
+        storage.getFbaInboundSyncState(marketplace.id),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          ...report,
+          syncedAt: syncState?.lastSyncAt ?? null,
+          syncStatus: syncState?.status ?? null,
+          syncError: syncState?.errorMessage ?? null,
+          isSyncing: getInboundSyncProgress().isRunning,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log(`Inbound shipments fetch failed: ${errorMessage}`, "inbound-sync");
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  // Inbound shipments: sync progress and per-marketplace cursors
+  app.get("/api/inbound/sync-status", async (req, res) => {
+    try {
+      const states = await storage.getAllFbaInboundSyncStates();
+      res.json({
+        success: true,
+        data: {
+          progress: getInboundSyncProgress(),
+          marketplaces: states,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      res.status(500).json({
+        success: false,
+        error: errorMessage,
+      });
+    }
+  });
+
+  // Inbound shipments: pull changed shipments and plans now (progress via /sync-status)
+  app.post("/api/inbound/sync", (req, res) => {
+    if (getInboundSyncProgress().isRunning) {
+      return res.status(409).json({
+        success: false,
+        error: "An inbound shipment sync is already running",
+      });
+    }
+
+    log("Manual inbound shipment sync triggered", "inbound-sync");
+    syncAllInbound();
+
+    res.json({
+      success: true,
+      message: "Inbound shipment sync started",
+      data: getInboundSyncProgress(),
+    });
+  });
+
+  // SKU Delete: Bulk delete via CSV (close first, then delete)
+  app.post("/api/sku/delete-bulk", async (req, res) => {
+    try {
+      // Parse CSV - only need SKU column
+      const skus: string[] = [];
+      let file: SkuFile;
+      try {
+        file = await readSkuFile(req, ["sku"], (row) => {
+          if (row.sku) skus.push(row.sku);
+        });
+      } catch (error) {
         return res.status(400).json({
           success: false,
-          error: "CSV must have a 'sku' column",
+          error: error instanceof Error ? error.message : String(error),
         });
       }
 
-      const skus = rows
-        .map((row) => row.sku?.trim())
-        .filter((sku) => sku && sku.length > 0);
+      const filename = file.fields.filename || file.filename;
 
       if (skus.length === 0) {
         return res.status(400).json({
@@ -1340,12 +2463,19 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
         });
       }
 
-      log(`Bulk closing and deleting ${skus.length} SKUs`, "sku-delete");
+      const marketplaceError = getMarketplaceIdError(file.fields.marketplaceId);
+      if (marketplaceError) {
+        return res.status(400).json(marketplaceError);
+      }
+      const marketplace = getRequestMarketplace({ query: req.query, body: file.fields });
+      log(`Bulk closing and deleting ${skus.length} SKUs (${marketplace.countryCode})`, "sku-delete");
 
       // Create upload record for tracking
       const upload = await storage.createSkuUpload({
         filename: filename || `delete-${Date.now()}.csv`,
+        marketplaceId: marketplace.id,
         status: "submitting",
+        uploadType: "delete",
         totalItems: skus.length,
       });
 
@@ -1353,12 +2483,12 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
       const sellerId = process.env.SP_API_SELLER_ID || "A1QO8EE1RAHPLZ";
 
       // Step 1: Close all listings (set quantity to 0)
-      const closeFeedDoc = await createFeedDocument(accessToken);
+      const closeFeedDoc = await createFeedDocument(accessToken, marketplace.region);
       const closeFeed = {
         header: {
           sellerId,
           version: "2.0",
-          issueLocale: "en_US",
+          issueLocale: marketplace.locale,
         },
         messages: skus.map((sku, index) => ({
           messageId: index + 1,
@@ -1369,7 +2499,7 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
             op: "replace",
             path: "/attributes/fulfillment_availability",
             value: [{
-              fulfillment_channel_code: "AMAZON_NA",
+              fulfillment_channel_code: marketplace.fulfillmentChannelCode,
               quantity: 0,
             }],
           }],
@@ -1377,16 +2507,16 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
       };
 
       await uploadFeedContent(closeFeedDoc.url, JSON.stringify(closeFeed));
-      const closeResult = await createFeed(accessToken, closeFeedDoc.feedDocumentId);
+      const closeResult = await createFeed(accessToken, closeFeedDoc.feedDocumentId, marketplace);
       log(`Bulk close feed submitted: ${closeResult.feedId}`, "sku-delete");
 
       // Step 2: Delete all listings
-      const deleteFeedDoc = await createFeedDocument(accessToken);
+      const deleteFeedDoc = await createFeedDocument(accessToken, marketplace.region);
       const deleteFeed = {
         header: {
           sellerId,
           version: "2.0",
-          issueLocale: "en_US",
+          issueLocale: marketplace.locale,
         },
         messages: skus.map((sku, index) => ({
           messageId: index + 1,
@@ -1396,12 +2526,13 @@ MY-SKU-002,B07XJ8C8F5,29.99,50,new,true,true,Not Applicable`;
       };
 
       await uploadFeedContent(deleteFeedDoc.url, JSON.stringify(deleteFeed));
-      const deleteResult = await createFeed(accessToken, deleteFeedDoc.feedDocumentId);
+      const deleteResult = await createFeed(accessToken, deleteFeedDoc.feedDocumentId, marketplace);
       log(`Bulk delete feed submitted: ${deleteResult.feedId}`, "sku-delete");
 
       await storage.updateSkuUpload(upload.id, {
         feedDocumentId: deleteFeedDoc.feedDocumentId,
         feedId: deleteResult.feedId,
+        closeFeedId: closeResult.feedId,
         status: "processing",
       });
 
@@ -0,0 +1,333 @@
+// Sales Metrics
+// orderMetrics helpers plus the per-SKU/ASIN sales breakdown
+
+import { log } from "./log";
+import { callSPAPI } from "./spApi";
+import { getLWAAccessToken } from "./lwaToken";
+import { storage } from "./storage";
+import { getComparisonRanges, getSalesInterval, zonedTimeToUtc, type DateRange } from "./dateRanges";
+import type { Marketplace } from "./marketplaces";
+
+export type SalesGranularity = "Total" | "Day" | "Week" | "Month";
+
+export const SALES_GRANULARITIES: SalesGranularity[] = ["Total", "Day", "Week", "Month"];
+
+// orderMetrics accepts either an ASIN or a SKU filter, not both
+export interface SalesFilter {
+  asin?: string;
+  sku?: string;
+}
+
+export interface SalesMetrics {
+  totalSales: number;
+  currency: string;
+  unitCount: number;
+  orderCount: number;
+  averageUnitPrice: number;
+  averageSellingPrice: number;
+}
+
+export interface MetricChange {
+  previous: number;
+  delta: number;
+  percentChange: number | null; // null when the previous value was zero
+}
+
+const COMPARED_METRICS = ["totalSales", "unitCount", "orderCount", "averageUnitPrice", "averageSellingPrice"] as const;
+
+export async function getSalesData(
+  accessToken: string,
+  startDate: string,
+  endDate: string,
+  marketplace: Marketplace,
+  granularity: SalesGranularity = "Total",
+  filter: SalesFilter = {}
+): Promise<any> {
+  // Local midnight to end of day in the marketplace's timezone, with the
+  // offset in effect on each date (handles DST changes inside the range)
+  const params = new URLSearchParams({
+    marketplaceIds: marketplace.id,
+    interval: getSalesInterval(startDate, endDate, marketplace.timezone),
+    granularity,
+  });
+
+  // Amazon requires a timezone to align Day/Week/Month buckets
+  if (granularity !== "Total") {
+    params.set("granularityTimeZone", marketplace.timezone);
+  }
+
+  if (filter.sku) {
+    params.set("sku", filter.sku);
+  } else if (filter.asin) {
+    params.set("asin", filter.asin);
+  }
+
+  const endpoint = `/sales/v1/orderMetrics?${params.toString()}`;
+  return callSPAPI(accessToken, endpoint, marketplace.region);
+}
+
+// Extract the tile metrics from a Total-granularity orderMetrics response
+export function extractSalesMetrics(salesData: any, marketplace: Marketplace): SalesMetrics {
+  const metrics = salesData.payload?.[0] || {};
+  return {
+    totalSales: metrics.totalSales?.amount || 0,
+    currency: metrics.totalSales?.currencyCode || marketplace.currency,
+    unitCount: metrics.unitCount || 0,
+    orderCount: metrics.orderCount || 0,
+    averageUnitPrice: metrics.averageSellingPrice?.amount || 0,
+    averageSellingPrice: metrics.averageUnitPrice?.amount || 0,
+  };
+}
+
+function percentChange(current: number, previous: number): number | null {
+  return previous !== 0 ? Math.round(((current - previous) / previous) * 1000) / 10 : null;
+}
+
+export function compareSalesMetrics(current: SalesMetrics, previous: SalesMetrics): Record<string, MetricChange> {
+  const changes: Record<string, MetricChange> = {};
+  for (const metric of COMPARED_METRICS) {
+    const delta = current[metric] - previous[metric];
+    changes[metric] = {
+      previous: previous[metric],
+      delta: Math.round(delta * 100) / 100,
+      percentChange: percentChange(current[metric], previous[metric]),
+    };
+  }
+  return changes;
+}
+
+// ============================================================================
+// Sales Breakdown
+// ============================================================================
+
+export type BreakdownDimension = "sku" | "asin";
+
+export interface BreakdownRow {
+  key: string; // the SKU or ASIN this row covers
+  sku: string | null;
+  asin: string;
+  title: string | null;
+  totalSales: number;
+  unitCount: number;
+  orderCount: number;
+  previousSales: number;
+  previousUnits: number;
+  salesGrowth: number | null; // % change vs the prior period
+  unitGrowth: number | null;
+  error: string | null;
+}
+
+export interface SalesBreakdown {
+  status: "running" | "ready" | "failed";
+  dimension: BreakdownDimension;
+  marketplaceId: string;
+  currency: string;
+  startDate: string;
+  endDate: string;
+  previousPeriod: DateRange;
+  progress: { completed: number; total: number };
+  estimatedSecondsRemaining: number | null; // null until the candidates are known
+  rows: BreakdownRow[];
+  error: string | null;
+  startedAt: Date;
+  completedAt: Date | null;
+}
+
+// Reuse a finished breakdown for this long before recomputing
+const BREAKDOWN_CACHE_MS = 15 * 60 * 1000;
+
+// Items scored at once. orderMetrics allows about one call every two seconds,
+// so more would only queue behind the rate limiter holding a token that may
+// expire before its turn.
+const BREAKDOWN_CONCURRENCY = 2;
+
+// Each item takes two orderMetrics calls at 0.5 requests per second, so a
+// 1,000-SKU catalog takes over an hour
+const BREAKDOWN_SECONDS_PER_ITEM = 4;
+
+const breakdowns = new Map<string, SalesBreakdown>();
+
+// A SKU or ASIN from the stored catalog to score
+interface BreakdownCandidate {
+  sku: string | null;
+  asin: string;
+  title: string | null;
+}
+
+/**
+ * SKUs/ASINs to score: everything in the stored FBA inventory plus anything
+ * with stored orders in either period, which picks up merchant-fulfilled
+ * products. A product missing from both has no sales to break down.
+ */
+async function getBreakdownCandidates(breakdown: SalesBreakdown, marketplace: Marketplace): Promise<Map<string, BreakdownCandidate>> {
+  const [inventory, sold] = await Promise.all([
+    storage.getFbaInventory(marketplace.id),
+    storage.getAmazonSkuUnitsSold({
+      marketplaceId: marketplace.id,
+      startDate: zonedTimeToUtc(breakdown.previousPeriod.startDate, "00:00:00", marketplace.timezone),
+      endDate: zonedTimeToUtc(breakdown.endDate, "23:59:59", marketplace.timezone),
+    }),
+  ]);
+
+  const candidates = new Map<string, BreakdownCandidate>();
+  const addCandidate = (sku: string, asin: string | null, title: string | null) => {
+    if (!asin) return; // orderMetrics rows are keyed by ASIN, so one is needed either way
+    const key = breakdown.dimension === "sku" ? sku : asin;
+    const existing = candidates.get(key);
+    if (existing) {
+      existing.title = existing.title || title;
+      return;
+    }
+    candidates.set(key, { sku: breakdown.dimension === "sku" ? sku : null, asin, title });
+  };
+
+  inventory.forEach((item) => addCandidate(item.sellerSku, item.asin, item.productName));
+  sold.forEach((item) => addCandidate(item.sku, item.asin, item.title));
+  return candidates;
+}
+
+/**
+ * Score every stored SKU/ASIN against the current and prior period. Each item
+ * costs two orderMetrics calls, so this runs in the background and the SP-API
+ * client paces it to the operation's rate limit.
+ */
+async function runBreakdown(breakdown: SalesBreakdown, marketplace: Marketplace): Promise<void> {
+  const candidates = await getBreakdownCandidates(breakdown, marketplace);
+
+  breakdown.progress.total = candidates.size;
+  log(`Sales breakdown: scoring ${candidates.size} ${breakdown.dimension}s for ${marketplace.countryCode}`, "sales");
+
+  const scoreCandidate = async ([key, candidate]: [string, BreakdownCandidate]) => {
+    const filter: SalesFilter = breakdown.dimension === "sku" ? { sku: key } : { asin: key };
+    const row: BreakdownRow = {
+      key,
+      ...candidate,
+      totalSales: 0,
+      unitCount: 0,
+      orderCount: 0,
+      previousSales: 0,
+      previousUnits: 0,
+      salesGrowth: null,
+      unitGrowth: null,
+      error: null,
+    };
+
+    try {
+      const token = await getLWAAccessToken();
+      const [currentData, previousData] = await Promise.all([
+        getSalesData(token, breakdown.startDate, breakdown.endDate, marketplace, "Total", filter),
+        getSalesData(token, breakdown.previousPeriod.startDate, breakdown.previousPeriod.endDate, marketplace, "Total", filter),
+      ]);
+      const current = extractSalesMetrics(currentData, marketplace);
+      const previous = extractSalesMetrics(previousData, marketplace);
+
+      row.totalSales = current.totalSales;
+      row.unitCount = current.unitCount;
+      row.orderCount = current.orderCount;
+      row.previousSales = previous.totalSales;
+      row.previousUnits = previous.unitCount;
+      row.salesGrowth = percentChange(current.totalSales, previous.totalSales);
+      row.unitGrowth = percentChange(current.unitCount, previous.unitCount);
+    } catch (error) {
+      row.error = error instanceof Error ? error.message : String(error);
+      log(`Sales breakdown for ${key} failed: ${row.error}`, "sales");
+    }
+
+    breakdown.rows.push(row);
+    breakdown.progress.completed++;
+  };
+
+  // A few workers take candidates off a shared queue
+  const queue = Array.from(candidates.entries());
+  await Promise.all(
+    Array.from({ length: Math.min(BREAKDOWN_CONCURRENCY, queue.length) }, async () => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        await scoreCandidate(next);
+      }
+    })
+  );
+
+  if (breakdown.rows.length > 0 && breakdown.rows.every((row) => row.error)) {
+    throw new Error(breakdown.rows[0].error || "Every sales breakdown request failed");
+  }
+}
+
+// Copy of a breakdown for the response, with time left estimated from the rate limit
+function snapshotBreakdown(breakdown: SalesBreakdown): SalesBreakdown {
+  const remaining = breakdown.progress.total - breakdown.progress.completed;
+  // Workers share the one rate limit, so running two at once doesn't halve this
+  return {
+    ...breakdown,
+    progress: { ...breakdown.progress },
+    estimatedSecondsRemaining:
+      breakdown.status === "running" && breakdown.progress.total > 0
+        ? remaining * BREAKDOWN_SECONDS_PER_ITEM
+        : null,
+    rows: [...breakdown.rows],
+  };
+}
+
+/**
+ * Get the sales breakdown for a marketplace and range, starting a background
+ * computation when there's no fresh result. Poll until status is "ready".
+ */
+export function getSalesBreakdown(
+  marketplace: Marketplace,
+  dimension: BreakdownDimension,
+  range: DateRange,
+  forceRefresh = false
+): SalesBreakdown {
+  const key = `${marketplace.id}:${dimension}:${range.startDate}:${range.endDate}`;
+  const existing = breakdowns.get(key);
+
+  const isFresh =
+    existing &&
+    (existing.status === "running" ||
+      (existing.status === "ready" &&
+        !forceRefresh &&
+        Date.now() - (existing.completedAt?.getTime() ?? 0) < BREAKDOWN_CACHE_MS));
+
+  if (existing && isFresh) {
+    return snapshotBreakdown(existing);
+  }
+
+  // Drop stale results so the map doesn't grow without bound
+  breakdowns.forEach((breakdown, cachedKey) => {
+    if (breakdown.completedAt && Date.now() - breakdown.completedAt.getTime() > BREAKDOWN_CACHE_MS) {
+      breakdowns.delete(cachedKey);
+    }
+  });
+
+  const breakdown: SalesBreakdown = {
+    status: "running",
+    dimension,
+    marketplaceId: marketplace.id,
+    currency: marketplace.currency,
+    startDate: range.startDate,
+    endDate: range.endDate,
+    previousPeriod: getComparisonRanges(range.startDate, range.endDate).previousPeriod,
+    progress: { completed: 0, total: 0 },
+    estimatedSecondsRemaining: null,
+    rows: [],
+    error: null,
+    startedAt: new Date(),
+    completedAt: null,
+  };
+  breakdowns.set(key, breakdown);
+
+  runBreakdown(breakdown, marketplace)
+    .then(() => {
+      breakdown.status = "ready";
+      log(`Sales breakdown ready: ${breakdown.rows.length} ${dimension}s`, "sales");
+    })
+    .catch((error) => {
+      breakdown.status = "failed";
+      breakdown.error = error instanceof Error ? error.message : String(error);
+      log(`Sales breakdown failed: ${breakdown.error}`, "sales");
+    })
+    .finally(() => {
+      breakdown.completedAt = new Date();
+    });
+
+  return snapshotBreakdown(breakdown);
+}
@@ -0,0 +1,374 @@
+// Sales Snapshots
+// Daily sales persisted per marketplace so dashboards and historical charts
+// can be served from Postgres instead of re-querying orderMetrics
+
+import { storage } from "./storage";
+import { log } from "./log";
+import { getLWAAccessToken } from "./lwaToken";
+import { getMarketplaceParticipations, type Marketplace } from "./marketplaces";
+import { getLocalDate, getSalesInterval, shiftDate, formatZonedTime } from "./dateRanges";
+import { getSalesData, type SalesGranularity } from "./sales";
+import type { InsertSalesSnapshot, SalesSnapshot } from "@shared/schema";
+
+// Snapshot job interval (default: 30 minutes)
+const SNAPSHOT_INTERVAL_MS = parseInt(process.env.SALES_SNAPSHOT_INTERVAL_MS || "1800000");
+
+// How far back the backfill reaches
+const BACKFILL_DAYS = 730;
+
+// Orders in the last few days still change (pending orders, cancellations),
+// so these days are re-fetched on every run
+const REFRESH_DAYS = 3;
+
+// Recent days older than this aren't trusted for dashboards; allows one missed run
+const RECENT_MAX_AGE_MS = SNAPSHOT_INTERVAL_MS * 2;
+
+// Days per orderMetrics request when backfilling
+const CHUNK_DAYS = 90;
+
+let snapshotIntervalId: NodeJS.Timeout | null = null;
+
+export interface SnapshotProgress {
+  isRunning: boolean;
+  currentMarketplaceId: string | null;
+  completedChunks: number;
+  totalChunks: number;
+  daysSaved: number;
+  lastRunAt: Date | null;
+  lastError: string | null;
+}
+
+let snapshotProgress: SnapshotProgress = {
+  isRunning: false,
+  currentMarketplaceId: null,
+  completedChunks: 0,
+  totalChunks: 0,
+  daysSaved: 0,
+  lastRunAt: null,
+  lastError: null,
+};
+
+export function getSnapshotProgress(): SnapshotProgress {
+  return { ...snapshotProgress };
+}
+
+// Where the sales numbers in a response came from
+export interface SalesDataResult {
+  salesData: any;
+  source: "live" | "snapshot";
+  stale: boolean; // true when SP-API failed and incomplete or old snapshots were served instead
+  fetchedAt: Date | null; // oldest fetch time of the snapshots used
+}
+
+/**
+ * Convert a Day-granularity orderMetrics response into snapshot rows
+ */
+function toSnapshots(salesData: any, marketplace: Marketplace): InsertSalesSnapshot[] {
+  const intervals: any[] = salesData.payload || [];
+  const fetchedAt = new Date();
+
+  return intervals
+    .map((interval) => ({
+      marketplaceId: marketplace.id,
+      // "2024-01-01T00:00-08:00--2024-01-02T00:00-08:00" -> "2024-01-01"
+      date: String(interval.interval || "").split("T")[0],
+      totalSales: String(Number(interval.totalSales?.amount) || 0),
+      currency: interval.totalSales?.currencyCode || marketplace.currency,
+      unitCount: interval.unitCount || 0,
+      orderItemCount: interval.orderItemCount || 0,
+      orderCount: interval.orderCount || 0,
+      fetchedAt,
+    }))
+    .filter((snapshot) => /^\d{4}-\d{2}-\d{2}$/.test(snapshot.date));
+}
+
+/**
+ * Store the days from a live Day-granularity, unfiltered orderMetrics response
+ */
+export async function saveSalesSnapshots(salesData: any, marketplace: Marketplace): Promise<number> {
+  return storage.upsertSalesSnapshots(toSnapshots(salesData, marketplace));
+}
+
+/**
+ * Fetch daily sales from SP-API for a date range and store them, in chunks
+ */
+async function fetchAndStoreSnapshots(marketplace: Marketplace, startDate: string, endDate: string): Promise<number> {
+  let saved = 0;
+
+  for (let chunkStart = startDate; chunkStart <= endDate; chunkStart = shiftDate(chunkStart, CHUNK_DAYS)) {
+    const chunkEnd = shiftDate(chunkStart, CHUNK_DAYS - 1) < endDate ? shiftDate(chunkStart, CHUNK_DAYS - 1) : endDate;
+    const accessToken = await getLWAAccessToken();
+    const salesData = await getSalesData(accessToken, chunkStart, chunkEnd, marketplace, "Day");
+    saved += await saveSalesSnapshots(salesData, marketplace);
+    snapshotProgress.completedChunks++;
+  }
+
+  return saved;
+}
+
+function countChunks(startDate: string, endDate: string): number {
+  const days = Math.round((Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000)) + 1;
+  return Math.ceil(days / CHUNK_DAYS);
+}
+
+/**
+ * Contiguous runs of days in the range with no stored snapshot
+ */
+function findMissingRanges(snapshots: SalesSnapshot[], startDate: string, endDate: string): { startDate: string; endDate: string }[] {
+  const stored = new Set(snapshots.map((s) => s.date));
+  const missing: { startDate: string; endDate: string }[] = [];
+
+  for (let day = startDate; day <= endDate; day = shiftDate(day, 1)) {
+    if (stored.has(day)) continue;
+    const last = missing[missing.length - 1];
+    if (last && shiftDate(last.endDate, 1) === day) {
+      last.endDate = day;
+    } else {
+      missing.push({ startDate: day, endDate: day });
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Backfill missing days in the last two years and re-fetch the most recent days
+ */
+export async function syncSalesSnapshots(marketplace: Marketplace): Promise<number> {
+  const today = getLocalDate(marketplace.timezone);
+  const backfillStart = shiftDate(today, -BACKFILL_DAYS);
+  const refreshStart = shiftDate(today, -(REFRESH_DAYS - 1));
+
+  const snapshots = await storage.getSalesSnapshots(marketplace.id, backfillStart, today);
+  const ranges = findMissingRanges(snapshots, backfillStart, shiftDate(refreshStart, -1));
+  ranges.push({ startDate: refreshStart, endDate: today });
+
+  snapshotProgress.currentMarketplaceId = marketplace.id;
+  snapshotProgress.totalChunks += ranges.reduce((sum, range) => sum + countChunks(range.startDate, range.endDate), 0);
+
+  let saved = 0;
+  for (const range of ranges) {
+    saved += await fetchAndStoreSnapshots(marketplace, range.startDate, range.endDate);
+  }
+
+  log(`Saved ${saved} daily sales snapshots for ${marketplace.countryCode} (${ranges.length} ranges)`, "sales-snapshots");
+  return saved;
+}
+
+/**
+ * Sync snapshots for every marketplace the seller participates in
+ */
+export async function syncAllSalesSnapshots(): Promise<void> {
+  if (snapshotProgress.isRunning) {
+    log("Sales snapshot sync already running, skipping", "sales-snapshots");
+    return;
+  }
+
+  snapshotProgress = {
+    ...snapshotProgress,
+    isRunning: true,
+    currentMarketplaceId: null,
+    completedChunks: 0,
+    totalChunks: 0,
+    daysSaved: 0,
+    lastError: null,
+  };
+
+  try {
+    const accessToken = await getLWAAccessToken();
+    const marketplaces = (await getMarketplaceParticipations(accessToken)).filter((m) => m.isParticipating);
+    const errors: string[] = [];
+
+    for (const marketplace of marketplaces) {
+      try {
+        snapshotProgress.daysSaved += await syncSalesSnapshots(marketplace);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Sales snapshot sync for ${marketplace.countryCode} failed: ${errorMessage}`, "sales-snapshots");
+        errors.push(`${marketplace.countryCode}: ${errorMessage}`);
+      }
+    }
+
+    snapshotProgress.lastError = errors.length > 0 ? errors.join("; ") : null;
+  } catch (error) {
+    snapshotProgress.lastError = error instanceof Error ? error.message : String(error);
+    log(`Sales snapshot sync failed: ${snapshotProgress.lastError}`, "sales-snapshots");
+  } finally {
+    snapshotProgress.isRunning = false;
+    snapshotProgress.currentMarketplaceId = null;
+    snapshotProgress.lastRunAt = new Date();
+  }
+}
+
+/**
+ * Start the background snapshot job
+ */
+export function startSalesSnapshotScheduler(): void {
+  if (snapshotIntervalId) {
+    log("Sales snapshot scheduler already running", "sales-snapshots");
+    return;
+  }
+
+  log(`Starting sales snapshot scheduler (interval: ${SNAPSHOT_INTERVAL_MS}ms)`, "sales-snapshots");
+
+  // Initial run (including the backfill) after a short delay
+  setTimeout(() => {
+    syncAllSalesSnapshots();
+  }, 15000);
+
+  snapshotIntervalId = setInterval(() => {
+    syncAllSalesSnapshots();
+  }, SNAPSHOT_INTERVAL_MS);
+}
+
+/**
+ * Stop the background snapshot job
+ */
+export function stopSalesSnapshotScheduler(): void {
+  if (snapshotIntervalId) {
+    clearInterval(snapshotIntervalId);
+    snapshotIntervalId = null;
+    log("Sales snapshot scheduler stopped", "sales-snapshots");
+  }
+}
+
+// Start date of the Day/Week/Month bucket containing a day (weeks start on Monday, as on Amazon)
+function bucketStart(day: string, granularity: SalesGranularity, startDate: string): string {
+  switch (granularity) {
+    case "Total":
+      return startDate;
+    case "Month":
+      return `${day.slice(0, 7)}-01`;
+    case "Week": {
+      const weekday = (new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7;
+      return shiftDate(day, -weekday);
+    }
+    default:
+      return day;
+  }
+}
+
+function nextBucketStart(bucket: string, granularity: SalesGranularity): string {
+  switch (granularity) {
+    case "Month": {
+      const next = new Date(`${bucket}T00:00:00Z`);
+      next.setUTCMonth(next.getUTCMonth() + 1);
+      return next.toISOString().split("T")[0];
+    }
+    case "Week":
+      return shiftDate(bucket, 7);
+    default:
+      return shiftDate(bucket, 1);
+  }
+}
+
+/**
+ * Build an orderMetrics-shaped response from stored snapshots, so callers can
+ * treat it exactly like a live response. Returns null when nothing is stored.
+ */
+async function getStoredSalesData(
+  marketplace: Marketplace,
+  startDate: string,
+  endDate: string,
+  granularity: SalesGranularity
+): Promise<{ salesData: any; complete: boolean; fetchedAt: Date | null } | null> {
+  const snapshots = await storage.getSalesSnapshots(marketplace.id, startDate, endDate);
+  if (snapshots.length === 0) return null;
+
+  const byDate = new Map(snapshots.map((s) => [s.date, s]));
+  const recentCutoff = shiftDate(getLocalDate(marketplace.timezone), -(REFRESH_DAYS - 1));
+  const currency = snapshots[0].currency;
+
+  let complete = true;
+  let fetchedAt: Date | null = null;
+  const buckets = new Map<string, { sales: number; units: number; items: number; orders: number }>();
+
+  for (let day = startDate; day <= endDate; day = shiftDate(day, 1)) {
+    const key = bucketStart(day, granularity, startDate);
+    const bucket = buckets.get(key) ?? { sales: 0, units: 0, items: 0, orders: 0 };
+    buckets.set(key, bucket);
+
+    const snapshot = byDate.get(day);
+    if (!snapshot) {
+      complete = false;
+      continue;
+    }
+
+    // Recent days are only usable if the job refreshed them lately
+    if (day >= recentCutoff && Date.now() - snapshot.fetchedAt.getTime() > RECENT_MAX_AGE_MS) {
+      complete = false;
+    }
+    if (!fetchedAt || snapshot.fetchedAt < fetchedAt) {
+      fetchedAt = snapshot.fetchedAt;
+    }
+
+    bucket.sales += Number(snapshot.totalSales);
+    bucket.units += snapshot.unitCount;
+    bucket.items += snapshot.orderItemCount;
+    bucket.orders += snapshot.orderCount;
+  }
+
+  const payload = Array.from(buckets.entries()).map(([key, bucket]) => ({
+    interval:
+      granularity === "Total"
+        ? getSalesInterval(startDate, endDate, marketplace.timezone)
+        : `${formatZonedTime(key, "00:00:00", marketplace.timezone)}--${formatZonedTime(nextBucketStart(key, granularity), "00:00:00", marketplace.timezone)}`,
+    unitCount: bucket.units,
+    orderItemCount: bucket.items,
+    orderCount: bucket.orders,
+    averageUnitPrice: {
+      amount: bucket.units > 0 ? Math.round((bucket.sales / bucket.units) * 100) / 100 : 0,
+      currencyCode: currency,
+    },
+    totalSales: {
+      amount: Math.round(bucket.sales * 100) / 100,
+      currencyCode: currency,
+    },
+  }));
+
+  return { salesData: { payload }, complete, fetchedAt };
+}
+
+/**
+ * Marketplace-level sales for a range: served from snapshots when every day is
+ * stored and recent days are fresh, otherwise from SP-API. If SP-API fails,
+ * falls back to whatever snapshots exist.
+ */
+export async function getSalesDataWithSnapshots(
+  marketplace: Marketplace,
+  startDate: string,
+  endDate: string,
+  granularity: SalesGranularity = "Total",
+  forceLive = false
+): Promise<SalesDataResult> {
+  let stored: Awaited<ReturnType<typeof getStoredSalesData>> = null;
+
+  try {
+    stored = await getStoredSalesData(marketplace, startDate, endDate, granularity);
+  } catch (error) {
+    log(`Reading sales snapshots failed: ${error}`, "sales-snapshots");
+  }
+
+  if (stored?.complete && !forceLive) {
+    return { salesData: stored.salesData, source: "snapshot", stale: false, fetchedAt: stored.fetchedAt };
+  }
+
+  try {
+    const accessToken = await getLWAAccessToken();
+    const salesData = await getSalesData(accessToken, startDate, endDate, marketplace, granularity);
+
+    // Daily buckets are exactly what the snapshot table holds
+    if (granularity === "Day") {
+      saveSalesSnapshots(salesData, marketplace).catch((error) => {
+        log(`Saving sales snapshots failed: ${error}`, "sales-snapshots");
+      });
+    }
+
+    return { salesData, source: "live", stale: false, fetchedAt: new Date() };
+  } catch (error) {
+    if (!stored) throw error;
+
+    log(`SP-API sales fetch failed, serving stored snapshots: ${error}`, "sales-snapshots");
+    return { salesData: stored.salesData, source: "snapshot", stale: true, fetchedAt: stored.fetchedAt };
+  }
+}
@@ -0,0 +1,206 @@
+// SKU Upload Files
+// Reads the files behind SKU uploads, offer updates and bulk deletes: our
+// CSV/TSV templates, Amazon's legacy flat files, and category inventory
+// templates as .xlsx/.xlsm workbooks or their tab-delimited .txt export.
+// Preamble rows above the header are skipped and column names are mapped onto
+// our upload fields.
+
+import type { Request } from "express";
+import { readTableUpload, type UploadFormat } from "./fileUpload";
+
+// Fields an uploaded row can fill in
+export const SKU_UPLOAD_FIELDS = [
+  "sku",
+  "asin",
+  "price",
+  "quantity",
+  "condition",
+  "batteries_required",
+  "are_batteries_included",
+  "supplier_declared_dg_hz_regulation",
+  "handling_time",
+];
+
+// Says what kind of identifier the asin column holds
+const PRODUCT_ID_TYPE_FIELD = "product_id_type";
+
+// Column name mappings from legacy Amazon flat files and category templates to our format
+const COLUMN_ALIASES: Record<string, string> = {
+  "product-id": "asin",
+  "product_id": "asin",
+  "productid": "asin",
+  "external_product_id": "asin",
+  "product-id-type": PRODUCT_ID_TYPE_FIELD,
+  "external_product_id_type": PRODUCT_ID_TYPE_FIELD,
+  "item-sku": "sku",
+  "item_sku": "sku",
+  "seller-sku": "sku",
+  "seller_sku": "sku",
+  "standard-price": "price",
+  "standard_price": "price",
+  "your-price": "price",
+  "your_price": "price",
+  "condition_type": "condition",
+  "item-condition": "condition",
+  "fulfillment-center-id": "fulfillment_center_id",
+  "batteries-required": "batteries_required",
+  "are-batteries-included": "are_batteries_included",
+  "supplier-declared-dg-hz-regulation1": "supplier_declared_dg_hz_regulation",
+  "supplier-declared-dg-hz-regulation": "supplier_declared_dg_hz_regulation",
+  "supplier_declared_dg_hz_regulation1": "supplier_declared_dg_hz_regulation",
+  "handling-time": "handling_time",
+  "fulfillment-latency": "handling_time",
+  "fulfillment_latency": "handling_time",
+  "leadtime-to-ship": "handling_time",
+  "lead_time_to_ship_max_days": "handling_time",
+};
+
+// Rows searched for the header. Category templates put it on row 3, below a
+// TemplateType= settings row and a row of human-readable labels.
+const HEADER_SCAN_ROWS = 10;
+
+export interface SkuFileColumn {
+  column: string; // the header as written in the file
+  field: string | null; // the upload field it fills, or null when ignored
+}
+
+export interface SkuFile {
+  format: UploadFormat;
+  sheetName: string | null;
+  templateType: string | null; // set for Amazon category inventory templates
+  headerRow: number;
+  columns: SkuFileColumn[];
+  headers: string[];
+  rowCount: number;
+  filename: string | null;
+  fields: Record<string, string>;
+}
+
+interface ScannedRecord {
+  values: string[];
+  line: number;
+}
+
+function mapHeader(header: string): string {
+  const normalized = header.trim().toLowerCase().replace(/\s+/g, "_");
+  return COLUMN_ALIASES[normalized] || normalized;
+}
+
+// How many upload fields a row would fill if it were the header
+function headerScore(values: string[]): number {
+  return new Set(values.map(mapHeader).filter((field) => SKU_UPLOAD_FIELDS.includes(field))).size;
+}
+
+// The row mapping the most upload fields, falling back to the first row. On a
+// tie the later row wins, since a template's label row sits above its field names.
+function findHeader(scanned: ScannedRecord[]): ScannedRecord {
+  let best = scanned[0];
+  let bestScore = 0;
+  scanned.forEach((record) => {
+    const score = headerScore(record.values);
+    if (score > 0 && score >= bestScore) {
+      best = record;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Read an uploaded SKU file, handing each data row to onRow, keyed by upload
+ * field, with its row number in the file as it is parsed
+ */
+export async function readSkuFile(
+  req: Request,
+  requiredHeaders: string[],
+  onRow: (row: Record<string, string>, rowNumber: number) => void
+): Promise<SkuFile> {
+  const scanned: ScannedRecord[] = [];
+  let header: ScannedRecord | null = null;
+  let headers: string[] = [];
+  let templateType: string | null = null;
+  let rowCount = 0;
+
+  const readRow = (values: string[], line: number) => {
+    const row: Record<string, string> = {};
+    headers.forEach((field, idx) => {
+      row[field] = values[idx]?.trim() || "";
+    });
+
+    // Handle product-id-type: if it's "1" or "ASIN", the product-id is an ASIN
+    if (row.asin && headers.includes(PRODUCT_ID_TYPE_FIELD)) {
+      const productIdType = row[PRODUCT_ID_TYPE_FIELD].toUpperCase();
+      // product-id-type: 1=ASIN, 2=ISBN, 3=UPC, 4=EAN
+      // Only use product-id as ASIN if type is 1 or "ASIN"
+      if (productIdType !== "1" && productIdType !== "ASIN") {
+        // Not an ASIN, clear it so validation fails appropriately
+        row.asin = "";
+      }
+    }
+
+    // Templates list used conditions by grade (UsedLikeNew, UsedGood, ...)
+    if (/^used/i.test(row.condition || "")) {
+      row.condition = "used";
+    }
+
+    rowCount++;
+    onRow(row, line);
+  };
+
+  const useHeader = () => {
+    const found = findHeader(scanned);
+    header = found;
+    headers = found.values.map(mapHeader);
+
+    const missingHeaders = requiredHeaders.filter((h) => !headers.includes(h));
+    if (missingHeaders.length > 0) {
+      throw new Error(`Missing required columns: ${missingHeaders.join(", ")}`);
+    }
+
+    scanned.filter((record) => record.line > found.line).forEach((record) => readRow(record.values, record.line));
+  };
+
+  const upload = await readTableUpload(req, (values, line) => {
+    if (header) {
+      readRow(values, line);
+      return;
+    }
+
+    if (scanned.length === 0) {
+      templateType = values[0]?.match(/^TemplateType=([^\s;]+)/)?.[1] ?? null;
+    }
+    scanned.push({ values, line });
+    if (scanned.length === HEADER_SCAN_ROWS) {
+      useHeader();
+    }
+  });
+
+  if (!header && scanned.length > 0) {
+    useHeader();
+  }
+
+  if (!header || rowCount === 0) {
+    throw new Error("File must have a header row and at least one data row");
+  }
+
+  const headerRecord: ScannedRecord = header;
+  const columns = headerRecord.values
+    .map((column, idx) => ({ column: column.trim(), field: headers[idx] }))
+    .filter(({ column }) => column.length > 0)
+    .map(({ column, field }) => ({
+      column,
+      field: SKU_UPLOAD_FIELDS.includes(field) || field === PRODUCT_ID_TYPE_FIELD ? field : null,
+    }));
+
+  return {
+    format: upload.format,
+    sheetName: upload.sheetName,
+    templateType,
+    headerRow: headerRecord.line,
+    columns,
+    headers,
+    rowCount,
+    filename: upload.filename,
+    fields: upload.fields,
+  };
+}
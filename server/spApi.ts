@@ -0,0 +1,324 @@
+// SP-API Client
+// Shared request helper with per-operation rate limiting, retries and throttling metrics
+
+import { log } from "./log";
+import { getLWAAccessToken, invalidateLWAAccessToken } from "./lwaToken";
+
+export type SPAPIRegion = "na" | "eu" | "fe";
+
+// Regional SP-API endpoints (North America, Europe, Far East)
+// Override with SP_API_BASE_URL_NA/EU/FE, e.g. to point at the local simulator
+export const SP_API_ENDPOINTS: Record<SPAPIRegion, string> = {
+  na: process.env.SP_API_BASE_URL_NA || "https://sellingpartnerapi-na.amazon.com",
+  eu: process.env.SP_API_BASE_URL_EU || "https://sellingpartnerapi-eu.amazon.com",
+  fe: process.env.SP_API_BASE_URL_FE || "https://sellingpartnerapi-fe.amazon.com",
+};
+
+// Retry configuration for throttled (429) and server (5xx) errors
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+interface SPAPIError {
+  errors?: Array<{
+    code: string;
+    message: string;
+    details?: string;
+  }>;
+}
+
+interface OperationLimit {
+  operation: string;
+  method: string;
+  pattern: RegExp;
+  rate: number; // requests per second
+  burst: number;
+}
+
+// Default usage plans from the SP-API documentation. The live rate from the
+// x-amzn-RateLimit-Limit header replaces these once a response is received.
+const OPERATION_LIMITS: OperationLimit[] = [
+  { operation: "getMarketplaceParticipations", method: "GET", pattern: /^\/sellers\/v1\/marketplaceParticipations/, rate: 0.016, burst: 15 },
+  { operation: "getOrderMetrics", method: "GET", pattern: /^\/sales\/v1\/orderMetrics/, rate: 0.5, burst: 15 },
+  { operation: "getOrderItems", method: "GET", pattern: /^\/orders\/v0\/orders\/[^/?]+\/orderItems/, rate: 0.5, burst: 30 },
+  { operation: "getOrders", method: "GET", pattern: /^\/orders\/v0\/orders(\?|$)/, rate: 0.0167, burst: 20 },
+  { operation: "listFinancialEventsByOrderId", method: "GET", pattern: /^\/finances\/v0\/orders\/[^/?]+\/financialEvents/, rate: 0.5, burst: 30 },
+  { operation: "listFinancialEvents", method: "GET", pattern: /^\/finances\/v0\/financialEvents/, rate: 0.5, burst: 30 },
+  { operation: "getInventorySummaries", method: "GET", pattern: /^\/fba\/inventory\/v1\/summaries/, rate: 2, burst: 2 },
+  { operation: "getShipmentItemsByShipmentId", method: "GET", pattern: /^\/fba\/inbound\/v0\/shipments\/[^/?]+\/items/, rate: 2, burst: 30 },
+  { operation: "getShipments", method: "GET", pattern: /^\/fba\/inbound\/v0\/shipments(\?|$)/, rate: 2, burst: 30 },
+  { operation: "getShipment", method: "GET", pattern: /^\/inbound\/fba\/2024-03-20\/inboundPlans\/[^/?]+\/shipments\/[^/?]+/, rate: 2, burst: 6 },
+  { operation: "getInboundPlan", method: "GET", pattern: /^\/inbound\/fba\/2024-03-20\/inboundPlans\/[^/?]+(\?|$)/, rate: 2, burst: 6 },
+  { operation: "listInboundPlans", method: "GET", pattern: /^\/inbound\/fba\/2024-03-20\/inboundPlans(\?|$)/, rate: 2, burst: 6 },
+  { operation: "createFeedDocument", method: "POST", pattern: /^\/feeds\/2021-06-30\/documents/, rate: 0.5, burst: 15 },
+  { operation: "getFeedDocument", method: "GET", pattern: /^\/feeds\/2021-06-30\/documents\//, rate: 0.0222, burst: 10 },
+  { operation: "createFeed", method: "POST", pattern: /^\/feeds\/2021-06-30\/feeds/, rate: 0.0083, burst: 15 },
+  { operation: "getFeed", method: "GET", pattern: /^\/feeds\/2021-06-30\/feeds\//, rate: 2, burst: 15 },
+  { operation: "createReport", method: "POST", pattern: /^\/reports\/2021-06-30\/reports/, rate: 0.0167, burst: 15 },
+  { operation: "getReport", method: "GET", pattern: /^\/reports\/2021-06-30\/reports\//, rate: 2, burst: 15 },
+  { operation: "getReportDocument", method: "GET", pattern: /^\/reports\/2021-06-30\/documents\//, rate: 0.0167, burst: 15 },
+];
+
+// Fallback for endpoints not listed above
+const DEFAULT_LIMIT = { rate: 1, burst: 5 };
+
+export interface OperationMetrics {
+  operation: string;
+  region: SPAPIRegion;
+  requests: number;
+  throttled: number;
+  retries: number;
+  failures: number;
+  totalWaitMs: number;
+  rateLimit: number;
+  burst: number;
+  lastThrottledAt: Date | null;
+}
+
+/**
+ * Token bucket limiting how fast a single SP-API operation is called.
+ * Callers are queued so concurrent requests take tokens in order.
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(public rate: number, public burst: number) {
+    this.tokens = burst;
+    this.lastRefill = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsedSeconds * this.rate);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Wait for a token to become available. Resolves with the time waited in ms.
+   */
+  acquire(): Promise<number> {
+    const result = this.queue.then(async () => {
+      this.refill();
+      let waitedMs = 0;
+
+      if (this.tokens < 1) {
+        waitedMs = Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+        await sleep(waitedMs);
+        this.refill();
+      }
+
+      this.tokens -= 1;
+      return waitedMs;
+    });
+
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Empty the bucket after Amazon throttles us, so queued callers back off
+   */
+  drain(): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, 0);
+  }
+
+  setRate(rate: number): void {
+    if (rate > 0 && rate !== this.rate) {
+      this.refill();
+      this.rate = rate;
+    }
+  }
+}
+
+const buckets = new Map<string, TokenBucket>();
+const metrics = new Map<string, OperationMetrics>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function resolveOperation(method: string, endpoint: string): { operation: string; rate: number; burst: number } {
+  const match = OPERATION_LIMITS.find((l) => l.method === method && l.pattern.test(endpoint));
+  if (match) {
+    return match;
+  }
+
+  // Group unknown endpoints by method and path (without query string)
+  const path = endpoint.split("?")[0];
+  return { operation: `${method} ${path}`, ...DEFAULT_LIMIT };
+}
+
+function getBucket(key: string, rate: number, burst: number): TokenBucket {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(rate, burst);
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+function getMetrics(key: string, operation: string, region: SPAPIRegion, bucket: TokenBucket): OperationMetrics {
+  let entry = metrics.get(key);
+  if (!entry) {
+    entry = {
+      operation,
+      region,
+      requests: 0,
+      throttled: 0,
+      retries: 0,
+      failures: 0,
+      totalWaitMs: 0,
+      rateLimit: bucket.rate,
+      burst: bucket.burst,
+      lastThrottledAt: null,
+    };
+    metrics.set(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * Exponential backoff with full jitter, honouring Retry-After when present
+ */
+function getBackoffMs(attempt: number, retryAfterHeader: string | null): number {
+  const retryAfterSeconds = retryAfterHeader ? Number(retryAfterHeader) : NaN;
+  if (!isNaN(retryAfterSeconds) && retryAfterSeconds > 0) {
+    return Math.min(retryAfterSeconds * 1000, MAX_BACKOFF_MS);
+  }
+
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempt));
+  return Math.floor(Math.random() * ceiling);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Amazon answers an expired or revoked access token with 401 or 403
+function isAuthStatus(status: number): boolean {
+  return status === 401 || status === 403;
+}
+
+/**
+ * Make an SP-API request, waiting for the operation's rate limit and
+ * retrying throttled and server errors. A rejected access token is refreshed
+ * and the request retried once.
+ */
+async function requestSPAPI(
+  accessToken: string,
+  method: "GET" | "POST" | "PUT" | "DELETE" | "PATCH",
+  endpoint: string,
+  region: SPAPIRegion,
+  body?: any
+): Promise<any> {
+  const fullUrl = `${SP_API_ENDPOINTS[region]}${endpoint}`;
+  const { operation, rate, burst } = resolveOperation(method, endpoint);
+
+  // Usage plans apply per selling partner per region
+  const key = `${region}:${operation}`;
+  const bucket = getBucket(key, rate, burst);
+  const opMetrics = getMetrics(key, operation, region, bucket);
+  let tokenRefreshed = false;
+
+  for (let attempt = 0; ; attempt++) {
+    const waitedMs = await bucket.acquire();
+    opMetrics.totalWaitMs += waitedMs;
+    if (waitedMs > 0) {
+      log(`Rate limit: waited ${waitedMs}ms for ${operation}`, "sp-api");
+    }
+
+    log(`Calling SP-API ${method}: ${fullUrl}${attempt > 0 ? ` (retry ${attempt})` : ""}`, "sp-api");
+    opMetrics.requests++;
+
+    const response = await fetch(fullUrl, {
+      method,
+      headers: {
+        "x-amz-access-token": accessToken,
+        "Content-Type": "application/json",
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    // Amazon reports the operation's actual rate limit on successful responses
+    const rateLimitHeader = response.headers.get("x-amzn-RateLimit-Limit");
+    if (rateLimitHeader) {
+      const liveRate = parseFloat(rateLimitHeader);
+      if (!isNaN(liveRate)) {
+        bucket.setRate(liveRate);
+        opMetrics.rateLimit = bucket.rate;
+      }
+    }
+
+    const responseText = await response.text();
+    log(`SP-API Response Status: ${response.status}`, "sp-api");
+
+    if (response.status === 429) {
+      opMetrics.throttled++;
+      opMetrics.lastThrottledAt = new Date();
+      bucket.drain();
+    }
+
+    if (isAuthStatus(response.status) && !tokenRefreshed) {
+      tokenRefreshed = true;
+      log(`SP-API ${operation} rejected the access token (${response.status}), refreshing and retrying`, "sp-api");
+      invalidateLWAAccessToken(accessToken);
+      accessToken = await getLWAAccessToken();
+      continue;
+    }
+
+    if (isRetryableStatus(response.status) && attempt < MAX_RETRIES) {
+      const backoffMs = getBackoffMs(attempt, response.headers.get("retry-after"));
+      opMetrics.retries++;
+      log(`SP-API ${operation} returned ${response.status}, retrying in ${backoffMs}ms`, "sp-api");
+      await sleep(backoffMs);
+      continue;
+    }
+
+    if (responseText.trim().startsWith("<!") || responseText.trim().startsWith("<html")) {
+      opMetrics.failures++;
+      log(`SP-API Error: Received HTML response instead of JSON`, "sp-api");
+      log(`SP-API HTML Response (first 500 chars): ${responseText.substring(0, 500)}`, "sp-api");
+      throw new Error("SP-API endpoint returned HTML instead of JSON.");
+    }
+
+    let data: any;
+    try {
+      data = responseText ? JSON.parse(responseText) : {};
+    } catch (e) {
+      opMetrics.failures++;
+      log(`SP-API Error: Failed to parse JSON response: ${responseText.substring(0, 500)}`, "sp-api");
+      throw new Error(`Failed to parse SP-API response as JSON: ${responseText.substring(0, 200)}`);
+    }
+
+    if (!response.ok) {
+      opMetrics.failures++;
+      log(`SP-API Error Response: ${JSON.stringify(data)}`, "sp-api");
+      const apiError = data as SPAPIError;
+      const errorMessage = apiError.errors?.[0]?.message || JSON.stringify(data);
+      throw new Error(`SP-API request failed (${response.status}): ${errorMessage}`);
+    }
+
+    return data;
+  }
+}
+
+export async function callSPAPI(accessToken: string, endpoint: string, region: SPAPIRegion = "na"): Promise<any> {
+  return requestSPAPI(accessToken, "GET", endpoint, region);
+}
+
+export async function callSPAPIPost(accessToken: string, endpoint: string, body: any, region: SPAPIRegion = "na"): Promise<any> {
+  return requestSPAPI(accessToken, "POST", endpoint, region, body);
+}
+
+/**
+ * Throttling metrics per SP-API operation
+ */
+export function getSPAPIMetrics(): OperationMetrics[] {
+  return Array.from(metrics.values())
+    .map((m) => ({ ...m }))
+    .sort((a, b) => a.region.localeCompare(b.region) || a.operation.localeCompare(b.operation));
+}
@@ -0,0 +1,1330 @@
+// SP-API Simulator
+// Local stand-in for the LWA token endpoint and the SP-API operations this app
+// calls, so routes can be exercised end to end without Amazon credentials.
+//
+// Point the server at it with:
+//   SP_API_BASE_URL_NA=http://localhost:5100
+//   SP_API_BASE_URL_EU=http://localhost:5100/eu
+//   SP_API_BASE_URL_FE=http://localhost:5100/fe
+//   LWA_TOKEN_ENDPOINT=http://localhost:5100/auth/o2/token
+//
+// Scripted failures and fixtures are controlled through /__simulator/*.
+
+import express, { type Request, type Response, type NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { gzipSync } from "zlib";
+import { MARKETPLACES } from "./marketplaces";
+import type { SPAPIRegion } from "./spApi";
+import {
+  generateFixtures,
+  type FixtureOptions,
+  type SimOrder,
+  type SimReturn,
+  type SimulatorFixtures,
+} from "./spApiSimulatorFixtures";
+
+export type FailureMode =
+  | "throttle" // 429 QuotaExceeded
+  | "server-error" // 500 InternalFailure
+  | "html" // HTML error page instead of JSON
+  | "unauthorized" // 403 Unauthorized
+  | "invalid-grant" // LWA 400 invalid_grant
+  | "fatal-feed" // feed finishes with processingStatus FATAL
+  | "cancelled-feed" // feed finishes with processingStatus CANCELLED
+  | "fatal-report"; // report finishes with processingStatus FATAL
+
+export interface FailureRule {
+  id: string;
+  mode: FailureMode;
+  operation: string; // operation name, "lwa", or "*" for any
+  remaining: number | null; // null = until cleared
+  status?: number; // override the HTTP status
+  retryAfter?: number; // seconds, sent with throttle responses
+}
+
+export interface SimulatorSettings {
+  feedProcessingMs: number; // time for a feed to go from IN_QUEUE to DONE
+  reportProcessingMs: number; // time for a report to go from IN_QUEUE to DONE
+  gzipResults: boolean; // compress processing reports like Amazon does for large feeds
+  tokenTtlSeconds: number;
+  ordersPageSize: number;
+  inventoryPageSize: number;
+  inboundPageSize: number;
+}
+
+interface SimFeedDocument {
+  feedDocumentId: string;
+  content: string | null;
+  contentType?: string; // defaults to JSON (feed processing reports)
+  compressed: boolean;
+  createdAt: Date;
+}
+
+interface SimFeed {
+  feedId: string;
+  feedType: string;
+  marketplaceIds: string[];
+  inputFeedDocumentId: string;
+  resultFeedDocumentId?: string;
+  outcome: "DONE" | "FATAL" | "CANCELLED";
+  createdAt: Date;
+  processingStartTime?: Date;
+  processingEndTime?: Date;
+}
+
+interface SimReport {
+  reportId: string;
+  reportType: string;
+  marketplaceIds: string[];
+  dataStartTime?: string;
+  dataEndTime?: string;
+  reportDocumentId?: string;
+  outcome: "DONE" | "FATAL" | "CANCELLED";
+  createdAt: Date;
+  processingStartTime?: Date;
+  processingEndTime?: Date;
+}
+
+interface RequestLogEntry {
+  at: string;
+  method: string;
+  path: string;
+  operation: string;
+  status: number;
+}
+
+export interface SimulatorState {
+  fixtures: SimulatorFixtures;
+  settings: SimulatorSettings;
+  failures: FailureRule[];
+  tokens: Map<string, Date>; // access token -> expiry
+  documents: Map<string, SimFeedDocument>;
+  feeds: Map<string, SimFeed>;
+  reports: Map<string, SimReport>;
+  requests: RequestLogEntry[];
+}
+
+export interface SimulatorOptions {
+  fixtures?: Partial<SimulatorFixtures>;
+  fixtureOptions?: FixtureOptions;
+  settings?: Partial<SimulatorSettings>;
+}
+
+const DEFAULT_SETTINGS: SimulatorSettings = {
+  feedProcessingMs: 3000,
+  reportProcessingMs: 3000,
+  gzipResults: false,
+  tokenTtlSeconds: 3600,
+  ordersPageSize: 100,
+  inventoryPageSize: 50,
+  inboundPageSize: 10,
+};
+
+// Rates reported in x-amzn-RateLimit-Limit, matching the default usage plans
+const RATE_LIMITS: Record<string, number> = {
+  getMarketplaceParticipations: 0.016,
+  getOrderMetrics: 0.5,
+  getOrders: 0.0167,
+  getOrderItems: 0.5,
+  listFinancialEventsByOrderId: 0.5,
+  getInventorySummaries: 2,
+  getShipments: 2,
+  getShipmentItemsByShipmentId: 2,
+  listInboundPlans: 2,
+  getInboundPlan: 2,
+  getShipment: 2,
+  createFeedDocument: 0.5,
+  getFeedDocument: 0.0222,
+  createFeed: 0.0083,
+  getFeed: 2,
+  createReport: 0.0167,
+  getReport: 2,
+  getReportDocument: 0.0167,
+  listFinancialEvents: 0.5,
+};
+
+// Reports the simulator can generate
+const SUPPORTED_REPORT_TYPES = ["GET_FBA_FULFILLMENT_CUSTOMER_RETURNS_DATA"];
+
+const MAX_REQUEST_LOG = 200;
+
+function spApiError(res: Response, status: number, code: string, message: string): void {
+  res.status(status).json({ errors: [{ code, message }] });
+}
+
+function parseRegion(req: Request): SPAPIRegion {
+  const region = req.params.region;
+  return region === "eu" || region === "fe" ? region : "na";
+}
+
+// Document URLs are served from the root, whichever region prefix was used
+function getBaseUrl(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+function encodeToken(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64");
+}
+
+function decodeToken<T>(token: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(token, "base64").toString("utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+function splitList(value: unknown): string[] {
+  return typeof value === "string" && value.length > 0 ? value.split(",").map((v) => v.trim()) : [];
+}
+
+/**
+ * Find the first scripted failure matching an operation and consume one use
+ */
+function takeFailure(state: SimulatorState, operation: string, modes: FailureMode[]): FailureRule | null {
+  const rule = state.failures.find(
+    (f) => modes.includes(f.mode) && (f.operation === "*" || f.operation === operation)
+  );
+  if (!rule) return null;
+
+  if (rule.remaining !== null) {
+    rule.remaining--;
+    if (rule.remaining <= 0) {
+      state.failures = state.failures.filter((f) => f.id !== rule.id);
+    }
+  }
+  return rule;
+}
+
+/**
+ * Send the response for a request-level failure mode
+ */
+function sendFailure(res: Response, rule: FailureRule): void {
+  switch (rule.mode) {
+    case "throttle":
+      if (rule.retryAfter) {
+        res.setHeader("Retry-After", String(rule.retryAfter));
+      }
+      return spApiError(res, rule.status ?? 429, "QuotaExceeded", "You exceeded your quota for the requested resource.");
+    case "server-error":
+      return spApiError(res, rule.status ?? 500, "InternalFailure", "We encountered an internal error. Please try again.");
+    case "unauthorized":
+      return spApiError(res, rule.status ?? 403, "Unauthorized", "Access to requested resource is denied.");
+    case "invalid-grant":
+      res.status(rule.status ?? 400).json({
+        error_description: "The request has an invalid grant parameter : refresh_token",
+        error: "invalid_grant",
+      });
+      return;
+    case "html":
+    default:
+      res
+        .status(rule.status ?? 200)
+        .type("html")
+        .send("<!DOCTYPE html><html><head><title>Service Unavailable</title></head><body><h1>Service Unavailable</h1></body></html>");
+  }
+}
+
+/**
+ * Split an orderMetrics interval ("2024-01-01T00:00:00-07:00--2024-01-07T23:59:59-07:00")
+ * into instants plus the UTC offset used for bucketing
+ */
+function parseInterval(interval: string): { start: Date; end: Date; offsetMinutes: number; offset: string } | null {
+  const [startText, endText] = interval.split("--");
+  if (!startText || !endText) return null;
+
+  const start = new Date(startText);
+  const end = new Date(endText);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return null;
+
+  const match = startText.match(/([+-])(\d{2}):?(\d{2})$/);
+  const offset = match ? `${match[1]}${match[2]}:${match[3]}` : "Z";
+  const offsetMinutes = match ? (match[1] === "-" ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3])) : 0;
+
+  return { start, end, offsetMinutes, offset };
+}
+
+/**
+ * Start of the bucket containing an instant, as a wall-clock date in the
+ * interval's offset
+ */
+function bucketStart(date: Date, granularity: string, offsetMinutes: number): string {
+  const local = new Date(date.getTime() + offsetMinutes * 60 * 1000);
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+
+  switch (granularity) {
+    case "Year":
+      return `${year}-01-01`;
+    case "Month":
+      return `${year}-${String(month + 1).padStart(2, "0")}-01`;
+    case "Week": {
+      // Weeks start on Monday
+      const day = (local.getUTCDay() + 6) % 7;
+      const monday = new Date(Date.UTC(year, month, local.getUTCDate() - day));
+      return monday.toISOString().split("T")[0];
+    }
+    default:
+      return local.toISOString().split("T")[0];
+  }
+}
+
+function nextBucket(day: string, granularity: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  switch (granularity) {
+    case "Year":
+      date.setUTCFullYear(date.getUTCFullYear() + 1);
+      break;
+    case "Month":
+      date.setUTCMonth(date.getUTCMonth() + 1);
+      break;
+    case "Week":
+      date.setUTCDate(date.getUTCDate() + 7);
+      break;
+    default:
+      date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Build a JSON_LISTINGS_FEED processing report for an uploaded feed
+ */
+function buildProcessingReport(state: SimulatorState, feed: SimFeed, content: string | null): object {
+  let messages: any[] = [];
+  let parseError: string | null = null;
+
+  try {
+    messages = JSON.parse(content || "").messages || [];
+  } catch (error) {
+    parseError = error instanceof Error ? error.message : String(error);
+  }
+
+  const issues: any[] = [];
+  if (parseError) {
+    issues.push({
+      code: "4000001",
+      severity: "ERROR",
+      message: `The feed document could not be parsed as JSON: ${parseError}`,
+    });
+  }
+
+  for (const message of messages) {
+    if (!message.sku) {
+      issues.push({
+        messageId: message.messageId,
+        code: "4000004",
+        severity: "ERROR",
+        message: "The SKU is missing from this message.",
+      });
+    } else if (state.fixtures.feedErrorSkus.includes(message.sku)) {
+      issues.push({
+        messageId: message.messageId,
+        code: "90220",
+        severity: "ERROR",
+        message: `'${message.sku}' was rejected by the simulator (listed in feedErrorSkus).`,
+        attributeNames: ["merchant_suggested_asin"],
+      });
+    } else if (message.operationType === "PATCH" && !message.patches?.length) {
+      issues.push({
+        messageId: message.messageId,
+        code: "4000003",
+        severity: "ERROR",
+        message: "A PATCH message must contain at least one patch.",
+      });
+    } else if (message.operationType === "UPDATE" && !message.attributes?.purchasable_offer) {
+      issues.push({
+        messageId: message.messageId,
+        code: "99022",
+        severity: "WARNING",
+        message: "No price was provided, so the offer can't be bought until one is added.",
+        attributeNames: ["purchasable_offer"],
+      });
+    }
+  }
+
+  // Warnings don't stop a message from being accepted
+  const invalidIds = new Set(
+    issues.filter((i) => i.messageId !== undefined && i.severity === "ERROR").map((i) => i.messageId)
+  );
+
+  return {
+    header: {
+      sellerId: state.fixtures.sellerId,
+      version: "2.0",
+      feedId: feed.feedId,
+    },
+    issues,
+    summary: {
+      errors: issues.filter((i) => i.severity === "ERROR").length,
+      warnings: issues.filter((i) => i.severity === "WARNING").length,
+      messagesProcessed: messages.length,
+      messagesAccepted: messages.length - invalidIds.size,
+      messagesInvalid: invalidIds.size,
+    },
+  };
+}
+
+/**
+ * Advance a feed through IN_QUEUE -> IN_PROGRESS -> DONE/FATAL/CANCELLED
+ * based on how long ago it was created
+ */
+function getFeedProcessingStatus(state: SimulatorState, feed: SimFeed): string {
+  const elapsed = Date.now() - feed.createdAt.getTime();
+  const duration = state.settings.feedProcessingMs;
+
+  if (feed.outcome === "CANCELLED") {
+    return "CANCELLED";
+  }
+  if (elapsed < duration / 3) {
+    return "IN_QUEUE";
+  }
+  if (!feed.processingStartTime) {
+    feed.processingStartTime = new Date(feed.createdAt.getTime() + duration / 3);
+  }
+  if (elapsed < duration) {
+    return "IN_PROGRESS";
+  }
+
+  if (!feed.processingEndTime) {
+    feed.processingEndTime = new Date(feed.createdAt.getTime() + duration);
+
+    // Amazon produces a processing report for both completed and fatal feeds
+    const input = state.documents.get(feed.inputFeedDocumentId);
+    const report = JSON.stringify(buildProcessingReport(state, feed, input?.content ?? null));
+    const resultDocumentId = `amzn1.tortuga.4.sim.${randomUUID()}`;
+    state.documents.set(resultDocumentId, {
+      feedDocumentId: resultDocumentId,
+      content: report,
+      compressed: state.settings.gzipResults,
+      createdAt: new Date(),
+    });
+    feed.resultFeedDocumentId = resultDocumentId;
+  }
+
+  return feed.outcome;
+}
+
+/**
+ * Tab-delimited report content, or null when the range has no rows (Amazon
+ * cancels reports with no data)
+ */
+function buildReportContent(state: SimulatorState, report: SimReport): string | null {
+  const inRange = (date: string) =>
+    (!report.dataStartTime || date >= new Date(report.dataStartTime).toISOString()) &&
+    (!report.dataEndTime || date <= new Date(report.dataEndTime).toISOString());
+
+  const returns = state.fixtures.returns.filter(
+    (r) => r.returnDate !== null && report.marketplaceIds.includes(r.marketplaceId) && inRange(r.returnDate)
+  );
+  if (returns.length === 0) {
+    return null;
+  }
+
+  const header = [
+    "return-date", "order-id", "sku", "asin", "fnsku", "product-name", "quantity", "fulfillment-center-id",
+    "detailed-disposition", "reason", "status", "license-plate-number", "customer-comments",
+  ];
+  const rows = returns.map((r) => [
+    r.returnDate, r.orderId, r.sku, r.asin, r.fnSku, r.productName, String(r.quantity), r.fulfillmentCenterId,
+    r.disposition, r.reason, r.status, r.licensePlateNumber, r.customerComments ?? "",
+  ].join("\t"));
+
+  return [header.join("\t"), ...rows].join("\n");
+}
+
+/**
+ * Advance a report through IN_QUEUE -> IN_PROGRESS -> DONE/FATAL/CANCELLED
+ * based on how long ago it was requested
+ */
+function getReportProcessingStatus(state: SimulatorState, report: SimReport): string {
+  const elapsed = Date.now() - report.createdAt.getTime();
+  const duration = state.settings.reportProcessingMs;
+
+  if (elapsed < duration / 3) {
+    return "IN_QUEUE";
+  }
+  if (!report.processingStartTime) {
+    report.processingStartTime = new Date(report.createdAt.getTime() + duration / 3);
+  }
+  if (elapsed < duration) {
+    return "IN_PROGRESS";
+  }
+
+  if (!report.processingEndTime) {
+    report.processingEndTime = new Date(report.createdAt.getTime() + duration);
+
+    const content = report.outcome === "DONE" ? buildReportContent(state, report) : null;
+    if (report.outcome === "DONE" && content === null) {
+      report.outcome = "CANCELLED";
+    }
+    if (content !== null) {
+      const reportDocumentId = `amzn1.spdoc.1.4.na.sim.${randomUUID()}`;
+      state.documents.set(reportDocumentId, {
+        feedDocumentId: reportDocumentId,
+        content,
+        contentType: "text/tab-separated-values",
+        compressed: state.settings.gzipResults,
+        createdAt: new Date(),
+      });
+      report.reportDocumentId = reportDocumentId;
+    }
+  }
+
+  return report.outcome;
+}
+
+// Finances API event shapes, built from the order and return fixtures
+function financeAmount(currency: string, value: number): { CurrencyCode: string; CurrencyAmount: number } {
+  return { CurrencyCode: currency, CurrencyAmount: Math.round(value * 100) / 100 };
+}
+
+function buildShipmentEvent(order: SimOrder): object {
+  const currency = order.OrderTotal?.CurrencyCode || "USD";
+  return {
+    AmazonOrderId: order.AmazonOrderId,
+    MarketplaceName: order.SalesChannel,
+    PostedDate: order.LastUpdateDate,
+    ShipmentItemList: order.OrderItems.filter((item) => item.QuantityShipped > 0).map((item) => {
+      const principal = Number(item.ItemPrice?.Amount || 0);
+      return {
+        SellerSKU: item.SellerSKU,
+        OrderItemId: item.OrderItemId,
+        QuantityShipped: item.QuantityShipped,
+        ItemChargeList: [
+          { ChargeType: "Principal", ChargeAmount: financeAmount(currency, principal) },
+          { ChargeType: "Tax", ChargeAmount: financeAmount(currency, Number(item.ItemTax?.Amount || 0)) },
+        ],
+        ItemFeeList: [
+          { FeeType: "Commission", FeeAmount: financeAmount(currency, -principal * 0.15) },
+          ...(order.FulfillmentChannel === "AFN"
+            ? [{ FeeType: "FBAPerUnitFulfillmentFee", FeeAmount: financeAmount(currency, -3.22 * item.QuantityShipped) }]
+            : []),
+        ],
+      };
+    }),
+  };
+}
+
+// Amazon keeps 20% of the referral fee on a refund as its refund administration fee
+function buildRefundEvent(order: SimOrder, refund: SimReturn): object {
+  return {
+    AmazonOrderId: refund.orderId,
+    MarketplaceName: order.SalesChannel,
+    PostedDate: refund.refundDate,
+    ShipmentItemAdjustmentList: [
+      {
+        SellerSKU: refund.sku,
+        OrderAdjustmentItemId: `${refund.orderItemId}-R`,
+        QuantityShipped: refund.quantity,
+        ItemChargeAdjustmentList: [
+          { ChargeType: "Principal", ChargeAmount: financeAmount(refund.currency, -refund.refundAmount) },
+        ],
+        ItemFeeAdjustmentList: [
+          { FeeType: "Commission", FeeAmount: financeAmount(refund.currency, refund.refundAmount * 0.15) },
+          { FeeType: "RefundCommission", FeeAmount: financeAmount(refund.currency, -refund.refundAmount * 0.03) },
+        ],
+      },
+    ],
+  };
+}
+
+function createState(options: SimulatorOptions): SimulatorState {
+  const generated = generateFixtures(options.fixtureOptions);
+  return {
+    fixtures: { ...generated, ...options.fixtures },
+    settings: { ...DEFAULT_SETTINGS, ...options.settings },
+    failures: [],
+    tokens: new Map(),
+    documents: new Map(),
+    feeds: new Map(),
+    reports: new Map(),
+    requests: [],
+  };
+}
+
+/**
+ * Create the simulator app. The returned state can be inspected or mutated
+ * directly when the simulator is embedded in a test process.
+ */
+export function createSPAPISimulator(options: SimulatorOptions = {}): { app: express.Express; state: SimulatorState } {
+  const app = express();
+  let state = createState(options);
+
+  // Record every request with the operation it resolved to
+  app.use((req, res, next) => {
+    res.on("finish", () => {
+      if (req.path.startsWith("/__simulator/state") || req.path.startsWith("/__simulator/requests")) return;
+      state.requests.push({
+        at: new Date().toISOString(),
+        method: req.method,
+        path: req.originalUrl,
+        operation: res.locals.operation || "unknown",
+        status: res.statusCode,
+      });
+      if (state.requests.length > MAX_REQUEST_LOG) {
+        state.requests.shift();
+      }
+    });
+    next();
+  });
+
+  // ==========================================================================
+  // Pre-signed document URLs (stand-in for S3)
+  // ==========================================================================
+
+  app.put("/__simulator/uploads/:documentId", express.text({ type: "*/*", limit: "50mb" }), (req, res) => {
+    res.locals.operation = "uploadFeedDocument";
+    const document = state.documents.get(req.params.documentId);
+    if (!document) {
+      return res.status(404).type("xml").send("<Error><Code>NoSuchKey</Code></Error>");
+    }
+    document.content = typeof req.body === "string" ? req.body : "";
+    res.status(200).end();
+  });
+
+  app.get("/__simulator/documents/:documentId", (req, res) => {
+    res.locals.operation = "downloadFeedDocument";
+    const document = state.documents.get(req.params.documentId);
+    if (!document || document.content === null) {
+      return res.status(404).type("xml").send("<Error><Code>NoSuchKey</Code></Error>");
+    }
+    if (document.compressed) {
+      return res.type("application/octet-stream").send(gzipSync(document.content));
+    }
+    res.type(document.contentType || "application/json").send(document.content);
+  });
+
+  // ==========================================================================
+  // Simulator control endpoints
+  // ==========================================================================
+
+  app.use("/__simulator", express.json({ limit: "50mb" }));
+
+  app.get("/__simulator/state", (req, res) => {
+    res.json({
+      seed: state.fixtures.seed,
+      settings: state.settings,
+      failures: state.failures,
+      counts: {
+        products: state.fixtures.products.length,
+        orders: state.fixtures.orders.length,
+        inventory: state.fixtures.inventory.length,
+        returns: state.fixtures.returns.length,
+        inboundShipments: state.fixtures.inboundShipments.length,
+        inboundPlans: state.fixtures.inboundPlans.length,
+        feeds: state.feeds.size,
+        reports: state.reports.size,
+        documents: state.documents.size,
+        activeTokens: state.tokens.size,
+      },
+      feeds: Array.from(state.feeds.values()).map((feed) => ({
+        feedId: feed.feedId,
+        feedType: feed.feedType,
+        outcome: feed.outcome,
+        processingStatus: getFeedProcessingStatus(state, feed),
+        createdAt: feed.createdAt,
+      })),
+    });
+  });
+
+  app.get("/__simulator/requests", (req, res) => {
+    res.json(state.requests);
+  });
+
+  app.get("/__simulator/fixtures", (req, res) => {
+    res.json(state.fixtures);
+  });
+
+  // Replace fixtures: { seed, orderCount, ... } regenerates, any fixture keys override
+  app.post("/__simulator/fixtures", (req, res) => {
+    const { fixtureOptions, ...fixtures } = req.body || {};
+    const generated = fixtureOptions ? generateFixtures(fixtureOptions) : state.fixtures;
+    state.fixtures = { ...generated, ...fixtures };
+    res.json({ success: true, seed: state.fixtures.seed });
+  });
+
+  app.patch("/__simulator/settings", (req, res) => {
+    state.settings = { ...state.settings, ...req.body };
+    res.json({ success: true, settings: state.settings });
+  });
+
+  // Script failures: { mode, operation?, times?, status?, retryAfter? } or an array of them
+  app.post("/__simulator/failures", (req, res) => {
+    const entries = Array.isArray(req.body) ? req.body : [req.body];
+    const added: FailureRule[] = [];
+
+    for (const entry of entries) {
+      if (!entry?.mode) {
+        return res.status(400).json({ success: false, error: "Failure mode is required" });
+      }
+      const times = entry.times === undefined ? 1 : Number(entry.times);
+      const rule: FailureRule = {
+        id: randomUUID(),
+        mode: entry.mode,
+        operation: entry.operation || "*",
+        remaining: times > 0 ? times : null,
+        status: entry.status,
+        retryAfter: entry.retryAfter,
+      };
+      state.failures.push(rule);
+      added.push(rule);
+    }
+
+    res.json({ success: true, data: added });
+  });
+
+  app.delete("/__simulator/failures", (req, res) => {
+    state.failures = [];
+    res.json({ success: true });
+  });
+
+  // Back to freshly generated fixtures with no feeds, tokens or failures
+  app.post("/__simulator/reset", (req, res) => {
+    state = createState({ ...options, fixtureOptions: { ...options.fixtureOptions, ...req.body?.fixtureOptions } });
+    res.json({ success: true, seed: state.fixtures.seed });
+  });
+
+  // ==========================================================================
+  // LWA token endpoint
+  // ==========================================================================
+
+  app.post("/auth/o2/token", express.urlencoded({ extended: false }), (req, res) => {
+    res.locals.operation = "lwa";
+    const failure = takeFailure(state, "lwa", ["invalid-grant", "server-error", "html", "throttle"]);
+    if (failure) {
+      return sendFailure(res, failure);
+    }
+
+    const { grant_type, client_id, client_secret, refresh_token } = req.body || {};
+    if (grant_type !== "refresh_token" || !client_id || !client_secret || !refresh_token) {
+      return res.status(400).json({
+        error_description: "The request is missing a required parameter",
+        error: "invalid_request",
+      });
+    }
+
+    const accessToken = `Atza|sim.${randomUUID()}`;
+    state.tokens.set(accessToken, new Date(Date.now() + state.settings.tokenTtlSeconds * 1000));
+
+    res.json({
+      access_token: accessToken,
+      refresh_token,
+      token_type: "bearer",
+      expires_in: state.settings.tokenTtlSeconds,
+    });
+  });
+
+  // ==========================================================================
+  // SP-API operations, served at / (NA) and /na, /eu, /fe
+  // ==========================================================================
+
+  const router = express.Router({ mergeParams: true });
+  router.use(express.json({ limit: "10mb" }));
+
+  // Wraps an operation with token checks, scripted failures and rate limit headers
+  const operation = (name: string, handler: (req: Request, res: Response) => void) => {
+    return (req: Request, res: Response, next: NextFunction) => {
+      res.locals.operation = name;
+
+      const token = req.header("x-amz-access-token");
+      const expiresAt = token ? state.tokens.get(token) : undefined;
+      if (!expiresAt) {
+        return spApiError(res, 403, "Unauthorized", "Access to requested resource is denied.");
+      }
+      if (expiresAt.getTime() < Date.now()) {
+        return spApiError(res, 403, "Unauthorized", "The access token you provided has expired.");
+      }
+
+      const failure = takeFailure(state, name, ["throttle", "server-error", "html", "unauthorized"]);
+      if (failure) {
+        return sendFailure(res, failure);
+      }
+
+      if (RATE_LIMITS[name] !== undefined) {
+        res.setHeader("x-amzn-RateLimit-Limit", String(RATE_LIMITS[name]));
+      }
+
+      try {
+        handler(req, res);
+      } catch (error) {
+        next(error);
+      }
+    };
+  };
+
+  // Sellers API
+  router.get("/sellers/v1/marketplaceParticipations", operation("getMarketplaceParticipations", (req, res) => {
+    const region = parseRegion(req);
+    const payload = state.fixtures.marketplaceIds
+      .map((id) => MARKETPLACES.find((m) => m.id === id))
+      .filter((m) => m && m.region === region)
+      .map((m) => ({
+        marketplace: {
+          id: m!.id,
+          countryCode: m!.countryCode,
+          name: m!.name,
+          defaultCurrencyCode: m!.currency,
+          defaultLanguageCode: m!.locale,
+          domainName: `www.${m!.domain}`,
+        },
+        participation: {
+          isParticipating: true,
+          hasSuspendedListings: false,
+        },
+        storeName: "Simulated Store",
+      }));
+
+    res.json({ payload });
+  }));
+
+  // Sales API
+  router.get("/sales/v1/orderMetrics", operation("getOrderMetrics", (req, res) => {
+    const marketplaceIds = splitList(req.query.marketplaceIds);
+    const granularity = (req.query.granularity as string) || "Total";
+    const interval = parseInterval((req.query.interval as string) || "");
+    const asin = req.query.asin as string | undefined;
+    const sku = req.query.sku as string | undefined;
+
+    if (marketplaceIds.length === 0 || !interval) {
+      return spApiError(res, 400, "InvalidInput", "marketplaceIds and a valid interval are required.");
+    }
+    if (!["Total", "Day", "Week", "Month", "Year"].includes(granularity)) {
+      return spApiError(res, 400, "InvalidInput", `Unsupported granularity: ${granularity}`);
+    }
+
+    const currency = MARKETPLACES.find((m) => m.id === marketplaceIds[0])?.currency || "USD";
+    const orders = state.fixtures.orders.filter((o) => {
+      const purchased = new Date(o.PurchaseDate).getTime();
+      return (
+        marketplaceIds.includes(o.MarketplaceId) &&
+        o.OrderStatus !== "Canceled" &&
+        purchased >= interval.start.getTime() &&
+        purchased <= interval.end.getTime()
+      );
+    });
+
+    const buckets = new Map<string, { units: number; items: number; orders: number; sales: number }>();
+    if (granularity !== "Total") {
+      // Emit every bucket in the interval, including empty ones
+      const last = bucketStart(interval.end, granularity, interval.offsetMinutes);
+      for (let day = bucketStart(interval.start, granularity, interval.offsetMinutes); day <= last; day = nextBucket(day, granularity)) {
+        buckets.set(day, { units: 0, items: 0, orders: 0, sales: 0 });
+      }
+    } else {
+      buckets.set("Total", { units: 0, items: 0, orders: 0, sales: 0 });
+    }
+
+    orders.forEach((order) => {
+      const items = order.OrderItems.filter((i) => (!asin || i.ASIN === asin) && (!sku || i.SellerSKU === sku));
+      if (items.length === 0) return;
+
+      const key = granularity === "Total" ? "Total" : bucketStart(new Date(order.PurchaseDate), granularity, interval.offsetMinutes);
+      const bucket = buckets.get(key);
+      if (!bucket) return;
+
+      bucket.orders++;
+      items.forEach((item) => {
+        bucket.items++;
+        bucket.units += item.QuantityOrdered;
+        bucket.sales += Number(item.ItemPrice?.Amount || 0);
+      });
+    });
+
+    const payload = Array.from(buckets.entries()).map(([key, bucket]) => ({
+      interval:
+        key === "Total"
+          ? req.query.interval
+          : `${key}T00:00${interval.offset}--${nextBucket(key, granularity)}T00:00${interval.offset}`,
+      unitCount: bucket.units,
+      orderItemCount: bucket.items,
+      orderCount: bucket.orders,
+      averageUnitPrice: {
+        amount: bucket.units > 0 ? Math.round((bucket.sales / bucket.units) * 100) / 100 : 0,
+        currencyCode: currency,
+      },
+      totalSales: {
+        amount: Math.round(bucket.sales * 100) / 100,
+        currencyCode: currency,
+      },
+    }));
+
+    res.json({ payload });
+  }));
+
+  // Orders API
+  router.get("/orders/v0/orders", operation("getOrders", (req, res) => {
+    interface OrdersQuery {
+      marketplaceIds: string[];
+      createdAfter?: string;
+      createdBefore?: string;
+      lastUpdatedAfter?: string;
+      lastUpdatedBefore?: string;
+      statuses: string[];
+      pageSize: number;
+      offset: number;
+    }
+
+    let query: OrdersQuery | null;
+    if (req.query.NextToken) {
+      // Amazon ignores every other filter when a NextToken is supplied
+      query = decodeToken<OrdersQuery>(req.query.NextToken as string);
+      if (!query) {
+        return spApiError(res, 400, "InvalidInput", "Invalid NextToken.");
+      }
+    } else {
+      query = {
+        marketplaceIds: splitList(req.query.MarketplaceIds),
+        createdAfter: req.query.CreatedAfter as string | undefined,
+        createdBefore: req.query.CreatedBefore as string | undefined,
+        lastUpdatedAfter: req.query.LastUpdatedAfter as string | undefined,
+        lastUpdatedBefore: req.query.LastUpdatedBefore as string | undefined,
+        statuses: splitList(req.query.OrderStatuses),
+        pageSize: Math.min(100, Number(req.query.MaxResultsPerPage) || state.settings.ordersPageSize),
+        offset: 0,
+      };
+
+      if (query.marketplaceIds.length === 0) {
+        return spApiError(res, 400, "InvalidInput", "MarketplaceIds is required.");
+      }
+      if (!query.createdAfter && !query.lastUpdatedAfter) {
+        return spApiError(res, 400, "InvalidInput", "Either CreatedAfter or LastUpdatedAfter must be specified.");
+      }
+      if (query.createdBefore && Date.now() - new Date(query.createdBefore).getTime() < 2 * 60 * 1000) {
+        return spApiError(res, 400, "InvalidInput", "CreatedBefore must be no later than 2 minutes before the time the request was submitted.");
+      }
+    }
+
+    const q = query;
+    const inRange = (value: string, after?: string, before?: string) =>
+      (!after || value >= new Date(after).toISOString()) && (!before || value <= new Date(before).toISOString());
+
+    const matching = state.fixtures.orders.filter(
+      (o) =>
+        q.marketplaceIds.includes(o.MarketplaceId) &&
+        (q.statuses.length === 0 || q.statuses.includes(o.OrderStatus)) &&
+        inRange(o.PurchaseDate, q.createdAfter, q.createdBefore) &&
+        inRange(o.LastUpdateDate, q.lastUpdatedAfter, q.lastUpdatedBefore)
+    );
+
+    const page = matching.slice(q.offset, q.offset + q.pageSize);
+    const nextOffset = q.offset + q.pageSize;
+
+    res.json({
+      payload: {
+        Orders: page.map(({ OrderItems, ...order }: SimOrder) => order),
+        ...(nextOffset < matching.length ? { NextToken: encodeToken({ ...q, offset: nextOffset }) } : {}),
+        CreatedBefore: q.createdBefore,
+        LastUpdatedBefore: q.lastUpdatedBefore,
+      },
+    });
+  }));
+
+  router.get("/orders/v0/orders/:orderId/orderItems", operation("getOrderItems", (req, res) => {
+    const order = state.fixtures.orders.find((o) => o.AmazonOrderId === req.params.orderId);
+    if (!order) {
+      return spApiError(res, 404, "NotFound", `Order ${req.params.orderId} was not found.`);
+    }
+
+    res.json({
+      payload: {
+        AmazonOrderId: order.AmazonOrderId,
+        OrderItems: order.OrderItems,
+      },
+    });
+  }));
+
+  // Finances API
+  router.get("/finances/v0/orders/:orderId/financialEvents", operation("listFinancialEventsByOrderId", (req, res) => {
+    const order = state.fixtures.orders.find((o) => o.AmazonOrderId === req.params.orderId);
+    if (!order) {
+      return spApiError(res, 404, "NotFound", `Order ${req.params.orderId} was not found.`);
+    }
+
+    // Amazon only posts shipment events once an order ships
+    const shipped = order.OrderStatus === "Shipped" || order.OrderStatus === "PartiallyShipped";
+    const refunds = state.fixtures.returns.filter((r) => r.orderId === order.AmazonOrderId);
+
+    res.json({
+      payload: {
+        FinancialEvents: {
+          ShipmentEventList: shipped ? [buildShipmentEvent(order)] : [],
+          RefundEventList: refunds.map((refund) => buildRefundEvent(order, refund)),
+        },
+      },
+    });
+  }));
+
+  router.get("/finances/v0/financialEvents", operation("listFinancialEvents", (req, res) => {
+    interface EventsQuery {
+      postedAfter: string;
+      postedBefore: string;
+      pageSize: number;
+      offset: number;
+    }
+
+    let query: EventsQuery | null;
+    if (req.query.NextToken) {
+      query = decodeToken<EventsQuery>(req.query.NextToken as string);
+      if (!query) {
+        return spApiError(res, 400, "InvalidInput", "Invalid NextToken.");
+      }
+    } else {
+      if (!req.query.PostedAfter) {
+        return spApiError(res, 400, "InvalidInput", "PostedAfter is required.");
+      }
+      query = {
+        postedAfter: new Date(req.query.PostedAfter as string).toISOString(),
+        postedBefore: new Date((req.query.PostedBefore as string) || Date.now() - 2 * 60 * 1000).toISOString(),
+        pageSize: Math.min(100, Number(req.query.MaxResultsPerPage) || 100),
+        offset: 0,
+      };
+    }
+
+    const q = query;
+    const region = parseRegion(req);
+    const ordersById = new Map(state.fixtures.orders.map((o) => [o.AmazonOrderId, o]));
+    const inRegion = (order: SimOrder) => MARKETPLACES.find((m) => m.id === order.MarketplaceId)?.region === region;
+    const inRange = (date: string) => date >= q.postedAfter && date <= q.postedBefore;
+
+    // Events are paged in posted order, shipments and refunds together
+    const events: Array<{ type: "shipment" | "refund"; postedDate: string; event: object }> = [];
+    for (const order of state.fixtures.orders) {
+      if (order.OrderStatus === "Shipped" && inRegion(order) && inRange(order.LastUpdateDate)) {
+        events.push({ type: "shipment", postedDate: order.LastUpdateDate, event: buildShipmentEvent(order) });
+      }
+    }
+    for (const refund of state.fixtures.returns) {
+      const order = ordersById.get(refund.orderId);
+      if (order && inRegion(order) && inRange(refund.refundDate)) {
+        events.push({ type: "refund", postedDate: refund.refundDate, event: buildRefundEvent(order, refund) });
+      }
+    }
+    events.sort((a, b) => a.postedDate.localeCompare(b.postedDate));
+
+    const page = events.slice(q.offset, q.offset + q.pageSize);
+    const nextOffset = q.offset + q.pageSize;
+
+    res.json({
+      payload: {
+        FinancialEvents: {
+          ShipmentEventList: page.filter((e) => e.type === "shipment").map((e) => e.event),
+          RefundEventList: page.filter((e) => e.type === "refund").map((e) => e.event),
+        },
+        ...(nextOffset < events.length ? { NextToken: encodeToken({ ...q, offset: nextOffset }) } : {}),
+      },
+    });
+  }));
+
+  // FBA Inventory API
+  router.get("/fba/inventory/v1/summaries", operation("getInventorySummaries", (req, res) => {
+    const marketplaceIds = splitList(req.query.marketplaceIds);
+    const sellerSkus = splitList(req.query.sellerSkus);
+    const details = req.query.details === "true";
+
+    if (req.query.granularityType !== "Marketplace" || marketplaceIds.length === 0) {
+      return spApiError(res, 400, "InvalidInput", "granularityType=Marketplace and marketplaceIds are required.");
+    }
+
+    const matching = state.fixtures.inventory.filter(
+      (i) => marketplaceIds.includes(i.marketplaceId) && (sellerSkus.length === 0 || sellerSkus.includes(i.sellerSku))
+    );
+
+    const cursor = req.query.nextToken ? decodeToken<{ offset: number }>(req.query.nextToken as string) : { offset: 0 };
+    if (!cursor) {
+      return spApiError(res, 400, "InvalidInput", "Invalid nextToken.");
+    }
+
+    const pageSize = state.settings.inventoryPageSize;
+    const page = matching.slice(cursor.offset, cursor.offset + pageSize);
+    const nextOffset = cursor.offset + pageSize;
+
+    res.json({
+      payload: {
+        granularity: { granularityType: "Marketplace", granularityId: req.query.granularityId },
+        inventorySummaries: page.map(({ marketplaceId, inventoryDetails, ...summary }) =>
+          details ? { ...summary, inventoryDetails } : summary
+        ),
+      },
+      ...(nextOffset < matching.length ? { pagination: { nextToken: encodeToken({ offset: nextOffset }) } } : {}),
+    });
+  }));
+
+  // Fulfillment Inbound API (v0)
+  router.get("/fba/inbound/v0/shipments", operation("getShipments", (req, res) => {
+    interface ShipmentsQuery {
+      marketplaceId: string;
+      lastUpdatedAfter: string;
+      lastUpdatedBefore: string;
+      offset: number;
+    }
+
+    let query: ShipmentsQuery | null;
+    if (req.query.QueryType === "NEXT_TOKEN") {
+      query = req.query.NextToken ? decodeToken<ShipmentsQuery>(req.query.NextToken as string) : null;
+      if (!query) {
+        return spApiError(res, 400, "InvalidInput", "Invalid NextToken.");
+      }
+    } else if (req.query.QueryType === "DATE_RANGE") {
+      if (!req.query.MarketplaceId || !req.query.LastUpdatedAfter || !req.query.LastUpdatedBefore) {
+        return spApiError(res, 400, "InvalidInput", "MarketplaceId, LastUpdatedAfter and LastUpdatedBefore are required.");
+      }
+      query = {
+        marketplaceId: req.query.MarketplaceId as string,
+        lastUpdatedAfter: new Date(req.query.LastUpdatedAfter as string).toISOString(),
+        lastUpdatedBefore: new Date(req.query.LastUpdatedBefore as string).toISOString(),
+        offset: 0,
+      };
+    } else {
+      return spApiError(res, 400, "InvalidInput", "QueryType must be SHIPMENT, DATE_RANGE or NEXT_TOKEN.");
+    }
+
+    const q = query;
+    const matching = state.fixtures.inboundShipments.filter(
+      (s) =>
+        s.MarketplaceId === q.marketplaceId &&
+        s.LastUpdatedDate >= q.lastUpdatedAfter &&
+        s.LastUpdatedDate <= q.lastUpdatedBefore
+    );
+
+    const pageSize = state.settings.inboundPageSize;
+    const page = matching.slice(q.offset, q.offset + pageSize);
+    const nextOffset = q.offset + pageSize;
+
+    res.json({
+      payload: {
+        ShipmentData: page.map(({ MarketplaceId, LastUpdatedDate, Items, ...shipment }) => shipment),
+        ...(nextOffset < matching.length ? { NextToken: encodeToken({ ...q, offset: nextOffset }) } : {}),
+      },
+    });
+  }));
+
+  router.get("/fba/inbound/v0/shipments/:shipmentId/items", operation("getShipmentItemsByShipmentId", (req, res) => {
+    if (!req.query.MarketplaceId) {
+      return spApiError(res, 400, "InvalidInput", "MarketplaceId is required.");
+    }
+
+    const shipment = state.fixtures.inboundShipments.find((s) => s.ShipmentId === req.params.shipmentId);
+    if (!shipment) {
+      return spApiError(res, 404, "NotFound", `Shipment ${req.params.shipmentId} was not found.`);
+    }
+
+    res.json({
+      payload: {
+        ItemData: shipment.Items.map((item) => ({ ShipmentId: shipment.ShipmentId, ...item })),
+      },
+    });
+  }));
+
+  // Fulfillment Inbound API (2024-03-20)
+  router.get("/inbound/fba/2024-03-20/inboundPlans", operation("listInboundPlans", (req, res) => {
+    const region = parseRegion(req);
+    const pageSize = Math.min(30, Number(req.query.pageSize) || 10);
+    const sortField = req.query.sortBy === "CREATION_TIME" ? "createdAt" : "lastUpdatedAt";
+    const descending = req.query.sortOrder !== "ASC";
+
+    const cursor = req.query.paginationToken
+      ? decodeToken<{ offset: number }>(req.query.paginationToken as string)
+      : { offset: 0 };
+    if (!cursor) {
+      return spApiError(res, 400, "InvalidInput", "Invalid paginationToken.");
+    }
+
+    const matching = state.fixtures.inboundPlans
+      .filter((plan) => plan.marketplaceIds.some((id) => MARKETPLACES.find((m) => m.id === id)?.region === region))
+      .filter((plan) => !req.query.status || plan.status === req.query.status)
+      .sort((a, b) => (descending ? -1 : 1) * a[sortField].localeCompare(b[sortField]));
+
+    const page = matching.slice(cursor.offset, cursor.offset + pageSize);
+    const nextOffset = cursor.offset + pageSize;
+
+    res.json({
+      inboundPlans: page.map(({ shipments, ...plan }) => plan),
+      ...(nextOffset < matching.length ? { pagination: { nextToken: encodeToken({ offset: nextOffset }) } } : {}),
+    });
+  }));
+
+  router.get("/inbound/fba/2024-03-20/inboundPlans/:inboundPlanId", operation("getInboundPlan", (req, res) => {
+    const plan = state.fixtures.inboundPlans.find((p) => p.inboundPlanId === req.params.inboundPlanId);
+    if (!plan) {
+      return spApiError(res, 404, "NotFound", `Inbound plan ${req.params.inboundPlanId} was not found.`);
+    }
+
+    res.json({
+      ...plan,
+      shipments: plan.shipments.map(({ shipmentId, status }) => ({ shipmentId, status })),
+    });
+  }));
+
+  router.get("/inbound/fba/2024-03-20/inboundPlans/:inboundPlanId/shipments/:shipmentId", operation("getShipment", (req, res) => {
+    const plan = state.fixtures.inboundPlans.find((p) => p.inboundPlanId === req.params.inboundPlanId);
+    const planShipment = plan?.shipments.find((s) => s.shipmentId === req.params.shipmentId);
+    if (!plan || !planShipment) {
+      return spApiError(res, 404, "NotFound", `Shipment ${req.params.shipmentId} was not found.`);
+    }
+
+    const shipment = state.fixtures.inboundShipments.find((s) => s.ShipmentId === planShipment.shipmentConfirmationId);
+    res.json({
+      shipmentId: planShipment.shipmentId,
+      // Working shipments haven't been confirmed, so they have no FBA shipment ID
+      ...(planShipment.status !== "WORKING" ? { shipmentConfirmationId: planShipment.shipmentConfirmationId } : {}),
+      name: shipment?.ShipmentName,
+      status: planShipment.status,
+      destination: { destinationType: "AMAZON_OPTIMIZED", warehouseId: shipment?.DestinationFulfillmentCenterId },
+      source: { sourceType: "SELLER_FACILITY", address: plan.sourceAddress },
+    });
+  }));
+
+  // Feeds API
+  router.post("/feeds/2021-06-30/documents", operation("createFeedDocument", (req, res) => {
+    if (!req.body?.contentType) {
+      return spApiError(res, 400, "InvalidInput", "contentType is required.");
+    }
+
+    const feedDocumentId = `amzn1.tortuga.4.sim.${randomUUID()}`;
+    state.documents.set(feedDocumentId, {
+      feedDocumentId,
+      content: null,
+      compressed: false,
+      createdAt: new Date(),
+    });
+
+    res.status(201).json({
+      feedDocumentId,
+      url: `${getBaseUrl(req)}/__simulator/uploads/${feedDocumentId}`,
+    });
+  }));
+
+  router.get("/feeds/2021-06-30/documents/:documentId", operation("getFeedDocument", (req, res) => {
+    const document = state.documents.get(req.params.documentId);
+    if (!document) {
+      return spApiError(res, 404, "NotFound", `Feed document ${req.params.documentId} was not found.`);
+    }
+
+    res.json({
+      feedDocumentId: document.feedDocumentId,
+      url: `${getBaseUrl(req)}/__simulator/documents/${document.feedDocumentId}`,
+      ...(document.compressed ? { compressionAlgorithm: "GZIP" } : {}),
+    });
+  }));
+
+  router.post("/feeds/2021-06-30/feeds", operation("createFeed", (req, res) => {
+    const { feedType, marketplaceIds, inputFeedDocumentId } = req.body || {};
+    if (!feedType || !Array.isArray(marketplaceIds) || !inputFeedDocumentId) {
+      return spApiError(res, 400, "InvalidInput", "feedType, marketplaceIds and inputFeedDocumentId are required.");
+    }
+    if (!state.documents.has(inputFeedDocumentId)) {
+      return spApiError(res, 400, "InvalidInput", `Feed document ${inputFeedDocumentId} was not found.`);
+    }
+
+    const outcomeFailure = takeFailure(state, "createFeed", ["fatal-feed", "cancelled-feed"]);
+    const feedId = String(50000000000 + state.feeds.size + Math.floor(Math.random() * 1000000));
+
+    state.feeds.set(feedId, {
+      feedId,
+      feedType,
+      marketplaceIds,
+      inputFeedDocumentId,
+      outcome: outcomeFailure?.mode === "fatal-feed" ? "FATAL" : outcomeFailure?.mode === "cancelled-feed" ? "CANCELLED" : "DONE",
+      createdAt: new Date(),
+    });
+
+    res.status(202).json({ feedId });
+  }));
+
+  router.get("/feeds/2021-06-30/feeds/:feedId", operation("getFeed", (req, res) => {
+    const feed = state.feeds.get(req.params.feedId);
+    if (!feed) {
+      return spApiError(res, 404, "NotFound", `Feed ${req.params.feedId} was not found.`);
+    }
+
+    const processingStatus = getFeedProcessingStatus(state, feed);
+
+    res.json({
+      feedId: feed.feedId,
+      feedType: feed.feedType,
+      marketplaceIds: feed.marketplaceIds,
+      createdTime: feed.createdAt.toISOString(),
+      processingStatus,
+      ...(feed.processingStartTime ? { processingStartTime: feed.processingStartTime.toISOString() } : {}),
+      ...(feed.processingEndTime ? { processingEndTime: feed.processingEndTime.toISOString() } : {}),
+      ...(feed.resultFeedDocumentId ? { resultFeedDocumentId: feed.resultFeedDocumentId } : {}),
+    });
+  }));
+
+  // Reports API
+  router.post("/reports/2021-06-30/reports", operation("createReport", (req, res) => {
+    const { reportType, marketplaceIds, dataStartTime, dataEndTime } = req.body || {};
+    if (!reportType || !Array.isArray(marketplaceIds) || marketplaceIds.length === 0) {
+      return spApiError(res, 400, "InvalidInput", "reportType and marketplaceIds are required.");
+    }
+    if (!SUPPORTED_REPORT_TYPES.includes(reportType)) {
+      return spApiError(res, 400, "InvalidInput", `The simulator does not generate ${reportType} reports.`);
+    }
+
+    const outcomeFailure = takeFailure(state, "createReport", ["fatal-report"]);
+    const reportId = String(60000000000 + state.reports.size + Math.floor(Math.random() * 1000000));
+
+    state.reports.set(reportId, {
+      reportId,
+      reportType,
+      marketplaceIds,
+      dataStartTime,
+      dataEndTime,
+      outcome: outcomeFailure ? "FATAL" : "DONE",
+      createdAt: new Date(),
+    });
+
+    res.status(202).json({ reportId });
+  }));
+
+  router.get("/reports/2021-06-30/reports/:reportId", operation("getReport", (req, res) => {
+    const report = state.reports.get(req.params.reportId);
+    if (!report) {
+      return spApiError(res, 404, "NotFound", `Report ${req.params.reportId} was not found.`);
+    }
+
+    const processingStatus = getReportProcessingStatus(state, report);
+
+    res.json({
+      reportId: report.reportId,
+      reportType: report.reportType,
+      marketplaceIds: report.marketplaceIds,
+      createdTime: report.createdAt.toISOString(),
+      processingStatus,
+      ...(report.dataStartTime ? { dataStartTime: report.dataStartTime } : {}),
+      ...(report.dataEndTime ? { dataEndTime: report.dataEndTime } : {}),
+      ...(report.processingStartTime ? { processingStartTime: report.processingStartTime.toISOString() } : {}),
+      ...(report.processingEndTime ? { processingEndTime: report.processingEndTime.toISOString() } : {}),
+      ...(report.reportDocumentId ? { reportDocumentId: report.reportDocumentId } : {}),
+    });
+  }));
+
+  router.get("/reports/2021-06-30/documents/:documentId", operation("getReportDocument", (req, res) => {
+    const document = state.documents.get(req.params.documentId);
+    if (!document) {
+      return spApiError(res, 404, "NotFound", `Report document ${req.params.documentId} was not found.`);
+    }
+
+    res.json({
+      reportDocumentId: document.feedDocumentId,
+      url: `${getBaseUrl(req)}/__simulator/documents/${document.feedDocumentId}`,
+      ...(document.compressed ? { compressionAlgorithm: "GZIP" } : {}),
+    });
+  }));
+
+  // Unknown SP-API paths
+  router.use((req, res) => {
+    res.locals.operation = res.locals.operation || "unknown";
+    spApiError(res, 404, "NotFound", `The simulator does not implement ${req.method} ${req.path}.`);
+  });
+
+  app.use("/:region(na|eu|fe)", router);
+  app.use("/", router);
+
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    spApiError(res, 500, "InternalFailure", err?.message || "Simulator error");
+  });
+
+  return { app, get state() { return state; } };
+}
@@ -0,0 +1,521 @@
+// SP-API Simulator Fixtures
+// Seeded, reproducible seller data served by the local SP-API simulator
+
+import { MARKETPLACES, type Marketplace } from "./marketplaces";
+
+export interface SimMoney {
+  CurrencyCode: string;
+  Amount: string;
+}
+
+export interface SimOrderItem {
+  ASIN: string;
+  SellerSKU: string;
+  OrderItemId: string;
+  Title: string;
+  QuantityOrdered: number;
+  QuantityShipped: number;
+  ItemPrice?: SimMoney;
+  ItemTax?: SimMoney;
+  PromotionDiscount?: SimMoney;
+}
+
+export interface SimOrder {
+  AmazonOrderId: string;
+  MarketplaceId: string;
+  PurchaseDate: string;
+  LastUpdateDate: string;
+  OrderStatus: "Pending" | "Unshipped" | "PartiallyShipped" | "Shipped" | "Canceled";
+  FulfillmentChannel: "AFN" | "MFN";
+  SalesChannel: string;
+  OrderTotal?: SimMoney;
+  NumberOfItemsShipped: number;
+  NumberOfItemsUnshipped: number;
+  PaymentMethod: string;
+  IsPrime: boolean;
+  IsBusinessOrder: boolean;
+  ShippingAddress?: {
+    City: string;
+    StateOrRegion: string;
+    PostalCode: string;
+    CountryCode: string;
+  };
+  OrderItems: SimOrderItem[];
+}
+
+export interface SimInventorySummary {
+  marketplaceId: string;
+  asin: string;
+  fnSku: string;
+  sellerSku: string;
+  productName: string;
+  condition: string;
+  lastUpdatedTime: string;
+  totalQuantity: number;
+  inventoryDetails: {
+    fulfillableQuantity: number;
+    inboundWorkingQuantity: number;
+    inboundShippedQuantity: number;
+    inboundReceivingQuantity: number;
+    reservedQuantity: {
+      totalReservedQuantity: number;
+      pendingCustomerOrderQuantity: number;
+      pendingTransshipmentQuantity: number;
+      fcProcessingQuantity: number;
+    };
+    researchingQuantity: {
+      totalResearchingQuantity: number;
+    };
+    unfulfillableQuantity: {
+      totalUnfulfillableQuantity: number;
+    };
+  };
+}
+
+// A customer refund, and the FBA return behind it when the item came back
+export interface SimReturn {
+  orderId: string;
+  marketplaceId: string;
+  orderItemId: string;
+  sku: string;
+  asin: string;
+  fnSku: string;
+  productName: string;
+  quantity: number;
+  currency: string;
+  refundAmount: number; // item price refunded to the customer
+  refundDate: string;
+  returnDate: string | null; // null when refunded without a return (yet)
+  reason: string;
+  disposition: string;
+  status: string;
+  fulfillmentCenterId: string;
+  licensePlateNumber: string;
+  customerComments: string | null;
+}
+
+export interface SimInboundShipmentItem {
+  SellerSKU: string;
+  FulfillmentNetworkSKU: string;
+  QuantityShipped: number;
+  QuantityReceived: number;
+  QuantityInCase: number;
+}
+
+// A getShipments shipment; LastUpdatedDate is simulator-only, for the date range query
+export interface SimInboundShipment {
+  ShipmentId: string;
+  ShipmentName: string;
+  MarketplaceId: string;
+  ShipmentStatus: "WORKING" | "SHIPPED" | "IN_TRANSIT" | "DELIVERED" | "CHECKED_IN" | "RECEIVING" | "CLOSED" | "CANCELLED";
+  DestinationFulfillmentCenterId: string;
+  LabelPrepType: string;
+  BoxContentsSource: string;
+  ShipFromAddress: {
+    Name: string;
+    AddressLine1: string;
+    City: string;
+    StateOrProvinceCode: string;
+    CountryCode: string;
+    PostalCode: string;
+  };
+  LastUpdatedDate: string;
+  Items: SimInboundShipmentItem[];
+}
+
+// An inbound plan (2024-03-20) and the shipments it was split into
+export interface SimInboundPlan {
+  inboundPlanId: string;
+  marketplaceIds: string[];
+  name: string;
+  status: "ACTIVE" | "SHIPPED" | "VOIDED";
+  createdAt: string;
+  lastUpdatedAt: string;
+  sourceAddress: {
+    name: string;
+    addressLine1: string;
+    city: string;
+    stateOrProvinceCode: string;
+    countryCode: string;
+    postalCode: string;
+  };
+  shipments: Array<{ shipmentId: string; shipmentConfirmationId: string; status: string }>;
+}
+
+export interface SimProduct {
+  sku: string;
+  asin: string;
+  fnSku: string;
+  title: string;
+  price: number; // in the default marketplace's currency
+}
+
+export interface SimulatorFixtures {
+  seed: number;
+  sellerId: string;
+  marketplaceIds: string[]; // marketplaces the seller participates in
+  products: SimProduct[];
+  orders: SimOrder[];
+  inventory: SimInventorySummary[];
+  returns: SimReturn[];
+  inboundShipments: SimInboundShipment[];
+  inboundPlans: SimInboundPlan[];
+  feedErrorSkus: string[]; // SKUs rejected in feed processing reports
+}
+
+export interface FixtureOptions {
+  seed?: number;
+  marketplaceIds?: string[];
+  productCount?: number;
+  orderCount?: number;
+  days?: number; // spread orders over this many days before now
+  now?: Date;
+}
+
+const ADJECTIVES = ["Premium", "Compact", "Deluxe", "Organic", "Portable", "Heavy-Duty", "Eco", "Classic", "Ultra", "Smart"];
+const NOUNS = ["Water Bottle", "Yoga Mat", "Phone Stand", "Desk Lamp", "Notebook Set", "Coffee Grinder", "Dog Leash", "Garden Hose", "Spice Rack", "Travel Pillow"];
+const CITIES: Record<string, Array<[string, string, string]>> = {
+  US: [["Seattle", "WA", "98101"], ["Austin", "TX", "73301"], ["Denver", "CO", "80202"], ["Miami", "FL", "33101"], ["Chicago", "IL", "60601"]],
+  CA: [["Toronto", "ON", "M5H 2N2"], ["Vancouver", "BC", "V6B 1A1"], ["Calgary", "AB", "T2P 1J9"]],
+  GB: [["London", "London", "EC1A 1BB"], ["Manchester", "Greater Manchester", "M1 1AE"]],
+  DE: [["Berlin", "Berlin", "10115"], ["Munich", "Bayern", "80331"]],
+};
+
+const RETURN_REASONS = ["DEFECTIVE", "NOT_AS_DESCRIBED", "UNWANTED_ITEM", "ORDERED_WRONG_ITEM", "QUALITY_UNACCEPTABLE", "DAMAGED_BY_CARRIER", "NO_REASON_GIVEN"];
+const RETURN_DISPOSITIONS = ["SELLABLE", "DEFECTIVE", "CUSTOMER_DAMAGED", "CARRIER_DAMAGED"];
+const RETURN_COMMENTS = ["Stopped working after a week", "Smaller than pictured", "Arrived with a cracked case", "No longer needed"];
+const FULFILLMENT_CENTERS = ["SEA8", "PHX6", "MDW2", "YYZ4"];
+const INBOUND_STATUSES: SimInboundShipment["ShipmentStatus"][] = [
+  "WORKING", "SHIPPED", "IN_TRANSIT", "DELIVERED", "CHECKED_IN", "RECEIVING", "CLOSED", "CLOSED", "CLOSED", "CANCELLED",
+];
+
+// Rough exchange rates from USD so prices look plausible in other marketplaces
+const USD_RATES: Record<string, number> = {
+  USD: 1, CAD: 1.35, MXN: 17, BRL: 5, GBP: 0.8, EUR: 0.92, SEK: 10.5, PLN: 4,
+  TRY: 32, AED: 3.67, SAR: 3.75, EGP: 48, ZAR: 18.5, INR: 83, JPY: 150, AUD: 1.5, SGD: 1.35,
+};
+
+/**
+ * Small deterministic PRNG (mulberry32) so the same seed always yields the
+ * same fixtures
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, values: T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+function randomInt(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function digits(random: () => number, count: number): string {
+  let result = "";
+  for (let i = 0; i < count; i++) {
+    result += Math.floor(random() * 10);
+  }
+  return result;
+}
+
+function money(currency: string, amount: number): SimMoney {
+  const decimals = currency === "JPY" ? 0 : 2;
+  return { CurrencyCode: currency, Amount: amount.toFixed(decimals) };
+}
+
+function localPrice(product: SimProduct, marketplace: Marketplace): number {
+  const rate = USD_RATES[marketplace.currency] ?? 1;
+  return Math.round(product.price * rate * 100) / 100;
+}
+
+function findMarketplace(id: string): Marketplace {
+  return MARKETPLACES.find((m) => m.id === id) ?? MARKETPLACES[0];
+}
+
+/**
+ * Generate a seller's catalog, orders and FBA inventory from a seed
+ */
+export function generateFixtures(options: FixtureOptions = {}): SimulatorFixtures {
+  const seed = options.seed ?? 42;
+  const marketplaceIds = options.marketplaceIds ?? ["ATVPDKIKX0DER", "A2EUQ1WTGCTBG2"];
+  const productCount = options.productCount ?? 25;
+  const orderCount = options.orderCount ?? 150;
+  const days = options.days ?? 90;
+  const now = options.now ?? new Date();
+  const random = createRandom(seed);
+
+  const products: SimProduct[] = [];
+  for (let i = 1; i <= productCount; i++) {
+    const index = String(i).padStart(3, "0");
+    products.push({
+      sku: `SIM-SKU-${index}`,
+      asin: `B0SIM${String(i).padStart(5, "0")}`,
+      fnSku: `X00SIM${String(i).padStart(4, "0")}`,
+      title: `${pick(random, ADJECTIVES)} ${pick(random, NOUNS)}`,
+      price: randomInt(random, 799, 7999) / 100,
+    });
+  }
+
+  const orders: SimOrder[] = [];
+  for (let i = 0; i < orderCount; i++) {
+    // Most orders land in the first (default) marketplace
+    const marketplace = findMarketplace(random() < 0.8 ? marketplaceIds[0] : pick(random, marketplaceIds));
+    const purchaseDate = new Date(now.getTime() - random() * days * 24 * 60 * 60 * 1000);
+    const roll = random();
+    const status: SimOrder["OrderStatus"] =
+      roll < 0.7 ? "Shipped" : roll < 0.8 ? "Unshipped" : roll < 0.9 ? "Pending" : "Canceled";
+
+    // Recent orders are less likely to have shipped yet
+    const ageHours = (now.getTime() - purchaseDate.getTime()) / (60 * 60 * 1000);
+    const effectiveStatus = status === "Shipped" && ageHours < 12 ? "Unshipped" : status;
+
+    const items: SimOrderItem[] = [];
+    const itemCount = randomInt(random, 1, 3);
+    const usedSkus = new Set<string>();
+    for (let j = 0; j < itemCount; j++) {
+      const product = pick(random, products);
+      if (usedSkus.has(product.sku)) continue;
+      usedSkus.add(product.sku);
+
+      const quantity = random() < 0.8 ? 1 : randomInt(random, 2, 4);
+      const unitPrice = localPrice(product, marketplace);
+      const shipped = effectiveStatus === "Shipped" ? quantity : 0;
+      items.push({
+        ASIN: product.asin,
+        SellerSKU: product.sku,
+        OrderItemId: digits(random, 14),
+        Title: product.title,
+        QuantityOrdered: effectiveStatus === "Canceled" ? 0 : quantity,
+        QuantityShipped: shipped,
+        // Amazon omits prices on pending and canceled orders
+        ...(effectiveStatus !== "Pending" && effectiveStatus !== "Canceled"
+          ? {
+              ItemPrice: money(marketplace.currency, unitPrice * quantity),
+              ItemTax: money(marketplace.currency, unitPrice * quantity * 0.08),
+              PromotionDiscount: money(marketplace.currency, 0),
+            }
+          : {}),
+      });
+    }
+
+    const unitsOrdered = items.reduce((sum, item) => sum + item.QuantityOrdered, 0);
+    const unitsShipped = items.reduce((sum, item) => sum + item.QuantityShipped, 0);
+    const total = items.reduce((sum, item) => sum + Number(item.ItemPrice?.Amount || 0), 0);
+    const cities = CITIES[marketplace.countryCode] ?? CITIES.US;
+    const [city, state, postalCode] = pick(random, cities);
+    const lastUpdate = new Date(
+      Math.min(now.getTime(), purchaseDate.getTime() + random() * 3 * 24 * 60 * 60 * 1000)
+    );
+
+    orders.push({
+      AmazonOrderId: `${digits(random, 3)}-${digits(random, 7)}-${digits(random, 7)}`,
+      MarketplaceId: marketplace.id,
+      PurchaseDate: purchaseDate.toISOString(),
+      LastUpdateDate: lastUpdate.toISOString(),
+      OrderStatus: effectiveStatus,
+      FulfillmentChannel: random() < 0.9 ? "AFN" : "MFN",
+      SalesChannel: marketplace.name,
+      ...(effectiveStatus !== "Pending" && effectiveStatus !== "Canceled"
+        ? { OrderTotal: money(marketplace.currency, total) }
+        : {}),
+      NumberOfItemsShipped: unitsShipped,
+      NumberOfItemsUnshipped: unitsOrdered - unitsShipped,
+      PaymentMethod: "Other",
+      IsPrime: random() < 0.6,
+      IsBusinessOrder: random() < 0.1,
+      ...(effectiveStatus !== "Pending"
+        ? { ShippingAddress: { City: city, StateOrRegion: state, PostalCode: postalCode, CountryCode: marketplace.countryCode } }
+        : {}),
+      OrderItems: items,
+    });
+  }
+
+  orders.sort((a, b) => a.PurchaseDate.localeCompare(b.PurchaseDate));
+
+  const inventory: SimInventorySummary[] = [];
+  for (const marketplaceId of marketplaceIds) {
+    for (const product of products) {
+      // Leave some SKUs out of stock so the inactive filters have data
+      const fulfillable = random() < 0.2 ? 0 : randomInt(random, 1, 400);
+      const inboundWorking = random() < 0.2 ? randomInt(random, 10, 100) : 0;
+      const inboundShipped = random() < 0.2 ? randomInt(random, 10, 100) : 0;
+      const inboundReceiving = random() < 0.1 ? randomInt(random, 1, 50) : 0;
+      const reserved = Math.min(fulfillable, randomInt(random, 0, 10));
+      const unfulfillable = random() < 0.15 ? randomInt(random, 1, 5) : 0;
+      const researching = random() < 0.05 ? randomInt(random, 1, 3) : 0;
+
+      inventory.push({
+        marketplaceId,
+        asin: product.asin,
+        fnSku: product.fnSku,
+        sellerSku: product.sku,
+        productName: product.title,
+        condition: "NewItem",
+        lastUpdatedTime: new Date(now.getTime() - random() * 7 * 24 * 60 * 60 * 1000).toISOString(),
+        totalQuantity: fulfillable + inboundWorking + inboundShipped + inboundReceiving + unfulfillable + researching,
+        inventoryDetails: {
+          fulfillableQuantity: fulfillable,
+          inboundWorkingQuantity: inboundWorking,
+          inboundShippedQuantity: inboundShipped,
+          inboundReceivingQuantity: inboundReceiving,
+          reservedQuantity: {
+            totalReservedQuantity: reserved,
+            pendingCustomerOrderQuantity: reserved,
+            pendingTransshipmentQuantity: 0,
+            fcProcessingQuantity: 0,
+          },
+          researchingQuantity: { totalResearchingQuantity: researching },
+          unfulfillableQuantity: { totalUnfulfillableQuantity: unfulfillable },
+        },
+      });
+    }
+  }
+
+  // Every seventh product is return-prone so high-return SKUs stand out
+  const returns: SimReturn[] = [];
+  const dayMs = 24 * 60 * 60 * 1000;
+  for (const order of orders) {
+    if (order.OrderStatus !== "Shipped") continue;
+
+    for (const item of order.OrderItems) {
+      const productIndex = products.findIndex((p) => p.sku === item.SellerSKU);
+      if (random() >= (productIndex % 7 === 0 ? 0.35 : 0.06)) continue;
+
+      const refundDate = new Date(new Date(order.PurchaseDate).getTime() + randomInt(random, 4, 20) * dayMs);
+      if (refundDate > now) continue;
+
+      const returnDate = new Date(refundDate.getTime() + randomInt(random, 0, 10) * dayMs);
+      const returnless = random() < 0.15 || returnDate > now;
+      const quantity = randomInt(random, 1, item.QuantityShipped);
+      const unitPrice = Number(item.ItemPrice?.Amount || 0) / Math.max(1, item.QuantityOrdered);
+
+      returns.push({
+        orderId: order.AmazonOrderId,
+        marketplaceId: order.MarketplaceId,
+        orderItemId: item.OrderItemId,
+        sku: item.SellerSKU,
+        asin: item.ASIN,
+        fnSku: products[productIndex]?.fnSku ?? "",
+        productName: item.Title,
+        quantity,
+        currency: order.OrderTotal?.CurrencyCode ?? "USD",
+        refundAmount: Math.round(unitPrice * quantity * 100) / 100,
+        refundDate: refundDate.toISOString(),
+        returnDate: returnless ? null : returnDate.toISOString(),
+        reason: pick(random, RETURN_REASONS),
+        disposition: pick(random, RETURN_DISPOSITIONS),
+        status: "Unit returned to inventory",
+        fulfillmentCenterId: pick(random, FULFILLMENT_CENTERS),
+        licensePlateNumber: `LPN${digits(random, 10)}`,
+        customerComments: random() < 0.3 ? pick(random, RETURN_COMMENTS) : null,
+      });
+    }
+  }
+
+  // Inbound plans of one or two shipments each; closed shipments sometimes
+  // come up short so there are receiving discrepancies to show
+  const inboundShipments: SimInboundShipment[] = [];
+  const inboundPlans: SimInboundPlan[] = [];
+  for (const marketplaceId of marketplaceIds) {
+    const marketplace = findMarketplace(marketplaceId);
+    const [city, state, postalCode] = pick(random, CITIES[marketplace.countryCode] ?? CITIES.US);
+    const planCount = randomInt(random, 3, 5);
+
+    for (let i = 0; i < planCount; i++) {
+      const createdAt = new Date(now.getTime() - randomInt(random, 2, 60) * dayMs);
+      const planName = `Restock ${createdAt.toISOString().slice(0, 10)}`;
+      const plan: SimInboundPlan = {
+        inboundPlanId: `wf${digits(random, 8)}-sim-${marketplace.countryCode.toLowerCase()}${i}`,
+        marketplaceIds: [marketplaceId],
+        name: planName,
+        status: "ACTIVE",
+        createdAt: createdAt.toISOString(),
+        lastUpdatedAt: createdAt.toISOString(),
+        sourceAddress: {
+          name: "Simulated Prep Center",
+          addressLine1: "100 Warehouse Way",
+          city,
+          stateOrProvinceCode: state,
+          countryCode: marketplace.countryCode,
+          postalCode,
+        },
+        shipments: [],
+      };
+
+      const shipmentCount = randomInt(random, 1, 2);
+      for (let j = 0; j < shipmentCount; j++) {
+        const status = pick(random, INBOUND_STATUSES);
+        const receiving = status === "RECEIVING" || status === "CLOSED";
+        const items: SimInboundShipmentItem[] = [];
+        const usedSkus = new Set<string>();
+        for (let k = randomInt(random, 1, 4); k > 0; k--) {
+          const product = pick(random, products);
+          if (usedSkus.has(product.sku)) continue;
+          usedSkus.add(product.sku);
+
+          const shipped = randomInt(random, 2, 20) * 6;
+          const short = receiving && random() < 0.3 ? randomInt(random, 1, 6) : 0;
+          items.push({
+            SellerSKU: product.sku,
+            FulfillmentNetworkSKU: product.fnSku,
+            QuantityShipped: shipped,
+            QuantityReceived: status === "CLOSED" ? shipped - short : status === "RECEIVING" ? Math.floor(shipped / 2) : 0,
+            QuantityInCase: 6,
+          });
+        }
+
+        const shipmentId = `FBA15SIM${digits(random, 4)}`;
+        const updatedAt = new Date(Math.min(now.getTime(), createdAt.getTime() + randomInt(random, 1, 20) * dayMs));
+        inboundShipments.push({
+          ShipmentId: shipmentId,
+          ShipmentName: `${planName} (${j + 1}/${shipmentCount})`,
+          MarketplaceId: marketplaceId,
+          ShipmentStatus: status,
+          DestinationFulfillmentCenterId: pick(random, FULFILLMENT_CENTERS),
+          LabelPrepType: "SELLER_LABEL",
+          BoxContentsSource: "FEED",
+          ShipFromAddress: {
+            Name: plan.sourceAddress.name,
+            AddressLine1: plan.sourceAddress.addressLine1,
+            City: city,
+            StateOrProvinceCode: state,
+            CountryCode: marketplace.countryCode,
+            PostalCode: postalCode,
+          },
+          LastUpdatedDate: updatedAt.toISOString(),
+          Items: items,
+        });
+        plan.shipments.push({ shipmentId: `sh${digits(random, 10)}`, shipmentConfirmationId: shipmentId, status });
+        if (updatedAt.toISOString() > plan.lastUpdatedAt) {
+          plan.lastUpdatedAt = updatedAt.toISOString();
+        }
+      }
+
+      if (plan.shipments.every((shipment) => shipment.status === "CLOSED")) {
+        plan.status = "SHIPPED";
+      }
+      inboundPlans.push(plan);
+    }
+  }
+
+  return {
+    seed,
+    sellerId: "ASIMSELLER0001",
+    marketplaceIds,
+    products,
+    orders,
+    inventory,
+    returns,
+    inboundShipments,
+    inboundPlans,
+    feedErrorSkus: [],
+  };
+}
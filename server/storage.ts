@@ -17,9 +17,50 @@ import {
   type InsertSupplierTrackingSettings,
   type SupplierWhitelist,
   type InsertSupplierWhitelist,
+  type SalesSnapshot,
+  type InsertSalesSnapshot,
+  type AmazonOrder,
+  type InsertAmazonOrder,
+  type AmazonOrderItem,
+  type InsertAmazonOrderItem,
+  type AmazonOrderSyncState,
+  type InsertAmazonOrderSyncState,
+  type AmazonReturn,
+  type InsertAmazonReturn,
+  type AmazonReturnType,
+  type FbaInventoryItem,
+  type InsertFbaInventoryItem,
+  type FbaInventorySyncState,
+  type InsertFbaInventorySyncState,
+  type FbaInventorySnapshot,
+  type InsertFbaInventorySnapshot,
+  type InventoryAlertRule,
+  type InsertInventoryAlertRule,
+  type InventoryAlert,
+  type InsertInventoryAlert,
+  type FbaInboundPlan,
+  type InsertFbaInboundPlan,
+  type FbaInboundShipment,
+  type InsertFbaInboundShipment,
+  type FbaInboundShipmentItem,
+  type InsertFbaInboundShipmentItem,
+  type FbaInboundSyncState,
+  type InsertFbaInboundSyncState,
+  defaultInventoryAlertRules,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 
+// Processing result for one SKU item, matched by SKU within its upload
+export interface SkuItemUpdate {
+  id: string; // The item's id, since a SKU can appear more than once in an upload
+  status: string;
+  // Written as given, so null clears what an earlier report left behind
+  errorMessage: string | null;
+  errorCode: string | null;
+  severity: string | null;
+  issues: string | null;
+}
+
 // Filter options for supplier orders
 export interface SupplierOrderFilters {
   status?: string;
@@ -48,6 +89,115 @@ export interface SupplierOrderStats {
   dueThisWeek: number;
 }
 
+// Filter options for the local Amazon order store
+export interface AmazonOrderFilters {
+  marketplaceId?: string;
+  status?: string;
+  startDate?: Date;
+  endDate?: Date;
+  search?: string; // order ID, ship city/state, SKU or ASIN
+  missingItems?: boolean; // orders whose items still need fetching
+  missingFees?: boolean; // shipped orders whose fee events still need fetching
+  sortBy?: "purchaseDate" | "lastUpdateDate" | "orderTotal" | "orderStatus";
+  sortDirection?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+}
+
+// Summary stats over the filtered Amazon orders
+export interface AmazonOrderStats {
+  totalOrders: number;
+  pendingOrders: number;
+  unshippedOrders: number;
+  shippedOrders: number;
+  canceledOrders: number;
+  totalRevenue: number;
+}
+
+export type AmazonOrderWithItems = AmazonOrder & { items: AmazonOrderItem[] };
+
+// Filter options for FBA returns and refunds
+export interface AmazonReturnFilters {
+  marketplaceId?: string;
+  type?: AmazonReturnType;
+  sku?: string;
+  startDate?: Date;
+  endDate?: Date;
+  search?: string; // order ID, SKU, ASIN or product name
+  limit?: number;
+  offset?: number;
+}
+
+// Returns and refunds per SKU, alongside units sold over the same dates
+export interface AmazonReturnSkuStats {
+  sku: string;
+  asin: string | null;
+  productName: string | null;
+  unitsSold: number;
+  unitsReturned: number;
+  returnCount: number;
+  refundCount: number;
+  refundedAmount: number;
+  topReason: string | null;
+}
+
+export interface AmazonReturnReasonStats {
+  reason: string;
+  returnCount: number;
+  unitsReturned: number;
+}
+
+// Fees for one order item from the Finances API, as positive amounts
+export interface AmazonOrderItemFees {
+  orderItemId: string;
+  referralFee: string;
+  fbaFee: string;
+  otherFees: string;
+}
+
+// Supplier-side cost of an item, from non-cancelled supplier orders
+export interface SupplierItemCost {
+  sku: string | null;
+  asin: string | null;
+  quantity: number | null;
+  unitCost: string;
+  currency: string | null;
+}
+
+// An item bought from a supplier, with the dates of the non-cancelled order it was on
+export interface SupplierItemSource {
+  orderId: string;
+  sku: string | null;
+  asin: string | null;
+  supplierName: string | null;
+  supplierEmail: string | null;
+  orderDate: Date | null;
+  actualDeliveryDate: Date | null;
+}
+
+// Units ordered per SKU from the local order store, excluding canceled orders
+export interface AmazonSkuUnitsSold {
+  sku: string;
+  asin: string | null;
+  title: string | null;
+  unitsSold: number;
+}
+
+// Snapshot days in a range on which a SKU had nothing fulfillable
+export interface FbaStockoutDays {
+  sellerSku: string;
+  stockoutDays: number;
+}
+
+// Filter options for FBA inbound shipments
+export interface FbaInboundShipmentFilters {
+  marketplaceId: string;
+  status?: string;
+  inboundPlanId?: string;
+  missingItems?: boolean; // only shipments whose items need (re)fetching
+  limit?: number; // default 100, most recently updated first
+}
+
 // modify the interface with any CRUD methods
 // you might need
 
@@ -61,13 +211,17 @@ export interface IStorage {
   createSkuUpload(upload: InsertSkuUpload): Promise<SkuUpload>;
   getSkuUpload(id: string): Promise<SkuUpload | undefined>;
   getSkuUploads(limit?: number, offset?: number): Promise<SkuUpload[]>;
+  getSkuUploadsByParentId(parentUploadId: string): Promise<SkuUpload[]>;
+  getSkuUploadsByStatus(status: string): Promise<SkuUpload[]>;
   updateSkuUpload(id: string, data: Partial<SkuUpload>): Promise<SkuUpload | undefined>;
 
   // SKU Item methods
   createSkuItems(items: InsertSkuItem[]): Promise<SkuItem[]>;
   getSkuItemsByUploadId(uploadId: string): Promise<SkuItem[]>;
   updateSkuItem(id: string, data: Partial<SkuItem>): Promise<SkuItem | undefined>;
-  updateSkuItemsBatch(uploadId: string, updates: { sku: string; status: string; errorMessage?: string }[]): Promise<void>;
+  updateSkuItemsBatch(uploadId: string, updates: SkuItemUpdate[]): Promise<void>;
+  markSkuItemsResubmitted(itemIds: string[], resubmittedUploadId: string): Promise<number>;
+  releaseResubmittedSkuItems(resubmittedUploadId: string): Promise<void>;
 
   // Gmail Account methods
   createGmailAccount(account: InsertGmailAccount): Promise<GmailAccount>;
@@ -94,6 +248,8 @@ export interface IStorage {
   // Supplier Order Item methods
   createSupplierOrderItems(items: InsertSupplierOrderItem[]): Promise<SupplierOrderItem[]>;
   getSupplierOrderItems(orderId: string): Promise<SupplierOrderItem[]>;
+  getSupplierItemCosts(): Promise<SupplierItemCost[]>;
+  getSupplierItemSources(): Promise<SupplierItemSource[]>;
 
   // Email Sync Log methods
   createEmailSyncLog(log: InsertEmailSyncLog): Promise<EmailSyncLog>;
@@ -112,6 +268,77 @@ export interface IStorage {
   updateSupplierWhitelist(id: string, data: Partial<InsertSupplierWhitelist>): Promise<SupplierWhitelist | undefined>;
   deleteSupplierWhitelist(id: string): Promise<boolean>;
   isEmailWhitelisted(email: string): Promise<boolean>;
+
+  // Sales Snapshot methods
+  upsertSalesSnapshots(snapshots: InsertSalesSnapshot[]): Promise<number>;
+  getSalesSnapshots(marketplaceId: string, startDate: string, endDate: string): Promise<SalesSnapshot[]>;
+
+  // Amazon Order methods
+  upsertAmazonOrders(orders: InsertAmazonOrder[]): Promise<AmazonOrder[]>;
+  getAmazonOrdersByIds(amazonOrderIds: string[]): Promise<AmazonOrder[]>;
+  updateAmazonOrder(amazonOrderId: string, data: Partial<AmazonOrder>): Promise<AmazonOrder | undefined>;
+  getAmazonOrders(filters: AmazonOrderFilters): Promise<{ orders: AmazonOrderWithItems[]; total: number }>;
+  // Next page by order ID after the cursor, without a count, for walking every match
+  getAmazonOrdersAfter(filters: AmazonOrderFilters, afterOrderId: string | null, limit: number): Promise<AmazonOrderWithItems[]>;
+  getAmazonOrderStats(filters: AmazonOrderFilters): Promise<AmazonOrderStats>;
+  getAmazonSkuUnitsSold(filters: AmazonOrderFilters): Promise<AmazonSkuUnitsSold[]>;
+
+  // Amazon Order Item methods
+  replaceAmazonOrderItems(amazonOrderId: string, items: InsertAmazonOrderItem[]): Promise<AmazonOrderItem[]>;
+  updateAmazonOrderItemFees(amazonOrderId: string, fees: AmazonOrderItemFees[]): Promise<void>;
+
+  // Amazon Order Sync State methods
+  getAmazonOrderSyncState(marketplaceId: string): Promise<AmazonOrderSyncState | undefined>;
+  getAllAmazonOrderSyncStates(): Promise<AmazonOrderSyncState[]>;
+  upsertAmazonOrderSyncState(state: InsertAmazonOrderSyncState): Promise<AmazonOrderSyncState>;
+
+  // Amazon Return methods
+  upsertAmazonReturns(returns: InsertAmazonReturn[]): Promise<number>;
+  getAmazonReturns(filters: AmazonReturnFilters): Promise<{ returns: AmazonReturn[]; total: number }>;
+  getLatestAmazonReturnDate(marketplaceId: string, type: AmazonReturnType): Promise<Date | null>;
+  getAmazonReturnSkuStats(filters: AmazonReturnFilters): Promise<AmazonReturnSkuStats[]>;
+  getAmazonReturnReasonStats(filters: AmazonReturnFilters): Promise<AmazonReturnReasonStats[]>;
+
+  // FBA Inventory methods
+  replaceFbaInventory(marketplaceId: string, items: InsertFbaInventoryItem[]): Promise<number>;
+  getFbaInventory(marketplaceId: string): Promise<FbaInventoryItem[]>;
+  getFbaInventorySyncState(marketplaceId: string): Promise<FbaInventorySyncState | undefined>;
+  upsertFbaInventorySyncState(state: InsertFbaInventorySyncState): Promise<FbaInventorySyncState>;
+
+  // FBA Inventory Snapshot methods
+  upsertFbaInventorySnapshots(snapshots: InsertFbaInventorySnapshot[]): Promise<number>;
+  getFbaInventorySnapshots(
+    marketplaceId: string,
+    sellerSku: string,
+    startDate: string,
+    endDate: string
+  ): Promise<FbaInventorySnapshot[]>;
+  getLatestFbaInventorySnapshots(marketplaceId: string, onOrBefore: string): Promise<FbaInventorySnapshot[]>;
+  getFbaStockoutDays(marketplaceId: string, startDate: string, endDate: string): Promise<FbaStockoutDays[]>;
+
+  // Inventory Alert Rule methods
+  getInventoryAlertRules(): Promise<InventoryAlertRule[]>;
+  createInventoryAlertRule(rule: InsertInventoryAlertRule): Promise<InventoryAlertRule>;
+  updateInventoryAlertRule(id: string, data: Partial<InsertInventoryAlertRule>): Promise<InventoryAlertRule | undefined>;
+  deleteInventoryAlertRule(id: string): Promise<boolean>;
+
+  // Inventory Alert methods
+  recordInventoryAlerts(marketplaceId: string, ruleIds: string[], alerts: InsertInventoryAlert[]): Promise<number>;
+  getOpenInventoryAlerts(marketplaceId: string): Promise<InventoryAlert[]>;
+  dismissInventoryAlert(id: string): Promise<InventoryAlert | undefined>;
+
+  // FBA Inbound methods
+  upsertFbaInboundPlans(plans: InsertFbaInboundPlan[]): Promise<number>;
+  getFbaInboundPlans(marketplaceId: string): Promise<FbaInboundPlan[]>;
+  upsertFbaInboundShipments(shipments: InsertFbaInboundShipment[]): Promise<FbaInboundShipment[]>;
+  getFbaInboundShipmentsByIds(shipmentIds: string[]): Promise<FbaInboundShipment[]>;
+  getFbaInboundShipments(filters: FbaInboundShipmentFilters): Promise<FbaInboundShipment[]>;
+  updateFbaInboundShipment(shipmentId: string, data: Partial<FbaInboundShipment>): Promise<FbaInboundShipment | undefined>;
+  replaceFbaInboundShipmentItems(shipmentId: string, items: InsertFbaInboundShipmentItem[]): Promise<FbaInboundShipmentItem[]>;
+  getFbaInboundShipmentItems(shipmentIds: string[]): Promise<FbaInboundShipmentItem[]>;
+  getFbaInboundSyncState(marketplaceId: string): Promise<FbaInboundSyncState | undefined>;
+  getAllFbaInboundSyncStates(): Promise<FbaInboundSyncState[]>;
+  upsertFbaInboundSyncState(state: InsertFbaInboundSyncState): Promise<FbaInboundSyncState>;
 }
 
 export class MemStorage implements IStorage {
@@ -124,6 +351,20 @@ export class MemStorage implements IStorage {
   private emailSyncLogs: Map<string, EmailSyncLog>;
   private supplierTrackingSettings: SupplierTrackingSettings | null;
   private supplierWhitelistEntries: Map<string, SupplierWhitelist>;
+  private salesSnapshots: Map<string, SalesSnapshot>;
+  private amazonOrders: Map<string, AmazonOrder>;
+  private amazonOrderItems: Map<string, AmazonOrderItem>;
+  private amazonOrderSyncStates: Map<string, AmazonOrderSyncState>;
+  private amazonReturns: Map<string, AmazonReturn>;
+  private fbaInventoryItems: Map<string, FbaInventoryItem>;
+  private fbaInventorySyncStates: Map<string, FbaInventorySyncState>;
+  private fbaInventorySnapshots: Map<string, FbaInventorySnapshot>;
+  private inventoryAlertRules: Map<string, InventoryAlertRule>;
+  private inventoryAlerts: Map<string, InventoryAlert>;
+  private fbaInboundPlans: Map<string, FbaInboundPlan>;
+  private fbaInboundShipments: Map<string, FbaInboundShipment>;
+  private fbaInboundShipmentItems: Map<string, FbaInboundShipmentItem>;
+  private fbaInboundSyncStates: Map<string, FbaInboundSyncState>;
 
   constructor() {
     this.users = new Map();
@@ -135,6 +376,20 @@ export class MemStorage implements IStorage {
     this.emailSyncLogs = new Map();
     this.supplierTrackingSettings = null;
     this.supplierWhitelistEntries = new Map();
+    this.salesSnapshots = new Map();
+    this.amazonOrders = new Map();
+    this.amazonOrderItems = new Map();
+    this.amazonOrderSyncStates = new Map();
+    this.amazonReturns = new Map();
+    this.fbaInventoryItems = new Map();
+    this.fbaInventorySyncStates = new Map();
+    this.fbaInventorySnapshots = new Map();
+    this.inventoryAlertRules = new Map();
+    this.inventoryAlerts = new Map();
+    this.fbaInboundPlans = new Map();
+    this.fbaInboundShipments = new Map();
+    this.fbaInboundShipmentItems = new Map();
+    this.fbaInboundSyncStates = new Map();
   }
 
   // User methods
@@ -162,14 +417,19 @@ export class MemStorage implements IStorage {
     const upload: SkuUpload = {
       id,
       filename: insertUpload.filename,
+      marketplaceId: insertUpload.marketplaceId ?? "ATVPDKIKX0DER",
       status: insertUpload.status ?? "pending",
+      uploadType: insertUpload.uploadType ?? "listing",
       totalItems: insertUpload.totalItems ?? 0,
       successCount: insertUpload.successCount ?? 0,
       errorCount: insertUpload.errorCount ?? 0,
       feedDocumentId: insertUpload.feedDocumentId ?? null,
       feedId: insertUpload.feedId ?? null,
       feedResult: insertUpload.feedResult ?? null,
+      closeFeedId: insertUpload.closeFeedId ?? null,
+      closeFeedStatus: insertUpload.closeFeedStatus ?? null,
       errorMessage: insertUpload.errorMessage ?? null,
+      parentUploadId: insertUpload.parentUploadId ?? null,
       createdAt: now,
       updatedAt: now,
     };
@@ -187,6 +447,18 @@ export class MemStorage implements IStorage {
     return uploads.slice(offset, offset + limit);
   }
 
+  async getSkuUploadsByParentId(parentUploadId: string): Promise<SkuUpload[]> {
+    return Array.from(this.skuUploads.values())
+      .filter((upload) => upload.parentUploadId === parentUploadId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getSkuUploadsByStatus(status: string): Promise<SkuUpload[]> {
+    return Array.from(this.skuUploads.values())
+      .filter((upload) => upload.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
   async updateSkuUpload(id: string, data: Partial<SkuUpload>): Promise<SkuUpload | undefined> {
     const upload = this.skuUploads.get(id);
     if (!upload) return undefined;
@@ -221,9 +493,15 @@ export class MemStorage implements IStorage {
         batteriesRequired: insertItem.batteriesRequired ?? "false",
         areBatteriesIncluded: insertItem.areBatteriesIncluded ?? "false",
         supplierDeclaredDgHzRegulation: insertItem.supplierDeclaredDgHzRegulation ?? "Not Applicable",
+        handlingTime: insertItem.handlingTime ?? null,
+        messageId: insertItem.messageId ?? null,
         // Status
         status: insertItem.status ?? "pending",
         errorMessage: insertItem.errorMessage ?? null,
+        errorCode: insertItem.errorCode ?? null,
+        severity: insertItem.severity ?? null,
+        issues: insertItem.issues ?? null,
+        resubmittedUploadId: insertItem.resubmittedUploadId ?? null,
         createdAt: now,
       };
       this.skuItems.set(id, item);
@@ -236,7 +514,41 @@ export class MemStorage implements IStorage {
   async getSkuItemsByUploadId(uploadId: string): Promise<SkuItem[]> {
     return Array.from(this.skuItems.values())
       .filter((item) => item.uploadId === uploadId)
-      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || (a.messageId ?? 0) - (b.messageId ?? 0));
+  }
+
+  async getSupplierItemCosts(): Promise<SupplierItemCost[]> {
+    return Array.from(this.supplierOrderItems.values())
+      .filter((item) => item.unitCost !== null && (item.sku || item.asin))
+      .flatMap((item) => {
+        const order = this.supplierOrders.get(item.orderId);
+        if (!order || order.status === "cancelled") return [];
+        return [{
+          sku: item.sku,
+          asin: item.asin,
+          quantity: item.quantity,
+          unitCost: item.unitCost!,
+          currency: order.currency,
+        }];
+      });
+  }
+
+  async getSupplierItemSources(): Promise<SupplierItemSource[]> {
+    return Array.from(this.supplierOrderItems.values())
+      .filter((item) => item.sku || item.asin)
+      .flatMap((item) => {
+        const order = this.supplierOrders.get(item.orderId);
+        if (!order || order.status === "cancelled") return [];
+        return [{
+          orderId: order.id,
+          sku: item.sku,
+          asin: item.asin,
+          supplierName: order.supplierName,
+          supplierEmail: order.supplierEmail,
+          orderDate: order.orderDate,
+          actualDeliveryDate: order.actualDeliveryDate,
+        }];
+      });
   }
 
   async updateSkuItem(id: string, data: Partial<SkuItem>): Promise<SkuItem | undefined> {
@@ -252,21 +564,39 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async updateSkuItemsBatch(
-    uploadId: string,
-    updates: { sku: string; status: string; errorMessage?: string }[]
-  ): Promise<void> {
-    const updateMap = new Map(updates.map((u) => [u.sku, u]));
-
-    Array.from(this.skuItems.entries()).forEach(([id, item]) => {
-      if (item.uploadId === uploadId && updateMap.has(item.sku)) {
-        const update = updateMap.get(item.sku)!;
-        this.skuItems.set(id, {
+  async updateSkuItemsBatch(uploadId: string, updates: SkuItemUpdate[]): Promise<void> {
+    for (const update of updates) {
+      const item = this.skuItems.get(update.id);
+      if (item?.uploadId === uploadId) {
+        this.skuItems.set(update.id, {
           ...item,
           status: update.status,
-          errorMessage: update.errorMessage ?? item.errorMessage,
+          errorMessage: update.errorMessage,
+          errorCode: update.errorCode,
+          severity: update.severity,
+          issues: update.issues,
         });
       }
+    }
+  }
+
+  async markSkuItemsResubmitted(itemIds: string[], resubmittedUploadId: string): Promise<number> {
+    let marked = 0;
+    for (const id of itemIds) {
+      const item = this.skuItems.get(id);
+      if (item && !item.resubmittedUploadId) {
+        this.skuItems.set(id, { ...item, resubmittedUploadId });
+        marked++;
+      }
+    }
+    return marked;
+  }
+
+  async releaseResubmittedSkuItems(resubmittedUploadId: string): Promise<void> {
+    Array.from(this.skuItems.entries()).forEach(([id, item]) => {
+      if (item.resubmittedUploadId === resubmittedUploadId) {
+        this.skuItems.set(id, { ...item, resubmittedUploadId: null });
+      }
     });
   }
 
@@ -735,6 +1065,845 @@ export class MemStorage implements IStorage {
 
     return false;
   }
+
+  // Sales Snapshot methods
+  async upsertSalesSnapshots(insertSnapshots: InsertSalesSnapshot[]): Promise<number> {
+    for (const insertSnapshot of insertSnapshots) {
+      // Keyed by marketplace and day, so a re-fetch replaces the previous row
+      const key = `${insertSnapshot.marketplaceId}:${insertSnapshot.date}`;
+      const existing = this.salesSnapshots.get(key);
+      this.salesSnapshots.set(key, {
+        id: existing?.id ?? randomUUID(),
+        marketplaceId: insertSnapshot.marketplaceId,
+        date: insertSnapshot.date,
+        totalSales: insertSnapshot.totalSales ?? "0",
+        currency: insertSnapshot.currency,
+        unitCount: insertSnapshot.unitCount ?? 0,
+        orderItemCount: insertSnapshot.orderItemCount ?? 0,
+        orderCount: insertSnapshot.orderCount ?? 0,
+        fetchedAt: insertSnapshot.fetchedAt ?? new Date(),
+      });
+    }
+    return insertSnapshots.length;
+  }
+
+  async getSalesSnapshots(marketplaceId: string, startDate: string, endDate: string): Promise<SalesSnapshot[]> {
+    return Array.from(this.salesSnapshots.values())
+      .filter((s) => s.marketplaceId === marketplaceId && s.date >= startDate && s.date <= endDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Amazon Order methods
+  async upsertAmazonOrders(insertOrders: InsertAmazonOrder[]): Promise<AmazonOrder[]> {
+    const now = new Date();
+    return insertOrders.map((insertOrder) => {
+      // Keyed by Amazon order ID, so a re-sync replaces the previous row
+      const existing = this.amazonOrders.get(insertOrder.amazonOrderId);
+      const order: AmazonOrder = {
+        id: existing?.id ?? randomUUID(),
+        amazonOrderId: insertOrder.amazonOrderId,
+        marketplaceId: insertOrder.marketplaceId,
+        purchaseDate: insertOrder.purchaseDate,
+        lastUpdateDate: insertOrder.lastUpdateDate,
+        orderStatus: insertOrder.orderStatus,
+        fulfillmentChannel: insertOrder.fulfillmentChannel ?? null,
+        salesChannel: insertOrder.salesChannel ?? null,
+        orderTotal: insertOrder.orderTotal ?? null,
+        itemsTotal: insertOrder.itemsTotal ?? null,
+        currency: insertOrder.currency ?? null,
+        numberOfItemsShipped: insertOrder.numberOfItemsShipped ?? 0,
+        numberOfItemsUnshipped: insertOrder.numberOfItemsUnshipped ?? 0,
+        paymentMethod: insertOrder.paymentMethod ?? null,
+        isPrime: insertOrder.isPrime ?? false,
+        isBusinessOrder: insertOrder.isBusinessOrder ?? false,
+        shipCity: insertOrder.shipCity ?? null,
+        shipState: insertOrder.shipState ?? null,
+        shipPostalCode: insertOrder.shipPostalCode ?? null,
+        itemsSyncedAt: insertOrder.itemsSyncedAt ?? null,
+        feesSyncedAt: insertOrder.feesSyncedAt ?? null,
+        rawData: insertOrder.rawData ?? null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      this.amazonOrders.set(order.amazonOrderId, order);
+      return order;
+    });
+  }
+
+  async getAmazonOrdersByIds(amazonOrderIds: string[]): Promise<AmazonOrder[]> {
+    return amazonOrderIds
+      .map((id) => this.amazonOrders.get(id))
+      .filter((order): order is AmazonOrder => order !== undefined);
+  }
+
+  async updateAmazonOrder(amazonOrderId: string, data: Partial<AmazonOrder>): Promise<AmazonOrder | undefined> {
+    const order = this.amazonOrders.get(amazonOrderId);
+    if (!order) return undefined;
+
+    const updated: AmazonOrder = {
+      ...order,
+      ...data,
+      id: order.id,
+      amazonOrderId, // Ensure the key cannot be changed
+      updatedAt: new Date(),
+    };
+    this.amazonOrders.set(amazonOrderId, updated);
+    return updated;
+  }
+
+  private filterAmazonOrders(filters: AmazonOrderFilters): AmazonOrder[] {
+    let orders = Array.from(this.amazonOrders.values());
+
+    if (filters.marketplaceId) {
+      orders = orders.filter((o) => o.marketplaceId === filters.marketplaceId);
+    }
+    if (filters.status) {
+      orders = orders.filter((o) => o.orderStatus === filters.status);
+    }
+    if (filters.startDate) {
+      orders = orders.filter((o) => o.purchaseDate >= filters.startDate!);
+    }
+    if (filters.endDate) {
+      orders = orders.filter((o) => o.purchaseDate <= filters.endDate!);
+    }
+    if (filters.missingItems) {
+      orders = orders.filter((o) => !o.itemsSyncedAt);
+    }
+    if (filters.missingFees) {
+      orders = orders.filter((o) =>
+        (o.orderStatus === "Shipped" || o.orderStatus === "PartiallyShipped") &&
+        o.itemsSyncedAt !== null &&
+        !o.feesSyncedAt
+      );
+    }
+    if (filters.search) {
+      const searchLower = filters.search.toLowerCase();
+      const items = Array.from(this.amazonOrderItems.values());
+      orders = orders.filter((o) =>
+        o.amazonOrderId.toLowerCase().includes(searchLower) ||
+        o.shipCity?.toLowerCase().includes(searchLower) ||
+        o.shipState?.toLowerCase().includes(searchLower) ||
+        items.some((item) =>
+          item.amazonOrderId === o.amazonOrderId &&
+          (item.sku?.toLowerCase().includes(searchLower) || item.asin?.toLowerCase().includes(searchLower))
+        )
+      );
+    }
+
+    return orders;
+  }
+
+  // Order total, falling back to the item total for orders Amazon hasn't priced yet
+  private amazonOrderAmount(order: AmazonOrder): number {
+    if (order.orderTotal !== null) return Number(order.orderTotal);
+    if (order.orderStatus === "Canceled") return 0;
+    return Number(order.itemsTotal ?? 0);
+  }
+
+  async getAmazonOrders(filters: AmazonOrderFilters): Promise<{ orders: AmazonOrderWithItems[]; total: number }> {
+    const orders = this.filterAmazonOrders(filters);
+    const direction = filters.sortDirection === "asc" ? 1 : -1;
+
+    orders.sort((a, b) => {
+      switch (filters.sortBy) {
+        case "lastUpdateDate":
+          return direction * (a.lastUpdateDate.getTime() - b.lastUpdateDate.getTime());
+        case "orderTotal":
+          return direction * (this.amazonOrderAmount(a) - this.amazonOrderAmount(b));
+        case "orderStatus":
+          return direction * a.orderStatus.localeCompare(b.orderStatus);
+        default:
+          return direction * (a.purchaseDate.getTime() - b.purchaseDate.getTime());
+      }
+    });
+
+    // Get total before pagination
+    const total = orders.length;
+
+    // Apply pagination
+    const offset = filters.offset ?? 0;
+    const limit = filters.limit ?? 100;
+    const items = Array.from(this.amazonOrderItems.values());
+
+    return {
+      orders: orders.slice(offset, offset + limit).map((order) => ({
+        ...order,
+        items: items.filter((item) => item.amazonOrderId === order.amazonOrderId),
+      })),
+      total,
+    };
+  }
+
+  async getAmazonOrdersAfter(filters: AmazonOrderFilters, afterOrderId: string | null, limit: number): Promise<AmazonOrderWithItems[]> {
+    const orders = this.filterAmazonOrders(filters)
+      .filter((o) => afterOrderId === null || o.amazonOrderId > afterOrderId)
+      .sort((a, b) => (a.amazonOrderId < b.amazonOrderId ? -1 : a.amazonOrderId > b.amazonOrderId ? 1 : 0))
+      .slice(0, limit);
+    const items = Array.from(this.amazonOrderItems.values());
+
+    return orders.map((order) => ({
+      ...order,
+      items: items.filter((item) => item.amazonOrderId === order.amazonOrderId),
+    }));
+  }
+
+  async getAmazonOrderStats(filters: AmazonOrderFilters): Promise<AmazonOrderStats> {
+    const orders = this.filterAmazonOrders(filters);
+    const totalRevenue = orders.reduce((sum, o) => sum + this.amazonOrderAmount(o), 0);
+
+    return {
+      totalOrders: orders.length,
+      pendingOrders: orders.filter((o) => o.orderStatus === "Pending").length,
+      unshippedOrders: orders.filter((o) => o.orderStatus === "Unshipped").length,
+      shippedOrders: orders.filter((o) => o.orderStatus === "Shipped").length,
+      canceledOrders: orders.filter((o) => o.orderStatus === "Canceled").length,
+      totalRevenue: Math.round(totalRevenue * 100) / 100,
+    };
+  }
+
+  async getAmazonSkuUnitsSold(filters: AmazonOrderFilters): Promise<AmazonSkuUnitsSold[]> {
+    const orderIds = new Set(
+      this.filterAmazonOrders(filters)
+        .filter((o) => o.orderStatus !== "Canceled")
+        .map((o) => o.amazonOrderId)
+    );
+    const sales = new Map<string, AmazonSkuUnitsSold>();
+
+    Array.from(this.amazonOrderItems.values()).forEach((item) => {
+      if (!item.sku || !orderIds.has(item.amazonOrderId)) return;
+      const entry = sales.get(item.sku) ?? { sku: item.sku, asin: item.asin, title: item.title, unitsSold: 0 };
+      entry.unitsSold += item.quantityOrdered;
+      sales.set(item.sku, entry);
+    });
+
+    return Array.from(sales.values());
+  }
+
+  // Amazon Order Item methods
+  async replaceAmazonOrderItems(amazonOrderId: string, insertItems: InsertAmazonOrderItem[]): Promise<AmazonOrderItem[]> {
+    Array.from(this.amazonOrderItems.entries()).forEach(([id, item]) => {
+      if (item.amazonOrderId === amazonOrderId) {
+        this.amazonOrderItems.delete(id);
+      }
+    });
+
+    const now = new Date();
+    return insertItems.map((insertItem) => {
+      const item: AmazonOrderItem = {
+        id: randomUUID(),
+        amazonOrderId: insertItem.amazonOrderId,
+        orderItemId: insertItem.orderItemId,
+        asin: insertItem.asin ?? null,
+        sku: insertItem.sku ?? null,
+        title: insertItem.title ?? null,
+        quantityOrdered: insertItem.quantityOrdered ?? 0,
+        quantityShipped: insertItem.quantityShipped ?? 0,
+        itemPrice: insertItem.itemPrice ?? null,
+        currency: insertItem.currency ?? null,
+        referralFee: insertItem.referralFee ?? null,
+        fbaFee: insertItem.fbaFee ?? null,
+        otherFees: insertItem.otherFees ?? null,
+        createdAt: now,
+      };
+      this.amazonOrderItems.set(item.id, item);
+      return item;
+    });
+  }
+
+  async updateAmazonOrderItemFees(amazonOrderId: string, fees: AmazonOrderItemFees[]): Promise<void> {
+    const feesByItemId = new Map(fees.map((fee) => [fee.orderItemId, fee]));
+    Array.from(this.amazonOrderItems.values()).forEach((item) => {
+      const fee = item.amazonOrderId === amazonOrderId ? feesByItemId.get(item.orderItemId) : undefined;
+      if (fee) {
+        this.amazonOrderItems.set(item.id, {
+          ...item,
+          referralFee: fee.referralFee,
+          fbaFee: fee.fbaFee,
+          otherFees: fee.otherFees,
+        });
+      }
+    });
+  }
+
+  // Amazon Order Sync State methods
+  async getAmazonOrderSyncState(marketplaceId: string): Promise<AmazonOrderSyncState | undefined> {
+    return this.amazonOrderSyncStates.get(marketplaceId);
+  }
+
+  async getAllAmazonOrderSyncStates(): Promise<AmazonOrderSyncState[]> {
+    return Array.from(this.amazonOrderSyncStates.values());
+  }
+
+  async upsertAmazonOrderSyncState(insertState: InsertAmazonOrderSyncState): Promise<AmazonOrderSyncState> {
+    const existing = this.amazonOrderSyncStates.get(insertState.marketplaceId);
+    // Fields left out keep their current values, as with an SQL upsert
+    const state: AmazonOrderSyncState = {
+      id: randomUUID(),
+      lastSyncAt: null,
+      status: "idle",
+      ordersSynced: 0,
+      errorMessage: null,
+      ...existing,
+      ...insertState,
+      updatedAt: new Date(),
+    };
+    this.amazonOrderSyncStates.set(state.marketplaceId, state);
+    return state;
+  }
+
+  // Amazon Return methods
+  async upsertAmazonReturns(insertReturns: InsertAmazonReturn[]): Promise<number> {
+    const now = new Date();
+    for (const insertReturn of insertReturns) {
+      // Keyed by event, so a re-sync replaces the previous row
+      const existing = this.amazonReturns.get(insertReturn.eventKey);
+      this.amazonReturns.set(insertReturn.eventKey, {
+        id: existing?.id ?? randomUUID(),
+        eventKey: insertReturn.eventKey,
+        type: insertReturn.type,
+        amazonOrderId: insertReturn.amazonOrderId,
+        marketplaceId: insertReturn.marketplaceId,
+        sku: insertReturn.sku ?? null,
+        asin: insertReturn.asin ?? null,
+        fnsku: insertReturn.fnsku ?? null,
+        productName: insertReturn.productName ?? null,
+        quantity: insertReturn.quantity ?? 0,
+        eventDate: insertReturn.eventDate,
+        reason: insertReturn.reason ?? null,
+        disposition: insertReturn.disposition ?? null,
+        status: insertReturn.status ?? null,
+        fulfillmentCenterId: insertReturn.fulfillmentCenterId ?? null,
+        licensePlateNumber: insertReturn.licensePlateNumber ?? null,
+        customerComments: insertReturn.customerComments ?? null,
+        refundAmount: insertReturn.refundAmount ?? null,
+        currency: insertReturn.currency ?? null,
+        rawData: insertReturn.rawData ?? null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+    }
+    return insertReturns.length;
+  }
+
+  private filterAmazonReturns(filters: AmazonReturnFilters): AmazonReturn[] {
+    let returns = Array.from(this.amazonReturns.values());
+
+    if (filters.marketplaceId) {
+      returns = returns.filter((r) => r.marketplaceId === filters.marketplaceId);
+    }
+    if (filters.type) {
+      returns = returns.filter((r) => r.type === filters.type);
+    }
+    if (filters.sku) {
+      returns = returns.filter((r) => r.sku === filters.sku);
+    }
+    if (filters.startDate) {
+      returns = returns.filter((r) => r.eventDate >= filters.startDate!);
+    }
+    if (filters.endDate) {
+      returns = returns.filter((r) => r.eventDate <= filters.endDate!);
+    }
+    if (filters.search) {
+      const searchLower = filters.search.toLowerCase();
+      returns = returns.filter((r) =>
+        r.amazonOrderId.toLowerCase().includes(searchLower) ||
+        r.sku?.toLowerCase().includes(searchLower) ||
+        r.asin?.toLowerCase().includes(searchLower) ||
+        r.productName?.toLowerCase().includes(searchLower)
+      );
+    }
+
+    return returns;
+  }
+
+  async getAmazonReturns(filters: AmazonReturnFilters): Promise<{ returns: AmazonReturn[]; total: number }> {
+    const returns = this.filterAmazonReturns(filters)
+      .sort((a, b) => b.eventDate.getTime() - a.eventDate.getTime());
+
+    const offset = filters.offset ?? 0;
+    const limit = filters.limit ?? 100;
+
+    return {
+      returns: returns.slice(offset, offset + limit),
+      total: returns.length,
+    };
+  }
+
+  async getLatestAmazonReturnDate(marketplaceId: string, type: AmazonReturnType): Promise<Date | null> {
+    const dates = this.filterAmazonReturns({ marketplaceId, type }).map((r) => r.eventDate.getTime());
+    return dates.length > 0 ? new Date(Math.max(...dates)) : null;
+  }
+
+  async getAmazonReturnSkuStats(filters: AmazonReturnFilters): Promise<AmazonReturnSkuStats[]> {
+    const stats = new Map<string, AmazonReturnSkuStats>();
+    const reasons = new Map<string, Map<string, number>>();
+    const getStats = (sku: string) => {
+      let entry = stats.get(sku);
+      if (!entry) {
+        entry = {
+          sku,
+          asin: null,
+          productName: null,
+          unitsSold: 0,
+          unitsReturned: 0,
+          returnCount: 0,
+          refundCount: 0,
+          refundedAmount: 0,
+          topReason: null,
+        };
+        stats.set(sku, entry);
+      }
+      return entry;
+    };
+
+    // Units sold over the same dates, from the local order store
+    const orders = this.filterAmazonOrders({
+      marketplaceId: filters.marketplaceId,
+      startDate: filters.startDate,
+      endDate: filters.endDate,
+    }).filter((o) => o.orderStatus !== "Canceled");
+    const orderIds = new Set(orders.map((o) => o.amazonOrderId));
+    Array.from(this.amazonOrderItems.values()).forEach((item) => {
+      if (!item.sku || !orderIds.has(item.amazonOrderId)) return;
+      if (filters.sku && item.sku !== filters.sku) return;
+      const entry = getStats(item.sku);
+      entry.unitsSold += item.quantityOrdered;
+      entry.asin = entry.asin ?? item.asin;
+      entry.productName = entry.productName ?? item.title;
+    });
+
+    for (const r of this.filterAmazonReturns({ ...filters, type: undefined })) {
+      if (!r.sku) continue;
+      const entry = getStats(r.sku);
+      entry.asin = entry.asin ?? r.asin;
+      entry.productName = entry.productName ?? r.productName;
+
+      if (r.type === "return") {
+        entry.returnCount++;
+        entry.unitsReturned += r.quantity;
+        if (r.reason) {
+          const skuReasons = reasons.get(r.sku) ?? new Map<string, number>();
+          skuReasons.set(r.reason, (skuReasons.get(r.reason) ?? 0) + r.quantity);
+          reasons.set(r.sku, skuReasons);
+        }
+      } else {
+        entry.refundCount++;
+        entry.refundedAmount += Number(r.refundAmount ?? 0);
+      }
+    }
+
+    return Array.from(stats.values()).map((entry) => {
+      let topReason: string | null = null;
+      let topUnits = 0;
+      reasons.get(entry.sku)?.forEach((units, reason) => {
+        if (units > topUnits) {
+          topReason = reason;
+          topUnits = units;
+        }
+      });
+      return { ...entry, refundedAmount: Math.round(entry.refundedAmount * 100) / 100, topReason };
+    });
+  }
+
+  async getAmazonReturnReasonStats(filters: AmazonReturnFilters): Promise<AmazonReturnReasonStats[]> {
+    const stats = new Map<string, AmazonReturnReasonStats>();
+
+    for (const r of this.filterAmazonReturns({ ...filters, type: "return" })) {
+      const reason = r.reason || "UNKNOWN";
+      const entry = stats.get(reason) ?? { reason, returnCount: 0, unitsReturned: 0 };
+      entry.returnCount++;
+      entry.unitsReturned += r.quantity;
+      stats.set(reason, entry);
+    }
+
+    return Array.from(stats.values()).sort((a, b) => b.unitsReturned - a.unitsReturned);
+  }
+  // FBA Inventory methods
+  async replaceFbaInventory(marketplaceId: string, insertItems: InsertFbaInventoryItem[]): Promise<number> {
+    Array.from(this.fbaInventoryItems.entries()).forEach(([key, item]) => {
+      if (item.marketplaceId === marketplaceId) {
+        this.fbaInventoryItems.delete(key);
+      }
+    });
+
+    const now = new Date();
+    for (const insertItem of insertItems) {
+      this.fbaInventoryItems.set(`${marketplaceId}:${insertItem.sellerSku}`, {
+        id: randomUUID(),
+        marketplaceId,
+        sellerSku: insertItem.sellerSku,
+        asin: insertItem.asin ?? null,
+        fnSku: insertItem.fnSku ?? null,
+        productName: insertItem.productName ?? null,
+        condition: insertItem.condition ?? null,
+        totalQuantity: insertItem.totalQuantity ?? 0,
+        fulfillableQuantity: insertItem.fulfillableQuantity ?? 0,
+        inboundWorking: insertItem.inboundWorking ?? 0,
+        inboundShipped: insertItem.inboundShipped ?? 0,
+        inboundReceiving: insertItem.inboundReceiving ?? 0,
+        reservedQuantity: insertItem.reservedQuantity ?? 0,
+        unfulfillableQuantity: insertItem.unfulfillableQuantity ?? 0,
+        researchingQuantity: insertItem.researchingQuantity ?? 0,
+        lastUpdatedTime: insertItem.lastUpdatedTime ?? null,
+        rawData: insertItem.rawData ?? null,
+        refreshedAt: now,
+      });
+    }
+    return insertItems.length;
+  }
+
+  async getFbaInventory(marketplaceId: string): Promise<FbaInventoryItem[]> {
+    return Array.from(this.fbaInventoryItems.values())
+      .filter((item) => item.marketplaceId === marketplaceId)
+      .sort((a, b) => a.sellerSku.localeCompare(b.sellerSku));
+  }
+
+  async getFbaInventorySyncState(marketplaceId: string): Promise<FbaInventorySyncState | undefined> {
+    return this.fbaInventorySyncStates.get(marketplaceId);
+  }
+
+  async upsertFbaInventorySyncState(insertState: InsertFbaInventorySyncState): Promise<FbaInventorySyncState> {
+    const existing = this.fbaInventorySyncStates.get(insertState.marketplaceId);
+    // Fields left out keep their current values, as with an SQL upsert
+    const state: FbaInventorySyncState = {
+      id: randomUUID(),
+      lastSyncAt: null,
+      status: "idle",
+      itemCount: 0,
+      errorMessage: null,
+      ...existing,
+      ...insertState,
+      updatedAt: new Date(),
+    };
+    this.fbaInventorySyncStates.set(state.marketplaceId, state);
+    return state;
+  }
+
+  // FBA Inventory Snapshot methods
+  async upsertFbaInventorySnapshots(insertSnapshots: InsertFbaInventorySnapshot[]): Promise<number> {
+    const now = new Date();
+    for (const insertSnapshot of insertSnapshots) {
+      // One row per SKU per day; a later refresh the same day replaces it
+      const key = `${insertSnapshot.marketplaceId}:${insertSnapshot.date}:${insertSnapshot.sellerSku}`;
+      this.fbaInventorySnapshots.set(key, {
+        id: this.fbaInventorySnapshots.get(key)?.id ?? randomUUID(),
+        marketplaceId: insertSnapshot.marketplaceId,
+        date: insertSnapshot.date,
+        sellerSku: insertSnapshot.sellerSku,
+        asin: insertSnapshot.asin ?? null,
+        fulfillableQuantity: insertSnapshot.fulfillableQuantity ?? 0,
+        inboundWorking: insertSnapshot.inboundWorking ?? 0,
+        inboundShipped: insertSnapshot.inboundShipped ?? 0,
+        inboundReceiving: insertSnapshot.inboundReceiving ?? 0,
+        reservedQuantity: insertSnapshot.reservedQuantity ?? 0,
+        unfulfillableQuantity: insertSnapshot.unfulfillableQuantity ?? 0,
+        researchingQuantity: insertSnapshot.researchingQuantity ?? 0,
+        capturedAt: now,
+      });
+    }
+    return insertSnapshots.length;
+  }
+
+  async getFbaInventorySnapshots(
+    marketplaceId: string,
+    sellerSku: string,
+    startDate: string,
+    endDate: string
+  ): Promise<FbaInventorySnapshot[]> {
+    return Array.from(this.fbaInventorySnapshots.values())
+      .filter((s) =>
+        s.marketplaceId === marketplaceId &&
+        s.sellerSku === sellerSku &&
+        s.date >= startDate &&
+        s.date <= endDate
+      )
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getLatestFbaInventorySnapshots(marketplaceId: string, onOrBefore: string): Promise<FbaInventorySnapshot[]> {
+    const latest = new Map<string, FbaInventorySnapshot>();
+    Array.from(this.fbaInventorySnapshots.values()).forEach((s) => {
+      if (s.marketplaceId !== marketplaceId || s.date > onOrBefore) return;
+      const current = latest.get(s.sellerSku);
+      if (!current || s.date > current.date) {
+        latest.set(s.sellerSku, s);
+      }
+    });
+    return Array.from(latest.values());
+  }
+
+  async getFbaStockoutDays(marketplaceId: string, startDate: string, endDate: string): Promise<FbaStockoutDays[]> {
+    const counts = new Map<string, number>();
+    Array.from(this.fbaInventorySnapshots.values()).forEach((s) => {
+      if (s.marketplaceId !== marketplaceId || s.date < startDate || s.date > endDate || s.fulfillableQuantity > 0) return;
+      counts.set(s.sellerSku, (counts.get(s.sellerSku) ?? 0) + 1);
+    });
+    return Array.from(counts.entries()).map(([sellerSku, stockoutDays]) => ({ sellerSku, stockoutDays }));
+  }
+
+  // Inventory Alert Rule methods
+  async getInventoryAlertRules(): Promise<InventoryAlertRule[]> {
+    if (this.inventoryAlertRules.size === 0) {
+      for (const rule of defaultInventoryAlertRules) {
+        await this.createInventoryAlertRule(rule);
+      }
+    }
+    return Array.from(this.inventoryAlertRules.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createInventoryAlertRule(insertRule: InsertInventoryAlertRule): Promise<InventoryAlertRule> {
+    const now = new Date();
+    const rule: InventoryAlertRule = {
+      id: randomUUID(),
+      type: insertRule.type,
+      threshold: insertRule.threshold,
+      isActive: insertRule.isActive ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.inventoryAlertRules.set(rule.id, rule);
+    return rule;
+  }
+
+  async updateInventoryAlertRule(
+    id: string,
+    data: Partial<InsertInventoryAlertRule>
+  ): Promise<InventoryAlertRule | undefined> {
+    const rule = this.inventoryAlertRules.get(id);
+    if (!rule) return undefined;
+
+    const updated: InventoryAlertRule = {
+      ...rule,
+      ...data,
+      id, // Ensure ID cannot be changed
+      updatedAt: new Date(),
+    };
+    this.inventoryAlertRules.set(id, updated);
+    return updated;
+  }
+
+  async deleteInventoryAlertRule(id: string): Promise<boolean> {
+    Array.from(this.inventoryAlerts.entries()).forEach(([alertId, alert]) => {
+      if (alert.ruleId === id) {
+        this.inventoryAlerts.delete(alertId);
+      }
+    });
+    return this.inventoryAlertRules.delete(id);
+  }
+
+  // Inventory Alert methods
+  async recordInventoryAlerts(marketplaceId: string, ruleIds: string[], insertAlerts: InsertInventoryAlert[]): Promise<number> {
+    const now = new Date();
+    const alertKey = (ruleId: string, sellerSku: string) => `${ruleId}:${marketplaceId}:${sellerSku}`;
+    const existing = new Map<string, InventoryAlert>();
+    this.inventoryAlerts.forEach((alert) => {
+      if (alert.marketplaceId === marketplaceId) {
+        existing.set(alertKey(alert.ruleId, alert.sellerSku), alert);
+      }
+    });
+
+    const triggered = new Set<string>();
+    for (const insertAlert of insertAlerts) {
+      const key = alertKey(insertAlert.ruleId, insertAlert.sellerSku);
+      const current = existing.get(key);
+      // A resolved alert that triggers again starts over, undismissed
+      const reopened = !current || current.resolvedAt !== null;
+      const id = current?.id ?? randomUUID();
+      triggered.add(key);
+      this.inventoryAlerts.set(id, {
+        id,
+        ruleId: insertAlert.ruleId,
+        marketplaceId,
+        sellerSku: insertAlert.sellerSku,
+        asin: insertAlert.asin ?? null,
+        productName: insertAlert.productName ?? null,
+        type: insertAlert.type,
+        affectedUnits: insertAlert.affectedUnits ?? 0,
+        suggestedAction: insertAlert.suggestedAction,
+        message: insertAlert.message,
+        firstDetectedAt: reopened ? now : current.firstDetectedAt,
+        lastDetectedAt: now,
+        resolvedAt: null,
+        dismissedAt: reopened ? null : current.dismissedAt,
+      });
+    }
+
+    // Alerts from the evaluated rules that no longer match are resolved
+    existing.forEach((alert, key) => {
+      if (ruleIds.includes(alert.ruleId) && !triggered.has(key) && alert.resolvedAt === null) {
+        this.inventoryAlerts.set(alert.id, { ...alert, resolvedAt: now });
+      }
+    });
+
+    return triggered.size;
+  }
+
+  async getOpenInventoryAlerts(marketplaceId: string): Promise<InventoryAlert[]> {
+    return Array.from(this.inventoryAlerts.values())
+      .filter((a) => a.marketplaceId === marketplaceId && a.resolvedAt === null && a.dismissedAt === null)
+      .sort((a, b) => b.firstDetectedAt.getTime() - a.firstDetectedAt.getTime());
+  }
+
+  async dismissInventoryAlert(id: string): Promise<InventoryAlert | undefined> {
+    const alert = this.inventoryAlerts.get(id);
+    if (!alert) return undefined;
+
+    const dismissed: InventoryAlert = { ...alert, dismissedAt: new Date() };
+    this.inventoryAlerts.set(id, dismissed);
+    return dismissed;
+  }
+
+  // FBA Inbound methods
+  async upsertFbaInboundPlans(insertPlans: InsertFbaInboundPlan[]): Promise<number> {
+    const now = new Date();
+    insertPlans.forEach((insertPlan) => {
+      // Keyed by inbound plan ID, so a re-sync replaces the previous row
+      const existing = this.fbaInboundPlans.get(insertPlan.inboundPlanId);
+      this.fbaInboundPlans.set(insertPlan.inboundPlanId, {
+        id: existing?.id ?? randomUUID(),
+        inboundPlanId: insertPlan.inboundPlanId,
+        marketplaceId: insertPlan.marketplaceId,
+        name: insertPlan.name ?? null,
+        status: insertPlan.status,
+        sourceName: insertPlan.sourceName ?? null,
+        createdTime: insertPlan.createdTime ?? null,
+        lastUpdatedTime: insertPlan.lastUpdatedTime ?? null,
+        rawData: insertPlan.rawData ?? null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+    });
+    return insertPlans.length;
+  }
+
+  async getFbaInboundPlans(marketplaceId: string): Promise<FbaInboundPlan[]> {
+    return Array.from(this.fbaInboundPlans.values())
+      .filter((plan) => plan.marketplaceId === marketplaceId)
+      .sort((a, b) => (b.createdTime?.getTime() ?? 0) - (a.createdTime?.getTime() ?? 0));
+  }
+
+  async upsertFbaInboundShipments(insertShipments: InsertFbaInboundShipment[]): Promise<FbaInboundShipment[]> {
+    const now = new Date();
+    return insertShipments.map((insertShipment) => {
+      // Keyed by FBA shipment ID, so a re-sync replaces the previous row
+      const existing = this.fbaInboundShipments.get(insertShipment.shipmentId);
+      const shipment: FbaInboundShipment = {
+        id: existing?.id ?? randomUUID(),
+        shipmentId: insertShipment.shipmentId,
+        marketplaceId: insertShipment.marketplaceId,
+        inboundPlanId: insertShipment.inboundPlanId ?? null,
+        planShipmentId: insertShipment.planShipmentId ?? null,
+        shipmentName: insertShipment.shipmentName ?? null,
+        status: insertShipment.status,
+        destinationFulfillmentCenterId: insertShipment.destinationFulfillmentCenterId ?? null,
+        labelPrepType: insertShipment.labelPrepType ?? null,
+        boxContentsSource: insertShipment.boxContentsSource ?? null,
+        shipFromName: insertShipment.shipFromName ?? null,
+        unitsShipped: insertShipment.unitsShipped ?? 0,
+        unitsReceived: insertShipment.unitsReceived ?? 0,
+        skuCount: insertShipment.skuCount ?? 0,
+        itemsSyncedAt: insertShipment.itemsSyncedAt ?? null,
+        rawData: insertShipment.rawData ?? null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      this.fbaInboundShipments.set(shipment.shipmentId, shipment);
+      return shipment;
+    });
+  }
+
+  async getFbaInboundShipmentsByIds(shipmentIds: string[]): Promise<FbaInboundShipment[]> {
+    return shipmentIds
+      .map((id) => this.fbaInboundShipments.get(id))
+      .filter((shipment): shipment is FbaInboundShipment => shipment !== undefined);
+  }
+
+  async getFbaInboundShipments(filters: FbaInboundShipmentFilters): Promise<FbaInboundShipment[]> {
+    return Array.from(this.fbaInboundShipments.values())
+      .filter((s) =>
+        s.marketplaceId === filters.marketplaceId &&
+        (!filters.status || s.status === filters.status) &&
+        (!filters.inboundPlanId || s.inboundPlanId === filters.inboundPlanId) &&
+        (!filters.missingItems || s.itemsSyncedAt === null)
+      )
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(0, filters.limit ?? 100);
+  }
+
+  async updateFbaInboundShipment(shipmentId: string, data: Partial<FbaInboundShipment>): Promise<FbaInboundShipment | undefined> {
+    const shipment = this.fbaInboundShipments.get(shipmentId);
+    if (!shipment) return undefined;
+
+    const updated: FbaInboundShipment = {
+      ...shipment,
+      ...data,
+      id: shipment.id,
+      shipmentId, // Ensure the key cannot be changed
+      updatedAt: new Date(),
+    };
+    this.fbaInboundShipments.set(shipmentId, updated);
+    return updated;
+  }
+
+  async replaceFbaInboundShipmentItems(
+    shipmentId: string,
+    insertItems: InsertFbaInboundShipmentItem[]
+  ): Promise<FbaInboundShipmentItem[]> {
+    Array.from(this.fbaInboundShipmentItems.entries()).forEach(([id, item]) => {
+      if (item.shipmentId === shipmentId) {
+        this.fbaInboundShipmentItems.delete(id);
+      }
+    });
+
+    const now = new Date();
+    return insertItems.map((insertItem) => {
+      const item: FbaInboundShipmentItem = {
+        id: randomUUID(),
+        shipmentId: insertItem.shipmentId,
+        sellerSku: insertItem.sellerSku,
+        fulfillmentNetworkSku: insertItem.fulfillmentNetworkSku ?? null,
+        quantityShipped: insertItem.quantityShipped ?? 0,
+        quantityReceived: insertItem.quantityReceived ?? 0,
+        quantityInCase: insertItem.quantityInCase ?? 0,
+        createdAt: now,
+      };
+      this.fbaInboundShipmentItems.set(item.id, item);
+      return item;
+    });
+  }
+
+  async getFbaInboundShipmentItems(shipmentIds: string[]): Promise<FbaInboundShipmentItem[]> {
+    const ids = new Set(shipmentIds);
+    return Array.from(this.fbaInboundShipmentItems.values())
+      .filter((item) => ids.has(item.shipmentId))
+      .sort((a, b) => a.sellerSku.localeCompare(b.sellerSku));
+  }
+
+  async getFbaInboundSyncState(marketplaceId: string): Promise<FbaInboundSyncState | undefined> {
+    return this.fbaInboundSyncStates.get(marketplaceId);
+  }
+
+  async getAllFbaInboundSyncStates(): Promise<FbaInboundSyncState[]> {
+    return Array.from(this.fbaInboundSyncStates.values());
+  }
+
+  async upsertFbaInboundSyncState(insertState: InsertFbaInboundSyncState): Promise<FbaInboundSyncState> {
+    const existing = this.fbaInboundSyncStates.get(insertState.marketplaceId);
+    // Fields left out keep their current values, as with an SQL upsert
+    const state: FbaInboundSyncState = {
+      id: randomUUID(),
+      lastSyncAt: null,
+      status: "idle",
+      shipmentsSynced: 0,
+      errorMessage: null,
+      ...existing,
+      ...insertState,
+      updatedAt: new Date(),
+    };
+    this.fbaInboundSyncStates.set(state.marketplaceId, state);
+    return state;
+  }
 }
 
 import { DatabaseStorage } from "./databaseStorage";
@@ -0,0 +1,88 @@
+// Workbook Parser
+// Streams rows out of an uploaded .xlsx or .xlsm workbook. Amazon's category
+// inventory templates put instruction, example and valid-value sheets around
+// the Template sheet, so those and any hidden sheets are skipped.
+
+import ExcelJS from "exceljs";
+import type { Readable } from "stream";
+import type { RecordHandler } from "./delimitedParser";
+
+const TEMPLATE_INFO_SHEETS = new Set([
+  "instructions",
+  "images",
+  "example",
+  "data definitions",
+  "browse data",
+  "valid values",
+  "dropdown lists",
+  "international settings",
+]);
+
+export interface WorkbookParseResult {
+  sheetName: string;
+  records: number;
+}
+
+// The streaming reader sets these but its typings leave them out
+interface WorksheetInfo {
+  name?: string; // Missing when the workbook doesn't name the sheet
+  state?: string;
+}
+
+/**
+ * Read the first data sheet of a workbook, handing each non-empty row's cell
+ * text and sheet row number to onRecord as it is read
+ */
+export async function parseWorkbookStream(source: Readable, onRecord: RecordHandler): Promise<WorkbookParseResult> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(source, {
+    worksheets: "emit",
+    sharedStrings: "cache",
+    hyperlinks: "ignore",
+    styles: "ignore",
+    entries: "ignore",
+  });
+
+  let sheetName: string | null = null;
+  let records = 0;
+  // Errors thrown by onRecord pass through; anything else means the file isn't a workbook
+  let handlerError: unknown = null;
+
+  try {
+    for await (const worksheet of workbook) {
+      const info = worksheet as unknown as WorksheetInfo;
+      // Only the first sheet with any rows is imported
+      if (sheetName !== null || info.state === "hidden" || TEMPLATE_INFO_SHEETS.has((info.name ?? "").trim().toLowerCase())) {
+        continue;
+      }
+
+      for await (const row of worksheet) {
+        const fields: string[] = [];
+        for (let col = 1; col <= row.cellCount; col++) {
+          fields.push(row.getCell(col).text ?? "");
+        }
+        if (fields.every((value) => value.trim() === "")) continue;
+
+        records++;
+        try {
+          onRecord(fields, row.number);
+        } catch (error) {
+          handlerError = error;
+          throw error;
+        }
+      }
+
+      if (records > 0) {
+        sheetName = info.name ?? "";
+      }
+    }
+  } catch (error) {
+    if (error === handlerError) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read the workbook (${message}). Upload an .xlsx or .xlsm file, or save it as CSV.`);
+  }
+
+  if (sheetName === null) {
+    throw new Error("Workbook has no sheet with data to import");
+  }
+  return { sheetName, records };
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, numeric, date, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -21,14 +21,19 @@ export type User = typeof users.$inferSelect;
 export const skuUploads = pgTable("sku_uploads", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   filename: text("filename").notNull(),
+  marketplaceId: text("marketplace_id").notNull().default("ATVPDKIKX0DER"),
   status: text("status").notNull().default("pending"), // pending, validating, submitting, processing, completed, failed
+  uploadType: text("upload_type").notNull().default("listing"), // listing, offer_update, delete
   totalItems: integer("total_items").notNull().default(0),
   successCount: integer("success_count").notNull().default(0),
   errorCount: integer("error_count").notNull().default(0),
   feedDocumentId: text("feed_document_id"),
   feedId: text("feed_id"),
   feedResult: text("feed_result"), // Store the full JSON result from Amazon
+  closeFeedId: text("close_feed_id"), // Feed that zeroes quantity ahead of a delete
+  closeFeedStatus: text("close_feed_status"), // Amazon processingStatus of the close feed
   errorMessage: text("error_message"),
+  parentUploadId: varchar("parent_upload_id"), // Upload whose failed items this one resubmits
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -56,9 +61,16 @@ export const skuItems = pgTable("sku_items", {
   batteriesRequired: text("batteries_required").default("false"),
   areBatteriesIncluded: text("are_batteries_included").default("false"),
   supplierDeclaredDgHzRegulation: text("supplier_declared_dg_hz_regulation").default("Not Applicable"),
+  handlingTime: integer("handling_time"), // Days to ship, set by offer updates
+  messageId: integer("message_id"), // The item's messageId in the submitted feed
   // Status tracking
   status: text("status").notNull().default("pending"), // pending, submitted, success, error
   errorMessage: text("error_message"),
+  // From the feed processing report
+  errorCode: text("error_code"), // Codes of the most severe issues, comma separated
+  severity: text("severity"), // Most severe issue reported: ERROR, WARNING or INFO
+  issues: text("issues"), // JSON array of every issue reported for the item
+  resubmittedUploadId: varchar("resubmitted_upload_id"), // Retry upload a failed item was sent again in
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -91,6 +103,424 @@ export const csvSkuRowSchema = z.object({
   supplier_declared_dg_hz_regulation: z.string().optional().default("Not Applicable"),
 });
 
+// Offer update row validation schema: reprices or restocks an existing listing
+export const csvOfferUpdateRowSchema = z.object({
+  sku: z.string().min(1, "SKU is required"),
+  price: z.string()
+    .refine((val) => /^\d+(\.\d{1,2})?$/.test(val) && parseFloat(val) > 0, "Invalid price (must be a positive number like 19.99)")
+    .optional(),
+  quantity: z.coerce.number().int().min(0).optional(),
+  handling_time: z.coerce.number().int().min(0).max(30, "Handling time must be 30 days or less").optional(),
+}).refine(
+  (row) => row.price !== undefined || row.quantity !== undefined || row.handling_time !== undefined,
+  "Row must set a price, quantity or handling time"
+);
+export type CsvOfferUpdateRow = z.infer<typeof csvOfferUpdateRowSchema>;
+
+// ============================================================================
+// Sales Snapshot Tables
+// ============================================================================
+
+// Daily Sales Snapshots - one row per marketplace per local calendar day
+export const salesSnapshots = pgTable("sales_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketplaceId: text("marketplace_id").notNull(),
+  date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD in the marketplace's timezone
+  totalSales: numeric("total_sales", { precision: 14, scale: 2 }).notNull().default("0"),
+  currency: text("currency").notNull(),
+  unitCount: integer("unit_count").notNull().default(0),
+  orderItemCount: integer("order_item_count").notNull().default(0),
+  orderCount: integer("order_count").notNull().default(0),
+  fetchedAt: timestamp("fetched_at").defaultNow().notNull(), // when the day was last pulled from SP-API
+}, (table) => [
+  unique("sales_snapshots_marketplace_date").on(table.marketplaceId, table.date),
+]);
+
+export const insertSalesSnapshotSchema = createInsertSchema(salesSnapshots).omit({
+  id: true,
+});
+
+export type InsertSalesSnapshot = z.infer<typeof insertSalesSnapshotSchema>;
+export type SalesSnapshot = typeof salesSnapshots.$inferSelect;
+
+// ============================================================================
+// Amazon Order Tables
+// ============================================================================
+
+// Amazon Orders - local copy of getOrders, kept current by the order sync
+export const amazonOrders = pgTable("amazon_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  amazonOrderId: text("amazon_order_id").notNull().unique(),
+  marketplaceId: text("marketplace_id").notNull(),
+  purchaseDate: timestamp("purchase_date").notNull(),
+  lastUpdateDate: timestamp("last_update_date").notNull(),
+  orderStatus: text("order_status").notNull(), // Pending, Unshipped, PartiallyShipped, Shipped, Canceled, ...
+  fulfillmentChannel: text("fulfillment_channel"), // AFN (FBA) or MFN
+  salesChannel: text("sales_channel"),
+  orderTotal: numeric("order_total", { precision: 14, scale: 2 }), // null until Amazon prices the order
+  itemsTotal: numeric("items_total", { precision: 14, scale: 2 }), // sum of item prices, fallback for orderTotal
+  currency: text("currency"),
+  numberOfItemsShipped: integer("number_of_items_shipped").default(0).notNull(),
+  numberOfItemsUnshipped: integer("number_of_items_unshipped").default(0).notNull(),
+  paymentMethod: text("payment_method"),
+  isPrime: boolean("is_prime").default(false).notNull(),
+  isBusinessOrder: boolean("is_business_order").default(false).notNull(),
+  shipCity: text("ship_city"),
+  shipState: text("ship_state"),
+  shipPostalCode: text("ship_postal_code"),
+  itemsSyncedAt: timestamp("items_synced_at"), // null when items need (re)fetching
+  feesSyncedAt: timestamp("fees_synced_at"), // null until Finances API fee events are stored
+  rawData: text("raw_data"), // Full JSON order from Amazon
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertAmazonOrderSchema = createInsertSchema(amazonOrders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertAmazonOrder = z.infer<typeof insertAmazonOrderSchema>;
+export type AmazonOrder = typeof amazonOrders.$inferSelect;
+
+// Amazon Order Items - line items from getOrderItems
+export const amazonOrderItems = pgTable("amazon_order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  amazonOrderId: text("amazon_order_id").notNull(),
+  orderItemId: text("order_item_id").notNull(),
+  asin: text("asin"),
+  sku: text("sku"),
+  title: text("title"),
+  quantityOrdered: integer("quantity_ordered").default(0).notNull(),
+  quantityShipped: integer("quantity_shipped").default(0).notNull(),
+  itemPrice: numeric("item_price", { precision: 14, scale: 2 }),
+  currency: text("currency"),
+  // Fees charged by Amazon as positive amounts, null until the order's fee events are synced
+  referralFee: numeric("referral_fee", { precision: 14, scale: 2 }),
+  fbaFee: numeric("fba_fee", { precision: 14, scale: 2 }),
+  otherFees: numeric("other_fees", { precision: 14, scale: 2 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("amazon_order_items_order_item").on(table.amazonOrderId, table.orderItemId),
+]);
+
+export const insertAmazonOrderItemSchema = createInsertSchema(amazonOrderItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAmazonOrderItem = z.infer<typeof insertAmazonOrderItemSchema>;
+export type AmazonOrderItem = typeof amazonOrderItems.$inferSelect;
+
+// Amazon Order Sync State - LastUpdatedAfter cursor per marketplace
+export const amazonOrderSyncState = pgTable("amazon_order_sync_state", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketplaceId: text("marketplace_id").notNull().unique(),
+  lastUpdatedAfter: timestamp("last_updated_after").notNull(), // next sync pulls orders changed since this
+  lastSyncAt: timestamp("last_sync_at"),
+  status: text("status").notNull().default("idle"), // idle, running, failed
+  ordersSynced: integer("orders_synced").default(0).notNull(), // orders upserted by the last sync
+  errorMessage: text("error_message"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertAmazonOrderSyncStateSchema = createInsertSchema(amazonOrderSyncState).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertAmazonOrderSyncState = z.infer<typeof insertAmazonOrderSyncStateSchema>;
+export type AmazonOrderSyncState = typeof amazonOrderSyncState.$inferSelect;
+
+// Amazon Returns - FBA customer returns (returns report) and refunds (Finances API)
+export const amazonReturnTypeEnum = z.enum(["return", "refund"]);
+export type AmazonReturnType = z.infer<typeof amazonReturnTypeEnum>;
+
+export const amazonReturns = pgTable("amazon_returns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventKey: text("event_key").notNull().unique(), // stable per event, so re-syncs update in place
+  type: text("type").notNull(), // return or refund
+  amazonOrderId: text("amazon_order_id").notNull(),
+  marketplaceId: text("marketplace_id").notNull(),
+  sku: text("sku"),
+  asin: text("asin"),
+  fnsku: text("fnsku"),
+  productName: text("product_name"),
+  quantity: integer("quantity").default(0).notNull(),
+  eventDate: timestamp("event_date").notNull(), // return date, or when the refund posted
+  reason: text("reason"), // returns only, e.g. DEFECTIVE, UNWANTED_ITEM
+  disposition: text("disposition"), // returns only, e.g. SELLABLE, CUSTOMER_DAMAGED
+  status: text("status"),
+  fulfillmentCenterId: text("fulfillment_center_id"),
+  licensePlateNumber: text("license_plate_number"),
+  customerComments: text("customer_comments"),
+  refundAmount: numeric("refund_amount", { precision: 14, scale: 2 }), // refunds only, positive
+  currency: text("currency"),
+  rawData: text("raw_data"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertAmazonReturnSchema = createInsertSchema(amazonReturns).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertAmazonReturn = z.infer<typeof insertAmazonReturnSchema>;
+export type AmazonReturn = typeof amazonReturns.$inferSelect;
+
+// ============================================================================
+// FBA Inventory Tables
+// ============================================================================
+
+// FBA Inventory Items - every getInventorySummaries row, replaced on each refresh
+export const fbaInventoryItems = pgTable("fba_inventory_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketplaceId: text("marketplace_id").notNull(),
+  sellerSku: text("seller_sku").notNull(),
+  asin: text("asin"),
+  fnSku: text("fn_sku"),
+  productName: text("product_name"),
+  condition: text("condition"),
+  totalQuantity: integer("total_quantity").default(0).notNull(),
+  fulfillableQuantity: integer("fulfillable_quantity").default(0).notNull(),
+  inboundWorking: integer("inbound_working").default(0).notNull(),
+  inboundShipped: integer("inbound_shipped").default(0).notNull(),
+  inboundReceiving: integer("inbound_receiving").default(0).notNull(),
+  reservedQuantity: integer("reserved_quantity").default(0).notNull(),
+  unfulfillableQuantity: integer("unfulfillable_quantity").default(0).notNull(),
+  researchingQuantity: integer("researching_quantity").default(0).notNull(),
+  lastUpdatedTime: timestamp("last_updated_time"), // when Amazon last changed the quantities
+  rawData: text("raw_data"), // Full JSON summary from Amazon
+  refreshedAt: timestamp("refreshed_at").defaultNow().notNull(),
+}, (table) => [
+  unique("fba_inventory_items_marketplace_sku").on(table.marketplaceId, table.sellerSku),
+]);
+
+export const insertFbaInventoryItemSchema = createInsertSchema(fbaInventoryItems).omit({
+  id: true,
+  refreshedAt: true,
+});
+
+export type InsertFbaInventoryItem = z.infer<typeof insertFbaInventoryItemSchema>;
+export type FbaInventoryItem = typeof fbaInventoryItems.$inferSelect;
+
+// FBA Inventory Sync State - last full refresh per marketplace
+export const fbaInventorySyncState = pgTable("fba_inventory_sync_state", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketplaceId: text("marketplace_id").notNull().unique(),
+  lastSyncAt: timestamp("last_sync_at"), // last refresh that fetched every page
+  status: text("status").notNull().default("idle"), // idle, running, failed
+  itemCount: integer("item_count").default(0).notNull(),
+  errorMessage: text("error_message"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertFbaInventorySyncStateSchema = createInsertSchema(fbaInventorySyncState).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertFbaInventorySyncState = z.infer<typeof insertFbaInventorySyncStateSchema>;
+export type FbaInventorySyncState = typeof fbaInventorySyncState.$inferSelect;
+
+// FBA Inventory Snapshots - per-SKU quantities at the last refresh of each local calendar day
+export const fbaInventorySnapshots = pgTable("fba_inventory_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketplaceId: text("marketplace_id").notNull(),
+  date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD in the marketplace's timezone
+  sellerSku: text("seller_sku").notNull(),
+  asin: text("asin"),
+  fulfillableQuantity: integer("fulfillable_quantity").default(0).notNull(),
+  inboundWorking: integer("inbound_working").default(0).notNull(),
+  inboundShipped: integer("inbound_shipped").default(0).notNull(),
+  inboundReceiving: integer("inbound_receiving").default(0).notNull(),
+  reservedQuantity: integer("reserved_quantity").default(0).notNull(),
+  unfulfillableQuantity: integer("unfulfillable_quantity").default(0).notNull(),
+  researchingQuantity: integer("researching_quantity").default(0).notNull(),
+  capturedAt: timestamp("captured_at").defaultNow().notNull(), // refresh the quantities came from
+}, (table) => [
+  unique("fba_inventory_snapshots_marketplace_date_sku").on(table.marketplaceId, table.date, table.sellerSku),
+]);
+
+export const insertFbaInventorySnapshotSchema = createInsertSchema(fbaInventorySnapshots).omit({
+  id: true,
+  capturedAt: true,
+});
+
+export type InsertFbaInventorySnapshot = z.infer<typeof insertFbaInventorySnapshotSchema>;
+export type FbaInventorySnapshot = typeof fbaInventorySnapshots.$inferSelect;
+
+// Inventory alert rule types. The threshold is in units for unfulfillable and
+// researching, and in days for aged and no_sales.
+export const inventoryAlertTypeEnum = z.enum(["unfulfillable", "researching", "aged", "no_sales"]);
+export type InventoryAlertType = z.infer<typeof inventoryAlertTypeEnum>;
+
+// What to do about an alert
+export const inventoryAlertActionEnum = z.enum(["removal", "investigate", "price_drop", "relist"]);
+export type InventoryAlertAction = z.infer<typeof inventoryAlertActionEnum>;
+
+// Inventory Alert Rules - checked against every SKU after each inventory refresh
+export const inventoryAlertRules = pgTable("inventory_alert_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // unfulfillable, researching, aged, no_sales
+  threshold: integer("threshold").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertInventoryAlertRuleSchema = createInsertSchema(inventoryAlertRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertInventoryAlertRule = z.infer<typeof insertInventoryAlertRuleSchema>;
+export type InventoryAlertRule = typeof inventoryAlertRules.$inferSelect;
+
+// Rules created the first time none exist
+export const defaultInventoryAlertRules: InsertInventoryAlertRule[] = [
+  { type: "unfulfillable", threshold: 1, isActive: true },
+  { type: "researching", threshold: 1, isActive: true },
+  { type: "aged", threshold: 180, isActive: true },
+  { type: "no_sales", threshold: 30, isActive: true },
+];
+
+// Inventory Alerts - one per rule and SKU, resolved once the rule stops matching
+export const inventoryAlerts = pgTable("inventory_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ruleId: varchar("rule_id").notNull(),
+  marketplaceId: text("marketplace_id").notNull(),
+  sellerSku: text("seller_sku").notNull(),
+  asin: text("asin"),
+  productName: text("product_name"),
+  type: text("type").notNull(),
+  affectedUnits: integer("affected_units").default(0).notNull(),
+  suggestedAction: text("suggested_action").notNull(), // removal, investigate, price_drop, relist
+  message: text("message").notNull(),
+  firstDetectedAt: timestamp("first_detected_at").defaultNow().notNull(),
+  lastDetectedAt: timestamp("last_detected_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+  dismissedAt: timestamp("dismissed_at"), // hidden until the alert resolves and triggers again
+}, (table) => [
+  unique("inventory_alerts_rule_marketplace_sku").on(table.ruleId, table.marketplaceId, table.sellerSku),
+]);
+
+export const insertInventoryAlertSchema = createInsertSchema(inventoryAlerts).omit({
+  id: true,
+  firstDetectedAt: true,
+  lastDetectedAt: true,
+  resolvedAt: true,
+  dismissedAt: true,
+});
+
+export type InsertInventoryAlert = z.infer<typeof insertInventoryAlertSchema>;
+export type InventoryAlert = typeof inventoryAlerts.$inferSelect;
+
+// ============================================================================
+// FBA Inbound Tables
+// ============================================================================
+
+// FBA Inbound Plans - inbound plans from the Fulfillment Inbound API (2024-03-20)
+export const fbaInboundPlans = pgTable("fba_inbound_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  inboundPlanId: text("inbound_plan_id").notNull().unique(),
+  marketplaceId: text("marketplace_id").notNull(),
+  name: text("name"),
+  status: text("status").notNull(), // ACTIVE, VOIDED, SHIPPED, ERRORED
+  sourceName: text("source_name"), // name on the ship-from address
+  createdTime: timestamp("created_time"),
+  lastUpdatedTime: timestamp("last_updated_time"),
+  rawData: text("raw_data"), // Full JSON plan from Amazon
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertFbaInboundPlanSchema = createInsertSchema(fbaInboundPlans).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertFbaInboundPlan = z.infer<typeof insertFbaInboundPlanSchema>;
+export type FbaInboundPlan = typeof fbaInboundPlans.$inferSelect;
+
+// FBA Inbound Shipments - shipments to Amazon fulfillment centers (getShipments, v0)
+export const fbaInboundShipments = pgTable("fba_inbound_shipments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shipmentId: text("shipment_id").notNull().unique(), // FBA shipment ID, e.g. FBA15ABC123
+  marketplaceId: text("marketplace_id").notNull(),
+  inboundPlanId: text("inbound_plan_id"), // null until matched to a plan
+  planShipmentId: text("plan_shipment_id"), // the plan's own ID for the shipment
+  shipmentName: text("shipment_name"),
+  status: text("status").notNull(), // WORKING, SHIPPED, IN_TRANSIT, DELIVERED, CHECKED_IN, RECEIVING, CLOSED, CANCELLED, ...
+  destinationFulfillmentCenterId: text("destination_fulfillment_center_id"),
+  labelPrepType: text("label_prep_type"),
+  boxContentsSource: text("box_contents_source"),
+  shipFromName: text("ship_from_name"),
+  unitsShipped: integer("units_shipped").default(0).notNull(),
+  unitsReceived: integer("units_received").default(0).notNull(),
+  skuCount: integer("sku_count").default(0).notNull(),
+  itemsSyncedAt: timestamp("items_synced_at"), // null when items need (re)fetching
+  rawData: text("raw_data"), // Full JSON shipment from Amazon
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertFbaInboundShipmentSchema = createInsertSchema(fbaInboundShipments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertFbaInboundShipment = z.infer<typeof insertFbaInboundShipmentSchema>;
+export type FbaInboundShipment = typeof fbaInboundShipments.$inferSelect;
+
+// FBA Inbound Shipment Items - per-SKU quantities shipped and received
+export const fbaInboundShipmentItems = pgTable("fba_inbound_shipment_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shipmentId: text("shipment_id").notNull(),
+  sellerSku: text("seller_sku").notNull(),
+  fulfillmentNetworkSku: text("fulfillment_network_sku"),
+  quantityShipped: integer("quantity_shipped").default(0).notNull(),
+  quantityReceived: integer("quantity_received").default(0).notNull(),
+  quantityInCase: integer("quantity_in_case").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("fba_inbound_shipment_items_shipment_sku").on(table.shipmentId, table.sellerSku),
+]);
+
+export const insertFbaInboundShipmentItemSchema = createInsertSchema(fbaInboundShipmentItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertFbaInboundShipmentItem = z.infer<typeof insertFbaInboundShipmentItemSchema>;
+export type FbaInboundShipmentItem = typeof fbaInboundShipmentItems.$inferSelect;
+
+// FBA Inbound Sync State - LastUpdatedAfter cursor per marketplace
+export const fbaInboundSyncState = pgTable("fba_inbound_sync_state", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketplaceId: text("marketplace_id").notNull().unique(),
+  lastUpdatedAfter: timestamp("last_updated_after").notNull(), // next sync pulls shipments changed since this
+  lastSyncAt: timestamp("last_sync_at"),
+  status: text("status").notNull().default("idle"), // idle, running, failed
+  shipmentsSynced: integer("shipments_synced").default(0).notNull(), // shipments upserted by the last sync
+  errorMessage: text("error_message"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertFbaInboundSyncStateSchema = createInsertSchema(fbaInboundSyncState).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertFbaInboundSyncState = z.infer<typeof insertFbaInboundSyncStateSchema>;
+export type FbaInboundSyncState = typeof fbaInboundSyncState.$inferSelect;
+
 // ============================================================================
 // Supplier Tracking Tables
 // ============================================================================